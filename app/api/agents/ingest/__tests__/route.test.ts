@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for /api/agents/ingest route
+ *
+ * Tests result ingestion from remote agents including:
+ * - Bearer token authentication
+ * - Rejecting disabled agents
+ * - Input validation, including bodies that are not JSON
+ * - Error handling
+ */
+
+// Mock NextResponse before importing route
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) =>
+      new Response(JSON.stringify(body), {
+        status: init?.status || 200,
+        headers: { 'Content-Type': 'application/json' },
+      }),
+  },
+}));
+
+jest.mock('@/lib/monitoring/agents', () => ({
+  findAgentByToken: jest.fn(),
+  ingestAgentResults: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+    logRequest: jest.fn(),
+  },
+}));
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { findAgentByToken, ingestAgentResults } from '@/lib/monitoring/agents';
+import { logger } from '@/lib/logger';
+
+const mockFindAgentByToken = findAgentByToken as jest.Mock;
+const mockIngestAgentResults = ingestAgentResults as jest.Mock;
+
+const agent = { id: 1, name: 'Branch office', isEnabled: true, lastResultAt: null };
+
+const result = {
+  timestamp: '2026-10-01T10:00:00.000Z',
+  isConnected: true,
+  latencyMs: 20,
+  packetLossPct: null,
+  target: '8.8.8.8',
+};
+
+const createRequest = (body: string, token: string | null = 'secret') =>
+  new Request('http://localhost/api/agents/ingest', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body,
+  }) as unknown as NextRequest;
+
+describe('POST /api/agents/ingest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindAgentByToken.mockResolvedValue(agent);
+    mockIngestAgentResults.mockResolvedValue({ accepted: 1, skipped: 0 });
+  });
+
+  it('should ingest the results of a known agent', async () => {
+    const response = await POST(createRequest(JSON.stringify({ results: [result] })));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ accepted: 1, skipped: 0 });
+    expect(mockFindAgentByToken).toHaveBeenCalledWith('secret');
+    expect(mockIngestAgentResults).toHaveBeenCalledWith(agent, [
+      { ...result, timestamp: new Date(result.timestamp) },
+    ]);
+  });
+
+  it('should return 401 without a token', async () => {
+    const response = await POST(createRequest(JSON.stringify({ results: [] }), null));
+
+    expect(response.status).toBe(401);
+    expect(mockFindAgentByToken).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 for an unknown token', async () => {
+    mockFindAgentByToken.mockResolvedValue(null);
+
+    const response = await POST(createRequest(JSON.stringify({ results: [] })));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 403 for a disabled agent', async () => {
+    mockFindAgentByToken.mockResolvedValue({ ...agent, isEnabled: false });
+
+    const response = await POST(createRequest(JSON.stringify({ results: [] })));
+
+    expect(response.status).toBe(403);
+    expect(mockIngestAgentResults).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a body that is not JSON', async () => {
+    const response = await POST(createRequest('{"results": ['));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid JSON body' });
+    expect(mockIngestAgentResults).not.toHaveBeenCalled();
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for invalid results', async () => {
+    const response = await POST(createRequest(JSON.stringify({ results: [{ ...result, latencyMs: 12.5 }] })));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual(expect.objectContaining({ error: 'Invalid input' }));
+    expect(mockIngestAgentResults).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 on database errors', async () => {
+    mockIngestAgentResults.mockRejectedValue(new Error('Database locked'));
+
+    const response = await POST(createRequest(JSON.stringify({ results: [result] })));
+
+    expect(response.status).toBe(500);
+    expect(logger.error).toHaveBeenCalledWith('POST /api/agents/ingest failed', { error: 'Database locked' });
+  });
+});
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { getErrorMessage } from '@/lib/utils';
+import { findAgentByToken, ingestAgentResults } from '@/lib/monitoring/agents';
+
+const ROUTE = '/api/agents/ingest';
+
+const IngestSchema = z.object({
+  results: z.array(z.object({
+    timestamp: z.iso.datetime().transform(value => new Date(value)),
+    isConnected: z.boolean(),
+    latencyMs: z.number().int().nonnegative().nullable(),
+    packetLossPct: z.number().min(0).max(100).nullable().optional().transform(value => value ?? null),
+    target: z.string().min(1).max(255),
+  })).max(1000),
+});
+
+/**
+ * POST /api/agents/ingest
+ * Accept check results from a remote agent
+ * Authenticated by the agent's bearer token rather than a session
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const respond = async (body: object, status: number, metadata?: Record<string, unknown>) => {
+    await logger.logRequest('POST', ROUTE, status, Date.now() - startTime, metadata);
+    return NextResponse.json(body, { status });
+  };
+
+  try {
+    const authorization = request.headers.get('authorization') ?? '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : '';
+    const agent = token ? await findAgentByToken(token) : null;
+
+    if (!agent) {
+      return respond({ error: 'Unauthorized' }, 401, { reason: 'Unknown agent token' });
+    }
+
+    if (!agent.isEnabled) {
+      return respond({ error: 'Agent is disabled' }, 403, { agent: agent.name });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return respond({ error: 'Invalid JSON body' }, 400, { agent: agent.name });
+    }
+
+    let validatedData: z.infer<typeof IngestSchema>;
+    try {
+      validatedData = IngestSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return respond({ error: 'Invalid input', details: error.issues }, 400, { agent: agent.name });
+      }
+      throw error;
+    }
+
+    const summary = await ingestAgentResults(agent, validatedData.results);
+
+    return respond(summary, 200, { agent: agent.name, ...summary });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    await logger.error(`POST ${ROUTE} failed`, { error: errorMessage });
+    return respond({ error: 'Internal server error' }, 500, { error: errorMessage });
+  }
+}
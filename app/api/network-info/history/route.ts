@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { withAuth } from '@/lib/api-utils';
+
+export const GET = withAuth(
+  async () => {
+    // Get the most recent public IP observations (last 50)
+    const changes = await prisma.publicIpChange.findMany({
+      orderBy: { timestamp: 'desc' },
+      take: 50,
+    });
+
+    return NextResponse.json({
+      changes: changes.map(change => ({
+        ...change,
+        // Empty for the first observation
+        changedFields: change.changedFields ? change.changedFields.split(',') : [],
+      })),
+    });
+  },
+  { route: '/api/network-info/history', method: 'GET' }
+);
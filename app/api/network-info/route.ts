@@ -1,25 +1,13 @@
 import { NextResponse } from 'next/server';
-import { NetworkInfo, GeoData } from '@/types/dashboard';
+import { NetworkInfo } from '@/types/dashboard';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
-
-// ip-api.com response type
-interface IpApiResponse {
-  status: 'success' | 'fail';
-  message?: string;
-  city?: string;
-  region?: string;
-  country?: string;
-  org?: string;
-  timezone?: string;
-  as?: string;
-}
+import { fetchNetworkInfo, recordPublicIp } from '@/lib/monitoring/public-ip';
 
 // Cache the network info to avoid hitting rate limits
 let cachedNetworkInfo: NetworkInfo | null = null;
 let cacheTimestamp: number = 0;
 const CACHE_DURATION_MS = parseInt(env.NETWORK_INFO_CACHE_SECONDS || '600') * 1000;
-const FETCH_TIMEOUT = 5000; // 5 seconds
 
 export async function GET() {
   const startTime = Date.now();
@@ -48,102 +36,14 @@ export async function GET() {
 
     logger.debug('Fetching fresh network info from external APIs');
 
-    // Fetch IPv4 and IPv6 addresses separately, plus geo info
-    // Using ip-api.com for geolocation (better rate limits: 45 req/min vs ipapi.co's daily limits)
-    // Note: ip-api.com free tier only supports HTTP (HTTPS requires paid plan)
-    const [ipv4Response, ipv6Response, geoResponse] = await Promise.allSettled([
-      fetch('https://api.ipify.org?format=json', {
-        cache: 'no-store',
-        signal: AbortSignal.timeout(FETCH_TIMEOUT)
-      }),
-      fetch('https://api6.ipify.org?format=json', {
-        cache: 'no-store',
-        signal: AbortSignal.timeout(FETCH_TIMEOUT)
-      }),
-      fetch('http://ip-api.com/json/?fields=status,message,city,region,country,org,timezone,as', {
-        cache: 'no-store',
-        signal: AbortSignal.timeout(FETCH_TIMEOUT)
-      })
-    ]);
-
-    let ipv4 = 'N/A';
-    let ipv6 = 'N/A';
-    let geoData: Partial<GeoData> = {};
-
-    // Get IPv4
-    if (ipv4Response.status === 'fulfilled' && ipv4Response.value.ok) {
-      const data = await ipv4Response.value.json();
-      ipv4 = data.ip || 'N/A';
-    }
-
-    // Get IPv6
-    if (ipv6Response.status === 'fulfilled' && ipv6Response.value.ok) {
-      const data = await ipv6Response.value.json();
-      ipv6 = data.ip || 'N/A';
-    }
-
-    // Get geo info from ip-api.com
-    if (geoResponse.status === 'fulfilled' && geoResponse.value.ok) {
-      const rawGeoData: IpApiResponse = await geoResponse.value.json();
-
-      // ip-api.com uses different field names, so normalize them
-      if (rawGeoData.status === 'success') {
-        geoData = {
-          city: rawGeoData.city,
-          region: rawGeoData.region, // This is the state code (e.g., "GA")
-          country_name: rawGeoData.country,
-          org: rawGeoData.org,
-          timezone: rawGeoData.timezone,
-          asn: rawGeoData.as
-        };
-        logger.debug('Geo data fetched successfully', {
-          city: geoData.city,
-          region: geoData.region,
-          country: geoData.country_name
-        });
-      } else {
-        await logger.warn('Geo API returned error', { error: rawGeoData.message });
-        if (cachedNetworkInfo) {
-          logger.debug('Using cached geo data due to API error');
-          geoData = cachedNetworkInfo;
-        }
-      }
-    } else {
-      if (geoResponse.status === 'rejected') {
-        await logger.error('Geo fetch rejected', {
-          error: geoResponse.reason instanceof Error ? geoResponse.reason.message : String(geoResponse.reason)
-        });
-      } else if (geoResponse.status === 'fulfilled' && !geoResponse.value.ok) {
-        const errorText = await geoResponse.value.text();
-        await logger.error('Geo fetch failed', {
-          status: geoResponse.value.status,
-          statusText: geoResponse.value.statusText,
-          response: errorText
-        });
-      }
-
-      if (cachedNetworkInfo) {
-        // If geo fetch fails but we have cache, use cached geo data
-        logger.debug('Geo fetch failed, using cached geo data');
-        geoData = cachedNetworkInfo;
-      }
-    }
-
-    logger.debug('Network info fetched', { ipv4, ipv6 });
-
     // Update cache
-    cachedNetworkInfo = {
-      ipv4,
-      ipv6,
-      city: geoData.city || 'Unknown',
-      region: geoData.region || 'Unknown',
-      country: geoData.country_name || 'Unknown',
-      isp: geoData.org || 'Unknown',
-      timezone: geoData.timezone || 'Unknown',
-      asn: geoData.asn || 'Unknown',
-    };
+    cachedNetworkInfo = await fetchNetworkInfo(cachedNetworkInfo);
+    const { ipv4, ipv6 } = cachedNetworkInfo;
     cacheTimestamp = now;
 
+    // Any change seen here is recorded too, alongside the scheduled checks
+    await recordPublicIp(cachedNetworkInfo);
+
     const duration = Date.now() - startTime;
     await logger.logRequest('GET', '/api/network-info', 200, duration, {
       cached: false,
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { withAuthRequest } from '@/lib/api-utils';
+import { deleteOutage, getOutageAudit, loadOutage, toOutage, updateOutage } from '@/lib/monitoring/outages';
+import {
+  MAX_OUTAGE_TAGS,
+  normalizeTags,
+  OUTAGE_ROOT_CAUSES,
+  OUTAGE_TAG_REGEX,
+} from '@/lib/utils/outage-annotations';
+import { OutageDetail, OutagePath } from '@/types/dashboard';
+
+const UpdateOutageSchema = z.object({
+  startTime: z.iso.datetime().transform(value => new Date(value)).optional(),
+  endTime: z.iso.datetime().transform(value => new Date(value)).optional(),
+  isExcluded: z.boolean().optional(),
+  rootCause: z.enum(OUTAGE_ROOT_CAUSES).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+  ispTicket: z.string().max(100).nullable().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+/**
+ * Empty text fields clear the annotation rather than storing ''
+ */
+const emptyToNull = (value: string | null | undefined) =>
+  value === undefined ? undefined : (value?.trim() || null);
+
+/**
+ * GET /api/outages/123
+ * Get an outage with the network paths captured while it lasted and its audit trail
+ */
+export const GET = withAuthRequest(
+  async (_request: NextRequest, _session, context) => {
+    const params = await context?.params;
+    const id = parseInt(params?.id ?? '', 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid outage ID' }, { status: 400 });
+    }
+
+    const outage = await prisma.outage.findUnique({
+      where: { id },
+      include: {
+        paths: { orderBy: { timestamp: 'asc' } },
+        tags: { orderBy: { id: 'asc' } },
+      },
+    });
+
+    if (!outage) {
+      return NextResponse.json({ error: 'Outage not found' }, { status: 404 });
+    }
+
+    const response: OutageDetail = {
+      ...toOutage(outage),
+      pathCount: outage.paths.length,
+      paths: outage.paths.map(path => ({
+        id: path.id,
+        timestamp: path.timestamp,
+        phase: path.phase as OutagePath['phase'],
+        target: path.target,
+        hops: JSON.parse(path.hops),
+        error: path.error,
+      })),
+      auditTrail: await getOutageAudit(id),
+    };
+
+    return NextResponse.json(response);
+  },
+  { route: '/api/outages/[id]', method: 'GET' }
+);
+
+/**
+ * PATCH /api/outages/123
+ * Edit an outage's start and end times, exclude it from statistics, or set
+ * its root cause, notes, ISP ticket number and tags
+ * Fields left out are kept; tags, when given, replace the existing ones
+ */
+export const PATCH = withAuthRequest(
+  async (request: NextRequest, session, context) => {
+    const params = await context?.params;
+    const id = parseInt(params?.id ?? '', 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid outage ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    let changes: z.infer<typeof UpdateOutageSchema>;
+    try {
+      changes = UpdateOutageSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const tags = changes.tags ? normalizeTags(changes.tags) : undefined;
+    if (tags && tags.length > MAX_OUTAGE_TAGS) {
+      return NextResponse.json(
+        { error: `An outage can have at most ${MAX_OUTAGE_TAGS} tags` },
+        { status: 400 }
+      );
+    }
+    const invalidTag = tags?.find(tag => !OUTAGE_TAG_REGEX.test(tag));
+    if (invalidTag) {
+      return NextResponse.json(
+        { error: `Invalid tag "${invalidTag}" - use up to 32 letters, digits, dashes or underscores` },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateOutage(id, {
+      ...changes,
+      notes: emptyToNull(changes.notes),
+      ispTicket: emptyToNull(changes.ispTicket),
+      tags,
+    }, session.user?.email ?? undefined);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(await loadOutage(id));
+  },
+  { route: '/api/outages/[id]', method: 'PATCH' }
+);
+
+/**
+ * DELETE /api/outages/123
+ * Delete an outage, e.g. a false positive during a container restart
+ * The deleted values stay in the audit trail
+ */
+export const DELETE = withAuthRequest(
+  async (_request: NextRequest, session, context) => {
+    const params = await context?.params;
+    const id = parseInt(params?.id ?? '', 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid outage ID' }, { status: 400 });
+    }
+
+    const result = await deleteOutage(id, session.user?.email ?? undefined);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true });
+  },
+  { route: '/api/outages/[id]', method: 'DELETE' }
+);
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuthRequest } from '@/lib/api-utils';
+import { loadOutage, splitOutage } from '@/lib/monitoring/outages';
+
+const SplitOutageSchema = z.object({
+  splitAt: z.iso.datetime().transform(value => new Date(value)),
+  resumeAt: z.iso.datetime().transform(value => new Date(value)).optional(),
+});
+
+/**
+ * POST /api/outages/123/split
+ * Split an outage in two - the first part ends at splitAt, the second starts
+ * at resumeAt (defaults to splitAt)
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session, context) => {
+    const params = await context?.params;
+    const id = parseInt(params?.id ?? '', 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid outage ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    let split: z.infer<typeof SplitOutageSchema>;
+    try {
+      split = SplitOutageSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const result = await splitOutage(id, split.splitAt, split.resumeAt, session.user?.email ?? undefined);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const outages = await Promise.all(result.outageIds.map(loadOutage));
+    return NextResponse.json({ outages });
+  },
+  { route: '/api/outages/[id]/split', method: 'POST' }
+);
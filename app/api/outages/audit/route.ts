@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-utils';
+import { getOutageAudit } from '@/lib/monitoring/outages';
+
+/**
+ * GET /api/outages/audit
+ * List recent manual changes to outages, including deleted ones
+ */
+export const GET = withAuth(
+  async () => {
+    return NextResponse.json({ entries: await getOutageAudit() });
+  },
+  { route: '/api/outages/audit', method: 'GET' }
+);
+
+export const dynamic = 'force-dynamic';
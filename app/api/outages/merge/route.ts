@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuthRequest } from '@/lib/api-utils';
+import { loadOutage, mergeOutages } from '@/lib/monitoring/outages';
+
+const MergeOutagesSchema = z.object({
+  ids: z.array(z.number().int()).min(2).max(50),
+});
+
+/**
+ * POST /api/outages/merge
+ * Merge adjacent outages into the earliest of them
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let merge: z.infer<typeof MergeOutagesSchema>;
+    try {
+      merge = MergeOutagesSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const result = await mergeOutages(merge.ids, session.user?.email ?? undefined);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(await loadOutage(result.outageIds[0]!));
+  },
+  { route: '/api/outages/merge', method: 'POST' }
+);
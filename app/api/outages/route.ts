@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { withAuthRequest } from '@/lib/api-utils';
+import { DURATION_FIELDS, toOutage } from '@/lib/monitoring/outages';
+import { getOutageDurationMode } from '@/lib/settings';
+import { normalizeTags, OUTAGE_ROOT_CAUSES, OutageRootCause } from '@/lib/utils/outage-annotations';
+import { Outage, OutageCauseSummary, OutageList } from '@/types/dashboard';
+
+/**
+ * Most outages returned by one request
+ */
+const MAX_OUTAGES = 500;
+
+/**
+ * GET /api/outages?cause=isp&tag=storm
+ * List resolved outages, newest first, with outage count and downtime per root cause
+ * Outages excluded from statistics or planned for maintenance are listed but
+ * left out of the totals, which count durations the way the statistics are
+ * set to
+ *
+ * cause is one of the root causes, or "none" for outages nobody has annotated;
+ * tag limits the list to outages carrying that tag. The totals per cause cover
+ * every outage matching the tag filter, so they can be shown next to a
+ * cause-filtered list
+ */
+export const GET = withAuthRequest(
+  async (request: NextRequest) => {
+    const { searchParams } = new URL(request.url);
+    const cause = searchParams.get('cause');
+    const tag = searchParams.get('tag');
+
+    if (cause !== null && cause !== 'none' && !OUTAGE_ROOT_CAUSES.includes(cause as OutageRootCause)) {
+      return NextResponse.json(
+        { error: `Invalid cause. Must be one of: ${OUTAGE_ROOT_CAUSES.join(', ')}, none` },
+        { status: 400 }
+      );
+    }
+
+    const normalizedTag = tag !== null ? normalizeTags([tag])[0] : undefined;
+    const tagFilter = normalizedTag
+      ? { tags: { some: { tag: normalizedTag } } }
+      : {};
+    const causeFilter = cause === null
+      ? {}
+      : { rootCause: cause === 'none' ? null : cause };
+
+    const [outages, causeTotals, durationMode] = await Promise.all([
+      prisma.outage.findMany({
+        where: { isResolved: true, ...tagFilter, ...causeFilter },
+        orderBy: { startTime: 'desc' },
+        take: MAX_OUTAGES,
+        include: {
+          tags: { orderBy: { id: 'asc' } },
+          _count: { select: { paths: true } },
+        },
+      }),
+      prisma.outage.groupBy({
+        by: ['rootCause'],
+        where: { isResolved: true, isExcluded: false, isPlanned: false, ...tagFilter },
+        _count: { _all: true },
+        _sum: { durationSec: true, conservativeDurationSec: true, estimatedDurationSec: true },
+      }),
+      getOutageDurationMode(),
+    ]);
+
+    const causes: OutageCauseSummary[] = causeTotals
+      .map(total => ({
+        rootCause: total.rootCause as Outage['rootCause'],
+        count: total._count._all,
+        totalDowntimeSec: total._sum[DURATION_FIELDS[durationMode]] ?? 0,
+      }))
+      .sort((a, b) => b.totalDowntimeSec - a.totalDowntimeSec);
+
+    const response: OutageList = {
+      outages: outages.map(toOutage),
+      causes,
+    };
+
+    return NextResponse.json(response);
+  },
+  { route: '/api/outages', method: 'GET' }
+);
+
+export const dynamic = 'force-dynamic';
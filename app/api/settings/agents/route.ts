@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { generateAgentToken, hashAgentToken } from '@/lib/monitoring/agents';
+
+const AgentSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  isEnabled: z.boolean().default(true),
+});
+
+const UpdateAgentSchema = AgentSchema.partial().extend({
+  // Issue a new token, invalidating the old one
+  regenerateToken: z.boolean().optional(),
+});
+
+// Never send token hashes to the browser
+const agentSelect = {
+  id: true,
+  name: true,
+  isEnabled: true,
+  lastSeenAt: true,
+  lastResultAt: true,
+  isStale: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * GET /api/settings/agents
+ * List all remote agents
+ */
+export const GET = withAuth(
+  async () => {
+    const agents = await prisma.agent.findMany({
+      select: agentSelect,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ agents });
+  },
+  { route: '/api/settings/agents', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/agents
+ * Create a new remote agent
+ * The response carries the agent's token - the only time it is shown
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let validatedData: z.infer<typeof AgentSchema>;
+    try {
+      validatedData = AgentSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // Check for duplicate name
+    const existing = await prisma.agent.findUnique({
+      where: { name: validatedData.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Agent already exists' },
+        { status: 400 }
+      );
+    }
+
+    const token = generateAgentToken();
+    const newAgent = await prisma.agent.create({
+      data: { ...validatedData, tokenHash: hashAgentToken(token) },
+      select: agentSelect,
+    });
+
+    // Log the addition
+    await logger.logSettings('agent_added', validatedData.name, {
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ agent: newAgent, token }, { status: 201 });
+  },
+  { route: '/api/settings/agents', method: 'POST' }
+);
+
+/**
+ * PUT /api/settings/agents
+ * Update a remote agent, optionally issuing it a new token
+ */
+export const PUT = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+    const { id, ...updates } = body;
+
+    if (!id || typeof id !== 'number') {
+      return NextResponse.json({ error: 'Invalid agent ID' }, { status: 400 });
+    }
+
+    let validatedUpdates: z.infer<typeof UpdateAgentSchema>;
+    try {
+      validatedUpdates = UpdateAgentSchema.parse(updates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const existingAgent = await prisma.agent.findUnique({
+      where: { id },
+    });
+
+    if (!existingAgent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    // If renaming, check for duplicates
+    if (validatedUpdates.name && validatedUpdates.name !== existingAgent.name) {
+      const duplicate = await prisma.agent.findUnique({
+        where: { name: validatedUpdates.name },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'Agent already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { regenerateToken, ...changes } = validatedUpdates;
+    const token = regenerateToken ? generateAgentToken() : undefined;
+
+    const updatedAgent = await prisma.agent.update({
+      where: { id },
+      data: {
+        ...changes,
+        ...(token && { tokenHash: hashAgentToken(token) }),
+      },
+      select: agentSelect,
+    });
+
+    // Log the update
+    await logger.logSettings('agent_updated', existingAgent.name, {
+      agentId: id,
+      changes,
+      tokenRegenerated: Boolean(token),
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ agent: updatedAgent, ...(token && { token }) });
+  },
+  { route: '/api/settings/agents', method: 'PUT' }
+);
+
+/**
+ * DELETE /api/settings/agents?id=123
+ * Delete a remote agent along with its checks and outages
+ */
+export const DELETE = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const { searchParams } = new URL(request.url);
+    const idParam = searchParams.get('id');
+
+    if (!idParam) {
+      return NextResponse.json({ error: 'Agent ID is required' }, { status: 400 });
+    }
+
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid agent ID' }, { status: 400 });
+    }
+
+    const agent = await prisma.agent.findUnique({
+      where: { id },
+    });
+
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    await prisma.agent.delete({
+      where: { id },
+    });
+
+    // Log the deletion
+    await logger.logSettings('agent_deleted', agent.name, {
+      agentId: id,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ success: true });
+  },
+  { route: '/api/settings/agents', method: 'DELETE' }
+);
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { DEFAULT_DEGRADATION_SETTINGS, getDegradationSettings, updateDegradationSettings } from '@/lib/settings';
+
+const DegradationSettingsSchema = z.object({
+  // Null thresholds are not checked
+  latencyThresholdMs: z.number().int().min(1).max(60000).nullable(),
+  packetLossThresholdPct: z.number().gt(0).lt(100).nullable(),
+  windowChecks: z.number().int().min(1).max(60),
+  notify: z.boolean(),
+});
+
+/**
+ * GET /api/settings/degradation
+ * Returns the current degraded connection settings and defaults
+ */
+export const GET = withAuth(
+  async () => {
+    const current = await getDegradationSettings();
+
+    return NextResponse.json({
+      current,
+      defaults: DEFAULT_DEGRADATION_SETTINGS,
+    });
+  },
+  { route: '/api/settings/degradation', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/degradation
+ * Updates the degraded connection settings
+ * Takes effect on the next check cycle, so monitoring is not restarted
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let degradation: z.infer<typeof DegradationSettingsSchema>;
+    try {
+      degradation = DegradationSettingsSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    await updateDegradationSettings(degradation);
+
+    await logger.info('Degradation settings updated', {
+      ...degradation,
+      email: session.user?.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Degradation settings updated successfully',
+      degradation
+    });
+  },
+  { route: '/api/settings/degradation', method: 'POST' }
+);
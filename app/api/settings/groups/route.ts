@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { GROUP_RULES } from '@/lib/monitoring/target-groups';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+
+const GroupSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  rule: z.enum(GROUP_RULES).default('any'),
+  quorum: z.number().int().min(1).max(100).nullable().optional(),
+  notify: z.boolean().default(true),
+  notifyEmail: z.email().nullable().optional(),
+});
+
+const UpdateGroupSchema = GroupSchema.partial();
+
+/**
+ * GET /api/settings/groups
+ * List all target groups with their member targets
+ */
+export const GET = withAuth(
+  async () => {
+    const groups = await prisma.targetGroup.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        targets: {
+          select: { id: true, displayName: true, isEnabled: true },
+          orderBy: { priority: 'asc' },
+        },
+      },
+    });
+
+    return NextResponse.json({ groups });
+  },
+  { route: '/api/settings/groups', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/groups
+ * Create a new target group
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let validatedData: z.infer<typeof GroupSchema>;
+    try {
+      validatedData = GroupSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (validatedData.rule === 'quorum' && !validatedData.quorum) {
+      return NextResponse.json(
+        { error: 'The quorum rule requires a quorum' },
+        { status: 400 }
+      );
+    }
+
+    // Check for duplicate name
+    const existing = await prisma.targetGroup.findUnique({
+      where: { name: validatedData.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Group already exists' },
+        { status: 400 }
+      );
+    }
+
+    const newGroup = await prisma.targetGroup.create({
+      data: validatedData,
+    });
+
+    // Log the addition
+    await logger.logSettings('group_added', validatedData.name, {
+      rule: validatedData.rule,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ group: newGroup }, { status: 201 });
+  },
+  { route: '/api/settings/groups', method: 'POST' }
+);
+
+/**
+ * PUT /api/settings/groups
+ * Update a target group
+ */
+export const PUT = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+    const { id, ...updates } = body;
+
+    if (!id || typeof id !== 'number') {
+      return NextResponse.json({ error: 'Invalid group ID' }, { status: 400 });
+    }
+
+    let validatedUpdates: z.infer<typeof UpdateGroupSchema>;
+    try {
+      validatedUpdates = UpdateGroupSchema.parse(updates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const existingGroup = await prisma.targetGroup.findUnique({
+      where: { id },
+    });
+
+    if (!existingGroup) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const rule = validatedUpdates.rule ?? existingGroup.rule;
+    const quorum = validatedUpdates.quorum !== undefined
+      ? validatedUpdates.quorum
+      : existingGroup.quorum;
+
+    if (rule === 'quorum' && !quorum) {
+      return NextResponse.json(
+        { error: 'The quorum rule requires a quorum' },
+        { status: 400 }
+      );
+    }
+
+    // If renaming, check for duplicates
+    if (validatedUpdates.name && validatedUpdates.name !== existingGroup.name) {
+      const duplicate = await prisma.targetGroup.findUnique({
+        where: { name: validatedUpdates.name },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'Group already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedGroup = await prisma.targetGroup.update({
+      where: { id },
+      data: validatedUpdates,
+    });
+
+    // Log the update
+    await logger.logSettings('group_updated', existingGroup.name, {
+      groupId: id,
+      changes: validatedUpdates,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ group: updatedGroup });
+  },
+  { route: '/api/settings/groups', method: 'PUT' }
+);
+
+/**
+ * DELETE /api/settings/groups?id=123
+ * Delete a target group - its targets are kept, ungrouped
+ */
+export const DELETE = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const { searchParams } = new URL(request.url);
+    const idParam = searchParams.get('id');
+
+    if (!idParam) {
+      return NextResponse.json({ error: 'Group ID is required' }, { status: 400 });
+    }
+
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid group ID' }, { status: 400 });
+    }
+
+    const group = await prisma.targetGroup.findUnique({
+      where: { id },
+    });
+
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    await prisma.targetGroup.delete({
+      where: { id },
+    });
+
+    // Log the deletion
+    await logger.logSettings('group_deleted', group.name, {
+      groupId: id,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ success: true });
+  },
+  { route: '/api/settings/groups', method: 'DELETE' }
+);
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { DEFAULT_INTERCEPTION_SETTINGS, getInterceptionSettings, updateInterceptionSettings } from '@/lib/settings';
+import { isValidCidr } from '@/lib/utils/shell';
+import { isUrlTargetType, validateTarget } from '@/lib/utils/target-validation';
+
+const InterceptionSettingsSchema = z.object({
+  enabled: z.boolean(),
+  checkUrl: z.string().trim().max(2048).refine(url => {
+    const result = validateTarget(url);
+    return result.valid && isUrlTargetType(result.suggestedType);
+  }, 'Check URL must be an http:// or https:// URL'),
+  expectedStatus: z.number().int().min(100).max(599),
+  // Null checks the status only
+  bodyMatch: z.string().min(1).max(200).nullable(),
+  dnsChecks: z.array(z.object({
+    hostname: z.string().trim().refine(hostname => {
+      const result = validateTarget(hostname);
+      return result.valid && result.suggestedType === 'domain';
+    }, 'Invalid hostname'),
+    ranges: z.array(z.string().trim().refine(isValidCidr, 'Ranges must be in CIDR notation, e.g. 8.8.8.0/24'))
+      .min(1)
+      .max(10),
+  })).max(10),
+});
+
+/**
+ * GET /api/settings/interception
+ * Returns the current interception detection settings and defaults
+ */
+export const GET = withAuth(
+  async () => {
+    const current = await getInterceptionSettings();
+
+    return NextResponse.json({
+      current,
+      defaults: DEFAULT_INTERCEPTION_SETTINGS,
+    });
+  },
+  { route: '/api/settings/interception', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/interception
+ * Updates the interception detection settings
+ * Takes effect on the next check cycle, so monitoring is not restarted
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let interception: z.infer<typeof InterceptionSettingsSchema>;
+    try {
+      interception = InterceptionSettingsSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    await updateInterceptionSettings(interception);
+
+    await logger.info('Interception settings updated', {
+      ...interception,
+      email: session.user?.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Interception settings updated successfully',
+      interception
+    });
+  },
+  { route: '/api/settings/interception', method: 'POST' }
+);
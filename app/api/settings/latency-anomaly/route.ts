@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { DEFAULT_LATENCY_ANOMALY_SETTINGS, getLatencyAnomalySettings, updateLatencyAnomalySettings } from '@/lib/settings';
+
+const LatencyAnomalySettingsSchema = z.object({
+  enabled: z.boolean(),
+  zScoreThreshold: z.number().min(1).max(10),
+  windowChecks: z.number().int().min(1).max(60),
+  baselineDays: z.number().int().min(3).max(90),
+  notify: z.boolean(),
+});
+
+/**
+ * GET /api/settings/latency-anomaly
+ * Returns the current latency anomaly detection settings and defaults
+ */
+export const GET = withAuth(
+  async () => {
+    const current = await getLatencyAnomalySettings();
+
+    return NextResponse.json({
+      current,
+      defaults: DEFAULT_LATENCY_ANOMALY_SETTINGS,
+    });
+  },
+  { route: '/api/settings/latency-anomaly', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/latency-anomaly
+ * Updates the latency anomaly detection settings
+ * Read on every detection run, so monitoring is not restarted
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let anomaly: z.infer<typeof LatencyAnomalySettingsSchema>;
+    try {
+      anomaly = LatencyAnomalySettingsSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    await updateLatencyAnomalySettings(anomaly);
+
+    await logger.info('Latency anomaly settings updated', {
+      ...anomaly,
+      email: session.user?.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Latency anomaly settings updated successfully',
+      anomaly
+    });
+  },
+  { route: '/api/settings/latency-anomaly', method: 'POST' }
+);
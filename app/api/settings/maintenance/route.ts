@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { MAINTENANCE_RECURRENCES } from '@/lib/monitoring/maintenance';
+
+const MaintenanceWindowSchema = z.object({
+  description: z.string().trim().min(1, 'Description is required').max(200),
+  startTime: z.iso.datetime().transform(value => new Date(value)),
+  durationMin: z.number().int().min(1).max(7 * 24 * 60),
+  recurrence: z.enum(MAINTENANCE_RECURRENCES).optional(),
+  repeatUntil: z.iso.datetime().transform(value => new Date(value)).nullable().optional(),
+  targetId: z.number().int().positive().nullable().optional(),
+  groupId: z.number().int().positive().nullable().optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+const UpdateMaintenanceWindowSchema = MaintenanceWindowSchema.partial();
+
+/**
+ * Longest occurrence for each recurrence - occurrences must not overlap
+ */
+const MAX_DURATION_MIN: Record<string, number> = {
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+};
+
+/**
+ * Check a window as it would be saved
+ * Returns the error to report, or null when it is valid
+ */
+async function validateWindow(maintenanceWindow: {
+  startTime: Date;
+  durationMin: number;
+  recurrence?: string;
+  repeatUntil?: Date | null;
+  targetId?: number | null;
+  groupId?: number | null;
+}): Promise<string | null> {
+  if (maintenanceWindow.targetId && maintenanceWindow.groupId) {
+    return 'A maintenance window can cover a target or a group, not both';
+  }
+
+  const recurrence = maintenanceWindow.recurrence ?? 'none';
+  if (maintenanceWindow.durationMin > (MAX_DURATION_MIN[recurrence] ?? Infinity)) {
+    return `A ${recurrence} maintenance window cannot last longer than it takes to repeat`;
+  }
+
+  if (maintenanceWindow.repeatUntil && maintenanceWindow.repeatUntil <= maintenanceWindow.startTime) {
+    return 'The repeat end date must be after the start time';
+  }
+
+  if (maintenanceWindow.targetId) {
+    const target = await prisma.monitoringTarget.findUnique({ where: { id: maintenanceWindow.targetId } });
+    if (!target) {
+      return 'Monitoring target not found';
+    }
+  }
+
+  if (maintenanceWindow.groupId) {
+    const group = await prisma.targetGroup.findUnique({ where: { id: maintenanceWindow.groupId } });
+    if (!group) {
+      return 'Target group not found';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/settings/maintenance
+ * List all maintenance windows, with the targets and groups a window can cover
+ */
+export const GET = withAuth(
+  async () => {
+    const [windows, targets, groups] = await Promise.all([
+      prisma.maintenanceWindow.findMany({
+        orderBy: { startTime: 'asc' },
+      }),
+      prisma.monitoringTarget.findMany({
+        orderBy: { displayName: 'asc' },
+        select: { id: true, displayName: true },
+      }),
+      prisma.targetGroup.findMany({
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return NextResponse.json({ windows, targets, groups });
+  },
+  { route: '/api/settings/maintenance', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/maintenance
+ * Create a new maintenance window
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let validatedData: z.infer<typeof MaintenanceWindowSchema>;
+    try {
+      validatedData = MaintenanceWindowSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const invalid = await validateWindow(validatedData);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const newWindow = await prisma.maintenanceWindow.create({
+      data: validatedData,
+    });
+
+    // Log the addition
+    await logger.logSettings('maintenance_added', validatedData.description, {
+      maintenanceWindowId: newWindow.id,
+      startTime: newWindow.startTime.toISOString(),
+      durationMin: newWindow.durationMin,
+      recurrence: newWindow.recurrence,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ window: newWindow }, { status: 201 });
+  },
+  { route: '/api/settings/maintenance', method: 'POST' }
+);
+
+/**
+ * PUT /api/settings/maintenance
+ * Update a maintenance window
+ */
+export const PUT = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+    const { id, ...updates } = body;
+
+    if (!id || typeof id !== 'number') {
+      return NextResponse.json({ error: 'Invalid maintenance window ID' }, { status: 400 });
+    }
+
+    let validatedUpdates: z.infer<typeof UpdateMaintenanceWindowSchema>;
+    try {
+      validatedUpdates = UpdateMaintenanceWindowSchema.parse(updates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const existingWindow = await prisma.maintenanceWindow.findUnique({
+      where: { id },
+    });
+
+    if (!existingWindow) {
+      return NextResponse.json({ error: 'Maintenance window not found' }, { status: 404 });
+    }
+
+    const invalid = await validateWindow({ ...existingWindow, ...validatedUpdates });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const updatedWindow = await prisma.maintenanceWindow.update({
+      where: { id },
+      data: validatedUpdates,
+    });
+
+    // Log the update
+    await logger.logSettings('maintenance_updated', updatedWindow.description, {
+      maintenanceWindowId: id,
+      changes: validatedUpdates,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ window: updatedWindow });
+  },
+  { route: '/api/settings/maintenance', method: 'PUT' }
+);
+
+/**
+ * DELETE /api/settings/maintenance?id=123
+ * Delete a maintenance window - outages already flagged as planned stay so
+ */
+export const DELETE = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const { searchParams } = new URL(request.url);
+    const idParam = searchParams.get('id');
+
+    if (!idParam) {
+      return NextResponse.json({ error: 'Maintenance window ID is required' }, { status: 400 });
+    }
+
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid maintenance window ID' }, { status: 400 });
+    }
+
+    const existingWindow = await prisma.maintenanceWindow.findUnique({
+      where: { id },
+    });
+
+    if (!existingWindow) {
+      return NextResponse.json({ error: 'Maintenance window not found' }, { status: 404 });
+    }
+
+    await prisma.maintenanceWindow.delete({
+      where: { id },
+    });
+
+    // Log the deletion
+    await logger.logSettings('maintenance_deleted', existingWindow.description, {
+      maintenanceWindowId: id,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ success: true });
+  },
+  { route: '/api/settings/maintenance', method: 'DELETE' }
+);
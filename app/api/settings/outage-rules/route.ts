@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import {
+  DEFAULT_OUTAGE_DURATION_MODE,
+  DEFAULT_OUTAGE_THRESHOLDS,
+  getOutageDurationMode,
+  getOutageThresholds,
+  OUTAGE_DURATION_MODES,
+  updateOutageDurationMode,
+  updateOutageThresholds
+} from '@/lib/settings';
+
+const OutageThresholdsSchema = z.object({
+  failureThreshold: z.number().int().min(1).max(20),
+  recoveryThreshold: z.number().int().min(1).max(20),
+  // Null when a cycle only fails once every target has failed
+  minFailedTargets: z.number().int().min(1).nullable(),
+  // How outage durations are counted in the statistics - kept when left out
+  durationMode: z.enum(OUTAGE_DURATION_MODES).optional(),
+});
+
+/**
+ * GET /api/settings/outage-rules
+ * Returns the current outage confirmation thresholds and duration mode, and defaults
+ */
+export const GET = withAuth(
+  async () => {
+    const [thresholds, durationMode] = await Promise.all([
+      getOutageThresholds(),
+      getOutageDurationMode(),
+    ]);
+
+    return NextResponse.json({
+      current: { ...thresholds, durationMode },
+      defaults: { ...DEFAULT_OUTAGE_THRESHOLDS, durationMode: DEFAULT_OUTAGE_DURATION_MODE },
+    });
+  },
+  { route: '/api/settings/outage-rules', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/outage-rules
+ * Updates the outage confirmation thresholds and duration mode
+ * Takes effect on the next check cycle, so monitoring is not restarted
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let rules: z.infer<typeof OutageThresholdsSchema>;
+    try {
+      rules = OutageThresholdsSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const { durationMode, ...thresholds } = rules;
+    await updateOutageThresholds(thresholds);
+    if (durationMode) {
+      await updateOutageDurationMode(durationMode);
+    }
+
+    await logger.info('Outage thresholds updated', {
+      ...rules,
+      email: session.user?.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Outage thresholds updated successfully',
+      thresholds: rules
+    });
+  },
+  { route: '/api/settings/outage-rules', method: 'POST' }
+);
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { DEFAULT_PATH_MTU_SETTINGS, getPathMtuSettings, updatePathMtuSettings } from '@/lib/settings';
+import { validateTarget } from '@/lib/utils/target-validation';
+
+const PathMtuSettingsSchema = z.object({
+  enabled: z.boolean(),
+  targets: z.array(z.string().trim().refine(target => {
+    const result = validateTarget(target);
+    return result.valid && (result.suggestedType === 'ip' || result.suggestedType === 'domain');
+  }, 'Targets must be IP addresses or hostnames')).min(1).max(5),
+  intervalSeconds: z.number().int().min(300).max(86400),
+  // Null only records the MTU
+  alertBelow: z.number().int().min(576).max(9000).nullable(),
+});
+
+/**
+ * GET /api/settings/path-mtu
+ * Returns the current path MTU discovery settings and defaults
+ */
+export const GET = withAuth(
+  async () => {
+    const current = await getPathMtuSettings();
+
+    return NextResponse.json({
+      current,
+      defaults: DEFAULT_PATH_MTU_SETTINGS,
+    });
+  },
+  { route: '/api/settings/path-mtu', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/path-mtu
+ * Updates the path MTU discovery settings
+ * The scheduler reads them every minute, so monitoring is not restarted
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let pathMtu: z.infer<typeof PathMtuSettingsSchema>;
+    try {
+      pathMtu = PathMtuSettingsSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    await updatePathMtuSettings(pathMtu);
+
+    await logger.info('Path MTU settings updated', {
+      ...pathMtu,
+      email: session.user?.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Path MTU settings updated successfully',
+      pathMtu
+    });
+  },
+  { route: '/api/settings/path-mtu', method: 'POST' }
+);
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+import { DEFAULT_PROBE_SETTINGS, getProbeSettings, updateProbeSettings } from '@/lib/settings';
+import { isValidIPv4, isValidIPv6 } from '@/lib/utils/shell';
+
+const ProbeSettingsSchema = z.object({
+  probeAllTargets: z.boolean(),
+  probeConcurrency: z.number().int().min(1).max(20),
+  probeTimeoutMs: z.number().int().min(1000).max(30000),
+  // Null detects the default gateway automatically
+  gatewayTarget: z.string().trim()
+    .refine(ip => isValidIPv4(ip) || isValidIPv6(ip), 'Gateway must be an IP address')
+    .nullable()
+    .default(null),
+});
+
+/**
+ * GET /api/settings/probing
+ * Returns the current probe strategy and defaults
+ */
+export const GET = withAuth(
+  async () => {
+    const current = await getProbeSettings();
+
+    return NextResponse.json({
+      current,
+      defaults: DEFAULT_PROBE_SETTINGS,
+    });
+  },
+  { route: '/api/settings/probing', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/probing
+ * Updates the probe strategy
+ * Takes effect on the next check cycle, so monitoring is not restarted
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let probeSettings: z.infer<typeof ProbeSettingsSchema>;
+    try {
+      probeSettings = ProbeSettingsSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    await updateProbeSettings(probeSettings);
+
+    await logger.info('Probe settings updated', {
+      ...probeSettings,
+      email: session.user?.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Probe settings updated successfully',
+      probeSettings
+    });
+  },
+  { route: '/api/settings/probing', method: 'POST' }
+);
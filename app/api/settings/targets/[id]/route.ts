@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { withAuthRequest } from '@/lib/api-utils';
+import { calculateAvailability } from '@/lib/monitoring/target-incidents';
+import { TargetDetail, TargetLatencyPoint } from '@/types/dashboard';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Incidents listed on the target page
+ */
+const MAX_INCIDENTS = 50;
+
+/**
+ * Average successful check latency per hour over the last day
+ * Hours without a successful check are kept, with a null average, so gaps show
+ */
+function getHourlyLatency(
+  checks: Array<{ timestamp: Date; latencyMs: number | null }>,
+  windowStart: Date
+): TargetLatencyPoint[] {
+  const buckets = Array.from({ length: DAY_MS / HOUR_MS }, (_, index) => ({
+    timestamp: new Date(windowStart.getTime() + index * HOUR_MS),
+    total: 0,
+    checks: 0,
+  }));
+
+  for (const check of checks) {
+    const bucket = buckets[Math.floor((check.timestamp.getTime() - windowStart.getTime()) / HOUR_MS)];
+    if (!bucket || check.latencyMs === null) continue;
+    bucket.total += check.latencyMs;
+    bucket.checks++;
+  }
+
+  return buckets.map(bucket => ({
+    timestamp: bucket.timestamp,
+    avgLatencyMs: bucket.checks > 0 ? Math.round((bucket.total / bucket.checks) * 100) / 100 : null,
+    checks: bucket.checks,
+  }));
+}
+
+/**
+ * Availability over a window, counted from when the target was added
+ */
+function getAvailability(
+  incidents: Array<{ startTime: Date; endTime: Date | null }>,
+  createdAt: Date,
+  windowMs: number,
+  now: Date
+): number | null {
+  const windowStart = new Date(Math.max(now.getTime() - windowMs, createdAt.getTime()));
+  return calculateAvailability(incidents, windowStart, now);
+}
+
+/**
+ * GET /api/settings/targets/123
+ * Get a monitoring target's availability, latency trend and incidents
+ */
+export const GET = withAuthRequest(
+  async (_request: NextRequest, _session, context) => {
+    const params = await context?.params;
+    const id = parseInt(params?.id ?? '', 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid target ID' }, { status: 400 });
+    }
+
+    const target = await prisma.monitoringTarget.findUnique({
+      where: { id },
+    });
+
+    if (!target) {
+      return NextResponse.json({ error: 'Target not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+    const latencyStart = new Date(Math.floor((now.getTime() - DAY_MS) / HOUR_MS) * HOUR_MS + HOUR_MS);
+
+    const [incidents, weekIncidents, checks] = await Promise.all([
+      prisma.targetIncident.findMany({
+        where: { targetId: id },
+        orderBy: { startTime: 'desc' },
+        take: MAX_INCIDENTS,
+      }),
+      // Incidents overlapping the last week, including one still open
+      prisma.targetIncident.findMany({
+        where: {
+          targetId: id,
+          OR: [
+            { endTime: null },
+            { endTime: { gte: new Date(now.getTime() - 7 * DAY_MS) } }
+          ]
+        },
+        select: { startTime: true, endTime: true },
+      }),
+      // Checks are stored by target string, so history follows the current address
+      prisma.connectionCheck.findMany({
+        where: {
+          target: target.target,
+          isConnected: true,
+          timestamp: { gte: latencyStart },
+        },
+        select: { timestamp: true, latencyMs: true },
+      }),
+    ]);
+
+    const response: TargetDetail = {
+      target: {
+        id: target.id,
+        target: target.target,
+        displayName: target.displayName,
+        type: target.type,
+        isEnabled: target.isEnabled,
+        addressFamily: target.addressFamily === 'ipv6' ? 'ipv6' : 'ipv4',
+      },
+      availability24h: getAvailability(weekIncidents, target.createdAt, DAY_MS, now),
+      availability7d: getAvailability(weekIncidents, target.createdAt, 7 * DAY_MS, now),
+      latencyTrend: getHourlyLatency(checks, latencyStart),
+      incidents: incidents.map(incident => ({
+        id: incident.id,
+        startTime: incident.startTime,
+        endTime: incident.endTime,
+        durationSec: incident.durationSec,
+        isResolved: incident.isResolved,
+        checksCount: incident.checksCount,
+        lastError: incident.lastError,
+      })),
+    };
+
+    return NextResponse.json(response);
+  },
+  { route: '/api/settings/targets/[id]', method: 'GET' }
+);
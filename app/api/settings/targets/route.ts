@@ -2,19 +2,50 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { logger } from '@/lib/logger';
 import { z } from 'zod';
-import { isValidIPv4 } from '@/lib/utils/shell';
+import {
+  ADDRESS_FAMILIES,
+  DNS_RECORD_TYPES,
+  getTargetAddressFamily,
+  TARGET_TYPES,
+  TargetType,
+  validateTarget,
+} from '@/lib/utils/target-validation';
 import { withAuth, withAuthRequest } from '@/lib/api-utils';
 
 const TargetSchema = z.object({
   target: z.string().min(1, 'Target is required'),
   displayName: z.string().min(1, 'Display name is required'),
-  type: z.enum(['dns', 'domain', 'ip']),
+  type: z.enum(TARGET_TYPES),
   priority: z.number().int().min(1).default(100),
   isEnabled: z.boolean().default(true),
+  addressFamily: z.enum(ADDRESS_FAMILIES).optional(),
+  httpMethod: z.enum(['GET', 'HEAD']).nullable().optional(),
+  expectedStatus: z.number().int().min(100).max(599).nullable().optional(),
+  bodyMatch: z.string().max(1000).nullable().optional(),
+  dnsQueryName: z.string().max(253).nullable().optional(),
+  dnsRecordType: z.enum(DNS_RECORD_TYPES).nullable().optional(),
+  pingCount: z.number().int().min(1).max(20).nullable().optional(),
+  pingIntervalMs: z.number().int().min(200).max(10000).nullable().optional(),
+  checkIntervalSeconds: z.number().int().min(10).max(3600).nullable().optional(),
+  timeoutMs: z.number().int().min(1000).max(60000).nullable().optional(),
+  retries: z.number().int().min(0).max(5).nullable().optional(),
+  groupId: z.number().int().nullable().optional(),
 });
 
 const UpdateTargetSchema = TargetSchema.partial();
 
+/**
+ * Whether a target group exists - a null or missing group leaves the target ungrouped
+ */
+async function groupExists(groupId: number | null | undefined): Promise<boolean> {
+  if (groupId === null || groupId === undefined) {
+    return true;
+  }
+
+  const group = await prisma.targetGroup.findUnique({ where: { id: groupId } });
+  return group !== null;
+}
+
 /**
  * GET /api/settings/targets
  * List all monitoring targets
@@ -51,25 +82,21 @@ export const POST = withAuthRequest(
       throw error;
     }
 
-    // Validate target format
-    const target = validatedData.target;
-    const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-    const looksLikeMalformedIP = /^[\d.]+$/.test(target) && !isValidIPv4(target);
-    const isValidIP = isValidIPv4(target);
-    const isValidDomain = !isValidIP && !looksLikeMalformedIP && domainRegex.test(target);
+    // Validate target format against its type
+    const validation = validateTarget(validatedData.target, validatedData.type);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
 
-    if (looksLikeMalformedIP) {
+    if (validatedData.httpMethod === 'HEAD' && validatedData.bodyMatch) {
       return NextResponse.json(
-        { error: 'Invalid IP address format. Must have exactly 4 octets (0-255) separated by dots.' },
+        { error: 'Body matching requires the GET method' },
         { status: 400 }
       );
     }
 
-    if (!isValidIP && !isValidDomain) {
-      return NextResponse.json(
-        { error: 'Invalid target format. Must be a valid IP address or domain name.' },
-        { status: 400 }
-      );
+    if (!(await groupExists(validatedData.groupId))) {
+      return NextResponse.json({ error: 'Target group not found' }, { status: 400 });
     }
 
     // Check for duplicate target
@@ -84,14 +111,20 @@ export const POST = withAuthRequest(
       );
     }
 
+    // IP literals are always monitored over their own family
+    const addressFamily = getTargetAddressFamily(validatedData.target)
+      ?? validatedData.addressFamily
+      ?? 'ipv4';
+
     const newTarget = await prisma.monitoringTarget.create({
-      data: validatedData,
+      data: { ...validatedData, addressFamily },
     });
 
     // Log the addition
     await logger.logSettings('target_added', validatedData.displayName, {
       target: validatedData.target,
       type: validatedData.type,
+      addressFamily,
       userEmail: session.user?.email,
     });
 
@@ -126,29 +159,6 @@ export const PUT = withAuthRequest(
       throw error;
     }
 
-    // Validate target format if being updated
-    if (validatedUpdates.target) {
-      const target = validatedUpdates.target;
-      const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-      const looksLikeMalformedIP = /^[\d.]+$/.test(target) && !isValidIPv4(target);
-      const isValidIP = isValidIPv4(target);
-      const isValidDomain = !isValidIP && !looksLikeMalformedIP && domainRegex.test(target);
-
-      if (looksLikeMalformedIP) {
-        return NextResponse.json(
-          { error: 'Invalid IP address format. Must have exactly 4 octets (0-255) separated by dots.' },
-          { status: 400 }
-        );
-      }
-
-      if (!isValidIP && !isValidDomain) {
-        return NextResponse.json(
-          { error: 'Invalid target format. Must be a valid IP address or domain name.' },
-          { status: 400 }
-        );
-      }
-    }
-
     // Get existing target for logging
     const existingTarget = await prisma.monitoringTarget.findUnique({
       where: { id },
@@ -158,6 +168,35 @@ export const PUT = withAuthRequest(
       return NextResponse.json({ error: 'Target not found' }, { status: 404 });
     }
 
+    // Validate target format if the target or its type is being updated
+    if (validatedUpdates.target || validatedUpdates.type) {
+      const validation = validateTarget(
+        validatedUpdates.target ?? existingTarget.target,
+        validatedUpdates.type ?? (existingTarget.type as TargetType)
+      );
+      if (!validation.valid) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+      }
+    }
+
+    const httpMethod = validatedUpdates.httpMethod !== undefined
+      ? validatedUpdates.httpMethod
+      : existingTarget.httpMethod;
+    const bodyMatch = validatedUpdates.bodyMatch !== undefined
+      ? validatedUpdates.bodyMatch
+      : existingTarget.bodyMatch;
+
+    if (httpMethod === 'HEAD' && bodyMatch) {
+      return NextResponse.json(
+        { error: 'Body matching requires the GET method' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await groupExists(validatedUpdates.groupId))) {
+      return NextResponse.json({ error: 'Target group not found' }, { status: 400 });
+    }
+
     // If changing target value, check for duplicates
     if (validatedUpdates.target && validatedUpdates.target !== existingTarget.target) {
       const duplicate = await prisma.monitoringTarget.findUnique({
@@ -172,6 +211,14 @@ export const PUT = withAuthRequest(
       }
     }
 
+    // IP literals are always monitored over their own family
+    if (validatedUpdates.target || validatedUpdates.addressFamily) {
+      const impliedFamily = getTargetAddressFamily(validatedUpdates.target ?? existingTarget.target);
+      if (impliedFamily) {
+        validatedUpdates.addressFamily = impliedFamily;
+      }
+    }
+
     const updatedTarget = await prisma.monitoringTarget.update({
       where: { id },
       data: validatedUpdates,
@@ -1,24 +1,112 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { safePing, isValidIPv4 } from '@/lib/utils/shell';
+import { safePing } from '@/lib/utils/shell';
+import {
+  ADDRESS_FAMILIES,
+  AddressFamily,
+  DNS_RECORD_TYPES,
+  getTargetAddressFamily,
+  isUrlTargetType,
+  parseHostPort,
+  TARGET_TYPES,
+  TargetType,
+  validateTarget,
+} from '@/lib/utils/target-validation';
+import { parsePingOutput } from '@/lib/monitoring/ping-stats';
+import { dnsProbe, httpProbe, ProbeResult, tcpProbe } from '@/lib/monitoring/probes';
 import { withAuthRequest } from '@/lib/api-utils';
 
 const ValidateSchema = z.object({
   target: z.string().min(1, 'Target is required'),
+  type: z.enum(TARGET_TYPES).optional(),
+  addressFamily: z.enum(ADDRESS_FAMILIES).optional(),
+  httpMethod: z.enum(['GET', 'HEAD']).nullable().optional(),
+  expectedStatus: z.number().int().min(100).max(599).nullable().optional(),
+  bodyMatch: z.string().max(1000).nullable().optional(),
+  dnsQueryName: z.string().max(253).nullable().optional(),
+  dnsRecordType: z.enum(DNS_RECORD_TYPES).nullable().optional(),
 });
 
+type ValidateInput = z.infer<typeof ValidateSchema>;
+
+interface ValidationProbe {
+  suggestedType: TargetType;
+  result: ProbeResult;
+  /** Shown when the target is valid but did not pass the probe */
+  warning: string;
+}
+
+/**
+ * Run the same probe the monitor would use for a validated target
+ */
+async function probeTarget(
+  input: ValidateInput,
+  type: TargetType,
+  addressFamily: AddressFamily
+): Promise<ValidationProbe> {
+  const { target, httpMethod, expectedStatus, bodyMatch, dnsQueryName, dnsRecordType } = input;
+
+  // URL targets are checked with an HTTP request
+  if (isUrlTargetType(type)) {
+    const result = await httpProbe(target, {
+      method: httpMethod ?? 'GET',
+      expectedStatus,
+      bodyMatch,
+      family: addressFamily,
+    });
+    return {
+      suggestedType: type,
+      result,
+      warning: `Target did not pass the HTTP check (${result.error}). You can still add it.`,
+    };
+  }
+
+  // Resolver IPs selected as dns targets are checked with a real query
+  if (input.type === 'dns' && type === 'ip') {
+    const result = await dnsProbe(target, { queryName: dnsQueryName, recordType: dnsRecordType });
+    return {
+      suggestedType: 'dns',
+      result,
+      warning: `Resolver did not answer the query (${result.error}). You can still add it.`,
+    };
+  }
+
+  // host:port targets are checked with a TCP connect
+  const hostPort = type === 'tcp' ? parseHostPort(target) : null;
+  if (hostPort) {
+    const result = await tcpProbe(hostPort.host, hostPort.port, { family: addressFamily });
+    return {
+      suggestedType: type,
+      result,
+      warning: `Could not connect to ${target} (${result.error}). You can still add it.`,
+    };
+  }
+
+  const warning = 'Target is not currently reachable via ping. You can still add it.';
+
+  // Attempt to ping the target using safe ping (prevents command injection)
+  try {
+    const { stdout } = await safePing(target, { family: addressFamily });
+    const { latencyMs } = parsePingOutput(stdout);
+
+    return { suggestedType: type, result: { isConnected: true, latencyMs }, warning };
+  } catch {
+    // Target format is valid but unreachable
+    return { suggestedType: type, result: { isConnected: false, latencyMs: null }, warning };
+  }
+}
+
 /**
  * POST /api/settings/targets/validate
- * Validate a target by attempting to ping it
+ * Validate a target by attempting to ping it (or request it, for URLs)
  */
 export const POST = withAuthRequest(
   async (request: NextRequest) => {
     const body = await request.json();
 
-    let target: string;
+    let parsed: ValidateInput;
     try {
-      const parsed = ValidateSchema.parse(body);
-      target = parsed.target;
+      parsed = ValidateSchema.parse(body);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return NextResponse.json(
@@ -29,61 +117,39 @@ export const POST = withAuthRequest(
       throw error;
     }
 
-    // Validate format using proper IP validation (checks 0-255 octets)
-    const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-
-    // Detect malformed IP addresses (all digits and dots but wrong format)
-    const looksLikeMalformedIP = /^[\d.]+$/.test(target) && !isValidIPv4(target);
+    const { target } = parsed;
 
-    const isValidIP = isValidIPv4(target);
-    const isValidDomain = !isValidIP && !looksLikeMalformedIP && domainRegex.test(target);
-
-    if (looksLikeMalformedIP) {
-      return NextResponse.json(
-        {
-          valid: false,
-          error: 'Invalid IP address format. Must have exactly 4 octets (0-255) separated by dots.',
-        },
-        { status: 400 }
-      );
-    }
-
-    if (!isValidIP && !isValidDomain) {
+    const validation = validateTarget(target);
+    if (!validation.valid) {
       return NextResponse.json(
-        {
-          valid: false,
-          error: 'Invalid target format. Must be a valid IP address or domain name.',
-        },
+        { valid: false, error: validation.error },
         { status: 400 }
       );
     }
 
-    // Attempt to ping the target using safe ping (prevents command injection)
-    try {
-      const { stdout } = await safePing(target);
-
-      // Parse latency from ping output
-      const match = stdout.match(/time=(\d+\.?\d*)/);
-      const latencyMs = match?.[1] ? parseFloat(match[1]) : null;
+    const type = validation.suggestedType;
+    // IP literals imply their family, hostnames use the one selected
+    const addressFamily = getTargetAddressFamily(target) ?? parsed.addressFamily ?? 'ipv4';
 
-      // Determine type
-      const type = isValidIP ? 'ip' : 'domain';
+    const { suggestedType, result, warning } = await probeTarget(parsed, type, addressFamily);
 
+    if (result.isConnected) {
       return NextResponse.json({
         valid: true,
         reachable: true,
-        latencyMs,
-        suggestedType: type,
-      });
-    } catch {
-      // Target format is valid but unreachable
-      return NextResponse.json({
-        valid: true,
-        reachable: false,
-        warning: 'Target is not currently reachable via ping. You can still add it.',
-        suggestedType: isValidIP ? 'ip' : 'domain',
+        latencyMs: result.latencyMs,
+        suggestedType,
+        addressFamily,
       });
     }
+
+    return NextResponse.json({
+      valid: true,
+      reachable: false,
+      warning,
+      suggestedType,
+      addressFamily,
+    });
   },
   { route: '/api/settings/targets/validate', method: 'POST' }
 );
@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { networkInterfaces } from 'os';
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { isValidInterfaceName, isValidIPv4, isValidIPv6 } from '@/lib/utils/shell';
+import { withAuth, withAuthRequest } from '@/lib/api-utils';
+
+const WanLinkSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  interface: z.string().trim()
+    .refine(isValidInterfaceName, 'Invalid interface name')
+    .nullable()
+    .optional(),
+  sourceAddress: z.string().trim()
+    .refine(ip => isValidIPv4(ip) || isValidIPv6(ip), 'Source address must be an IP address')
+    .nullable()
+    .optional(),
+  isEnabled: z.boolean().default(true),
+});
+
+const UpdateWanLinkSchema = WanLinkSchema.partial();
+
+/**
+ * Interfaces on this host with their addresses, to pick a link's interface
+ * from. Loopback is left out since it cannot reach the internet
+ */
+function listInterfaces(): Array<{ name: string; addresses: string[] }> {
+  return Object.entries(networkInterfaces())
+    .map(([name, infos = []]) => ({
+      name,
+      addresses: infos.filter(info => !info.internal).map(info => info.address),
+    }))
+    .filter(iface => iface.addresses.length > 0);
+}
+
+/**
+ * GET /api/settings/wan-links
+ * List all WAN links, with the host's network interfaces
+ */
+export const GET = withAuth(
+  async () => {
+    const links = await prisma.wanLink.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ links, interfaces: listInterfaces() });
+  },
+  { route: '/api/settings/wan-links', method: 'GET' }
+);
+
+/**
+ * POST /api/settings/wan-links
+ * Create a new WAN link
+ */
+export const POST = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+
+    let validatedData: z.infer<typeof WanLinkSchema>;
+    try {
+      validatedData = WanLinkSchema.parse(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (!validatedData.interface && !validatedData.sourceAddress) {
+      return NextResponse.json(
+        { error: 'An interface or source address is required' },
+        { status: 400 }
+      );
+    }
+
+    // Check for duplicate name
+    const existing = await prisma.wanLink.findUnique({
+      where: { name: validatedData.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'WAN link already exists' },
+        { status: 400 }
+      );
+    }
+
+    const newLink = await prisma.wanLink.create({
+      data: validatedData,
+    });
+
+    // Log the addition
+    await logger.logSettings('wan_link_added', validatedData.name, {
+      interface: validatedData.interface,
+      sourceAddress: validatedData.sourceAddress,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ link: newLink }, { status: 201 });
+  },
+  { route: '/api/settings/wan-links', method: 'POST' }
+);
+
+/**
+ * PUT /api/settings/wan-links
+ * Update a WAN link
+ */
+export const PUT = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const body = await request.json();
+    const { id, ...updates } = body;
+
+    if (!id || typeof id !== 'number') {
+      return NextResponse.json({ error: 'Invalid WAN link ID' }, { status: 400 });
+    }
+
+    let validatedUpdates: z.infer<typeof UpdateWanLinkSchema>;
+    try {
+      validatedUpdates = UpdateWanLinkSchema.parse(updates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const existingLink = await prisma.wanLink.findUnique({
+      where: { id },
+    });
+
+    if (!existingLink) {
+      return NextResponse.json({ error: 'WAN link not found' }, { status: 404 });
+    }
+
+    const iface = validatedUpdates.interface !== undefined
+      ? validatedUpdates.interface
+      : existingLink.interface;
+    const sourceAddress = validatedUpdates.sourceAddress !== undefined
+      ? validatedUpdates.sourceAddress
+      : existingLink.sourceAddress;
+
+    if (!iface && !sourceAddress) {
+      return NextResponse.json(
+        { error: 'An interface or source address is required' },
+        { status: 400 }
+      );
+    }
+
+    // If renaming, check for duplicates
+    if (validatedUpdates.name && validatedUpdates.name !== existingLink.name) {
+      const duplicate = await prisma.wanLink.findUnique({
+        where: { name: validatedUpdates.name },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'WAN link already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedLink = await prisma.wanLink.update({
+      where: { id },
+      data: validatedUpdates,
+    });
+
+    // Log the update
+    await logger.logSettings('wan_link_updated', existingLink.name, {
+      wanLinkId: id,
+      changes: validatedUpdates,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ link: updatedLink });
+  },
+  { route: '/api/settings/wan-links', method: 'PUT' }
+);
+
+/**
+ * DELETE /api/settings/wan-links?id=123
+ * Delete a WAN link along with its checks and outages
+ */
+export const DELETE = withAuthRequest(
+  async (request: NextRequest, session) => {
+    const { searchParams } = new URL(request.url);
+    const idParam = searchParams.get('id');
+
+    if (!idParam) {
+      return NextResponse.json({ error: 'WAN link ID is required' }, { status: 400 });
+    }
+
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid WAN link ID' }, { status: 400 });
+    }
+
+    const link = await prisma.wanLink.findUnique({
+      where: { id },
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: 'WAN link not found' }, { status: 404 });
+    }
+
+    await prisma.wanLink.delete({
+      where: { id },
+    });
+
+    // Log the deletion
+    await logger.logSettings('wan_link_deleted', link.name, {
+      wanLinkId: id,
+      userEmail: session.user?.email,
+    });
+
+    return NextResponse.json({ success: true });
+  },
+  { route: '/api/settings/wan-links', method: 'DELETE' }
+);
@@ -22,6 +22,10 @@ export const GET = withAuth(
         jitterMs: true,
         serverName: true,
         serverCountry: true,
+        idleLatencyMs: true,
+        downloadLatencyMs: true,
+        uploadLatencyMs: true,
+        bufferbloatGrade: true,
       },
     });
 
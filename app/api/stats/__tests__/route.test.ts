@@ -4,6 +4,14 @@
  * Tests the dashboard statistics API including:
  * - Authentication checks
  * - Data aggregation
+ * - Outage duration modes
+ * - Per-family uptime
+ * - Active degraded period
+ * - Active latency anomalies
+ * - Maintenance windows
+ * - Monitoring gaps
+ * - Target group status
+ * - WAN link status and uptime
  * - Error handling
  */
 
@@ -34,7 +42,19 @@ let mockOutageCount: jest.Mock;
 let mockOutageFindFirst: jest.Mock;
 let mockOutageFindMany: jest.Mock;
 let mockOutageAggregate: jest.Mock;
+let mockDegradedPeriodFindFirst: jest.Mock;
 let mockSpeedTestFindFirst: jest.Mock;
+let mockConnectionCheckGroupBy: jest.Mock;
+let mockTargetGroupFindMany: jest.Mock;
+let mockWanLinkFindMany: jest.Mock;
+let mockWanLinkCheckGroupBy: jest.Mock;
+let mockAgentFindMany: jest.Mock;
+let mockAgentCheckGroupBy: jest.Mock;
+let mockPathMtuCheckFindMany: jest.Mock;
+let mockLatencyAnomalyFindMany: jest.Mock;
+let mockMaintenanceWindowFindMany: jest.Mock;
+let mockMonitoringGapFindMany: jest.Mock;
+let mockSettingsFindUnique: jest.Mock;
 let mockLogRequest: jest.Mock;
 
 // Mock auth - uses closure to access mockSession
@@ -51,13 +71,37 @@ jest.mock('@/lib/db', () => {
   const outageFindFirst = jest.fn();
   const outageFindMany = jest.fn();
   const outageAggregate = jest.fn();
+  const degradedPeriodFindFirst = jest.fn();
   const speedTestFindFirst = jest.fn();
+  const connectionCheckGroupBy = jest.fn();
+  const targetGroupFindMany = jest.fn();
+  const wanLinkFindMany = jest.fn();
+  const wanLinkCheckGroupBy = jest.fn();
+  const agentFindMany = jest.fn();
+  const agentCheckGroupBy = jest.fn();
+  const pathMtuCheckFindMany = jest.fn();
+  const latencyAnomalyFindMany = jest.fn();
+  const maintenanceWindowFindMany = jest.fn();
+  const monitoringGapFindMany = jest.fn();
+  const settingsFindUnique = jest.fn();
 
   (global as Record<string, unknown>).__mockOutageCount = outageCount;
   (global as Record<string, unknown>).__mockOutageFindFirst = outageFindFirst;
   (global as Record<string, unknown>).__mockOutageFindMany = outageFindMany;
   (global as Record<string, unknown>).__mockOutageAggregate = outageAggregate;
+  (global as Record<string, unknown>).__mockDegradedPeriodFindFirst = degradedPeriodFindFirst;
   (global as Record<string, unknown>).__mockSpeedTestFindFirst = speedTestFindFirst;
+  (global as Record<string, unknown>).__mockConnectionCheckGroupBy = connectionCheckGroupBy;
+  (global as Record<string, unknown>).__mockTargetGroupFindMany = targetGroupFindMany;
+  (global as Record<string, unknown>).__mockWanLinkFindMany = wanLinkFindMany;
+  (global as Record<string, unknown>).__mockWanLinkCheckGroupBy = wanLinkCheckGroupBy;
+  (global as Record<string, unknown>).__mockAgentFindMany = agentFindMany;
+  (global as Record<string, unknown>).__mockAgentCheckGroupBy = agentCheckGroupBy;
+  (global as Record<string, unknown>).__mockPathMtuCheckFindMany = pathMtuCheckFindMany;
+  (global as Record<string, unknown>).__mockLatencyAnomalyFindMany = latencyAnomalyFindMany;
+  (global as Record<string, unknown>).__mockMaintenanceWindowFindMany = maintenanceWindowFindMany;
+  (global as Record<string, unknown>).__mockMonitoringGapFindMany = monitoringGapFindMany;
+  (global as Record<string, unknown>).__mockSettingsFindUnique = settingsFindUnique;
 
   return {
     prisma: {
@@ -67,9 +111,45 @@ jest.mock('@/lib/db', () => {
         findMany: outageFindMany,
         aggregate: outageAggregate,
       },
+      degradedPeriod: {
+        findFirst: degradedPeriodFindFirst,
+      },
       speedTest: {
         findFirst: speedTestFindFirst,
       },
+      connectionCheck: {
+        groupBy: connectionCheckGroupBy,
+      },
+      targetGroup: {
+        findMany: targetGroupFindMany,
+      },
+      wanLink: {
+        findMany: wanLinkFindMany,
+      },
+      wanLinkCheck: {
+        groupBy: wanLinkCheckGroupBy,
+      },
+      agent: {
+        findMany: agentFindMany,
+      },
+      agentCheck: {
+        groupBy: agentCheckGroupBy,
+      },
+      pathMtuCheck: {
+        findMany: pathMtuCheckFindMany,
+      },
+      latencyAnomaly: {
+        findMany: latencyAnomalyFindMany,
+      },
+      maintenanceWindow: {
+        findMany: maintenanceWindowFindMany,
+      },
+      monitoringGap: {
+        findMany: monitoringGapFindMany,
+      },
+      settings: {
+        findUnique: settingsFindUnique,
+      },
     },
   };
 });
@@ -95,7 +175,19 @@ beforeAll(() => {
   mockOutageFindFirst = (global as Record<string, unknown>).__mockOutageFindFirst as jest.Mock;
   mockOutageFindMany = (global as Record<string, unknown>).__mockOutageFindMany as jest.Mock;
   mockOutageAggregate = (global as Record<string, unknown>).__mockOutageAggregate as jest.Mock;
+  mockDegradedPeriodFindFirst = (global as Record<string, unknown>).__mockDegradedPeriodFindFirst as jest.Mock;
   mockSpeedTestFindFirst = (global as Record<string, unknown>).__mockSpeedTestFindFirst as jest.Mock;
+  mockConnectionCheckGroupBy = (global as Record<string, unknown>).__mockConnectionCheckGroupBy as jest.Mock;
+  mockTargetGroupFindMany = (global as Record<string, unknown>).__mockTargetGroupFindMany as jest.Mock;
+  mockWanLinkFindMany = (global as Record<string, unknown>).__mockWanLinkFindMany as jest.Mock;
+  mockWanLinkCheckGroupBy = (global as Record<string, unknown>).__mockWanLinkCheckGroupBy as jest.Mock;
+  mockAgentFindMany = (global as Record<string, unknown>).__mockAgentFindMany as jest.Mock;
+  mockAgentCheckGroupBy = (global as Record<string, unknown>).__mockAgentCheckGroupBy as jest.Mock;
+  mockPathMtuCheckFindMany = (global as Record<string, unknown>).__mockPathMtuCheckFindMany as jest.Mock;
+  mockLatencyAnomalyFindMany = (global as Record<string, unknown>).__mockLatencyAnomalyFindMany as jest.Mock;
+  mockMaintenanceWindowFindMany = (global as Record<string, unknown>).__mockMaintenanceWindowFindMany as jest.Mock;
+  mockMonitoringGapFindMany = (global as Record<string, unknown>).__mockMonitoringGapFindMany as jest.Mock;
+  mockSettingsFindUnique = (global as Record<string, unknown>).__mockSettingsFindUnique as jest.Mock;
   mockLogRequest = (global as Record<string, unknown>).__mockLogRequest as jest.Mock;
 });
 
@@ -110,7 +202,19 @@ describe('GET /api/stats', () => {
     mockOutageFindFirst.mockResolvedValue(null);
     mockOutageFindMany.mockResolvedValue([]);
     mockOutageAggregate.mockResolvedValue({ _sum: { durationSec: null } });
+    mockDegradedPeriodFindFirst.mockResolvedValue(null);
     mockSpeedTestFindFirst.mockResolvedValue(null);
+    mockConnectionCheckGroupBy.mockResolvedValue([]);
+    mockTargetGroupFindMany.mockResolvedValue([]);
+    mockWanLinkFindMany.mockResolvedValue([]);
+    mockWanLinkCheckGroupBy.mockResolvedValue([]);
+    mockAgentFindMany.mockResolvedValue([]);
+    mockAgentCheckGroupBy.mockResolvedValue([]);
+    mockPathMtuCheckFindMany.mockResolvedValue([]);
+    mockLatencyAnomalyFindMany.mockResolvedValue([]);
+    mockMaintenanceWindowFindMany.mockResolvedValue([]);
+    mockMonitoringGapFindMany.mockResolvedValue([]);
+    mockSettingsFindUnique.mockResolvedValue(null);
   });
 
   describe('authentication', () => {
@@ -154,7 +258,9 @@ describe('GET /api/stats', () => {
       const response = await GET();
       const data = await response.json();
 
-      expect(mockOutageCount).toHaveBeenCalledWith({ where: { isResolved: true } });
+      expect(mockOutageCount).toHaveBeenCalledWith({
+        where: { isResolved: true, isExcluded: false, isPlanned: false },
+      });
       expect(data.totalOutages).toBe(10);
     });
 
@@ -163,7 +269,10 @@ describe('GET /api/stats', () => {
         id: 'outage-1',
         startTime: new Date('2025-01-15T10:00:00Z'),
         endTime: null,
+        startLastGoodAt: new Date('2025-01-15T09:59:30Z'),
         isResolved: false,
+        rootCause: 'power',
+        tags: [{ id: 1, outageId: 'outage-1', tag: 'storm' }],
       };
       mockOutageFindFirst.mockResolvedValue(activeOutage);
 
@@ -172,13 +281,19 @@ describe('GET /api/stats', () => {
 
       expect(mockOutageFindFirst).toHaveBeenCalledWith({
         where: { isResolved: false },
+        include: { tags: { orderBy: { id: 'asc' } } },
       });
       // Dates are serialized to ISO strings in JSON response
       expect(data.activeOutage).toEqual({
         id: 'outage-1',
         startTime: '2025-01-15T10:00:00.000Z',
         endTime: null,
+        startLastGoodAt: '2025-01-15T09:59:30.000Z',
+        estimatedStartTime: '2025-01-15T09:59:45.000Z',
+        estimatedEndTime: null,
         isResolved: false,
+        rootCause: 'power',
+        tags: ['storm'],
       });
     });
 
@@ -201,6 +316,12 @@ describe('GET /api/stats', () => {
           isResolved: true,
           checksCount: 60,
           emailSent: true,
+          classification: 'upstream',
+          rootCause: 'isp',
+          notes: 'Street cabinet fault',
+          ispTicket: 'INC-4521',
+          tags: [{ id: 1, outageId: 'outage-1', tag: 'fibre-cut' }, { id: 2, outageId: 'outage-1', tag: 'storm' }],
+          _count: { paths: 3 },
         },
         {
           id: 'outage-2',
@@ -210,6 +331,11 @@ describe('GET /api/stats', () => {
           isResolved: true,
           checksCount: 30,
           emailSent: true,
+          rootCause: null,
+          notes: null,
+          ispTicket: null,
+          tags: [],
+          _count: { paths: 0 },
         },
       ];
       mockOutageFindMany.mockResolvedValue(outageHistory);
@@ -221,8 +347,22 @@ describe('GET /api/stats', () => {
         take: 50,
         orderBy: { startTime: 'desc' },
         where: { isResolved: true },
+        include: {
+          tags: { orderBy: { id: 'asc' } },
+          _count: { select: { paths: true } },
+        },
       });
       expect(data.outageHistory).toHaveLength(2);
+      expect(data.outageHistory[0].pathCount).toBe(3);
+      expect(data.outageHistory[0].classification).toBe('upstream');
+      expect(data.outageHistory[0]).toMatchObject({
+        rootCause: 'isp',
+        notes: 'Street cabinet fault',
+        ispTicket: 'INC-4521',
+        tags: ['fibre-cut', 'storm'],
+      });
+      expect(data.outageHistory[1].pathCount).toBe(0);
+      expect(data.outageHistory[1].tags).toEqual([]);
     });
 
     it('should calculate total downtime', async () => {
@@ -232,8 +372,8 @@ describe('GET /api/stats', () => {
       const data = await response.json();
 
       expect(mockOutageAggregate).toHaveBeenCalledWith({
-        where: { isResolved: true },
-        _sum: { durationSec: true },
+        where: { isResolved: true, isExcluded: false, isPlanned: false },
+        _sum: { durationSec: true, conservativeDurationSec: true, estimatedDurationSec: true },
       });
       expect(data.totalDowntimeSec).toBe(3600);
     });
@@ -249,8 +389,8 @@ describe('GET /api/stats', () => {
 
     it('should calculate average outage duration', async () => {
       const outageHistory = [
-        { id: '1', startTime: new Date(), endTime: new Date(), durationSec: 600, isResolved: true, checksCount: 20, emailSent: true },
-        { id: '2', startTime: new Date(), endTime: new Date(), durationSec: 300, isResolved: true, checksCount: 10, emailSent: true },
+        { id: '1', startTime: new Date(), endTime: new Date(), durationSec: 600, isResolved: true, checksCount: 20, emailSent: true, tags: [], _count: { paths: 0 } },
+        { id: '2', startTime: new Date(), endTime: new Date(), durationSec: 300, isResolved: true, checksCount: 10, emailSent: true, tags: [], _count: { paths: 0 } },
       ];
       mockOutageFindMany.mockResolvedValue(outageHistory);
       mockOutageAggregate.mockResolvedValue({ _sum: { durationSec: 900 } });
@@ -262,6 +402,36 @@ describe('GET /api/stats', () => {
       expect(data.avgOutageDurationSec).toBe(450);
     });
 
+    it('should leave excluded outages out of the average', async () => {
+      const outageHistory = [
+        { id: '1', startTime: new Date(), endTime: new Date(), durationSec: 600, isResolved: true, checksCount: 20, emailSent: true, isExcluded: false, tags: [], _count: { paths: 0 } },
+        { id: '2', startTime: new Date(), endTime: new Date(), durationSec: 5, isResolved: true, checksCount: 1, emailSent: true, isExcluded: true, tags: [], _count: { paths: 0 } },
+      ];
+      mockOutageFindMany.mockResolvedValue(outageHistory);
+      mockOutageAggregate.mockResolvedValue({ _sum: { durationSec: 600 } });
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.avgOutageDurationSec).toBe(600);
+      expect(data.outageHistory[1].isExcluded).toBe(true);
+    });
+
+    it('should leave planned outages out of the average', async () => {
+      const outageHistory = [
+        { id: '1', startTime: new Date(), endTime: new Date(), durationSec: 600, isResolved: true, checksCount: 20, emailSent: true, isExcluded: false, isPlanned: false, tags: [], _count: { paths: 0 } },
+        { id: '2', startTime: new Date(), endTime: new Date(), durationSec: 900, isResolved: true, checksCount: 30, emailSent: false, isExcluded: false, isPlanned: true, tags: [], _count: { paths: 0 } },
+      ];
+      mockOutageFindMany.mockResolvedValue(outageHistory);
+      mockOutageAggregate.mockResolvedValue({ _sum: { durationSec: 600 } });
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.avgOutageDurationSec).toBe(600);
+      expect(data.outageHistory[1].isPlanned).toBe(true);
+    });
+
     it('should handle zero outages for average calculation', async () => {
       mockOutageFindMany.mockResolvedValue([]);
       mockOutageAggregate.mockResolvedValue({ _sum: { durationSec: 0 } });
@@ -273,6 +443,53 @@ describe('GET /api/stats', () => {
     });
   });
 
+  describe('outage duration modes', () => {
+    const downtime = { _sum: { durationSec: 3600, conservativeDurationSec: 3480, estimatedDurationSec: 3540 } };
+
+    beforeEach(() => {
+      mockOutageFindMany.mockResolvedValue([
+        { id: '1', startTime: new Date(), endTime: new Date(), durationSec: 3600, isResolved: true, checksCount: 120, emailSent: true, tags: [], _count: { paths: 0 } },
+        { id: '2', startTime: new Date(), endTime: new Date(), durationSec: 0, isResolved: true, checksCount: 1, emailSent: true, tags: [], _count: { paths: 0 } },
+      ]);
+      mockOutageAggregate.mockResolvedValue(downtime);
+    });
+
+    it('should count recorded durations by default', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(mockSettingsFindUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: { outageDurationMode: true },
+      });
+      expect(data.durationMode).toBe('recorded');
+      expect(data.totalDowntimeSec).toBe(3600);
+      expect(data.avgOutageDurationSec).toBe(1800);
+    });
+
+    it('should count conservative durations when chosen', async () => {
+      mockSettingsFindUnique.mockResolvedValue({ outageDurationMode: 'conservative' });
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.durationMode).toBe('conservative');
+      expect(data.totalDowntimeSec).toBe(3480);
+      expect(data.avgOutageDurationSec).toBe(1740);
+    });
+
+    it('should count estimated durations when chosen', async () => {
+      mockSettingsFindUnique.mockResolvedValue({ outageDurationMode: 'estimated' });
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.durationMode).toBe('estimated');
+      expect(data.totalDowntimeSec).toBe(3540);
+      expect(data.avgOutageDurationSec).toBe(1770);
+    });
+  });
+
   describe('speed test data', () => {
     it('should return latest speed test if exists', async () => {
       const latestSpeedTest = {
@@ -314,6 +531,478 @@ describe('GET /api/stats', () => {
     });
   });
 
+  describe('target groups', () => {
+    it('should load groups with their latest check and open incident', async () => {
+      await GET();
+
+      expect(mockTargetGroupFindMany).toHaveBeenCalledWith({
+        orderBy: { name: 'asc' },
+        include: {
+          checks: { orderBy: { timestamp: 'desc' }, take: 1 },
+          incidents: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 },
+          _count: { select: { targets: { where: { isEnabled: true } } } },
+        },
+      });
+    });
+
+    it('should return each group status', async () => {
+      mockTargetGroupFindMany.mockResolvedValue([
+        {
+          id: 1,
+          name: 'Public DNS',
+          rule: 'quorum',
+          quorum: 2,
+          checks: [{ isUp: false, timestamp: new Date('2025-01-15T12:05:00Z') }],
+          incidents: [{ startTime: new Date('2025-01-15T12:00:00Z') }],
+          _count: { targets: 3 },
+        },
+        {
+          id: 2,
+          name: 'Work VPN',
+          rule: 'any',
+          quorum: null,
+          checks: [],
+          incidents: [],
+          _count: { targets: 0 },
+        },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.groups).toEqual([
+        {
+          id: 1,
+          name: 'Public DNS',
+          rule: 'quorum',
+          quorum: 2,
+          targetCount: 3,
+          isUp: false,
+          lastCheckedAt: '2025-01-15T12:05:00.000Z',
+          downSince: '2025-01-15T12:00:00.000Z',
+        },
+        {
+          id: 2,
+          name: 'Work VPN',
+          rule: 'any',
+          quorum: null,
+          targetCount: 0,
+          isUp: null,
+          lastCheckedAt: null,
+          downSince: null,
+        },
+      ]);
+    });
+  });
+
+  describe('WAN links', () => {
+    it('should load enabled links with their latest check, open outage and 24h check counts', async () => {
+      await GET();
+
+      expect(mockWanLinkFindMany).toHaveBeenCalledWith({
+        where: { isEnabled: true },
+        orderBy: { name: 'asc' },
+        include: {
+          checks: { orderBy: { timestamp: 'desc' }, take: 1 },
+          outages: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 },
+        },
+      });
+      expect(mockWanLinkCheckGroupBy).toHaveBeenCalledWith({
+        by: ['wanLinkId', 'isConnected'],
+        where: { timestamp: { gte: expect.any(Date) } },
+        _count: { _all: true },
+      });
+    });
+
+    it('should return each link status with its uptime', async () => {
+      mockWanLinkFindMany.mockResolvedValue([
+        {
+          id: 1,
+          name: 'Fibre',
+          checks: [{ isConnected: true, latencyMs: 8, timestamp: new Date('2025-01-15T12:05:00Z') }],
+          outages: [],
+        },
+        {
+          id: 2,
+          name: 'LTE backup',
+          checks: [{ isConnected: false, latencyMs: null, timestamp: new Date('2025-01-15T12:05:00Z') }],
+          outages: [{ startTime: new Date('2025-01-15T12:00:00Z') }],
+        },
+        {
+          id: 3,
+          name: 'Spare',
+          checks: [],
+          outages: [],
+        },
+      ]);
+      mockWanLinkCheckGroupBy.mockResolvedValue([
+        { wanLinkId: 1, isConnected: true, _count: { _all: 288 } },
+        { wanLinkId: 2, isConnected: true, _count: { _all: 200 } },
+        { wanLinkId: 2, isConnected: false, _count: { _all: 100 } },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.wanLinks).toEqual([
+        {
+          id: 1,
+          name: 'Fibre',
+          isUp: true,
+          latencyMs: 8,
+          lastCheckedAt: '2025-01-15T12:05:00.000Z',
+          downSince: null,
+          uptime24h: 100,
+        },
+        {
+          id: 2,
+          name: 'LTE backup',
+          isUp: false,
+          latencyMs: null,
+          lastCheckedAt: '2025-01-15T12:05:00.000Z',
+          downSince: '2025-01-15T12:00:00.000Z',
+          uptime24h: 66.67,
+        },
+        {
+          id: 3,
+          name: 'Spare',
+          isUp: null,
+          latencyMs: null,
+          lastCheckedAt: null,
+          downSince: null,
+          uptime24h: null,
+        },
+      ]);
+    });
+  });
+
+  describe('remote agents', () => {
+    it('should load enabled agents with their latest check, open outage and 24h check counts', async () => {
+      await GET();
+
+      expect(mockAgentFindMany).toHaveBeenCalledWith({
+        where: { isEnabled: true },
+        orderBy: { name: 'asc' },
+        include: {
+          checks: { orderBy: { timestamp: 'desc' }, take: 1 },
+          outages: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 },
+        },
+      });
+      expect(mockAgentCheckGroupBy).toHaveBeenCalledWith({
+        by: ['agentId', 'isConnected'],
+        where: { timestamp: { gte: expect.any(Date) } },
+        _count: { _all: true },
+      });
+    });
+
+    it('should return each agent status with its uptime and stale flag', async () => {
+      mockAgentFindMany.mockResolvedValue([
+        {
+          id: 1,
+          name: 'Branch office',
+          lastResultAt: new Date('2025-01-15T12:05:00Z'),
+          lastSeenAt: new Date('2025-01-15T12:05:10Z'),
+          isStale: false,
+          checks: [{ isConnected: false, latencyMs: null, timestamp: new Date('2025-01-15T12:05:00Z') }],
+          outages: [{ startTime: new Date('2025-01-15T12:00:00Z') }],
+        },
+        {
+          id: 2,
+          name: 'Warehouse',
+          lastResultAt: null,
+          lastSeenAt: null,
+          isStale: true,
+          checks: [],
+          outages: [],
+        },
+      ]);
+      mockAgentCheckGroupBy.mockResolvedValue([
+        { agentId: 1, isConnected: true, _count: { _all: 3 } },
+        { agentId: 1, isConnected: false, _count: { _all: 1 } },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.agents).toEqual([
+        {
+          id: 1,
+          name: 'Branch office',
+          isUp: false,
+          latencyMs: null,
+          lastResultAt: '2025-01-15T12:05:00.000Z',
+          lastSeenAt: '2025-01-15T12:05:10.000Z',
+          isStale: false,
+          downSince: '2025-01-15T12:00:00.000Z',
+          uptime24h: 75,
+        },
+        {
+          id: 2,
+          name: 'Warehouse',
+          isUp: null,
+          latencyMs: null,
+          lastResultAt: null,
+          lastSeenAt: null,
+          isStale: true,
+          downSince: null,
+          uptime24h: null,
+        },
+      ]);
+    });
+  });
+
+  describe('path MTU', () => {
+    it('should return the latest recent result per target', async () => {
+      mockPathMtuCheckFindMany.mockResolvedValue([
+        { target: '1.1.1.1', mtu: 1492, timestamp: new Date('2025-01-15T12:00:00Z') },
+        { target: '2606:4700:4700::1111', mtu: null, timestamp: new Date('2025-01-15T12:00:00Z') },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(mockPathMtuCheckFindMany).toHaveBeenCalledWith({
+        where: { timestamp: { gte: expect.any(Date) } },
+        orderBy: { timestamp: 'desc' },
+        distinct: ['target'],
+        select: { target: true, mtu: true, timestamp: true },
+      });
+      expect(data.pathMtu).toEqual([
+        { target: '1.1.1.1', mtu: 1492, timestamp: '2025-01-15T12:00:00.000Z' },
+        { target: '2606:4700:4700::1111', mtu: null, timestamp: '2025-01-15T12:00:00.000Z' },
+      ]);
+    });
+  });
+
+  describe('latency anomalies', () => {
+    it('should return unresolved anomalies oldest first', async () => {
+      mockLatencyAnomalyFindMany.mockResolvedValue([
+        {
+          id: 3,
+          target: '8.8.8.8',
+          startTime: new Date('2025-01-15T19:00:00Z'),
+          endTime: null,
+          durationSec: null,
+          isResolved: false,
+          baselineMs: 20,
+          baselineStdDev: 2,
+          peakLatencyMs: 45,
+          peakZScore: 12.5,
+          emailSent: false,
+        },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(mockLatencyAnomalyFindMany).toHaveBeenCalledWith({
+        where: { isResolved: false },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(data.activeLatencyAnomalies).toEqual([
+        expect.objectContaining({ id: 3, target: '8.8.8.8', startTime: '2025-01-15T19:00:00.000Z', peakZScore: 12.5 }),
+      ]);
+    });
+
+    it('should return an empty list without anomalies', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.activeLatencyAnomalies).toEqual([]);
+    });
+  });
+
+  describe('maintenance windows', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+    it('should load enabled windows that have started with their scope names', async () => {
+      await GET();
+
+      expect(mockMaintenanceWindowFindMany).toHaveBeenCalledWith({
+        where: { isEnabled: true, startTime: { lte: expect.any(Date) } },
+        include: {
+          target: { select: { displayName: true } },
+          group: { select: { name: true } },
+        },
+      });
+    });
+
+    it('should return the windows in progress', async () => {
+      const reboot = minutesAgo(5);
+      mockMaintenanceWindowFindMany.mockResolvedValue([
+        { id: 1, description: 'Router reboot', startTime: reboot, durationMin: 15, recurrence: 'none', repeatUntil: null, targetId: null, groupId: null, target: null, group: null },
+        { id: 2, description: 'VPN patching', startTime: minutesAgo(10), durationMin: 60, recurrence: 'none', repeatUntil: null, targetId: null, groupId: 3, target: null, group: { name: 'Work VPN' } },
+        { id: 3, description: 'ISP night', startTime: minutesAgo(120), durationMin: 60, recurrence: 'none', repeatUntil: null, targetId: null, groupId: null, target: null, group: null },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.activeMaintenance).toEqual([
+        { id: 1, description: 'Router reboot', scope: null, endTime: new Date(reboot.getTime() + 15 * 60 * 1000).toISOString() },
+        { id: 2, description: 'VPN patching', scope: 'Work VPN', endTime: expect.any(String) },
+      ]);
+    });
+
+    it('should leave cycles during connection-wide maintenance out of the uptime', async () => {
+      mockMaintenanceWindowFindMany.mockResolvedValue([
+        { id: 1, description: 'ISP night', startTime: minutesAgo(120), durationMin: 60, recurrence: 'none', repeatUntil: null, targetId: null, groupId: null, target: null, group: null },
+        { id: 2, description: 'VPN patching', startTime: minutesAgo(50), durationMin: 30, recurrence: 'none', repeatUntil: null, targetId: 4, groupId: null, target: { displayName: 'VPN' }, group: null },
+      ]);
+      mockConnectionCheckGroupBy.mockResolvedValue([
+        { addressFamily: 'ipv4', timestamp: minutesAgo(90), isConnected: false },
+        { addressFamily: 'ipv4', timestamp: minutesAgo(40), isConnected: false },
+        { addressFamily: 'ipv4', timestamp: minutesAgo(10), isConnected: true },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      // The failed cycle during the ISP night is not counted; the one during
+      // the target-only window is
+      expect(data.uptime24h.ipv4).toBe(50);
+    });
+  });
+
+  describe('monitoring gaps', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+    it('should load the gaps that ended within the last 24 hours', async () => {
+      await GET();
+
+      expect(mockMonitoringGapFindMany).toHaveBeenCalledWith({
+        where: { endTime: { gte: expect.any(Date) } },
+        select: { startTime: true, endTime: true },
+      });
+    });
+
+    it('should report the time not monitored within the last 24 hours', async () => {
+      mockMonitoringGapFindMany.mockResolvedValue([
+        { startTime: minutesAgo(25 * 60), endTime: minutesAgo(23 * 60) },
+        { startTime: minutesAgo(90), endTime: minutesAgo(60) },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      // One hour of the first gap falls within the window, plus the whole second one
+      expect(data.unmonitoredSec24h).toBeGreaterThanOrEqual(90 * 60 - 1);
+      expect(data.unmonitoredSec24h).toBeLessThanOrEqual(90 * 60);
+    });
+
+    it('should report no time when monitoring ran throughout', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.unmonitoredSec24h).toBe(0);
+    });
+  });
+
+  describe('uptime by address family', () => {
+    const at = (minute: number) => new Date(Date.UTC(2025, 0, 15, 12, minute));
+
+    it('should load distinct check results from the last 24 hours', async () => {
+      await GET();
+
+      expect(mockConnectionCheckGroupBy).toHaveBeenCalledWith({
+        by: ['addressFamily', 'timestamp', 'isConnected'],
+        where: { timestamp: { gte: expect.any(Date) } },
+      });
+    });
+
+    it('should calculate uptime separately for IPv4 and IPv6', async () => {
+      mockConnectionCheckGroupBy.mockResolvedValue([
+        { addressFamily: 'ipv4', timestamp: at(0), isConnected: true },
+        { addressFamily: 'ipv4', timestamp: at(5), isConnected: true },
+        { addressFamily: 'ipv6', timestamp: at(0), isConnected: true },
+        { addressFamily: 'ipv6', timestamp: at(5), isConnected: false },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.uptime24h).toEqual({ ipv4: 100, ipv6: 50 });
+    });
+
+    it('should count a cycle as up when any target in it connected', async () => {
+      mockConnectionCheckGroupBy.mockResolvedValue([
+        { addressFamily: 'ipv4', timestamp: at(0), isConnected: true },
+        { addressFamily: 'ipv4', timestamp: at(0), isConnected: false },
+        { addressFamily: 'ipv4', timestamp: at(5), isConnected: false },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.uptime24h.ipv4).toBe(50);
+    });
+
+    it('should round uptime to two decimal places', async () => {
+      mockConnectionCheckGroupBy.mockResolvedValue([
+        { addressFamily: 'ipv4', timestamp: at(0), isConnected: true },
+        { addressFamily: 'ipv4', timestamp: at(5), isConnected: true },
+        { addressFamily: 'ipv4', timestamp: at(10), isConnected: false },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.uptime24h.ipv4).toBe(66.67);
+    });
+
+    it('should return null for a family without checks', async () => {
+      mockConnectionCheckGroupBy.mockResolvedValue([
+        { addressFamily: 'ipv4', timestamp: at(0), isConnected: true },
+      ]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.uptime24h).toEqual({ ipv4: 100, ipv6: null });
+    });
+  });
+
+  describe('degraded period', () => {
+    it('should return the active degraded period', async () => {
+      mockDegradedPeriodFindFirst.mockResolvedValue({
+        id: 3,
+        startTime: new Date('2025-01-15T10:00:00Z'),
+        endTime: null,
+        durationSec: null,
+        isResolved: false,
+        reason: 'packet_loss',
+        peakLatencyMs: null,
+        peakPacketLossPct: 12.5,
+        emailSent: true,
+      });
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(mockDegradedPeriodFindFirst).toHaveBeenCalledWith({
+        where: { isResolved: false },
+      });
+      expect(data.activeDegradedPeriod).toEqual({
+        id: 3,
+        startTime: '2025-01-15T10:00:00.000Z',
+        endTime: null,
+        durationSec: null,
+        isResolved: false,
+        reason: 'packet_loss',
+        peakLatencyMs: null,
+        peakPacketLossPct: 12.5,
+        emailSent: true,
+      });
+    });
+
+    it('should return null when the connection is not degraded', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.activeDegradedPeriod).toBeNull();
+    });
+  });
+
   describe('response format', () => {
     it('should return empty recentChecks array (backward compatibility)', async () => {
       const response = await GET();
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { TimePeriod, ChartDataPoint } from '@/types/dashboard';
+import { TimePeriod, AgentChartSeries, ChartDataPoint, GroupChartSeries, IpChangeMarker, LatencyAnomalyMarker, WanLinkChartSeries } from '@/types/dashboard';
 import { withAuthRequest } from '@/lib/api-utils';
 import { logger } from '@/lib/logger';
 
@@ -60,11 +60,103 @@ function getTargetBuckets(period: TimePeriod): number {
   }
 }
 
+type CheckRow = {
+  timestamp: Date;
+  isConnected: boolean;
+  packetLossPct: number | null;
+  jitterMs: number | null;
+};
+
+/**
+ * A merged check cycle, flagged when it falls within a degraded period
+ * Monitoring gaps are rows of their own, with no result
+ */
+type ChartRow = CheckRow & { isDegraded: boolean; isUnmonitored?: boolean };
+
+type PeriodRange = {
+  startTime: Date;
+  endTime: Date | null;
+};
+
+/**
+ * Average the non-null values, or null when there are none
+ */
+function averageOf(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return null;
+  }
+  return Math.round((present.reduce((sum, value) => sum + value, 0) / present.length) * 100) / 100;
+}
+
+/**
+ * Merge checks recorded in the same cycle into one point
+ * Each address family (and each target, when every target is probed) writes
+ * its own check with a shared timestamp, and the connection counts as up
+ * while any of them is reachable. Line quality is averaged over the checks
+ * that measured it
+ */
+function mergeChecksByTimestamp(data: CheckRow[]): CheckRow[] {
+  const groups: CheckRow[][] = [];
+
+  for (const check of data) {
+    const previous = groups[groups.length - 1];
+    if (previous?.[0] && previous[0].timestamp.getTime() === check.timestamp.getTime()) {
+      previous.push(check);
+    } else {
+      groups.push([check]);
+    }
+  }
+
+  return groups.map(group => ({
+    timestamp: group[0]!.timestamp,
+    isConnected: group.some(check => check.isConnected),
+    packetLossPct: averageOf(group.map(check => check.packetLossPct)),
+    jitterMs: averageOf(group.map(check => check.jitterMs)),
+  }));
+}
+
+/**
+ * Flag the cycles that fall within a degraded period
+ * Periods still open have no end time and cover everything after their start
+ */
+function markDegraded(data: CheckRow[], periods: PeriodRange[]): ChartRow[] {
+  return data.map(check => ({
+    ...check,
+    isDegraded: periods.some(period =>
+      check.timestamp >= period.startTime &&
+      (period.endTime === null || check.timestamp < period.endTime)
+    ),
+  }));
+}
+
+/**
+ * Add a row where each monitoring gap starts, so it is drawn as unknown
+ * Gaps that began before the window start with it. A gap row counts as
+ * connected, so it never makes a bucket look down
+ */
+function addMonitoringGaps(data: ChartRow[], gaps: PeriodRange[], cutoffTime: Date): ChartRow[] {
+  if (gaps.length === 0) {
+    return data;
+  }
+
+  const gapRows: ChartRow[] = gaps.map(gap => ({
+    timestamp: gap.startTime < cutoffTime ? cutoffTime : gap.startTime,
+    isConnected: true,
+    packetLossPct: null,
+    jitterMs: null,
+    isDegraded: false,
+    isUnmonitored: true,
+  }));
+
+  return [...data, ...gapRows].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
 /**
  * Server-side downsampling of connection check data
  */
 function downsampleData(
-  data: Array<{ timestamp: Date; isConnected: boolean }>,
+  data: ChartRow[],
   maxPoints: number
 ): ChartDataPoint[] {
   if (data.length === 0) {
@@ -75,6 +167,10 @@ function downsampleData(
     return data.map((check, index) => ({
       timestamp: check.timestamp,
       isConnected: check.isConnected,
+      packetLossPct: check.packetLossPct,
+      jitterMs: check.jitterMs,
+      isDegraded: check.isDegraded,
+      ...(check.isUnmonitored && { isUnmonitored: true }),
       bucket: index,
     }));
   }
@@ -94,6 +190,10 @@ function downsampleData(
     downsampled.push({
       timestamp: representative.timestamp,
       isConnected: !hasDisconnection,
+      packetLossPct: averageOf(bucket.map(check => check.packetLossPct)),
+      jitterMs: averageOf(bucket.map(check => check.jitterMs)),
+      isDegraded: bucket.some(check => check.isDegraded),
+      ...(bucket.some(check => check.isUnmonitored) && { isUnmonitored: true }),
       bucket: Math.floor(i / bucketSize),
     });
   }
@@ -101,6 +201,20 @@ function downsampleData(
   return downsampled;
 }
 
+/**
+ * Turn group verdicts or WAN link checks into chart rows
+ * They carry no line quality, so only the up/down state is charted
+ */
+function toStateRows(checks: Array<{ timestamp: Date; isConnected: boolean }>): ChartRow[] {
+  return checks.map(check => ({
+    timestamp: check.timestamp,
+    isConnected: check.isConnected,
+    packetLossPct: null,
+    jitterMs: null,
+    isDegraded: false,
+  }));
+}
+
 export const GET = withAuthRequest(
   async (request: NextRequest, session) => {
     const { searchParams } = new URL(request.url);
@@ -117,17 +231,111 @@ export const GET = withAuthRequest(
     const cutoffTime = getCutoffTime(period);
     const targetBuckets = getTargetBuckets(period);
 
-    const checks = await prisma.connectionCheck.findMany({
-      where: {
-        timestamp: { gte: cutoffTime }
-      },
-      orderBy: { timestamp: 'asc' },
-      take: MAX_POINTS,
-      select: {
-        timestamp: true,
-        isConnected: true,
-      }
-    });
+    // Checks are read newest first, so a window with more than MAX_POINTS
+    // loses its oldest checks rather than its latest ones, and put back in
+    // order before charting
+    const [checks, degradedPeriods, groups, wanLinks, agents, ipChanges, anomalies, monitoringGaps] = await Promise.all([
+      prisma.connectionCheck.findMany({
+        where: {
+          timestamp: { gte: cutoffTime }
+        },
+        orderBy: { timestamp: 'desc' },
+        take: MAX_POINTS,
+        select: {
+          timestamp: true,
+          isConnected: true,
+          packetLossPct: true,
+          jitterMs: true,
+        }
+      }),
+      // Periods overlapping the window, including one still open
+      prisma.degradedPeriod.findMany({
+        where: {
+          OR: [
+            { endTime: null },
+            { endTime: { gte: cutoffTime } }
+          ]
+        },
+        select: {
+          startTime: true,
+          endTime: true,
+        }
+      }),
+      prisma.targetGroup.findMany({
+        orderBy: { name: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          checks: {
+            where: { timestamp: { gte: cutoffTime } },
+            orderBy: { timestamp: 'desc' },
+            take: MAX_POINTS,
+            select: { timestamp: true, isUp: true }
+          }
+        }
+      }),
+      prisma.wanLink.findMany({
+        where: { isEnabled: true },
+        orderBy: { name: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          checks: {
+            where: { timestamp: { gte: cutoffTime } },
+            orderBy: { timestamp: 'desc' },
+            take: MAX_POINTS,
+            select: { timestamp: true, isConnected: true }
+          }
+        }
+      }),
+      prisma.agent.findMany({
+        where: { isEnabled: true },
+        orderBy: { name: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          checks: {
+            where: { timestamp: { gte: cutoffTime } },
+            orderBy: { timestamp: 'desc' },
+            take: MAX_POINTS,
+            select: { timestamp: true, isConnected: true }
+          }
+        }
+      }),
+      // Changes only - the first observation has no changed fields
+      prisma.publicIpChange.findMany({
+        where: {
+          timestamp: { gte: cutoffTime },
+          changedFields: { not: '' }
+        },
+        orderBy: { timestamp: 'asc' },
+        select: { timestamp: true, changedFields: true }
+      }),
+      // Anomalies overlapping the window, including ones still open
+      prisma.latencyAnomaly.findMany({
+        where: {
+          OR: [
+            { endTime: null },
+            { endTime: { gte: cutoffTime } }
+          ]
+        },
+        orderBy: { startTime: 'asc' },
+        select: {
+          target: true,
+          startTime: true,
+          endTime: true,
+          peakZScore: true,
+        }
+      }),
+      prisma.monitoringGap.findMany({
+        where: { endTime: { gte: cutoffTime } },
+        orderBy: { startTime: 'asc' },
+        select: {
+          startTime: true,
+          endTime: true,
+        }
+      })
+    ]);
 
     if (checks.length === MAX_POINTS) {
       await logger.warn('Chart data query hit MAX_POINTS limit - data truncated', {
@@ -138,10 +346,45 @@ export const GET = withAuthRequest(
       });
     }
 
-    const chartData = downsampleData(checks, targetBuckets);
+    // Gaps show on the timelines measured here. Agents buffer their results
+    // while this instance is down, so their timelines have no gaps
+    const withGaps = (rows: ChartRow[]) => addMonitoringGaps(rows, monitoringGaps, cutoffTime);
+
+    const chartData = downsampleData(
+      withGaps(markDegraded(mergeChecksByTimestamp(checks.reverse()), degradedPeriods)),
+      targetBuckets
+    );
+
+    const groupSeries: GroupChartSeries[] = groups.map(group => ({
+      groupId: group.id,
+      name: group.name,
+      chartData: downsampleData(
+        withGaps(toStateRows(group.checks.reverse().map(check => ({ timestamp: check.timestamp, isConnected: check.isUp })))),
+        targetBuckets
+      ),
+    }));
+
+    const linkSeries: WanLinkChartSeries[] = wanLinks.map(link => ({
+      wanLinkId: link.id,
+      name: link.name,
+      chartData: downsampleData(withGaps(toStateRows(link.checks.reverse())), targetBuckets),
+    }));
+
+    const agentSeries: AgentChartSeries[] = agents.map(agent => ({
+      agentId: agent.id,
+      name: agent.name,
+      chartData: downsampleData(toStateRows(agent.checks.reverse()), targetBuckets),
+    }));
+
+    const ipChangeMarkers: IpChangeMarker[] = ipChanges.map(change => ({
+      timestamp: change.timestamp,
+      changedFields: change.changedFields.split(',') as IpChangeMarker['changedFields'],
+    }));
+
+    const anomalyMarkers: LatencyAnomalyMarker[] = anomalies;
 
     return NextResponse.json(
-      { chartData },
+      { chartData, groupSeries, linkSeries, agentSeries, ipChanges: ipChangeMarkers, anomalies: anomalyMarkers },
       {
         headers: {
           'Cache-Control': 'private, max-age=30, stale-while-revalidate=60',
@@ -1,22 +1,109 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { Stats } from '@/types/dashboard';
+import {
+  AgentStatus, DegradedPeriod, FamilyUptime, GroupStatus, MaintenanceStatus, Stats, WanLinkStatus
+} from '@/types/dashboard';
 import { withAuth } from '@/lib/api-utils';
+import { getOccurrenceAt, getOccurrencesBetween } from '@/lib/monitoring/maintenance';
+import { DURATION_FIELDS, toOutage } from '@/lib/monitoring/outages';
+import { getOutageDurationMode } from '@/lib/settings';
+
+/**
+ * Window for the per-family uptime figures
+ */
+const UPTIME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Path MTU results older than this are not shown - longer than the largest
+ * measuring interval, so targets removed from the settings drop off
+ */
+const PATH_MTU_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Uptime percentage per WAN link or agent from its check counts
+ * Links and agents without checks in the window are left out
+ */
+function calculateLinkUptime(
+  counts: Array<{ id: number; isConnected: boolean; _count: { _all: number } }>
+): Map<number, number> {
+  const totals = new Map<number, { up: number; all: number }>();
+  for (const count of counts) {
+    const total = totals.get(count.id) ?? { up: 0, all: 0 };
+    total.all += count._count._all;
+    if (count.isConnected) total.up += count._count._all;
+    totals.set(count.id, total);
+  }
+
+  return new Map([...totals].map(([id, total]) => [
+    id,
+    Math.round((total.up / total.all) * 10000) / 100
+  ]));
+}
+
+/**
+ * Calculate an uptime percentage per family from distinct check results
+ *
+ * Uptime is counted per check cycle rather than per row: when every target is
+ * probed, one cycle writes a row per target (sharing a timestamp), and the
+ * cycle counts as up if any of them connected.
+ */
+function calculateUptime(
+  checks: Array<{ addressFamily: string; timestamp: Date; isConnected: boolean }>
+): FamilyUptime {
+  const uptimeFor = (family: keyof FamilyUptime): number | null => {
+    const cycles = new Map<number, boolean>();
+    for (const check of checks) {
+      if (check.addressFamily !== family) continue;
+      const time = check.timestamp.getTime();
+      cycles.set(time, (cycles.get(time) ?? false) || check.isConnected);
+    }
+
+    if (cycles.size === 0) {
+      return null;
+    }
+
+    const connected = [...cycles.values()].filter(Boolean).length;
+    return Math.round((connected / cycles.size) * 10000) / 100;
+  };
+
+  return { ipv4: uptimeFor('ipv4'), ipv6: uptimeFor('ipv6') };
+}
 
 export const GET = withAuth(
   async () => {
     const [
       totalOutages,
       activeOutage,
+      activeDegradedPeriod,
+      activeLatencyAnomalies,
       outageHistory,
-      latestSpeedTest
+      latestSpeedTest,
+      checkCounts,
+      groups,
+      wanLinks,
+      wanLinkCheckCounts,
+      agents,
+      agentCheckCounts,
+      pathMtuChecks,
+      maintenanceWindows,
+      monitoringGaps,
+      durationMode
     ] = await Promise.all([
-      prisma.outage.count({ where: { isResolved: true } }),
-      prisma.outage.findFirst({ where: { isResolved: false } }),
+      prisma.outage.count({ where: { isResolved: true, isExcluded: false, isPlanned: false } }),
+      prisma.outage.findFirst({
+        where: { isResolved: false },
+        include: { tags: { orderBy: { id: 'asc' } } }
+      }),
+      prisma.degradedPeriod.findFirst({ where: { isResolved: false } }),
+      prisma.latencyAnomaly.findMany({ where: { isResolved: false }, orderBy: { startTime: 'asc' } }),
       prisma.outage.findMany({
         take: 50,
         orderBy: { startTime: 'desc' },
-        where: { isResolved: true }
+        where: { isResolved: true },
+        include: {
+          tags: { orderBy: { id: 'asc' } },
+          _count: { select: { paths: true } }
+        }
       }),
       prisma.speedTest.findFirst({
         orderBy: { timestamp: 'desc' },
@@ -26,39 +113,165 @@ export const GET = withAuth(
           pingMs: true,
           timestamp: true
         }
-      })
+      }),
+      prisma.connectionCheck.groupBy({
+        by: ['addressFamily', 'timestamp', 'isConnected'],
+        where: { timestamp: { gte: new Date(Date.now() - UPTIME_WINDOW_MS) } }
+      }),
+      prisma.targetGroup.findMany({
+        orderBy: { name: 'asc' },
+        include: {
+          checks: { orderBy: { timestamp: 'desc' }, take: 1 },
+          incidents: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 },
+          _count: { select: { targets: { where: { isEnabled: true } } } }
+        }
+      }),
+      prisma.wanLink.findMany({
+        where: { isEnabled: true },
+        orderBy: { name: 'asc' },
+        include: {
+          checks: { orderBy: { timestamp: 'desc' }, take: 1 },
+          outages: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 }
+        }
+      }),
+      prisma.wanLinkCheck.groupBy({
+        by: ['wanLinkId', 'isConnected'],
+        where: { timestamp: { gte: new Date(Date.now() - UPTIME_WINDOW_MS) } },
+        _count: { _all: true }
+      }),
+      prisma.agent.findMany({
+        where: { isEnabled: true },
+        orderBy: { name: 'asc' },
+        include: {
+          checks: { orderBy: { timestamp: 'desc' }, take: 1 },
+          outages: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 }
+        }
+      }),
+      prisma.agentCheck.groupBy({
+        by: ['agentId', 'isConnected'],
+        where: { timestamp: { gte: new Date(Date.now() - UPTIME_WINDOW_MS) } },
+        _count: { _all: true }
+      }),
+      // Latest result per target
+      prisma.pathMtuCheck.findMany({
+        where: { timestamp: { gte: new Date(Date.now() - PATH_MTU_WINDOW_MS) } },
+        orderBy: { timestamp: 'desc' },
+        distinct: ['target'],
+        select: { target: true, mtu: true, timestamp: true }
+      }),
+      prisma.maintenanceWindow.findMany({
+        where: { isEnabled: true, startTime: { lte: new Date() } },
+        include: {
+          target: { select: { displayName: true } },
+          group: { select: { name: true } }
+        }
+      }),
+      prisma.monitoringGap.findMany({
+        where: { endTime: { gte: new Date(Date.now() - UPTIME_WINDOW_MS) } },
+        select: { startTime: true, endTime: true }
+      }),
+      getOutageDurationMode()
     ]);
 
+    const linkUptime = calculateLinkUptime(
+      wanLinkCheckCounts.map(count => ({ ...count, id: count.wanLinkId }))
+    );
+    const agentUptime = calculateLinkUptime(
+      agentCheckCounts.map(count => ({ ...count, id: count.agentId }))
+    );
+
+    // Outages marked as false positives or planned stay in the history but
+    // not the totals
     const totalDowntime = await prisma.outage.aggregate({
-      where: { isResolved: true },
-      _sum: { durationSec: true }
+      where: { isResolved: true, isExcluded: false, isPlanned: false },
+      _sum: { durationSec: true, conservativeDurationSec: true, estimatedDurationSec: true }
     });
+    const totalDowntimeSec = totalDowntime._sum[DURATION_FIELDS[durationMode]] || 0;
+
+    const countedOutages = outageHistory.filter(outage => !outage.isExcluded && !outage.isPlanned).length;
 
-    const avgOutageDuration = outageHistory.length > 0
-      ? (totalDowntime._sum.durationSec || 0) / outageHistory.length
+    // Cycles during connection-wide maintenance are left out of the uptime
+    const now = new Date();
+    const plannedPeriods = maintenanceWindows
+      .filter(window => window.targetId === null && window.groupId === null)
+      .flatMap(window => getOccurrencesBetween(window, new Date(now.getTime() - UPTIME_WINDOW_MS), now));
+    const unplannedChecks = checkCounts.filter(check => !plannedPeriods.some(period =>
+      check.timestamp >= period.start && check.timestamp < period.end
+    ));
+
+    // Nothing was measured during monitoring gaps - no cycles were recorded,
+    // so they count as neither up nor down, and the time is reported instead
+    const uptimeWindowStart = now.getTime() - UPTIME_WINDOW_MS;
+    const unmonitoredSec24h = Math.floor(monitoringGaps.reduce((total, gap) =>
+      total + gap.endTime.getTime() - Math.max(gap.startTime.getTime(), uptimeWindowStart), 0
+    ) / 1000);
+
+    const activeMaintenance = maintenanceWindows.flatMap((window): MaintenanceStatus[] => {
+      const occurrence = getOccurrenceAt(window, now);
+      return occurrence ? [{
+        id: window.id,
+        description: window.description,
+        scope: window.target?.displayName ?? window.group?.name ?? null,
+        endTime: occurrence.end
+      }] : [];
+    });
+    const avgOutageDuration = countedOutages > 0
+      ? totalDowntimeSec / countedOutages
       : 0;
 
     const response: Stats = {
       totalOutages,
-      activeOutage,
-      totalDowntimeSec: totalDowntime._sum.durationSec || 0,
+      activeOutage: activeOutage ? toOutage(activeOutage) : null,
+      activeDegradedPeriod: activeDegradedPeriod ? {
+        ...activeDegradedPeriod,
+        reason: activeDegradedPeriod.reason as DegradedPeriod['reason']
+      } : null,
+      activeLatencyAnomalies,
+      durationMode,
+      totalDowntimeSec,
       avgOutageDurationSec: Math.round(avgOutageDuration),
       recentChecks: [],
-      outageHistory: outageHistory.map(outage => ({
-        id: outage.id,
-        startTime: outage.startTime,
-        endTime: outage.endTime,
-        durationSec: outage.durationSec,
-        isResolved: outage.isResolved,
-        checksCount: outage.checksCount,
-        emailSent: outage.emailSent
-      })),
+      outageHistory: outageHistory.map(toOutage),
       latestSpeedTest: latestSpeedTest ? {
         downloadMbps: latestSpeedTest.downloadMbps,
         uploadMbps: latestSpeedTest.uploadMbps,
         pingMs: latestSpeedTest.pingMs,
         timestamp: latestSpeedTest.timestamp
-      } : null
+      } : null,
+      uptime24h: calculateUptime(unplannedChecks),
+      unmonitoredSec24h,
+      groups: groups.map(group => ({
+        id: group.id,
+        name: group.name,
+        rule: group.rule as GroupStatus['rule'],
+        quorum: group.quorum,
+        targetCount: group._count.targets,
+        isUp: group.checks[0]?.isUp ?? null,
+        lastCheckedAt: group.checks[0]?.timestamp ?? null,
+        downSince: group.incidents[0]?.startTime ?? null
+      })),
+      wanLinks: wanLinks.map((link): WanLinkStatus => ({
+        id: link.id,
+        name: link.name,
+        isUp: link.checks[0]?.isConnected ?? null,
+        latencyMs: link.checks[0]?.latencyMs ?? null,
+        lastCheckedAt: link.checks[0]?.timestamp ?? null,
+        downSince: link.outages[0]?.startTime ?? null,
+        uptime24h: linkUptime.get(link.id) ?? null
+      })),
+      agents: agents.map((agent): AgentStatus => ({
+        id: agent.id,
+        name: agent.name,
+        isUp: agent.checks[0]?.isConnected ?? null,
+        latencyMs: agent.checks[0]?.latencyMs ?? null,
+        lastResultAt: agent.lastResultAt,
+        lastSeenAt: agent.lastSeenAt,
+        isStale: agent.isStale,
+        downSince: agent.outages[0]?.startTime ?? null,
+        uptime24h: agentUptime.get(agent.id) ?? null
+      })),
+      pathMtu: pathMtuChecks,
+      activeMaintenance
     };
 
     return NextResponse.json(response, {
@@ -0,0 +1,43 @@
+import { auth, signOut } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Header } from '@/components/header';
+import OutagePaths from '@/components/outage-paths';
+
+export const metadata = {
+  title: 'Outage Details - WanWatch',
+  description: 'View the network paths captured during an outage',
+};
+
+export default async function OutagePage({ params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { id } = await params;
+
+  const handleSignOut = async () => {
+    'use server';
+    await signOut();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+      {/* Standard Header Section */}
+      <div className="mb-6">
+        <Header onSignOut={handleSignOut} />
+      </div>
+
+      {/* Standard Page Title Section */}
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-muted-foreground">
+          Network Paths
+        </h2>
+      </div>
+
+      {/* Page Content */}
+      <OutagePaths outageId={id} />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { auth, signOut } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { Header } from '@/components/header';
+import TargetHistory from '@/components/target-history';
+
+export const metadata = {
+  title: 'Target History - WanWatch',
+  description: 'View the availability, latency and incidents of a monitoring target',
+};
+
+export default async function TargetPage({ params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { id } = await params;
+
+  const handleSignOut = async () => {
+    'use server';
+    await signOut();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+      {/* Standard Header Section */}
+      <div className="mb-6">
+        <Header onSignOut={handleSignOut} />
+      </div>
+
+      {/* Standard Page Title Section */}
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-muted-foreground">
+          Target History
+        </h2>
+      </div>
+
+      {/* Page Content */}
+      <TargetHistory targetId={id} />
+    </div>
+  );
+}
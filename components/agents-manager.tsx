@@ -0,0 +1,335 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { fetcher } from '@/lib/fetcher';
+
+interface Agent {
+  id: number;
+  name: string;
+  isEnabled: boolean;
+  lastSeenAt: string | null;
+  isStale: boolean;
+}
+
+interface AgentFormData {
+  name: string;
+  isEnabled: boolean;
+}
+
+const EMPTY_FORM: AgentFormData = {
+  name: '',
+  isEnabled: true,
+};
+
+export default function AgentsManager() {
+  const { data, error, mutate } = useSWR<{ agents: Agent[] }>(
+    '/api/settings/agents',
+    fetcher,
+    { refreshInterval: 30000 }
+  );
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<AgentFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // A new token is only ever shown once, right after it is issued
+  const [issuedToken, setIssuedToken] = useState<{ name: string; token: string } | null>(null);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setStatusMessage({ type, text });
+    setTimeout(() => setStatusMessage(null), 5000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const body = editingId ? { id: editingId, ...formData } : formData;
+
+      const response = await fetch('/api/settings/agents', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+      if (response.ok) {
+        showMessage('success', editingId ? 'Agent updated successfully' : 'Agent added successfully');
+        if (result.token) {
+          setIssuedToken({ name: result.agent.name, token: result.token });
+        }
+        await mutate();
+        resetForm();
+      } else {
+        showMessage('error', result.error || 'Failed to save agent');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to save agent. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (agent: Agent) => {
+    setFormData({
+      name: agent.name,
+      isEnabled: agent.isEnabled,
+    });
+    setEditingId(agent.id);
+    setIsAdding(true);
+  };
+
+  const handleUpdate = async (agent: Agent, updates: { isEnabled?: boolean; regenerateToken?: boolean }) => {
+    try {
+      const response = await fetch('/api/settings/agents', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: agent.id, ...updates }),
+      });
+
+      const result = await response.json();
+      if (response.ok) {
+        if (result.token) {
+          setIssuedToken({ name: agent.name, token: result.token });
+          showMessage('success', 'New token issued - the old token no longer works');
+        } else {
+          showMessage('success', `Agent ${!agent.isEnabled ? 'enabled' : 'disabled'} successfully`);
+        }
+        await mutate();
+      } else {
+        showMessage('error', result.error || 'Failed to update agent');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to update agent. Please try again.');
+    }
+  };
+
+  const handleDelete = async (agent: Agent) => {
+    try {
+      const response = await fetch(`/api/settings/agents?id=${agent.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        showMessage('success', 'Agent deleted successfully');
+        await mutate();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to delete agent');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to delete agent. Please try again.');
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">Failed to load agents</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const agents = data?.agents || [];
+
+  return (
+    <div className="space-y-6">
+      {statusMessage && (
+        <div
+          className={`p-4 rounded-md ${
+            statusMessage.type === 'success'
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {statusMessage.text}
+        </div>
+      )}
+
+      {issuedToken && (
+        <div className="p-4 rounded-md border space-y-2">
+          <p className="text-sm">
+            Token for <span className="font-medium">{issuedToken.name}</span> - copy it now, it will not be shown again.
+            Set it as <code>AGENT_TOKEN</code> on the agent, with <code>AGENT_CENTRAL_URL</code> pointing here.
+          </p>
+          <code className="block break-all text-sm bg-muted p-2 rounded">{issuedToken.token}</code>
+          <Button variant="outline" size="sm" onClick={() => setIssuedToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Remote Agents</CardTitle>
+          <CardDescription>
+            Agents are WanWatch instances at other sites that push their check results here. Results are
+            buffered on the agent while its WAN is down and uploaded once it reconnects. An agent is flagged when
+            its results stop arriving.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4">
+            <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'outline' : 'default'}>
+              {isAdding ? 'Cancel' : '+ Add Agent'}
+            </Button>
+          </div>
+
+          {isAdding && (
+            <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg space-y-4 bg-muted/50">
+              <div className="space-y-2 md:w-1/3">
+                <Label htmlFor="agentName">Name *</Label>
+                <Input
+                  id="agentName"
+                  value={formData.name}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Branch office"
+                  required
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="agentEnabled"
+                  checked={formData.isEnabled}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, isEnabled: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="agentEnabled" className="cursor-pointer">
+                  Enabled
+                </Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingId ? 'Update Agent' : 'Add Agent'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel Edit
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {agents.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No agents configured
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  agents.map((agent) => (
+                    <TableRow key={agent.id}>
+                      <TableCell>
+                        <div
+                          className={`w-3 h-3 rounded-full ${
+                            !agent.isEnabled ? 'bg-gray-400' : agent.isStale ? 'bg-yellow-500' : 'bg-green-500'
+                          }`}
+                          title={!agent.isEnabled ? 'Disabled' : agent.isStale ? 'Not reporting' : 'Enabled'}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{agent.name}</TableCell>
+                      <TableCell className="text-sm">
+                        {agent.lastSeenAt ? new Date(agent.lastSeenAt).toLocaleString() : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEdit(agent)}>
+                            Edit
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleUpdate(agent, { isEnabled: !agent.isEnabled })}
+                          >
+                            {agent.isEnabled ? 'Disable' : 'Enable'}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleUpdate(agent, { regenerateToken: true })}
+                          >
+                            New Token
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm">
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Agent</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete &quot;{agent.name}&quot;? Its check and outage
+                                  history is removed too. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(agent)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Save, AlertCircle } from 'lucide-react';
+
+interface DegradationValues {
+  latencyThresholdMs: number | null;
+  packetLossThresholdPct: number | null;
+  windowChecks: number;
+  notify: boolean;
+}
+
+interface DegradationData {
+  current: DegradationValues;
+  defaults: DegradationValues;
+}
+
+export function DegradationSettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<DegradationData | null>(null);
+  // Empty thresholds are not checked
+  const [latencyThresholdMs, setLatencyThresholdMs] = useState('');
+  const [packetLossThresholdPct, setPacketLossThresholdPct] = useState('');
+  const [windowChecks, setWindowChecks] = useState(5);
+  const [notify, setNotify] = useState(false);
+
+  // Load current settings on component mount only
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- loadSettings should only run once on mount, not on every change
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/degradation');
+      if (!response.ok) throw new Error('Failed to load settings');
+
+      const result: DegradationData = await response.json();
+      setData(result);
+      setLatencyThresholdMs(result.current.latencyThresholdMs?.toString() ?? '');
+      setPacketLossThresholdPct(result.current.packetLossThresholdPct?.toString() ?? '');
+      setWindowChecks(result.current.windowChecks);
+      setNotify(result.current.notify);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load degradation settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    const latency = latencyThresholdMs.trim() === '' ? null : parseInt(latencyThresholdMs, 10);
+    if (latency !== null && (isNaN(latency) || latency < 1 || latency > 60000)) {
+      toast({
+        title: 'Invalid Latency',
+        description: 'Latency threshold must be between 1 and 60000 ms, or blank to ignore latency',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const loss = packetLossThresholdPct.trim() === '' ? null : parseFloat(packetLossThresholdPct);
+    if (loss !== null && (isNaN(loss) || loss <= 0 || loss >= 100)) {
+      toast({
+        title: 'Invalid Packet Loss',
+        description: 'Packet loss threshold must be between 0 and 100%, or blank to ignore loss',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (windowChecks < 1 || windowChecks > 60) {
+      toast({
+        title: 'Invalid Window',
+        description: 'Window must be between 1 and 60 checks',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings/degradation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          latencyThresholdMs: latency,
+          packetLossThresholdPct: loss,
+          windowChecks,
+          notify
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save settings');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Degradation settings updated. They apply from the next check.'
+      });
+
+      // Reload to get updated state
+      await loadSettings();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-4">
+      {/* Info Alert */}
+      <div className="bg-muted/50 border border-border rounded-lg p-4 flex gap-3">
+        <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Degraded Connection</p>
+          <p>
+            The connection is reported as degraded while it is up but the average latency or packet
+            loss over the last few checks is above a threshold. Packet loss is only measured for ping targets.
+          </p>
+        </div>
+      </div>
+
+      {/* Latency Threshold */}
+      <div className="space-y-2">
+        <Label htmlFor="latencyThresholdMs">
+          Latency Threshold <span className="text-muted-foreground font-normal">(ms, optional)</span>
+        </Label>
+        <Input
+          id="latencyThresholdMs"
+          type="number"
+          min={1}
+          max={60000}
+          placeholder="Not checked"
+          value={latencyThresholdMs}
+          onChange={(e) => setLatencyThresholdMs(e.target.value)}
+          disabled={saving}
+          className="w-32"
+        />
+      </div>
+
+      {/* Packet Loss Threshold */}
+      <div className="space-y-2">
+        <Label htmlFor="packetLossThresholdPct">
+          Packet Loss Threshold <span className="text-muted-foreground font-normal">(%, optional)</span>
+        </Label>
+        <Input
+          id="packetLossThresholdPct"
+          type="number"
+          min={0}
+          max={100}
+          step="0.1"
+          placeholder="Not checked"
+          value={packetLossThresholdPct}
+          onChange={(e) => setPacketLossThresholdPct(e.target.value)}
+          disabled={saving}
+          className="w-32"
+        />
+      </div>
+
+      {/* Window */}
+      <div className="space-y-2">
+        <Label htmlFor="windowChecks">
+          Rolling Window <span className="text-muted-foreground font-normal">(1-60 checks)</span>
+        </Label>
+        <Input
+          id="windowChecks"
+          type="number"
+          min={1}
+          max={60}
+          value={windowChecks}
+          onChange={(e) => setWindowChecks(parseInt(e.target.value) || 0)}
+          disabled={saving}
+          className="w-32"
+        />
+        <p className="text-sm text-muted-foreground">
+          Averages are taken over this many successful checks. A failed check starts the window over.
+        </p>
+      </div>
+
+      {/* Notifications */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="notifyDegraded"
+          checked={notify}
+          onChange={(e) => setNotify(e.target.checked)}
+          disabled={saving}
+          className="rounded"
+        />
+        <Label htmlFor="notifyDegraded" className="cursor-pointer">
+          Email when a degraded period starts and ends
+        </Label>
+      </div>
+
+      {/* Defaults Info */}
+      {data && (
+        <div className="bg-muted/30 rounded-lg p-3 text-sm">
+          <p className="font-medium mb-1">Defaults:</p>
+          <p className="text-muted-foreground">
+            Latency: {data.defaults.latencyThresholdMs ?? 'not checked'} •
+            Packet loss: {data.defaults.packetLossThresholdPct ?? 'not checked'} •
+            Window: {data.defaults.windowChecks} checks
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Save, AlertCircle } from 'lucide-react';
+
+interface DnsCheck {
+  hostname: string;
+  ranges: string[];
+}
+
+interface InterceptionValues {
+  enabled: boolean;
+  checkUrl: string;
+  expectedStatus: number;
+  bodyMatch: string | null;
+  dnsChecks: DnsCheck[];
+}
+
+interface InterceptionData {
+  current: InterceptionValues;
+  defaults: InterceptionValues;
+}
+
+// One hostname per line, followed by its ranges: "dns.google 8.8.8.0/24, 8.8.4.0/24"
+const formatDnsChecks = (checks: DnsCheck[]) =>
+  checks.map((check) => `${check.hostname} ${check.ranges.join(', ')}`).join('\n');
+
+const parseDnsChecks = (text: string): DnsCheck[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [hostname = '', ...ranges] = line.split(/[\s,]+/);
+      return { hostname, ranges };
+    });
+
+export function InterceptionSettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<InterceptionData | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [checkUrl, setCheckUrl] = useState('');
+  const [expectedStatus, setExpectedStatus] = useState(204);
+  // Empty body match checks the status only
+  const [bodyMatch, setBodyMatch] = useState('');
+  const [dnsChecks, setDnsChecks] = useState('');
+
+  // Load current settings on component mount only
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- loadSettings should only run once on mount, not on every change
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/interception');
+      if (!response.ok) throw new Error('Failed to load settings');
+
+      const result: InterceptionData = await response.json();
+      setData(result);
+      setEnabled(result.current.enabled);
+      setCheckUrl(result.current.checkUrl);
+      setExpectedStatus(result.current.expectedStatus);
+      setBodyMatch(result.current.bodyMatch ?? '');
+      setDnsChecks(formatDnsChecks(result.current.dnsChecks));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load interception settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    if (!/^https?:\/\//.test(checkUrl.trim())) {
+      toast({
+        title: 'Invalid URL',
+        description: 'Check URL must start with http:// or https://',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (expectedStatus < 100 || expectedStatus > 599) {
+      toast({
+        title: 'Invalid Status',
+        description: 'Expected status must be between 100 and 599',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const parsedChecks = parseDnsChecks(dnsChecks);
+    const missingRanges = parsedChecks.find((check) => check.ranges.length === 0);
+    if (missingRanges) {
+      toast({
+        title: 'Invalid Hostname Check',
+        description: `${missingRanges.hostname} needs at least one address range, e.g. 8.8.8.0/24`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings/interception', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          checkUrl: checkUrl.trim(),
+          expectedStatus,
+          bodyMatch: bodyMatch.trim() === '' ? null : bodyMatch,
+          dnsChecks: parsedChecks
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to save settings');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Interception settings updated. They apply from the next check.'
+      });
+
+      // Reload to get updated state
+      await loadSettings();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetHostnames = () => {
+    if (data) {
+      setDnsChecks(formatDnsChecks(data.defaults.dnsChecks));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-4">
+      {/* Info Alert */}
+      <div className="bg-muted/50 border border-border rounded-lg p-4 flex gap-3">
+        <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Interception Detection</p>
+          <p>
+            Some modems and captive portals answer every request with their own page while the internet is
+            unreachable. Each check, a connectivity-check URL is fetched and known hostnames are resolved. A wrong
+            response or an address outside the expected ranges counts as interception: the connection is reported
+            down and the outage is classified as intercepted.
+          </p>
+        </div>
+      </div>
+
+      {/* Enabled */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="interceptionEnabled"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          disabled={saving}
+          className="rounded"
+        />
+        <Label htmlFor="interceptionEnabled" className="cursor-pointer">
+          Detect captive portals and DNS hijacking
+        </Label>
+      </div>
+
+      {/* Check URL */}
+      <div className="space-y-2">
+        <Label htmlFor="interceptionCheckUrl">Connectivity Check URL</Label>
+        <Input
+          id="interceptionCheckUrl"
+          value={checkUrl}
+          onChange={(e) => setCheckUrl(e.target.value)}
+          disabled={saving}
+          className="font-mono text-sm"
+        />
+        <p className="text-sm text-muted-foreground">
+          Use plain http:// - portals usually cannot answer for https:// without a certificate error.
+        </p>
+      </div>
+
+      {/* Expected Response */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="interceptionExpectedStatus">Expected Status</Label>
+          <Input
+            id="interceptionExpectedStatus"
+            type="number"
+            min={100}
+            max={599}
+            value={expectedStatus}
+            onChange={(e) => setExpectedStatus(parseInt(e.target.value) || 0)}
+            disabled={saving}
+            className="w-32"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="interceptionBodyMatch">
+            Expected Body Text <span className="text-muted-foreground font-normal">(optional)</span>
+          </Label>
+          <Input
+            id="interceptionBodyMatch"
+            placeholder="Not checked"
+            value={bodyMatch}
+            onChange={(e) => setBodyMatch(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+      </div>
+
+      {/* Hostname Checks */}
+      <div className="space-y-2">
+        <Label htmlFor="interceptionDnsChecks">Hostname Checks</Label>
+        <textarea
+          id="interceptionDnsChecks"
+          rows={4}
+          value={dnsChecks}
+          onChange={(e) => setDnsChecks(e.target.value)}
+          disabled={saving}
+          placeholder="dns.google 8.8.8.0/24, 8.8.4.0/24"
+          className="flex w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        />
+        <p className="text-sm text-muted-foreground">
+          One hostname per line, followed by the address ranges it must resolve into. Addresses of a family
+          with no range listed are not checked. A lookup that fails is not counted as interception.
+        </p>
+      </div>
+
+      {/* Defaults Info */}
+      {data && (
+        <div className="bg-muted/30 rounded-lg p-3 text-sm">
+          <p className="font-medium mb-1">Defaults:</p>
+          <p className="text-muted-foreground">
+            {data.defaults.checkUrl} • Status {data.defaults.expectedStatus} •
+            Hostnames: {data.defaults.dnsChecks.map((check) => check.hostname).join(', ')}
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={handleResetHostnames}
+          disabled={saving}
+        >
+          Default Hostnames
+        </Button>
+      </div>
+    </div>
+  );
+}
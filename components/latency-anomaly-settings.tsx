@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Save, AlertCircle } from 'lucide-react';
+
+interface LatencyAnomalyValues {
+  enabled: boolean;
+  zScoreThreshold: number;
+  windowChecks: number;
+  baselineDays: number;
+  notify: boolean;
+}
+
+interface LatencyAnomalyData {
+  current: LatencyAnomalyValues;
+  defaults: LatencyAnomalyValues;
+}
+
+export function LatencyAnomalySettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<LatencyAnomalyData | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [zScoreThreshold, setZScoreThreshold] = useState(3);
+  const [windowChecks, setWindowChecks] = useState(3);
+  const [baselineDays, setBaselineDays] = useState(14);
+  const [notify, setNotify] = useState(false);
+
+  // Load current settings on component mount only
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- loadSettings should only run once on mount, not on every change
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/latency-anomaly');
+      if (!response.ok) throw new Error('Failed to load settings');
+
+      const result: LatencyAnomalyData = await response.json();
+      setData(result);
+      setEnabled(result.current.enabled);
+      setZScoreThreshold(result.current.zScoreThreshold);
+      setWindowChecks(result.current.windowChecks);
+      setBaselineDays(result.current.baselineDays);
+      setNotify(result.current.notify);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load latency anomaly settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    if (isNaN(zScoreThreshold) || zScoreThreshold < 1 || zScoreThreshold > 10) {
+      toast({
+        title: 'Invalid Sensitivity',
+        description: 'Z-score threshold must be between 1 and 10',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (windowChecks < 1 || windowChecks > 60) {
+      toast({
+        title: 'Invalid Window',
+        description: 'Rolling window must be between 1 and 60 checks',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (baselineDays < 3 || baselineDays > 90) {
+      toast({
+        title: 'Invalid History',
+        description: 'Baseline history must be between 3 and 90 days',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings/latency-anomaly', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          zScoreThreshold,
+          windowChecks,
+          baselineDays,
+          notify
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to save settings');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Latency anomaly settings updated. They apply within a minute.'
+      });
+
+      // Reload to get updated state
+      await loadSettings();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-4">
+      {/* Info Alert */}
+      <div className="bg-muted/50 border border-border rounded-lg p-4 flex gap-3">
+        <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Latency Anomalies</p>
+          <p>
+            Normal latency is learned for each target and hour of the day from past checks. An anomaly is recorded
+            while the average latency over the last few checks is far above normal for that hour - e.g. congestion
+            that builds up in the evening, which a fixed threshold set for the whole day would miss. Nothing is
+            flagged for an hour of the day until it has enough history.
+          </p>
+        </div>
+      </div>
+
+      {/* Enabled */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="anomalyEnabled"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          disabled={saving}
+          className="rounded"
+        />
+        <Label htmlFor="anomalyEnabled" className="cursor-pointer">
+          Detect latency anomalies
+        </Label>
+      </div>
+
+      {/* Z-Score Threshold */}
+      <div className="space-y-2">
+        <Label htmlFor="anomalyZScore">
+          Sensitivity <span className="text-muted-foreground font-normal">(z-score, 1-10)</span>
+        </Label>
+        <Input
+          id="anomalyZScore"
+          type="number"
+          min={1}
+          max={10}
+          step="0.5"
+          value={zScoreThreshold}
+          onChange={(e) => setZScoreThreshold(parseFloat(e.target.value))}
+          disabled={saving}
+          className="w-32"
+        />
+        <p className="text-sm text-muted-foreground">
+          How many standard deviations above normal the average must be. Lower values flag smaller increases.
+        </p>
+      </div>
+
+      {/* Window */}
+      <div className="space-y-2">
+        <Label htmlFor="anomalyWindowChecks">
+          Rolling Window <span className="text-muted-foreground font-normal">(1-60 checks)</span>
+        </Label>
+        <Input
+          id="anomalyWindowChecks"
+          type="number"
+          min={1}
+          max={60}
+          value={windowChecks}
+          onChange={(e) => setWindowChecks(parseInt(e.target.value) || 0)}
+          disabled={saving}
+          className="w-32"
+        />
+        <p className="text-sm text-muted-foreground">
+          Averages are taken over this many successful checks per target. A failed check starts the window over.
+        </p>
+      </div>
+
+      {/* Baseline History */}
+      <div className="space-y-2">
+        <Label htmlFor="anomalyBaselineDays">
+          Baseline History <span className="text-muted-foreground font-normal">(3-90 days)</span>
+        </Label>
+        <Input
+          id="anomalyBaselineDays"
+          type="number"
+          min={3}
+          max={90}
+          value={baselineDays}
+          onChange={(e) => setBaselineDays(parseInt(e.target.value) || 0)}
+          disabled={saving}
+          className="w-32"
+        />
+      </div>
+
+      {/* Notifications */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="notifyAnomaly"
+          checked={notify}
+          onChange={(e) => setNotify(e.target.checked)}
+          disabled={saving}
+          className="rounded"
+        />
+        <Label htmlFor="notifyAnomaly" className="cursor-pointer">
+          Email when an anomaly starts and ends
+        </Label>
+      </div>
+
+      {/* Defaults Info */}
+      {data && (
+        <div className="bg-muted/30 rounded-lg p-3 text-sm">
+          <p className="font-medium mb-1">Defaults:</p>
+          <p className="text-muted-foreground">
+            Sensitivity: {data.defaults.zScoreThreshold} •
+            Window: {data.defaults.windowChecks} checks •
+            History: {data.defaults.baselineDays} days
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { fetcher } from '@/lib/fetcher';
+
+type Recurrence = 'none' | 'daily' | 'weekly';
+
+// Select items cannot have an empty value, so the whole connection gets its own
+const WHOLE_CONNECTION = 'connection';
+
+interface MaintenanceWindow {
+  id: number;
+  description: string;
+  startTime: string;
+  durationMin: number;
+  recurrence: Recurrence;
+  repeatUntil: string | null;
+  isEnabled: boolean;
+  targetId: number | null;
+  groupId: number | null;
+}
+
+interface MaintenanceWindowFormData {
+  description: string;
+  startTime: string;
+  durationMin: string;
+  recurrence: Recurrence;
+  repeatUntil: string;
+  scope: string;
+  isEnabled: boolean;
+}
+
+const EMPTY_FORM: MaintenanceWindowFormData = {
+  description: '',
+  startTime: '',
+  durationMin: '60',
+  recurrence: 'none',
+  repeatUntil: '',
+  scope: WHOLE_CONNECTION,
+  isEnabled: true,
+};
+
+// Format a time for a datetime-local input, in the browser's time zone
+const toLocalInput = (time: string) => {
+  const date = new Date(time);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Parse a datetime-local input value back into an ISO timestamp
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+const formatDuration = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60}h` : minutes > 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+/**
+ * Describe when a window happens, e.g. "Every Sunday at 04:00 for 15m"
+ */
+function formatSchedule(maintenance: MaintenanceWindow): string {
+  const start = new Date(maintenance.startTime);
+  const time = start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const duration = `for ${formatDuration(maintenance.durationMin)}`;
+
+  if (maintenance.recurrence === 'none') {
+    return `${start.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} ${duration}`;
+  }
+
+  const every = maintenance.recurrence === 'daily'
+    ? 'Every day'
+    : `Every ${start.toLocaleDateString([], { weekday: 'long' })}`;
+  const until = maintenance.repeatUntil ? `, until ${new Date(maintenance.repeatUntil).toLocaleDateString()}` : '';
+  return `${every} at ${time} ${duration}${until}`;
+}
+
+export default function MaintenanceWindowsManager() {
+  const { data, error, mutate } = useSWR<{
+    windows: MaintenanceWindow[];
+    targets: Array<{ id: number; displayName: string }>;
+    groups: Array<{ id: number; name: string }>;
+  }>('/api/settings/maintenance', fetcher, { refreshInterval: 30000 });
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<MaintenanceWindowFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setStatusMessage({ type, text });
+    setTimeout(() => setStatusMessage(null), 5000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const [scopeType, scopeId] = formData.scope.split(':');
+      const payload = {
+        description: formData.description,
+        startTime: fromLocalInput(formData.startTime),
+        durationMin: parseInt(formData.durationMin, 10),
+        recurrence: formData.recurrence,
+        repeatUntil: formData.recurrence !== 'none' && formData.repeatUntil
+          ? fromLocalInput(formData.repeatUntil)
+          : null,
+        targetId: scopeType === 'target' ? Number(scopeId) : null,
+        groupId: scopeType === 'group' ? Number(scopeId) : null,
+        isEnabled: formData.isEnabled,
+      };
+      const body = editingId ? { id: editingId, ...payload } : payload;
+
+      const response = await fetch('/api/settings/maintenance', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        showMessage('success', editingId ? 'Maintenance window updated successfully' : 'Maintenance window added successfully');
+        await mutate();
+        resetForm();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.details?.[0]?.message || result.error || 'Failed to save maintenance window');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to save maintenance window. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (maintenance: MaintenanceWindow) => {
+    setFormData({
+      description: maintenance.description,
+      startTime: toLocalInput(maintenance.startTime),
+      durationMin: String(maintenance.durationMin),
+      recurrence: maintenance.recurrence,
+      repeatUntil: maintenance.repeatUntil ? toLocalInput(maintenance.repeatUntil) : '',
+      scope: maintenance.targetId
+        ? `target:${maintenance.targetId}`
+        : maintenance.groupId
+        ? `group:${maintenance.groupId}`
+        : WHOLE_CONNECTION,
+      isEnabled: maintenance.isEnabled,
+    });
+    setEditingId(maintenance.id);
+    setIsAdding(true);
+  };
+
+  const handleToggleEnabled = async (maintenance: MaintenanceWindow) => {
+    try {
+      const response = await fetch('/api/settings/maintenance', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: maintenance.id, isEnabled: !maintenance.isEnabled }),
+      });
+
+      if (response.ok) {
+        showMessage('success', `Maintenance window ${!maintenance.isEnabled ? 'enabled' : 'disabled'} successfully`);
+        await mutate();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to update maintenance window');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to update maintenance window. Please try again.');
+    }
+  };
+
+  const handleDelete = async (maintenance: MaintenanceWindow) => {
+    try {
+      const response = await fetch(`/api/settings/maintenance?id=${maintenance.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        showMessage('success', 'Maintenance window deleted successfully');
+        await mutate();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to delete maintenance window');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to delete maintenance window. Please try again.');
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">Failed to load maintenance windows</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const windows = data?.windows || [];
+  const targets = data?.targets || [];
+  const groups = data?.groups || [];
+
+  const describeScope = (maintenance: MaintenanceWindow) => {
+    if (maintenance.targetId) {
+      return targets.find((target) => target.id === maintenance.targetId)?.displayName ?? `Target #${maintenance.targetId}`;
+    }
+    if (maintenance.groupId) {
+      return groups.find((group) => group.id === maintenance.groupId)?.name ?? `Group #${maintenance.groupId}`;
+    }
+    return 'Whole connection';
+  };
+
+  return (
+    <div className="space-y-6">
+      {statusMessage && (
+        <div
+          className={`p-4 rounded-md ${
+            statusMessage.type === 'success'
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {statusMessage.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Maintenance Windows</CardTitle>
+          <CardDescription>
+            Planned downtime, such as an ISP maintenance night or a weekly router reboot. Outages starting in a
+            window are still recorded, but flagged as planned: no notifications are sent and they are left out of the
+            outage totals and uptime. Recurring windows repeat at the same local time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4">
+            <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'outline' : 'default'}>
+              {isAdding ? 'Cancel' : '+ Add Maintenance Window'}
+            </Button>
+          </div>
+
+          {isAdding && (
+            <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg space-y-4 bg-muted/50">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maintenanceDescription">Description *</Label>
+                  <Input
+                    id="maintenanceDescription"
+                    value={formData.description}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                    placeholder="e.g., Weekly router reboot"
+                    maxLength={200}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="maintenanceScope">Covers</Label>
+                  <Select
+                    value={formData.scope}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, scope: value }))}
+                  >
+                    <SelectTrigger id="maintenanceScope">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WHOLE_CONNECTION}>Whole connection</SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={`group-${group.id}`} value={`group:${group.id}`}>
+                          Group: {group.name}
+                        </SelectItem>
+                      ))}
+                      {targets.map((target) => (
+                        <SelectItem key={`target-${target.id}`} value={`target:${target.id}`}>
+                          Target: {target.displayName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="maintenanceStart">Start *</Label>
+                  <Input
+                    id="maintenanceStart"
+                    type="datetime-local"
+                    value={formData.startTime}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, startTime: e.target.value }))}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="maintenanceDuration">Duration (minutes) *</Label>
+                  <Input
+                    id="maintenanceDuration"
+                    type="number"
+                    min={1}
+                    max={10080}
+                    value={formData.durationMin}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, durationMin: e.target.value }))}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="maintenanceRecurrence">Repeats</Label>
+                  <Select
+                    value={formData.recurrence}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, recurrence: value as Recurrence }))}
+                  >
+                    <SelectTrigger id="maintenanceRecurrence">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Once</SelectItem>
+                      <SelectItem value="daily">Every day</SelectItem>
+                      <SelectItem value="weekly">Every week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.recurrence !== 'none' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="maintenanceRepeatUntil">Repeat Until</Label>
+                    <Input
+                      id="maintenanceRepeatUntil"
+                      type="datetime-local"
+                      value={formData.repeatUntil}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, repeatUntil: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground">Leave empty to repeat indefinitely</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="maintenanceEnabled"
+                  checked={formData.isEnabled}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, isEnabled: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="maintenanceEnabled" className="cursor-pointer">
+                  Enabled
+                </Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingId ? 'Update Maintenance Window' : 'Add Maintenance Window'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel Edit
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Covers</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {windows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No maintenance windows configured
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  windows.map((maintenance) => (
+                    <TableRow key={maintenance.id}>
+                      <TableCell>
+                        <div
+                          className={`w-3 h-3 rounded-full ${maintenance.isEnabled ? 'bg-green-500' : 'bg-gray-400'}`}
+                          title={maintenance.isEnabled ? 'Enabled' : 'Disabled'}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{maintenance.description}</TableCell>
+                      <TableCell className="text-sm">{formatSchedule(maintenance)}</TableCell>
+                      <TableCell className="text-sm">{describeScope(maintenance)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEdit(maintenance)}>
+                            Edit
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleToggleEnabled(maintenance)}>
+                            {maintenance.isEnabled ? 'Disable' : 'Enable'}
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm">
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Maintenance Window</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete &quot;{maintenance.description}&quot;? Outages already
+                                  recorded as planned stay planned. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(maintenance)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
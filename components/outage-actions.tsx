@@ -0,0 +1,283 @@
+"use client";
+
+import { useState } from 'react';
+import { useSWRConfig } from 'swr';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Outage } from '@/types/dashboard';
+import { MoreHorizontal } from 'lucide-react';
+
+type OutageDialog = 'times' | 'split' | 'merge' | 'delete';
+
+// Format a time for a datetime-local input, in the browser's time zone
+const toLocalInput = (time: Date | string) => {
+  const date = new Date(time);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 19);
+};
+
+// Parse a datetime-local input value back into an ISO timestamp
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+const formatRange = (outage: Outage) =>
+  `${new Date(outage.startTime).toLocaleString()}` +
+  (outage.endTime ? ` - ${new Date(outage.endTime).toLocaleString()}` : '');
+
+export function OutageActions({ outage, previousOutage }: { outage: Outage; previousOutage: Outage | null }) {
+  const { toast } = useToast();
+  const { mutate } = useSWRConfig();
+  const [dialog, setDialog] = useState<OutageDialog | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [splitAt, setSplitAt] = useState('');
+  const [resumeAt, setResumeAt] = useState('');
+
+  const openDialog = (next: OutageDialog) => {
+    setStartTime(toLocalInput(outage.startTime));
+    setEndTime(outage.endTime ? toLocalInput(outage.endTime) : '');
+    setSplitAt('');
+    setResumeAt('');
+    setDialog(next);
+  };
+
+  const send = async (url: string, method: 'PATCH' | 'POST' | 'DELETE', success: string, body?: object) => {
+    try {
+      setSaving(true);
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to change outage');
+      }
+
+      await mutate('/api/stats');
+      setDialog(null);
+      toast({
+        title: 'Success',
+        description: success
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to change outage',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveTimes = () => send(`/api/outages/${outage.id}`, 'PATCH', 'Outage times updated', {
+    startTime: fromLocalInput(startTime),
+    ...(outage.isResolved && endTime && { endTime: fromLocalInput(endTime) })
+  });
+
+  const handleSplit = () => {
+    if (!splitAt) {
+      toast({
+        title: 'Missing Time',
+        description: 'Enter when the first part of the outage ended',
+        variant: 'destructive'
+      });
+      return;
+    }
+    return send(`/api/outages/${outage.id}/split`, 'POST', 'Outage split in two', {
+      splitAt: fromLocalInput(splitAt),
+      ...(resumeAt && { resumeAt: fromLocalInput(resumeAt) })
+    });
+  };
+
+  const handleMerge = () => previousOutage && send('/api/outages/merge', 'POST', 'Outages merged', {
+    ids: [previousOutage.id, outage.id]
+  });
+
+  const handleToggleExcluded = () => send(
+    `/api/outages/${outage.id}`,
+    'PATCH',
+    outage.isExcluded ? 'Outage counted in statistics again' : 'Outage excluded from statistics',
+    { isExcluded: !outage.isExcluded }
+  );
+
+  const handleDelete = () => send(`/api/outages/${outage.id}`, 'DELETE', 'Outage deleted');
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 px-2" aria-label={`Actions for outage #${outage.id}`}>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => openDialog('times')}>Edit times</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openDialog('split')} disabled={!outage.isResolved}>
+            Split
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openDialog('merge')} disabled={!previousOutage}>
+            Merge with previous
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleToggleExcluded} disabled={saving}>
+            {outage.isExcluded ? 'Include in statistics' : 'Exclude from statistics'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openDialog('delete')} className="text-destructive">
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Edit Times */}
+      <AlertDialog open={dialog === 'times'} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit Outage Times</AlertDialogTitle>
+            <AlertDialogDescription>
+              Times are in your browser&apos;s time zone. The duration is recalculated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`startTime-${outage.id}`}>Start Time</Label>
+              <Input
+                id={`startTime-${outage.id}`}
+                type="datetime-local"
+                step="1"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            {outage.isResolved && (
+              <div className="space-y-2">
+                <Label htmlFor={`endTime-${outage.id}`}>End Time</Label>
+                <Input
+                  id={`endTime-${outage.id}`}
+                  type="datetime-local"
+                  step="1"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+            )}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <Button onClick={handleSaveTimes} disabled={saving || !startTime}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Split */}
+      <AlertDialog open={dialog === 'split'} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Split Outage</AlertDialogTitle>
+            <AlertDialogDescription>
+              {formatRange(outage)}. The first part ends at the split time; the second starts when the
+              connection went down again - leave it empty if there was no gap.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`splitAt-${outage.id}`}>First Part Ended</Label>
+              <Input
+                id={`splitAt-${outage.id}`}
+                type="datetime-local"
+                step="1"
+                value={splitAt}
+                onChange={(e) => setSplitAt(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`resumeAt-${outage.id}`}>
+                Second Part Started <span className="text-muted-foreground font-normal">(optional)</span>
+              </Label>
+              <Input
+                id={`resumeAt-${outage.id}`}
+                type="datetime-local"
+                step="1"
+                value={resumeAt}
+                onChange={(e) => setResumeAt(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <Button onClick={handleSplit} disabled={saving}>
+              {saving ? 'Splitting...' : 'Split'}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Merge */}
+      <AlertDialog open={dialog === 'merge'} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Outages</AlertDialogTitle>
+            <AlertDialogDescription>
+              {previousOutage && `${formatRange(previousOutage)} and ${formatRange(outage)}`} become one
+              outage, with the checks, network paths, tags and notes of both.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <Button onClick={handleMerge} disabled={saving}>
+              {saving ? 'Merging...' : 'Merge'}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete */}
+      <AlertDialog open={dialog === 'delete'} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Outage</AlertDialogTitle>
+            <AlertDialogDescription>
+              {formatRange(outage)} and its network paths are removed. Its values stay in the audit trail.
+              To keep it in the history but out of the statistics, exclude it instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={handleDelete} disabled={saving}>
+              {saving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from 'react';
+import { useSWRConfig } from 'swr';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Outage } from '@/types/dashboard';
+import { Pencil } from 'lucide-react';
+
+/**
+ * Labels for the root causes a user can record
+ */
+export const ROOT_CAUSE_LABELS: Record<NonNullable<Outage['rootCause']>, string> = {
+  isp: 'ISP',
+  power: 'Power',
+  local_equipment: 'Local equipment',
+  planned: 'Planned',
+  unknown: 'Unknown',
+};
+
+// Select items cannot have an empty value, so "not set" gets its own
+const NO_ROOT_CAUSE = 'none';
+
+export function OutageAnnotationDialog({ outage }: { outage: Outage }) {
+  const { toast } = useToast();
+  const { mutate } = useSWRConfig();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rootCause, setRootCause] = useState<string>(outage.rootCause ?? NO_ROOT_CAUSE);
+  const [ispTicket, setIspTicket] = useState(outage.ispTicket ?? '');
+  const [tags, setTags] = useState(outage.tags.join(', '));
+  const [notes, setNotes] = useState(outage.notes ?? '');
+
+  // Start from the saved values each time the dialog opens
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setRootCause(outage.rootCause ?? NO_ROOT_CAUSE);
+      setIspTicket(outage.ispTicket ?? '');
+      setTags(outage.tags.join(', '));
+      setNotes(outage.notes ?? '');
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/outages/${outage.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rootCause: rootCause === NO_ROOT_CAUSE ? null : rootCause,
+          ispTicket,
+          tags: tags.split(','),
+          notes
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to save annotation');
+      }
+
+      await mutate('/api/stats');
+      setOpen(false);
+      toast({
+        title: 'Success',
+        description: 'Outage annotation saved'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save annotation',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 px-2" aria-label={`Annotate outage #${outage.id}`}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Annotate Outage</AlertDialogTitle>
+          <AlertDialogDescription>
+            {new Date(outage.startTime).toLocaleString()}
+            {outage.endTime && ` - ${new Date(outage.endTime).toLocaleString()}`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`rootCause-${outage.id}`}>Root Cause</Label>
+            <Select value={rootCause} onValueChange={setRootCause} disabled={saving}>
+              <SelectTrigger id={`rootCause-${outage.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ROOT_CAUSE}>Not set</SelectItem>
+                {Object.entries(ROOT_CAUSE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`ispTicket-${outage.id}`}>ISP Ticket Number</Label>
+            <Input
+              id={`ispTicket-${outage.id}`}
+              value={ispTicket}
+              onChange={(e) => setIspTicket(e.target.value)}
+              placeholder="e.g., INC-104233"
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`tags-${outage.id}`}>
+              Tags <span className="text-muted-foreground font-normal">(comma separated)</span>
+            </Label>
+            <Input
+              id={`tags-${outage.id}`}
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g., storm, fibre-cut"
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`notes-${outage.id}`}>Notes</Label>
+            <textarea
+              id={`notes-${outage.id}`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              maxLength={5000}
+              disabled={saving}
+              className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
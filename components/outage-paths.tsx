@@ -0,0 +1,202 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ROOT_CAUSE_LABELS } from '@/components/outage-annotation-dialog';
+import { fetcher } from '@/lib/fetcher';
+import { OutageAuditEntry, OutageDetail, OutagePath } from '@/types/dashboard';
+import { memo } from 'react';
+import useSWR from 'swr';
+
+const PHASE_LABELS: Record<OutagePath['phase'], string> = {
+  start: 'Outage start',
+  during: 'During outage',
+  recovery: 'Recovery',
+};
+
+// Helper function for formatting duration
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+};
+
+// Describe a manual change recorded in the audit trail
+const describeAuditEntry = (entry: OutageAuditEntry) => {
+  const details = entry.details;
+  switch (entry.action) {
+    case 'updated': {
+      const changes = details.changes as Record<string, { from: unknown; to: unknown }>;
+      return `Changed ${Object.entries(changes)
+        .map(([field, change]) => `${field} from ${JSON.stringify(change.from)} to ${JSON.stringify(change.to)}`)
+        .join(', ')}`;
+    }
+    case 'merged':
+      return details.mergedInto !== undefined
+        ? `Merged into outage #${details.mergedInto}`
+        : `Merged with outage ${(details.mergedOutageIds as number[]).map(id => `#${id}`).join(', ')}`;
+    case 'split':
+      return details.splitFrom !== undefined
+        ? `Split off from outage #${details.splitFrom}`
+        : `Split at ${new Date(details.splitAt as string).toLocaleString()} into this outage and #${details.newOutageId}`;
+    case 'deleted':
+      return 'Deleted';
+  }
+};
+
+// Last hop that answered - where packets stopped when the target was not reached
+const getLastRespondingHop = (path: OutagePath) =>
+  [...path.hops].reverse().find(hop => hop.address !== null) ?? null;
+
+// Memoized PathCard component - one captured traceroute
+const PathCard = memo(({ path }: { path: OutagePath }) => {
+  const lastHop = getLastRespondingHop(path);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {PHASE_LABELS[path.phase]} • {new Date(path.timestamp).toLocaleString()}
+        </CardTitle>
+        <CardDescription>
+          Traced toward {path.target}
+          {lastHop && ` • Last responding hop: ${lastHop.hop} (${lastHop.address})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {path.error ? (
+          <p className="text-sm text-destructive">Traceroute failed: {path.error}</p>
+        ) : path.hops.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hops recorded</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Hop</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead className="text-right">RTT</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {path.hops.map(hop => (
+                <TableRow key={hop.hop}>
+                  <TableCell>{hop.hop}</TableCell>
+                  <TableCell className={hop.address ? 'font-mono' : 'text-muted-foreground'}>
+                    {hop.address ?? 'No reply'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {hop.rttMs !== null ? `${hop.rttMs.toFixed(1)} ms` : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+PathCard.displayName = 'PathCard';
+
+export default function OutagePaths({ outageId }: { outageId: string }) {
+  const { data: outage, error, isLoading } = useSWR<OutageDetail>(
+    `/api/outages/${outageId}`,
+    fetcher,
+    {
+      // Paths keep arriving while the outage lasts
+      refreshInterval: 60000,
+      onError: (err) => console.error('Outage fetch error:', err),
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Outage</CardTitle>
+          <CardDescription>Loading outage data...</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (error || !outage) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Outage</CardTitle>
+          <CardDescription className="text-destructive">
+            Failed to load outage data
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Outage #{outage.id}</CardTitle>
+          <CardDescription>
+            {new Date(outage.startTime).toLocaleString()}
+            {outage.endTime
+              ? ` - ${new Date(outage.endTime).toLocaleString()} (${formatDuration(outage.durationSec ?? 0)})`
+              : ' - ongoing'}
+            {outage.classification === 'local' && ' • Cause: local network (gateway unreachable)'}
+            {outage.classification === 'upstream' && ' • Cause: upstream / ISP (gateway reachable)'}
+            {outage.classification === 'intercepted' && ' • Cause: intercepted (captive portal or DNS hijack)'}
+          </CardDescription>
+        </CardHeader>
+        {(outage.rootCause || outage.ispTicket || outage.tags.length > 0 || outage.notes) && (
+          <CardContent className="space-y-2 text-sm">
+            <div>
+              Root cause: {outage.rootCause ? ROOT_CAUSE_LABELS[outage.rootCause] : 'Not set'}
+              {outage.ispTicket && ` • ISP ticket ${outage.ispTicket}`}
+            </div>
+            {outage.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {outage.tags.map(tag => (
+                  <span key={tag} className="px-1.5 py-0.5 rounded bg-muted text-xs">{tag}</span>
+                ))}
+              </div>
+            )}
+            {outage.notes && (
+              <p className="text-muted-foreground whitespace-pre-wrap">{outage.notes}</p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {outage.auditTrail.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Change History</CardTitle>
+            <CardDescription>Manual edits to this outage</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y divide-border text-sm">
+              {outage.auditTrail.map(entry => (
+                <div key={entry.id} className="py-2 flex flex-col sm:flex-row gap-1 sm:gap-4">
+                  <div className="text-muted-foreground sm:w-48 shrink-0">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </div>
+                  <div className="flex-1 break-words">{describeAuditEntry(entry)}</div>
+                  <div className="text-muted-foreground sm:w-48 truncate">{entry.userEmail ?? 'Unknown user'}</div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {outage.paths.length === 0 ? (
+        <div className="text-center py-10 text-muted-foreground">
+          No network paths captured for this outage
+        </div>
+      ) : (
+        outage.paths.map(path => <PathCard key={path.id} path={path} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Stats } from '@/types/dashboard';
+import { Save, AlertCircle } from 'lucide-react';
+
+type DurationMode = Stats['durationMode'];
+
+interface OutageThresholdValues {
+  failureThreshold: number;
+  recoveryThreshold: number;
+  minFailedTargets: number | null;
+  durationMode: DurationMode;
+}
+
+const DURATION_MODE_LABELS: Record<DurationMode, string> = {
+  recorded: 'As recorded',
+  conservative: 'Conservative',
+  estimated: 'Estimated'
+};
+
+interface OutageRulesData {
+  current: OutageThresholdValues;
+  defaults: OutageThresholdValues;
+}
+
+export function OutageRulesSettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<OutageRulesData | null>(null);
+  const [failureThreshold, setFailureThreshold] = useState(1);
+  const [recoveryThreshold, setRecoveryThreshold] = useState(1);
+  // Empty means every target must fail
+  const [minFailedTargets, setMinFailedTargets] = useState('');
+  const [durationMode, setDurationMode] = useState<DurationMode>('recorded');
+
+  // Load current settings on component mount only
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- loadSettings should only run once on mount, not on every change
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/outage-rules');
+      if (!response.ok) throw new Error('Failed to load settings');
+
+      const result: OutageRulesData = await response.json();
+      setData(result);
+      setFailureThreshold(result.current.failureThreshold);
+      setRecoveryThreshold(result.current.recoveryThreshold);
+      setMinFailedTargets(result.current.minFailedTargets?.toString() ?? '');
+      setDurationMode(result.current.durationMode);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load outage rules',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    if (failureThreshold < 1 || failureThreshold > 20 || recoveryThreshold < 1 || recoveryThreshold > 20) {
+      toast({
+        title: 'Invalid Threshold',
+        description: 'Failure and recovery thresholds must be between 1 and 20 checks',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const minFailed = minFailedTargets.trim() === '' ? null : parseInt(minFailedTargets, 10);
+    if (minFailed !== null && (isNaN(minFailed) || minFailed < 1)) {
+      toast({
+        title: 'Invalid Target Count',
+        description: 'Failed targets must be at least 1, or blank to require every target',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings/outage-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          failureThreshold,
+          recoveryThreshold,
+          minFailedTargets: minFailed,
+          durationMode
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save settings');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Outage rules updated. They apply from the next check.'
+      });
+
+      // Reload to get updated state
+      await loadSettings();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-4">
+      {/* Info Alert */}
+      <div className="bg-muted/50 border border-border rounded-lg p-4 flex gap-3">
+        <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Outage Confirmation</p>
+          <p>
+            Require several failed checks in a row before recording an outage, so a single lost
+            ping does not create an outage and an email. The outage still starts at the first failed check.
+          </p>
+        </div>
+      </div>
+
+      {/* Failure Threshold */}
+      <div className="space-y-2">
+        <Label htmlFor="failureThreshold">
+          Failed Checks to Open <span className="text-muted-foreground font-normal">(1-20 in a row)</span>
+        </Label>
+        <Input
+          id="failureThreshold"
+          type="number"
+          min={1}
+          max={20}
+          value={failureThreshold}
+          onChange={(e) => setFailureThreshold(parseInt(e.target.value) || 0)}
+          disabled={saving}
+          className="w-32"
+        />
+      </div>
+
+      {/* Recovery Threshold */}
+      <div className="space-y-2">
+        <Label htmlFor="recoveryThreshold">
+          Successful Checks to Resolve <span className="text-muted-foreground font-normal">(1-20 in a row)</span>
+        </Label>
+        <Input
+          id="recoveryThreshold"
+          type="number"
+          min={1}
+          max={20}
+          value={recoveryThreshold}
+          onChange={(e) => setRecoveryThreshold(parseInt(e.target.value) || 0)}
+          disabled={saving}
+          className="w-32"
+        />
+      </div>
+
+      {/* Minimum Failed Targets */}
+      <div className="space-y-2">
+        <Label htmlFor="minFailedTargets">
+          Failed Targets per Check <span className="text-muted-foreground font-normal">(optional)</span>
+        </Label>
+        <Input
+          id="minFailedTargets"
+          type="number"
+          min={1}
+          placeholder="All targets"
+          value={minFailedTargets}
+          onChange={(e) => setMinFailedTargets(e.target.value)}
+          disabled={saving}
+          className="w-32"
+        />
+        <p className="text-sm text-muted-foreground">
+          A check also counts as failed when at least this many targets fail. Works best with the
+          &quot;Every target&quot; probe strategy, since otherwise checking stops at the first target that answers.
+        </p>
+      </div>
+
+      {/* Duration Mode */}
+      <div className="space-y-2">
+        <Label htmlFor="durationMode">Durations in Statistics</Label>
+        <Select
+          value={durationMode}
+          onValueChange={(value) => setDurationMode(value as DurationMode)}
+          disabled={saving}
+        >
+          <SelectTrigger id="durationMode" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DURATION_MODE_LABELS) as DurationMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>{DURATION_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          Checks only see an outage at intervals, so it really began between the last successful check and the
+          first failed one, and ended between the last failed check and the first successful one. As recorded
+          runs from the first failed to the first successful check; conservative only counts the time between
+          the first and last failed checks; estimated runs between the midpoints.
+        </p>
+      </div>
+
+      {/* Defaults Info */}
+      {data && (
+        <div className="bg-muted/30 rounded-lg p-3 text-sm">
+          <p className="font-medium mb-1">Defaults:</p>
+          <p className="text-muted-foreground">
+            Open after {data.defaults.failureThreshold} • Resolve after {data.defaults.recoveryThreshold} •
+            Failed targets: {data.defaults.minFailedTargets ?? 'all'} •
+            Durations: {DURATION_MODE_LABELS[data.defaults.durationMode].toLowerCase()}
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Save, AlertCircle } from 'lucide-react';
+
+interface PathMtuValues {
+  enabled: boolean;
+  targets: string[];
+  intervalSeconds: number;
+  alertBelow: number | null;
+}
+
+interface PathMtuData {
+  current: PathMtuValues;
+  defaults: PathMtuValues;
+}
+
+export function PathMtuSettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<PathMtuData | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  // Comma-separated in the form
+  const [targets, setTargets] = useState('');
+  const [intervalMinutes, setIntervalMinutes] = useState(60);
+  // Empty only records the MTU
+  const [alertBelow, setAlertBelow] = useState('');
+
+  // Load current settings on component mount only
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- loadSettings should only run once on mount, not on every change
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/path-mtu');
+      if (!response.ok) throw new Error('Failed to load settings');
+
+      const result: PathMtuData = await response.json();
+      setData(result);
+      setEnabled(result.current.enabled);
+      setTargets(result.current.targets.join(', '));
+      setIntervalMinutes(Math.round(result.current.intervalSeconds / 60));
+      setAlertBelow(result.current.alertBelow?.toString() ?? '');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load path MTU settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    const parsedTargets = targets.split(',').map((target) => target.trim()).filter(Boolean);
+    if (parsedTargets.length < 1 || parsedTargets.length > 5) {
+      toast({
+        title: 'Invalid Targets',
+        description: 'Enter between 1 and 5 targets, separated by commas',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (intervalMinutes < 5 || intervalMinutes > 1440) {
+      toast({
+        title: 'Invalid Interval',
+        description: 'Interval must be between 5 and 1440 minutes',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const threshold = alertBelow.trim() === '' ? null : parseInt(alertBelow, 10);
+    if (threshold !== null && (isNaN(threshold) || threshold < 576 || threshold > 9000)) {
+      toast({
+        title: 'Invalid Threshold',
+        description: 'Alert threshold must be between 576 and 9000 bytes, or blank to only record the MTU',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings/path-mtu', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          targets: parsedTargets,
+          intervalSeconds: intervalMinutes * 60,
+          alertBelow: threshold
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to save settings');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Path MTU settings updated. They apply within a minute.'
+      });
+
+      // Reload to get updated state
+      await loadSettings();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-4">
+      {/* Info Alert */}
+      <div className="bg-muted/50 border border-border rounded-lg p-4 flex gap-3">
+        <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Path MTU Discovery</p>
+          <p>
+            The largest packet that reaches each target without fragmentation is found with don&apos;t-fragment
+            pings of different sizes. A drop - e.g. a PPPoE line falling back to a smaller MTU - lets small pings
+            through while larger transfers stall, so the connection looks fine to the regular checks.
+          </p>
+        </div>
+      </div>
+
+      {/* Enabled */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="pathMtuEnabled"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          disabled={saving}
+          className="rounded"
+        />
+        <Label htmlFor="pathMtuEnabled" className="cursor-pointer">
+          Measure the path MTU
+        </Label>
+      </div>
+
+      {/* Targets */}
+      <div className="space-y-2">
+        <Label htmlFor="pathMtuTargets">
+          Targets <span className="text-muted-foreground font-normal">(IP addresses or hostnames, comma-separated)</span>
+        </Label>
+        <Input
+          id="pathMtuTargets"
+          value={targets}
+          onChange={(e) => setTargets(e.target.value)}
+          disabled={saving}
+          placeholder="1.1.1.1"
+        />
+        <p className="text-sm text-muted-foreground">
+          Hostnames are measured over IPv4. Targets must answer ping.
+        </p>
+      </div>
+
+      {/* Interval */}
+      <div className="space-y-2">
+        <Label htmlFor="pathMtuInterval">
+          Interval <span className="text-muted-foreground font-normal">(5-1440 minutes)</span>
+        </Label>
+        <Input
+          id="pathMtuInterval"
+          type="number"
+          min={5}
+          max={1440}
+          value={intervalMinutes}
+          onChange={(e) => setIntervalMinutes(parseInt(e.target.value) || 0)}
+          disabled={saving}
+          className="w-32"
+        />
+      </div>
+
+      {/* Alert Threshold */}
+      <div className="space-y-2">
+        <Label htmlFor="pathMtuAlertBelow">
+          Alert Below <span className="text-muted-foreground font-normal">(bytes, optional)</span>
+        </Label>
+        <Input
+          id="pathMtuAlertBelow"
+          type="number"
+          min={576}
+          max={9000}
+          placeholder="Not checked"
+          value={alertBelow}
+          onChange={(e) => setAlertBelow(e.target.value)}
+          disabled={saving}
+          className="w-32"
+        />
+        <p className="text-sm text-muted-foreground">
+          A warning is logged when the measured MTU drops below this, e.g. 1492 on a PPPoE line.
+        </p>
+      </div>
+
+      {/* Defaults Info */}
+      {data && (
+        <div className="bg-muted/30 rounded-lg p-3 text-sm">
+          <p className="font-medium mb-1">Defaults:</p>
+          <p className="text-muted-foreground">
+            Targets: {data.defaults.targets.join(', ')} •
+            Interval: {data.defaults.intervalSeconds / 60} minutes •
+            Alert below: {data.defaults.alertBelow ?? 'not checked'}
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { Save, AlertCircle } from 'lucide-react';
+
+interface ProbeSettingsValues {
+  probeAllTargets: boolean;
+  probeConcurrency: number;
+  probeTimeoutMs: number;
+  gatewayTarget: string | null;
+}
+
+interface ProbeSettingsData {
+  current: ProbeSettingsValues;
+  defaults: ProbeSettingsValues;
+}
+
+const STRATEGY_OPTIONS = [
+  {
+    value: 'failover',
+    label: 'First responding target',
+    description: 'Targets are tried in priority order and the first one that answers is stored. The rest are still probed for their own incidents and groups.',
+  },
+  {
+    value: 'all',
+    label: 'Every target',
+    description: 'All enabled targets are probed concurrently each cycle and each result is stored.',
+  },
+] as const;
+
+export function ProbeSettings() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<ProbeSettingsData | null>(null);
+  const [probeAllTargets, setProbeAllTargets] = useState(false);
+  const [concurrency, setConcurrency] = useState(4);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(5);
+  const [gatewayTarget, setGatewayTarget] = useState('');
+
+  // Load current settings on component mount only
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- loadSettings should only run once on mount, not on every change
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/probing');
+      if (!response.ok) throw new Error('Failed to load settings');
+
+      const result: ProbeSettingsData = await response.json();
+      setData(result);
+      setProbeAllTargets(result.current.probeAllTargets);
+      setConcurrency(result.current.probeConcurrency);
+      setTimeoutSeconds(result.current.probeTimeoutMs / 1000);
+      setGatewayTarget(result.current.gatewayTarget ?? '');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load probe settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    if (concurrency < 1 || concurrency > 20) {
+      toast({
+        title: 'Invalid Concurrency',
+        description: 'Concurrency must be between 1 and 20',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (timeoutSeconds < 1 || timeoutSeconds > 30) {
+      toast({
+        title: 'Invalid Timeout',
+        description: 'Timeout must be between 1 and 30 seconds',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings/probing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          probeAllTargets,
+          probeConcurrency: concurrency,
+          probeTimeoutMs: Math.round(timeoutSeconds * 1000),
+          gatewayTarget: gatewayTarget.trim() || null
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save settings');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Probe settings updated. They apply from the next check.'
+      });
+
+      // Reload to get updated state
+      await loadSettings();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pt-4">
+      {/* Info Alert */}
+      <div className="bg-muted/50 border border-border rounded-lg p-4 flex gap-3">
+        <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Probe Strategy</p>
+          <p>
+            Probing every target shows which targets were down and how their latency compares.
+            Either way, the connection counts as up while any target answers.
+          </p>
+        </div>
+      </div>
+
+      {/* Strategy */}
+      <RadioGroup
+        value={probeAllTargets ? 'all' : 'failover'}
+        onValueChange={(value) => setProbeAllTargets(value === 'all')}
+        disabled={saving}
+        className="space-y-3"
+      >
+        {STRATEGY_OPTIONS.map((option) => (
+          <div key={option.value} className="flex items-start space-x-3 space-y-0 rounded-md border p-4">
+            <RadioGroupItem value={option.value} id={`strategy-${option.value}`} className="mt-1" />
+            <div className="flex-1">
+              <Label htmlFor={`strategy-${option.value}`} className="cursor-pointer font-medium leading-none">
+                {option.label}
+              </Label>
+              <p className="text-sm text-muted-foreground mt-1">{option.description}</p>
+            </div>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {/* Concurrency */}
+      <div className="space-y-2">
+        <Label htmlFor="probeConcurrency">
+          Concurrency <span className="text-muted-foreground font-normal">(targets probed at once)</span>
+        </Label>
+        <Input
+          id="probeConcurrency"
+          type="number"
+          min={1}
+          max={20}
+          value={concurrency}
+          onChange={(e) => setConcurrency(parseInt(e.target.value) || 0)}
+          disabled={saving || !probeAllTargets}
+          className="w-32"
+        />
+      </div>
+
+      {/* Timeout */}
+      <div className="space-y-2">
+        <Label htmlFor="probeTimeout">
+          Per-Target Timeout <span className="text-muted-foreground font-normal">(1-30 seconds)</span>
+        </Label>
+        <div className="flex gap-2 items-center">
+          <Input
+            id="probeTimeout"
+            type="number"
+            min={1}
+            max={30}
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(parseFloat(e.target.value) || 0)}
+            disabled={saving}
+            className="w-32"
+          />
+          <span className="text-sm text-muted-foreground">seconds</span>
+        </div>
+      </div>
+
+      {/* Gateway */}
+      <div className="space-y-2">
+        <Label htmlFor="gatewayTarget">
+          LAN Gateway <span className="text-muted-foreground font-normal">(optional)</span>
+        </Label>
+        <Input
+          id="gatewayTarget"
+          placeholder="Detect automatically"
+          value={gatewayTarget}
+          onChange={(e) => setGatewayTarget(e.target.value)}
+          disabled={saving}
+          className="w-64"
+        />
+        <p className="text-sm text-muted-foreground">
+          Pinged each cycle so outages can be classified as local (gateway unreachable) or upstream.
+          Leave blank to use the default route&apos;s gateway - set it when running in a Docker bridge network.
+        </p>
+      </div>
+
+      {/* Defaults Info */}
+      {data && (
+        <div className="bg-muted/30 rounded-lg p-3 text-sm">
+          <p className="font-medium mb-1">Defaults:</p>
+          <p className="text-muted-foreground">
+            {data.defaults.probeAllTargets ? 'Every target' : 'First responding target'} •
+            Concurrency: {data.defaults.probeConcurrency} • Timeout: {data.defaults.probeTimeoutMs / 1000}s
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { ThemeSelector } from '@/components/theme-selector';
 import TargetsManager from '@/components/targets-manager';
+import TargetGroupsManager from '@/components/target-groups-manager';
+import WanLinksManager from '@/components/wan-links-manager';
+import AgentsManager from '@/components/agents-manager';
+import MaintenanceWindowsManager from '@/components/maintenance-windows-manager';
 import { SpeedTestSettings } from '@/components/speed-test-settings';
 import { MonitoringIntervals } from '@/components/monitoring-intervals';
-import { Palette, Target, Gauge, Clock, Crosshair } from 'lucide-react';
+import { ProbeSettings } from '@/components/probe-settings';
+import { OutageRulesSettings } from '@/components/outage-rules-settings';
+import { DegradationSettings } from '@/components/degradation-settings';
+import { InterceptionSettings } from '@/components/interception-settings';
+import { PathMtuSettings } from '@/components/path-mtu-settings';
+import { LatencyAnomalySettings } from '@/components/latency-anomaly-settings';
+import {
+  Palette, Target, Gauge, Clock, Crosshair, Network, ShieldAlert, Activity, Layers, Router, ScanSearch, RadioTower, Ruler, TrendingUp, Wrench
+} from 'lucide-react';
 
 export function SettingsTabs() {
   return (
@@ -44,6 +56,90 @@ export function SettingsTabs() {
             </AccordionContent>
           </AccordionItem>
 
+          <AccordionItem value="probing">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <Network className="h-5 w-5" />
+                <span>Probe Strategy</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <ProbeSettings />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="outage-rules">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5" />
+                <span>Outage Rules</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <OutageRulesSettings />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="degradation">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <Activity className="h-5 w-5" />
+                <span>Degraded Connection</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <DegradationSettings />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="latency-anomaly">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                <span>Latency Anomalies</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <LatencyAnomalySettings />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="maintenance">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <Wrench className="h-5 w-5" />
+                <span>Maintenance Windows</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <MaintenanceWindowsManager />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="interception">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <ScanSearch className="h-5 w-5" />
+                <span>Interception Detection</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <InterceptionSettings />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="path-mtu">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <Ruler className="h-5 w-5" />
+                <span>Path MTU</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <PathMtuSettings />
+            </AccordionContent>
+          </AccordionItem>
+
           <AccordionItem value="targets">
             <AccordionTrigger className="text-lg font-semibold hover:no-underline">
               <div className="flex items-center gap-2">
@@ -55,6 +151,42 @@ export function SettingsTabs() {
               <TargetsManager />
             </AccordionContent>
           </AccordionItem>
+
+          <AccordionItem value="groups">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                <span>Target Groups</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <TargetGroupsManager />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="wan-links">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <Router className="h-5 w-5" />
+                <span>WAN Links</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <WanLinksManager />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="agents">
+            <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+              <div className="flex items-center gap-2">
+                <RadioTower className="h-5 w-5" />
+                <span>Remote Agents</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <AgentsManager />
+            </AccordionContent>
+          </AccordionItem>
         </Accordion>
       </TabsContent>
 
@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { DataTable, DataTableColumnHeader } from '@/components/ui/data-table';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Activity, ArrowDown, ArrowUp, Gauge, Play, Loader2 } from 'lucide-react';
+import { Activity, ArrowDown, ArrowUp, Gauge, Play, Loader2, Waves } from 'lucide-react';
 import { ColumnDef } from '@tanstack/react-table';
 import { memo, useState } from 'react';
 import useSWR, { mutate as globalMutate } from 'swr';
@@ -21,6 +21,10 @@ interface SpeedTestData {
   jitterMs?: number;
   serverName?: string;
   serverCountry?: string;
+  idleLatencyMs?: number | null;
+  downloadLatencyMs?: number | null;
+  uploadLatencyMs?: number | null;
+  bufferbloatGrade?: string | null;
 }
 
 interface SpeedTestResponse {
@@ -41,6 +45,17 @@ const formatPing = (ms: number) => {
   return `${ms.toFixed(1)} ms`;
 };
 
+// Best to worst, the chart plots a grade as its position here
+const BUFFERBLOAT_GRADES = ['F', 'D', 'C', 'B', 'A', 'A+'];
+
+const formatLoadedLatency = (test: SpeedTestData) => {
+  const loaded = [test.downloadLatencyMs, test.uploadLatencyMs].filter(
+    (latency): latency is number => latency != null
+  );
+  if (loaded.length === 0 || test.idleLatencyMs == null) return 'Loaded latency unavailable';
+  return `+${(Math.max(...loaded) - test.idleLatencyMs).toFixed(1)} ms under load`;
+};
+
 // Speed Test Stats Cards
 const SpeedTestCards = memo(
   ({
@@ -64,7 +79,7 @@ const SpeedTestCards = memo(
     }
 
     return (
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="pb-2">
             <CardDescription className="flex items-center gap-2">
@@ -120,6 +135,17 @@ const SpeedTestCards = memo(
             </CardDescription>
           </CardHeader>
         </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <Waves className="h-4 w-4" />
+              Bufferbloat
+            </CardDescription>
+            <CardTitle className="text-2xl">{latest.bufferbloatGrade ?? 'N/A'}</CardTitle>
+            <CardDescription className="text-xs">{formatLoadedLatency(latest)}</CardDescription>
+          </CardHeader>
+        </Card>
       </div>
     );
   }
@@ -151,6 +177,11 @@ const speedTestColumns: ColumnDef<SpeedTestData>[] = [
     header: ({ column }) => <DataTableColumnHeader column={column} title="Ping" />,
     cell: ({ row }) => formatPing(row.getValue('pingMs')),
   },
+  {
+    accessorKey: 'bufferbloatGrade',
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Bufferbloat" />,
+    cell: ({ row }) => (row.getValue('bufferbloatGrade') as string | null) ?? 'N/A',
+  },
   {
     accessorKey: 'serverName',
     header: ({ column }) => <DataTableColumnHeader column={column} title="Server" />,
@@ -184,6 +215,20 @@ const prepareChartData = (history: SpeedTestData[]) => {
   }));
 };
 
+// Transform history data for the latency under load chart, skipping tests from before it was measured
+const prepareLatencyChartData = (history: SpeedTestData[]) => {
+  const measured = [...history].reverse().filter((test) => test.idleLatencyMs != null);
+  const toMs = (latency: number | null | undefined) => (latency != null ? Number(latency.toFixed(1)) : null);
+
+  return sampleData(measured).map((test) => ({
+    time: new Date(test.timestamp).getTime(),
+    idle: toMs(test.idleLatencyMs),
+    download: toMs(test.downloadLatencyMs),
+    upload: toMs(test.uploadLatencyMs),
+    grade: test.bufferbloatGrade ? BUFFERBLOAT_GRADES.indexOf(test.bufferbloatGrade) : null,
+  }));
+};
+
 // Format X-axis tick based on data range
 const formatXAxisTick = (timestamp: number, dataRange: number) => {
   const date = new Date(timestamp);
@@ -401,6 +446,123 @@ const CombinedChart = memo(({ history }: { history: SpeedTestData[] }) => {
 });
 CombinedChart.displayName = 'CombinedChart';
 
+// Latency Under Load Chart - idle and loaded latency with the bufferbloat grade
+const LatencyUnderLoadChart = memo(({ history }: { history: SpeedTestData[] }) => {
+  const chartData = prepareLatencyChartData(history);
+  const dataRange = getDataRange(chartData);
+
+  if (chartData.length === 0) {
+    return (
+      <div className="text-center py-10 text-muted-foreground">
+        No latency under load data available for chart
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={400}>
+      <LineChart data={chartData}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" opacity={0.3} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          scale="time"
+          tickFormatter={(ts) => formatXAxisTick(ts, dataRange)}
+          className="text-xs"
+          tick={{ fill: 'hsl(var(--muted-foreground))' }}
+          height={40}
+          minTickGap={50}
+        />
+        <YAxis
+          yAxisId="latency"
+          className="text-xs"
+          tick={{ fill: 'hsl(var(--muted-foreground))' }}
+          label={{
+            value: 'Latency (ms)',
+            angle: -90,
+            position: 'insideLeft',
+            style: { fill: 'hsl(var(--muted-foreground))' },
+          }}
+        />
+        <YAxis
+          yAxisId="grade"
+          orientation="right"
+          domain={[0, BUFFERBLOAT_GRADES.length - 1]}
+          ticks={BUFFERBLOAT_GRADES.map((_, index) => index)}
+          tickFormatter={(index) => BUFFERBLOAT_GRADES[index] ?? ''}
+          className="text-xs"
+          tick={{ fill: 'hsl(var(--muted-foreground))' }}
+          label={{
+            value: 'Grade',
+            angle: 90,
+            position: 'insideRight',
+            style: { fill: 'hsl(var(--muted-foreground))' },
+          }}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'hsl(var(--popover))',
+            border: '1px solid hsl(var(--border))',
+            borderRadius: '8px',
+          }}
+          labelStyle={{ color: 'hsl(var(--popover-foreground))' }}
+          labelFormatter={(ts) => new Date(ts).toLocaleString()}
+          formatter={(value, name) =>
+            name === 'Grade' ? BUFFERBLOAT_GRADES[Number(value)] : `${value} ms`
+          }
+        />
+        <Legend
+          wrapperStyle={{
+            paddingTop: '20px',
+          }}
+        />
+        <Line
+          yAxisId="latency"
+          type="monotone"
+          dataKey="idle"
+          stroke="hsl(var(--muted-foreground))"
+          strokeWidth={2}
+          dot={false}
+          activeDot={{ r: 5 }}
+          name="Idle"
+        />
+        <Line
+          yAxisId="latency"
+          type="monotone"
+          dataKey="download"
+          stroke="hsl(var(--primary))"
+          strokeWidth={3}
+          dot={false}
+          activeDot={{ r: 5 }}
+          name="Loaded (download)"
+        />
+        <Line
+          yAxisId="latency"
+          type="monotone"
+          dataKey="upload"
+          stroke="hsl(var(--success))"
+          strokeWidth={3}
+          dot={false}
+          activeDot={{ r: 5 }}
+          name="Loaded (upload)"
+        />
+        <Line
+          yAxisId="grade"
+          type="stepAfter"
+          dataKey="grade"
+          stroke="hsl(var(--warning))"
+          strokeWidth={2}
+          strokeDasharray="5 5"
+          dot={{ r: 3 }}
+          name="Grade"
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+});
+LatencyUnderLoadChart.displayName = 'LatencyUnderLoadChart';
+
 // Speed Test Chart Component with Tabs
 const SpeedTestChart = memo(({ history }: { history: SpeedTestData[] }) => {
   if (history.length === 0) {
@@ -585,6 +747,18 @@ export default function SpeedTestDisplay() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Latency Under Load</CardTitle>
+          <CardDescription>
+            Idle latency against latency while downloading and uploading, with the bufferbloat grade
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LatencyUnderLoadChart history={history} />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Speed Test History</CardTitle>
@@ -3,9 +3,12 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { DataTable, DataTableColumnHeader } from '@/components/ui/data-table';
+import { OutageActions } from '@/components/outage-actions';
+import { OutageAnnotationDialog, ROOT_CAUSE_LABELS } from '@/components/outage-annotation-dialog';
 import { fetcher } from '@/lib/fetcher';
-import { ChartDataPoint, LatestSpeedTest, NetworkInfo, Outage, Stats, TimePeriod } from '@/types/dashboard';
+import { AgentChartSeries, AgentStatus, ChartDataPoint, DegradedPeriod, FamilyUptime, GroupChartSeries, GroupStatus, IpChangeMarker, LatencyAnomaly, LatencyAnomalyMarker, LatestSpeedTest, MaintenanceStatus, NetworkInfo, Outage, PathMtuStatus, PublicIpChange, Stats, TimePeriod, WanLinkChartSeries, WanLinkStatus } from '@/types/dashboard';
 import { ColumnDef } from '@tanstack/react-table';
+import Link from 'next/link';
 import { memo, useCallback, useState, useTransition } from 'react';
 import useSWR from 'swr';
 
@@ -16,26 +19,88 @@ const formatDuration = (seconds: number) => {
   return `${hours}h ${minutes}m`;
 };
 
+// Helper function for describing where an outage was caused
+const formatClassification = (classification: Outage['classification']) =>
+  classification === 'local'
+    ? 'Local network'
+    : classification === 'upstream'
+    ? 'Upstream / ISP'
+    : classification === 'intercepted'
+    ? 'Intercepted'
+    : 'Unknown';
+
+// Helper function for describing why the connection is degraded
+const formatDegradationReason = (reason: DegradedPeriod['reason']) =>
+  reason === 'latency' ? 'High latency' : reason === 'packet_loss' ? 'Packet loss' : 'High latency and packet loss';
+
+// Helper function for formatting an uptime percentage (null when nothing was checked)
+const formatUptime = (uptime: number | null) => uptime === null ? 'N/A' : `${uptime.toFixed(2)}%`;
+
+// Helper function for formatting the time of an outage bound
+const formatBoundTime = (time: Date | string) => new Date(time).toLocaleTimeString();
+
+// How the outage totals are counted, when not as recorded
+const DURATION_MODE_NOTES: Record<Stats['durationMode'], string | null> = {
+  recorded: null,
+  conservative: 'Conservative durations',
+  estimated: 'Estimated durations'
+};
+
 // Memoized StatusCards component - only re-renders when stats values change
 const StatusCards = memo(({
   activeOutage,
+  activeDegradedPeriod,
+  activeLatencyAnomalies,
+  activeMaintenance,
   totalOutages,
+  durationMode,
   totalDowntimeSec,
-  avgOutageDurationSec
+  avgOutageDurationSec,
+  uptime24h,
+  unmonitoredSec24h
 }: {
   activeOutage: Outage | null;
+  activeDegradedPeriod: DegradedPeriod | null;
+  activeLatencyAnomalies: LatencyAnomaly[];
+  activeMaintenance: MaintenanceStatus[];
   totalOutages: number;
+  durationMode: Stats['durationMode'];
   totalDowntimeSec: number;
   avgOutageDurationSec: number;
+  uptime24h: FamilyUptime;
+  unmonitoredSec24h: number;
 }) => {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
       <Card>
         <CardHeader className="pb-2">
           <CardDescription>Status</CardDescription>
-          <CardTitle className={activeOutage ? 'text-destructive' : 'text-success'}>
-            {activeOutage ? 'OFFLINE' : 'ONLINE'}
+          <CardTitle className={
+            activeOutage ? 'text-destructive' : activeDegradedPeriod ? 'text-warning' : 'text-success'
+          }>
+            {activeOutage ? 'OFFLINE' : activeDegradedPeriod ? 'DEGRADED' : 'ONLINE'}
           </CardTitle>
+          {activeOutage?.classification && (
+            <CardDescription className="text-xs">
+              Cause: {formatClassification(activeOutage.classification)}
+            </CardDescription>
+          )}
+          {!activeOutage && activeDegradedPeriod && (
+            <CardDescription className="text-xs">
+              {formatDegradationReason(activeDegradedPeriod.reason)}
+            </CardDescription>
+          )}
+          {!activeOutage && activeLatencyAnomalies.length > 0 && (
+            <CardDescription className="text-xs">
+              Unusual latency: {activeLatencyAnomalies.map(anomaly => anomaly.target).join(', ')}
+            </CardDescription>
+          )}
+          {activeMaintenance.map(maintenance => (
+            <CardDescription key={maintenance.id} className="text-xs">
+              Maintenance{maintenance.scope && ` (${maintenance.scope})`}: {maintenance.description} until{' '}
+              {new Date(maintenance.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </CardDescription>
+          ))}
         </CardHeader>
       </Card>
 
@@ -50,6 +115,9 @@ const StatusCards = memo(({
         <CardHeader className="pb-2">
           <CardDescription>Total Downtime</CardDescription>
           <CardTitle>{formatDuration(totalDowntimeSec)}</CardTitle>
+          {DURATION_MODE_NOTES[durationMode] && (
+            <CardDescription className="text-xs">{DURATION_MODE_NOTES[durationMode]}</CardDescription>
+          )}
         </CardHeader>
       </Card>
 
@@ -57,6 +125,33 @@ const StatusCards = memo(({
         <CardHeader className="pb-2">
           <CardDescription>Avg Outage</CardDescription>
           <CardTitle>{formatDuration(avgOutageDurationSec)}</CardTitle>
+          {DURATION_MODE_NOTES[durationMode] && (
+            <CardDescription className="text-xs">{DURATION_MODE_NOTES[durationMode]}</CardDescription>
+          )}
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardDescription>IPv4 Uptime (24h)</CardDescription>
+          <CardTitle>{formatUptime(uptime24h.ipv4)}</CardTitle>
+          {unmonitoredSec24h > 0 && (
+            <CardDescription className="text-xs">
+              Not monitored for {formatDuration(unmonitoredSec24h)}
+            </CardDescription>
+          )}
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardDescription>IPv6 Uptime (24h)</CardDescription>
+          <CardTitle>{formatUptime(uptime24h.ipv6)}</CardTitle>
+          {unmonitoredSec24h > 0 && (
+            <CardDescription className="text-xs">
+              Not monitored for {formatDuration(unmonitoredSec24h)}
+            </CardDescription>
+          )}
         </CardHeader>
       </Card>
     </div>
@@ -64,13 +159,111 @@ const StatusCards = memo(({
 });
 StatusCards.displayName = 'StatusCards';
 
+// Helper function for describing a group's rule, e.g. "2 of 3 targets"
+const formatGroupRule = (group: GroupStatus) =>
+  group.rule === 'all'
+    ? `All ${group.targetCount} targets`
+    : group.rule === 'quorum'
+    ? `${group.quorum} of ${group.targetCount} targets`
+    : `Any of ${group.targetCount} targets`;
+
+// Memoized GroupStatusCards component - one card per target group
+const GroupStatusCards = memo(({ groups }: { groups: GroupStatus[] }) => {
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      {groups.map(group => (
+        <Card key={group.id}>
+          <CardHeader className="pb-2">
+            <CardDescription>{group.name}</CardDescription>
+            <CardTitle className={
+              group.isUp === null ? 'text-muted-foreground' : group.isUp ? 'text-success' : 'text-destructive'
+            }>
+              {group.isUp === null ? 'UNKNOWN' : group.isUp ? 'UP' : 'DOWN'}
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {group.downSince
+                ? `Down since ${new Date(group.downSince).toLocaleString()}`
+                : formatGroupRule(group)}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+});
+GroupStatusCards.displayName = 'GroupStatusCards';
+
+// Memoized WanLinkCards component - one card per WAN link
+const WanLinkCards = memo(({ wanLinks }: { wanLinks: WanLinkStatus[] }) => {
+  if (wanLinks.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      {wanLinks.map(link => (
+        <Card key={link.id}>
+          <CardHeader className="pb-2">
+            <CardDescription>{link.name}</CardDescription>
+            <CardTitle className={
+              link.isUp === null ? 'text-muted-foreground' : link.isUp ? 'text-success' : 'text-destructive'
+            }>
+              {link.isUp === null ? 'UNKNOWN' : link.isUp ? 'UP' : 'DOWN'}
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {link.downSince
+                ? `Down since ${new Date(link.downSince).toLocaleString()}`
+                : `${link.latencyMs !== null ? `${link.latencyMs} ms • ` : ''}${formatUptime(link.uptime24h)} uptime (24h)`}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+});
+WanLinkCards.displayName = 'WanLinkCards';
+
+// Memoized AgentCards component - one card per remote agent
+const AgentCards = memo(({ agents }: { agents: AgentStatus[] }) => {
+  if (agents.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      {agents.map(agent => (
+        <Card key={agent.id}>
+          <CardHeader className="pb-2">
+            <CardDescription>{agent.name}</CardDescription>
+            <CardTitle className={
+              agent.isStale || agent.isUp === null
+                ? 'text-muted-foreground'
+                : agent.isUp ? 'text-success' : 'text-destructive'
+            }>
+              {agent.isStale ? 'NOT REPORTING' : agent.isUp === null ? 'UNKNOWN' : agent.isUp ? 'UP' : 'DOWN'}
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {agent.isStale
+                ? `Last seen ${agent.lastSeenAt ? new Date(agent.lastSeenAt).toLocaleString() : 'never'}`
+                : agent.downSince
+                ? `Down since ${new Date(agent.downSince).toLocaleString()}`
+                : `${agent.latencyMs !== null ? `${agent.latencyMs} ms • ` : ''}${formatUptime(agent.uptime24h)} uptime (24h)`}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+});
+AgentCards.displayName = 'AgentCards';
+
 // Memoized NetworkInfo component - only re-renders when network info or speed test changes
 const NetworkInfoDisplay = memo(({
   networkInfo,
-  latestSpeedTest
+  latestSpeedTest,
+  pathMtu
 }: {
   networkInfo: NetworkInfo | null;
   latestSpeedTest: LatestSpeedTest | null;
+  pathMtu: PathMtuStatus[];
 }) => {
   if (!networkInfo) return null;
 
@@ -96,6 +289,17 @@ const NetworkInfoDisplay = memo(({
           </span>
         </div>
       )}
+      {pathMtu.length > 0 && (
+        <div>
+          <span className="text-foreground font-bold">Path MTU:</span>{' '}
+          <span
+            className="text-muted-foreground"
+            title={`Measured ${new Date(pathMtu[0]!.timestamp).toLocaleString()}`}
+          >
+            {pathMtu.map(check => `${check.mtu ?? 'no reply'} (${check.target})`).join(', ')}
+          </span>
+        </div>
+      )}
     </div>
   );
 });
@@ -139,13 +343,42 @@ const TimePeriodButtons = memo(({
 });
 TimePeriodButtons.displayName = 'TimePeriodButtons';
 
-// Memoized TimelineChart component - only re-renders when filteredChecks or timePeriod changes
+// Helper function for labelling a timeline point
+const getCheckStatus = (check: ChartDataPoint) =>
+  !check.isConnected ? 'Disconnected'
+    : check.isUnmonitored ? 'Not monitored'
+    : check.isDegraded ? 'Degraded'
+    : 'Connected';
+
+// Labels for the public IP fields that can change
+const publicIpFieldLabels: Record<PublicIpChange['changedFields'][number], string> = {
+  ipv4: 'IPv4',
+  ipv6: 'IPv6',
+  asn: 'ASN',
+  isp: 'ISP'
+};
+
+// Helper function for listing the fields of a public IP change, e.g. "IPv4, ISP"
+const formatChangedFields = (fields: PublicIpChange['changedFields']) =>
+  fields.map(field => publicIpFieldLabels[field]).join(', ');
+
+// Helper function for describing a latency anomaly on the timeline
+const formatAnomaly = (anomaly: LatencyAnomalyMarker) =>
+  `Unusual latency to ${anomaly.target} (z-score ${anomaly.peakZScore.toFixed(1)})\n` +
+  `${new Date(anomaly.startTime).toLocaleString()} - ` +
+  (anomaly.endTime ? new Date(anomaly.endTime).toLocaleString() : 'ongoing');
+
+// Memoized TimelineChart component - only re-renders when filteredChecks, timePeriod, markers or anomalies change
 const TimelineChart = memo(({
   filteredChecks,
-  timePeriod
+  timePeriod,
+  markers = [],
+  anomalies = []
 }: {
   filteredChecks: ChartDataPoint[];
   timePeriod: TimePeriod;
+  markers?: IpChangeMarker[];
+  anomalies?: LatencyAnomalyMarker[];
 }) => {
   const formatXAxisTime = useCallback((time: Date | string) => {
     const date = new Date(time);
@@ -173,6 +406,34 @@ const TimelineChart = memo(({
     );
   }
 
+  // Place markers by time between the first and last points; markers outside
+  // the charted range are dropped
+  const firstTime = new Date(filteredChecks[0]!.timestamp).getTime();
+  const lastTime = new Date(filteredChecks[filteredChecks.length - 1]!.timestamp).getTime();
+  const placedMarkers = markers
+    .map(marker => ({ ...marker, time: new Date(marker.timestamp).getTime() }))
+    .filter(marker => marker.time >= firstTime && marker.time <= lastTime)
+    .map(marker => ({
+      ...marker,
+      position: lastTime === firstTime ? 50 : ((marker.time - firstTime) / (lastTime - firstTime)) * 100
+    }));
+
+  // Anomalies are clipped to the charted range; open ones run to the last point
+  const toPosition = (time: number) =>
+    lastTime === firstTime ? 50 : ((time - firstTime) / (lastTime - firstTime)) * 100;
+  const placedAnomalies = anomalies
+    .map(anomaly => ({
+      ...anomaly,
+      start: Math.max(new Date(anomaly.startTime).getTime(), firstTime),
+      end: Math.min(anomaly.endTime ? new Date(anomaly.endTime).getTime() : lastTime, lastTime)
+    }))
+    .filter(anomaly => anomaly.start <= anomaly.end)
+    .map(anomaly => ({
+      ...anomaly,
+      left: toPosition(anomaly.start),
+      width: Math.max(toPosition(anomaly.end) - toPosition(anomaly.start), 0.5)
+    }));
+
   return (
     <div className="space-y-3">
       {/* Timeline Bar */}
@@ -184,26 +445,54 @@ const TimelineChart = memo(({
               className="h-full transition-colors hover:opacity-80 cursor-pointer group relative"
               style={{
                 width: `${100 / filteredChecks.length}%`,
-                backgroundColor: check.isConnected
-                  ? 'hsl(var(--success))'
-                  : 'hsl(var(--destructive))',
+                backgroundColor: !check.isConnected
+                  ? 'hsl(var(--destructive))'
+                  : check.isUnmonitored
+                  ? 'hsl(var(--muted-foreground))'
+                  : check.isDegraded
+                  ? 'hsl(var(--warning))'
+                  : 'hsl(var(--success))',
               }}
-              title={`${new Date(check.timestamp).toLocaleString()}\n${
-                check.isConnected ? 'Connected' : 'Disconnected'
-              }`}
+              title={`${new Date(check.timestamp).toLocaleString()}\n${getCheckStatus(check)}`}
             >
               {/* Tooltip on hover */}
               <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-popover text-popover-foreground text-xs rounded shadow-lg opacity-0 group-hover:opacity-100 pointer-events-none whitespace-nowrap z-10">
                 <div className="font-semibold">
-                  {check.isConnected ? 'Connected' : 'Disconnected'}
+                  {getCheckStatus(check)}
                 </div>
                 <div className="text-muted-foreground">
                   {new Date(check.timestamp).toLocaleString()}
                 </div>
+                {check.packetLossPct != null && (
+                  <div className="text-muted-foreground">
+                    Loss: {check.packetLossPct.toFixed(1)}%
+                    {check.jitterMs != null && ` • Jitter: ${check.jitterMs.toFixed(1)}ms`}
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
+
+        {/* Public IP Change Markers */}
+        {placedMarkers.map((marker, index) => (
+          <div
+            key={index}
+            className="absolute top-0 h-full w-0.5 bg-primary pointer-events-none"
+            style={{ left: `${marker.position}%` }}
+            title={`${new Date(marker.timestamp).toLocaleString()}\nPublic IP changed: ${formatChangedFields(marker.changedFields)}`}
+          />
+        ))}
+
+        {/* Latency Anomaly Ranges */}
+        {placedAnomalies.map((anomaly, index) => (
+          <div
+            key={index}
+            className="absolute top-0 h-2 bg-primary/70"
+            style={{ left: `${anomaly.left}%`, width: `${anomaly.width}%` }}
+            title={formatAnomaly(anomaly)}
+          />
+        ))}
       </div>
 
       {/* Time Labels */}
@@ -232,7 +521,24 @@ const outageColumns: ColumnDef<Outage>[] = [
     ),
     cell: ({ row }) => {
       const date = new Date(row.getValue("startTime"));
-      return date.toLocaleString();
+      return (
+        <div>
+          <div className={row.original.isExcluded || row.original.isPlanned ? 'text-muted-foreground' : undefined}>
+            {date.toLocaleString()}
+          </div>
+          {row.original.startLastGoodAt && (
+            <div className="text-xs text-muted-foreground">
+              Began after {formatBoundTime(row.original.startLastGoodAt)}, est. {formatBoundTime(row.original.estimatedStartTime)}
+            </div>
+          )}
+          {row.original.isPlanned && (
+            <div className="text-xs text-muted-foreground">Planned maintenance</div>
+          )}
+          {row.original.isExcluded && (
+            <div className="text-xs text-muted-foreground">Excluded from statistics</div>
+          )}
+        </div>
+      );
     },
   },
   {
@@ -242,7 +548,17 @@ const outageColumns: ColumnDef<Outage>[] = [
     ),
     cell: ({ row }) => {
       const date = new Date(row.getValue("endTime"));
-      return date.toLocaleString();
+      const { endLastBadAt, estimatedEndTime } = row.original;
+      return (
+        <div>
+          <div>{date.toLocaleString()}</div>
+          {endLastBadAt && estimatedEndTime && (
+            <div className="text-xs text-muted-foreground">
+              Ended after {formatBoundTime(endLastBadAt)}, est. {formatBoundTime(estimatedEndTime)}
+            </div>
+          )}
+        </div>
+      );
     },
   },
   {
@@ -251,11 +567,134 @@ const outageColumns: ColumnDef<Outage>[] = [
       <DataTableColumnHeader column={column} title="Duration" />
     ),
     cell: ({ row }) => {
-      return formatDuration(row.getValue("durationSec"));
+      const { durationSec, conservativeDurationSec, estimatedDurationSec } = row.original;
+      const isExact = conservativeDurationSec === durationSec && estimatedDurationSec === durationSec;
+      return (
+        <div>
+          <div>{formatDuration(row.getValue("durationSec"))}</div>
+          {!isExact && conservativeDurationSec !== null && estimatedDurationSec !== null && (
+            <div className="text-xs text-muted-foreground">
+              Conservative {formatDuration(conservativeDurationSec)}, est. {formatDuration(estimatedDurationSec)}
+            </div>
+          )}
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: "classification",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Detected" />
+    ),
+    cell: ({ row }) => {
+      const classification = row.original.classification;
+      return (
+        <span className={classification ? undefined : 'text-muted-foreground'}>
+          {formatClassification(classification)}
+        </span>
+      );
+    },
+  },
+  {
+    accessorKey: "rootCause",
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Root Cause" />
+    ),
+    cell: ({ row }) => {
+      const { rootCause, ispTicket, tags, notes } = row.original;
+      if (!rootCause && !ispTicket && tags.length === 0 && !notes) {
+        return <span className="text-muted-foreground">Not set</span>;
+      }
+      return (
+        <div className="space-y-1 max-w-64">
+          <div>
+            {rootCause ? ROOT_CAUSE_LABELS[rootCause] : <span className="text-muted-foreground">Not set</span>}
+            {ispTicket && <span className="text-muted-foreground text-xs"> • Ticket {ispTicket}</span>}
+          </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <span key={tag} className="px-1.5 py-0.5 rounded bg-muted text-xs">{tag}</span>
+              ))}
+            </div>
+          )}
+          {notes && (
+            <div className="text-xs text-muted-foreground truncate" title={notes}>{notes}</div>
+          )}
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: "pathCount",
+    header: "Network Paths",
+    cell: ({ row }) => {
+      const pathCount = row.original.pathCount ?? 0;
+      if (pathCount === 0) {
+        return <span className="text-muted-foreground">None</span>;
+      }
+      return (
+        <Link href={`/outages/${row.original.id}`} className="text-primary hover:underline">
+          View {pathCount} {pathCount === 1 ? 'path' : 'paths'}
+        </Link>
+      );
+    },
+  },
+  {
+    id: "actions",
+    header: "",
+    cell: ({ row, table }) => {
+      // The latest outage that started before this one, offered for merging
+      const startTime = new Date(row.original.startTime).getTime();
+      const previousOutage = table.options.data
+        .filter(outage => new Date(outage.startTime).getTime() < startTime)
+        .reduce<Outage | null>((latest, outage) =>
+          !latest || new Date(outage.startTime) > new Date(latest.startTime) ? outage : latest, null);
+      return (
+        <div className="flex items-center">
+          <OutageAnnotationDialog outage={row.original} />
+          <OutageActions outage={row.original} previousOutage={previousOutage} />
+        </div>
+      );
     },
   },
 ];
 
+// Memoized PublicIpHistoryList component - only re-renders when the history changes
+const PublicIpHistoryList = memo(({ changes }: { changes: PublicIpChange[] }) => {
+  if (changes.length === 0) {
+    return (
+      <div className="text-center py-10 text-muted-foreground">
+        No public IP recorded yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border text-sm">
+      {changes.map(change => (
+        <div key={change.id} className="py-2 flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+          <div className="text-muted-foreground sm:w-48 shrink-0">
+            {new Date(change.timestamp).toLocaleString()}
+          </div>
+          <div className="flex-1 font-mono break-all">
+            {change.ipv4 ?? 'No IPv4'}{change.ipv6 && ` • ${change.ipv6}`}
+          </div>
+          <div className="text-muted-foreground sm:w-64">
+            {change.isp ?? 'Unknown ISP'}{change.asn && ` (${change.asn.split(' ')[0]})`}
+          </div>
+          <div className="sm:w-32 text-xs">
+            {change.changedFields.length === 0
+              ? <span className="text-muted-foreground">First seen</span>
+              : <span className="text-primary">Changed: {formatChangedFields(change.changedFields)}</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+PublicIpHistoryList.displayName = 'PublicIpHistoryList';
+
 // Memoized OutageHistoryTable component - only re-renders when outage history changes
 const OutageHistoryTable = memo(({ outageHistory }: { outageHistory: Outage[] }) => {
   if (outageHistory.length === 0) {
@@ -304,7 +743,14 @@ export default function StatsDisplay() {
     }
   );
 
-  const { data: chartDataResponse } = useSWR<{ chartData: ChartDataPoint[] }>(
+  const { data: chartDataResponse } = useSWR<{
+    chartData: ChartDataPoint[];
+    groupSeries: GroupChartSeries[];
+    linkSeries: WanLinkChartSeries[];
+    agentSeries: AgentChartSeries[];
+    ipChanges: IpChangeMarker[];
+    anomalies: LatencyAnomalyMarker[];
+  }>(
     `/api/stats/chart-data?period=${timePeriod}`,
     fetcher,
     {
@@ -314,6 +760,20 @@ export default function StatsDisplay() {
   );
 
   const chartData = chartDataResponse?.chartData || [];
+  const groupSeries = chartDataResponse?.groupSeries || [];
+  const linkSeries = chartDataResponse?.linkSeries || [];
+  const agentSeries = chartDataResponse?.agentSeries || [];
+  const ipChanges = chartDataResponse?.ipChanges || [];
+  const anomalies = chartDataResponse?.anomalies || [];
+
+  const { data: publicIpHistory } = useSWR<{ changes: PublicIpChange[] }>(
+    '/api/network-info/history',
+    fetcher,
+    {
+      refreshInterval: 600000, // 10 minutes, in step with network info
+      revalidateOnFocus: true,
+    }
+  );
 
   const handleTimePeriodChange = useCallback((period: TimePeriod) => {
     startTransition(() => {
@@ -336,11 +796,26 @@ export default function StatsDisplay() {
       {/* Status Cards - Memoized */}
       <StatusCards
         activeOutage={stats.activeOutage}
+        activeDegradedPeriod={stats.activeDegradedPeriod}
+        activeLatencyAnomalies={stats.activeLatencyAnomalies}
+        activeMaintenance={stats.activeMaintenance}
         totalOutages={stats.totalOutages}
+        durationMode={stats.durationMode}
         totalDowntimeSec={stats.totalDowntimeSec}
         avgOutageDurationSec={stats.avgOutageDurationSec}
+        uptime24h={stats.uptime24h}
+        unmonitoredSec24h={stats.unmonitoredSec24h}
       />
 
+      {/* Target Group Status - Memoized */}
+      <GroupStatusCards groups={stats.groups} />
+
+      {/* WAN Link Status - Memoized */}
+      <WanLinkCards wanLinks={stats.wanLinks} />
+
+      {/* Remote Agent Status - Memoized */}
+      <AgentCards agents={stats.agents} />
+
       {/* Connection History Chart */}
       <Card className="relative">
         {isPending && (
@@ -358,6 +833,7 @@ export default function StatsDisplay() {
               <NetworkInfoDisplay
                 networkInfo={networkInfo || null}
                 latestSpeedTest={stats?.latestSpeedTest || null}
+                pathMtu={stats?.pathMtu || []}
               />
             </div>
             <TimePeriodButtons
@@ -373,12 +849,107 @@ export default function StatsDisplay() {
               <div className="w-4 h-4 bg-success rounded-sm"></div>
               <span>Connected</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 bg-warning rounded-sm"></div>
+              <span>Degraded</span>
+            </div>
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 bg-destructive rounded-sm"></div>
               <span>Disconnected</span>
             </div>
+            {chartData.some(check => check.isUnmonitored) && (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-muted-foreground rounded-sm"></div>
+                <span>Not monitored</span>
+              </div>
+            )}
+            {ipChanges.length > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="w-0.5 h-4 bg-primary"></div>
+                <span>Public IP changed</span>
+              </div>
+            )}
+            {anomalies.length > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-1.5 bg-primary/70 rounded-sm"></div>
+                <span>Unusual latency</span>
+              </div>
+            )}
           </div>
-          <TimelineChart filteredChecks={chartData} timePeriod={timePeriod} />
+          <TimelineChart filteredChecks={chartData} timePeriod={timePeriod} markers={ipChanges} anomalies={anomalies} />
+        </CardContent>
+      </Card>
+
+      {/* WAN Link Charts */}
+      {linkSeries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>WAN Links</CardTitle>
+            <CardDescription>
+              Whether each line reached a target when probed over it, over the same period
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {linkSeries.map(series => (
+              <div key={series.wanLinkId} className="space-y-2">
+                <div className="text-sm font-medium">{series.name}</div>
+                <TimelineChart filteredChecks={series.chartData} timePeriod={timePeriod} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Remote Site Charts */}
+      {agentSeries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Remote Sites</CardTitle>
+            <CardDescription>
+              Connectivity reported by each remote agent, over the same period
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {agentSeries.map(series => (
+              <div key={series.agentId} className="space-y-2">
+                <div className="text-sm font-medium">{series.name}</div>
+                <TimelineChart filteredChecks={series.chartData} timePeriod={timePeriod} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Target Group Charts */}
+      {groupSeries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Target Groups</CardTitle>
+            <CardDescription>
+              Whether each group of targets met its rule, over the same period
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {groupSeries.map(series => (
+              <div key={series.groupId} className="space-y-2">
+                <div className="text-sm font-medium">{series.name}</div>
+                <TimelineChart filteredChecks={series.chartData} timePeriod={timePeriod} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Public IP History - Memoized */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Public IP History</CardTitle>
+          <CardDescription>
+            Every observed change of public address, ASN or ISP, newest first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PublicIpHistoryList changes={publicIpHistory?.changes || []} />
         </CardContent>
       </Card>
 
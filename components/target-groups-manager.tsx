@@ -0,0 +1,360 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { fetcher } from '@/lib/fetcher';
+
+type GroupRule = 'any' | 'all' | 'quorum';
+
+interface TargetGroup {
+  id: number;
+  name: string;
+  rule: GroupRule;
+  quorum: number | null;
+  notify: boolean;
+  notifyEmail: string | null;
+  targets: Array<{ id: number; displayName: string; isEnabled: boolean }>;
+}
+
+interface GroupFormData {
+  name: string;
+  rule: GroupRule;
+  quorum: string;
+  notify: boolean;
+  notifyEmail: string;
+}
+
+const EMPTY_FORM: GroupFormData = {
+  name: '',
+  rule: 'any',
+  quorum: '',
+  notify: true,
+  notifyEmail: '',
+};
+
+// Human-readable rule, e.g. "2 of 3 targets"
+const describeRule = (group: TargetGroup) => {
+  const memberCount = group.targets.filter((target) => target.isEnabled).length;
+  switch (group.rule) {
+    case 'all':
+      return `All ${memberCount} targets`;
+    case 'quorum':
+      return `${group.quorum} of ${memberCount} targets`;
+    default:
+      return `Any of ${memberCount} targets`;
+  }
+};
+
+export default function TargetGroupsManager() {
+  const { data, error, mutate } = useSWR<{ groups: TargetGroup[] }>(
+    '/api/settings/groups',
+    fetcher,
+    { refreshInterval: 30000 }
+  );
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<GroupFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setStatusMessage({ type, text });
+    setTimeout(() => setStatusMessage(null), 5000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const payload = {
+        name: formData.name,
+        rule: formData.rule,
+        quorum: formData.rule === 'quorum' && formData.quorum ? parseInt(formData.quorum, 10) : null,
+        notify: formData.notify,
+        notifyEmail: formData.notifyEmail || null,
+      };
+      const body = editingId ? { id: editingId, ...payload } : payload;
+
+      const response = await fetch('/api/settings/groups', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        showMessage('success', editingId ? 'Group updated successfully' : 'Group added successfully');
+        await mutate();
+        resetForm();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to save group');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to save group. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (group: TargetGroup) => {
+    setFormData({
+      name: group.name,
+      rule: group.rule,
+      quorum: group.quorum?.toString() ?? '',
+      notify: group.notify,
+      notifyEmail: group.notifyEmail ?? '',
+    });
+    setEditingId(group.id);
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (group: TargetGroup) => {
+    try {
+      const response = await fetch(`/api/settings/groups?id=${group.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        showMessage('success', 'Group deleted successfully');
+        await mutate();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to delete group');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to delete group. Please try again.');
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">Failed to load target groups</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const groups = data?.groups || [];
+
+  return (
+    <div className="space-y-6">
+      {statusMessage && (
+        <div
+          className={`p-4 rounded-md ${
+            statusMessage.type === 'success'
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {statusMessage.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Target Groups</CardTitle>
+          <CardDescription>
+            Group targets such as &quot;Public DNS&quot; or &quot;Work VPN&quot; to track each as its own service,
+            with its own outages and notifications. Assign targets to a group under Monitoring Targets.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4">
+            <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'outline' : 'default'}>
+              {isAdding ? 'Cancel' : '+ Add Group'}
+            </Button>
+          </div>
+
+          {isAdding && (
+            <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg space-y-4 bg-muted/50">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="groupName">Name *</Label>
+                  <Input
+                    id="groupName"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., Public DNS"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="groupRule">Up When</Label>
+                  <Select
+                    value={formData.rule}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, rule: value as GroupRule }))}
+                  >
+                    <SelectTrigger id="groupRule">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any target answers</SelectItem>
+                      <SelectItem value="all">All targets answer</SelectItem>
+                      <SelectItem value="quorum">A quorum of targets answers</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.rule === 'quorum' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="groupQuorum">Quorum *</Label>
+                    <Input
+                      id="groupQuorum"
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={formData.quorum}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, quorum: e.target.value }))}
+                      placeholder="2"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Targets that must answer for the group to be up
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="groupNotifyEmail">Notification Email</Label>
+                  <Input
+                    id="groupNotifyEmail"
+                    type="email"
+                    value={formData.notifyEmail}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, notifyEmail: e.target.value }))}
+                    placeholder="Defaults to EMAIL_TO"
+                    disabled={!formData.notify}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="groupNotify"
+                  checked={formData.notify}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, notify: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="groupNotify" className="cursor-pointer">
+                  Email when the group goes down or is restored
+                </Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingId ? 'Update Group' : 'Add Group'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel Edit
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Up When</TableHead>
+                  <TableHead>Targets</TableHead>
+                  <TableHead>Notifications</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No target groups configured
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  groups.map((group) => (
+                    <TableRow key={group.id}>
+                      <TableCell className="font-medium">{group.name}</TableCell>
+                      <TableCell>{describeRule(group)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {group.targets.length > 0
+                          ? group.targets.map((target) => target.displayName).join(', ')
+                          : 'No targets'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {group.notify ? group.notifyEmail ?? 'Default recipient' : 'Off'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEdit(group)}>
+                            Edit
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm">
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Group</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete &quot;{group.name}&quot;? Its targets are kept,
+                                  but its history is removed. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(group)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
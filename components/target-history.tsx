@@ -0,0 +1,198 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetcher } from '@/lib/fetcher';
+import { TargetDetail, TargetLatencyPoint } from '@/types/dashboard';
+import { memo } from 'react';
+import useSWR from 'swr';
+
+// Helper function for formatting duration
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+};
+
+// Helper function for formatting an availability percentage (null before the target existed)
+const formatAvailability = (availability: number | null) =>
+  availability === null ? 'N/A' : `${availability.toFixed(2)}%`;
+
+// Memoized LatencyTrend component - hourly average latency as bars
+const LatencyTrend = memo(({ points }: { points: TargetLatencyPoint[] }) => {
+  const maxLatency = Math.max(0, ...points.map(point => point.avgLatencyMs ?? 0));
+
+  if (maxLatency === 0) {
+    return (
+      <div className="text-center py-10 text-muted-foreground">
+        No successful checks recorded for this target in the last 24 hours
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative h-32 bg-muted rounded-lg overflow-hidden flex items-end">
+        {points.map(point => (
+          <div
+            key={new Date(point.timestamp).getTime()}
+            className="h-full flex items-end px-px"
+            style={{ width: `${100 / points.length}%` }}
+            title={`${new Date(point.timestamp).toLocaleString()}\n${
+              point.avgLatencyMs !== null
+                ? `${point.avgLatencyMs.toFixed(1)} ms average over ${point.checks} checks`
+                : 'No successful checks'
+            }`}
+          >
+            {point.avgLatencyMs !== null && (
+              <div
+                className="w-full bg-primary rounded-t-sm"
+                style={{ height: `${Math.max(2, (point.avgLatencyMs / maxLatency) * 100)}%` }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground px-1">
+        <div>{points[0] ? new Date(points[0].timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'N/A'}</div>
+        <div>Peak hourly average: {maxLatency.toFixed(1)} ms</div>
+        <div>Now</div>
+      </div>
+    </div>
+  );
+});
+LatencyTrend.displayName = 'LatencyTrend';
+
+export default function TargetHistory({ targetId }: { targetId: string }) {
+  const { data: detail, error, isLoading } = useSWR<TargetDetail>(
+    `/api/settings/targets/${targetId}`,
+    fetcher,
+    {
+      refreshInterval: 60000,
+      onError: (err) => console.error('Target history fetch error:', err),
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Target</CardTitle>
+          <CardDescription>Loading target history...</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Target</CardTitle>
+          <CardDescription className="text-destructive">
+            Failed to load target history
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const openIncident = detail.incidents.find(incident => !incident.isResolved);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{detail.target.displayName}</CardTitle>
+          <CardDescription>
+            <span className="font-mono">{detail.target.target}</span>
+            {' • '}{detail.target.type.toUpperCase()}
+            {detail.target.addressFamily === 'ipv6' && ' • IPv6'}
+            {!detail.target.isEnabled && ' • Disabled'}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Status</CardDescription>
+            <CardTitle className={openIncident ? 'text-destructive' : 'text-success'}>
+              {openIncident ? 'FAILING' : 'OK'}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Availability (24h)</CardDescription>
+            <CardTitle>{formatAvailability(detail.availability24h)}</CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Availability (7d)</CardDescription>
+            <CardTitle>{formatAvailability(detail.availability7d)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Latency (24h)</CardTitle>
+          <CardDescription>Hourly average of successful checks</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LatencyTrend points={detail.latencyTrend} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Incidents</CardTitle>
+          <CardDescription>
+            Periods when this target failed its checks. Targets are checked every cycle (or on
+            their own interval), whatever the probe strategy.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {detail.incidents.length === 0 ? (
+            <div className="text-center py-10 text-muted-foreground">
+              No incidents recorded for this target
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Start Time</TableHead>
+                  <TableHead>End Time</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Failed Checks</TableHead>
+                  <TableHead>Last Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {detail.incidents.map(incident => (
+                  <TableRow key={incident.id}>
+                    <TableCell>{new Date(incident.startTime).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {incident.endTime
+                        ? new Date(incident.endTime).toLocaleString()
+                        : <span className="text-destructive">Ongoing</span>}
+                    </TableCell>
+                    <TableCell>
+                      {incident.durationSec !== null ? formatDuration(incident.durationSec) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{incident.checksCount}</TableCell>
+                    <TableCell className="text-muted-foreground">{incident.lastError ?? '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
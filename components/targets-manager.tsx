@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import useSWR from 'swr';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,7 +22,20 @@ import {
 } from '@/components/ui/alert-dialog';
 import { fetcher } from '@/lib/fetcher';
 
-type TargetType = 'dns' | 'domain' | 'ip';
+type TargetType = 'dns' | 'domain' | 'ip' | 'http' | 'https' | 'tcp';
+type HttpMethod = 'GET' | 'HEAD';
+type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'NS' | 'TXT';
+type AddressFamily = 'ipv4' | 'ipv6';
+
+const DNS_RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'NS', 'TXT'];
+
+// Select items cannot have an empty value, so ungrouped targets use this one
+const NO_GROUP = 'none';
+
+interface TargetGroupOption {
+  id: number;
+  name: string;
+}
 
 interface MonitoringTarget {
   id: number;
@@ -30,15 +44,105 @@ interface MonitoringTarget {
   type: TargetType;
   isEnabled: boolean;
   priority: number;
+  addressFamily: AddressFamily;
+  httpMethod: HttpMethod | null;
+  expectedStatus: number | null;
+  bodyMatch: string | null;
+  dnsQueryName: string | null;
+  dnsRecordType: DnsRecordType | null;
+  pingCount: number | null;
+  pingIntervalMs: number | null;
+  checkIntervalSeconds: number | null;
+  timeoutMs: number | null;
+  retries: number | null;
+  groupId: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface TargetFormData {
+  target: string;
+  displayName: string;
+  type: TargetType;
+  priority: number;
+  isEnabled: boolean;
+  addressFamily: AddressFamily;
+  httpMethod: HttpMethod;
+  expectedStatus: string;
+  bodyMatch: string;
+  dnsQueryName: string;
+  dnsRecordType: DnsRecordType;
+  pingCount: string;
+  pingIntervalMs: string;
+  checkIntervalSeconds: string;
+  timeoutMs: string;
+  retries: string;
+  groupId: string;
+}
+
+const EMPTY_FORM: TargetFormData = {
+  target: '',
+  displayName: '',
+  type: 'domain',
+  priority: 100,
+  isEnabled: true,
+  addressFamily: 'ipv4',
+  httpMethod: 'GET',
+  expectedStatus: '',
+  bodyMatch: '',
+  dnsQueryName: '',
+  dnsRecordType: 'A',
+  pingCount: '',
+  pingIntervalMs: '',
+  checkIntervalSeconds: '',
+  timeoutMs: '',
+  retries: '',
+  groupId: NO_GROUP,
+};
+
+const isUrlType = (type: TargetType) => type === 'http' || type === 'https';
+const isPingType = (type: TargetType) => type === 'ip' || type === 'domain';
+
+// Only send the probe options that apply to the selected type, and clear the rest
+const toProbeOptions = (formData: TargetFormData) => ({
+  ...(isUrlType(formData.type)
+    ? {
+        httpMethod: formData.httpMethod,
+        expectedStatus: formData.expectedStatus ? parseInt(formData.expectedStatus, 10) : null,
+        bodyMatch: formData.httpMethod === 'GET' && formData.bodyMatch ? formData.bodyMatch : null,
+      }
+    : { httpMethod: null, expectedStatus: null, bodyMatch: null }),
+  ...(formData.type === 'dns'
+    ? { dnsQueryName: formData.dnsQueryName || null, dnsRecordType: formData.dnsRecordType }
+    : { dnsQueryName: null, dnsRecordType: null }),
+  ...(isPingType(formData.type)
+    ? {
+        pingCount: formData.pingCount ? parseInt(formData.pingCount, 10) : null,
+        pingIntervalMs: formData.pingIntervalMs ? parseInt(formData.pingIntervalMs, 10) : null,
+      }
+    : { pingCount: null, pingIntervalMs: null }),
+  // Per-target overrides apply to every type - blank uses the global setting
+  checkIntervalSeconds: formData.checkIntervalSeconds ? parseInt(formData.checkIntervalSeconds, 10) : null,
+  timeoutMs: formData.timeoutMs ? parseInt(formData.timeoutMs, 10) : null,
+  retries: formData.retries ? parseInt(formData.retries, 10) : null,
+});
+
+// Summarise a target's overrides for the targets table, e.g. "Every 30s • 2 retries"
+const formatOverrides = (target: MonitoringTarget) =>
+  [
+    target.checkIntervalSeconds !== null && `Every ${target.checkIntervalSeconds}s`,
+    target.timeoutMs !== null && `${target.timeoutMs}ms timeout`,
+    target.retries !== null && target.retries > 0 && `${target.retries} ${target.retries === 1 ? 'retry' : 'retries'}`,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
 interface ValidationResult {
   valid: boolean;
   reachable?: boolean;
   latencyMs?: number | null;
   suggestedType?: string;
+  addressFamily?: AddressFamily;
   error?: string;
   warning?: string;
 }
@@ -49,22 +153,11 @@ export default function TargetsManager() {
     fetcher,
     { refreshInterval: 30000 }
   );
+  const { data: groupData } = useSWR<{ groups: TargetGroupOption[] }>('/api/settings/groups', fetcher);
 
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [formData, setFormData] = useState<{
-    target: string;
-    displayName: string;
-    type: TargetType;
-    priority: number;
-    isEnabled: boolean;
-  }>({
-    target: '',
-    displayName: '',
-    type: 'domain',
-    priority: 100,
-    isEnabled: true,
-  });
+  const [formData, setFormData] = useState<TargetFormData>(EMPTY_FORM);
 
   const [validationStatus, setValidationStatus] = useState<ValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
@@ -72,13 +165,7 @@ export default function TargetsManager() {
   const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   const resetForm = () => {
-    setFormData({
-      target: '',
-      displayName: '',
-      type: 'domain',
-      priority: 100,
-      isEnabled: true,
-    });
+    setFormData(EMPTY_FORM);
     setValidationStatus(null);
     setIsAdding(false);
     setEditingId(null);
@@ -102,7 +189,12 @@ export default function TargetsManager() {
       const response = await fetch('/api/settings/targets/validate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ target: formData.target }),
+        body: JSON.stringify({
+          target: formData.target,
+          type: formData.type,
+          addressFamily: formData.addressFamily,
+          ...toProbeOptions(formData),
+        }),
       });
 
       const result = await response.json();
@@ -112,6 +204,9 @@ export default function TargetsManager() {
         if (result.suggestedType) {
           setFormData((prev) => ({ ...prev, type: result.suggestedType }));
         }
+        if (result.addressFamily) {
+          setFormData((prev) => ({ ...prev, addressFamily: result.addressFamily }));
+        }
       } else {
         setValidationStatus({ valid: false, error: result.error });
       }
@@ -129,7 +224,17 @@ export default function TargetsManager() {
     try {
       const url = '/api/settings/targets';
       const method = editingId ? 'PUT' : 'POST';
-      const body = editingId ? { id: editingId, ...formData } : formData;
+      const payload = {
+        target: formData.target,
+        displayName: formData.displayName,
+        type: formData.type,
+        priority: formData.priority,
+        isEnabled: formData.isEnabled,
+        addressFamily: formData.addressFamily,
+        groupId: formData.groupId === NO_GROUP ? null : parseInt(formData.groupId, 10),
+        ...toProbeOptions(formData),
+      };
+      const body = editingId ? { id: editingId, ...payload } : payload;
 
       const response = await fetch(url, {
         method,
@@ -156,9 +261,21 @@ export default function TargetsManager() {
     setFormData({
       target: target.target,
       displayName: target.displayName,
-      type: target.type as 'dns' | 'domain' | 'ip',
+      type: target.type,
       priority: target.priority,
       isEnabled: target.isEnabled,
+      addressFamily: target.addressFamily,
+      httpMethod: target.httpMethod ?? 'GET',
+      expectedStatus: target.expectedStatus?.toString() ?? '',
+      bodyMatch: target.bodyMatch ?? '',
+      dnsQueryName: target.dnsQueryName ?? '',
+      dnsRecordType: target.dnsRecordType ?? 'A',
+      pingCount: target.pingCount?.toString() ?? '',
+      pingIntervalMs: target.pingIntervalMs?.toString() ?? '',
+      checkIntervalSeconds: target.checkIntervalSeconds?.toString() ?? '',
+      timeoutMs: target.timeoutMs?.toString() ?? '',
+      retries: target.retries?.toString() ?? '',
+      groupId: target.groupId?.toString() ?? NO_GROUP,
     });
     setEditingId(target.id);
     setIsAdding(true);
@@ -220,6 +337,8 @@ export default function TargetsManager() {
   }
 
   const targets = data?.targets || [];
+  const groups = groupData?.groups || [];
+  const groupNames = new Map(groups.map((group) => [group.id, group.name]));
 
   return (
     <div className="space-y-6">
@@ -239,7 +358,7 @@ export default function TargetsManager() {
         <CardHeader>
           <CardTitle>Monitoring Targets</CardTitle>
           <CardDescription>
-            Manage the DNS servers and websites used to detect internet connectivity
+            Manage the DNS servers, websites, TCP ports and HTTP endpoints used to detect internet connectivity
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -253,13 +372,13 @@ export default function TargetsManager() {
             <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg space-y-4 bg-muted/50">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="target">Target (IP or Domain) *</Label>
+                  <Label htmlFor="target">Target (IP, Domain, host:port or URL) *</Label>
                   <div className="flex gap-2">
                     <Input
                       id="target"
                       value={formData.target}
                       onChange={(e) => setFormData((prev) => ({ ...prev, target: e.target.value }))}
-                      placeholder="e.g., 8.8.8.8 or google.com"
+                      placeholder="e.g., 8.8.8.8, 2606:4700:4700::1111, google.com, 1.1.1.1:53 or https://example.com/health"
                       required
                       disabled={!!editingId}
                     />
@@ -315,6 +434,9 @@ export default function TargetsManager() {
                       <SelectItem value="dns">DNS Server</SelectItem>
                       <SelectItem value="domain">Domain</SelectItem>
                       <SelectItem value="ip">IP Address</SelectItem>
+                      <SelectItem value="http">HTTP URL</SelectItem>
+                      <SelectItem value="https">HTTPS URL</SelectItem>
+                      <SelectItem value="tcp">TCP Port</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -329,8 +451,204 @@ export default function TargetsManager() {
                     onChange={(e) => setFormData((prev) => ({ ...prev, priority: parseInt(e.target.value) || 100 }))}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="addressFamily">Address Family</Label>
+                  <Select
+                    value={formData.addressFamily}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, addressFamily: value as AddressFamily }))}
+                  >
+                    <SelectTrigger id="addressFamily">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ipv4">IPv4</SelectItem>
+                      <SelectItem value="ipv6">IPv6</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    IP addresses always use their own family
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="groupId">Group</Label>
+                  <Select
+                    value={formData.groupId}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, groupId: value }))}
+                  >
+                    <SelectTrigger id="groupId">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_GROUP}>No group</SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id.toString()}>
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="checkIntervalSeconds">Check Interval (s)</Label>
+                  <Input
+                    id="checkIntervalSeconds"
+                    type="number"
+                    min="10"
+                    max="3600"
+                    value={formData.checkIntervalSeconds}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, checkIntervalSeconds: e.target.value }))}
+                    placeholder="Every check"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Probe on its own schedule; checks in between reuse its latest result until it is a check interval overdue
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="timeoutMs">Timeout (ms)</Label>
+                  <Input
+                    id="timeoutMs"
+                    type="number"
+                    min="1000"
+                    max="60000"
+                    value={formData.timeoutMs}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, timeoutMs: e.target.value }))}
+                    placeholder="Global setting"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="retries">Retries</Label>
+                  <Input
+                    id="retries"
+                    type="number"
+                    min="0"
+                    max="5"
+                    value={formData.retries}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, retries: e.target.value }))}
+                    placeholder="0"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Extra attempts before the target counts as down
+                  </p>
+                </div>
               </div>
 
+              {isPingType(formData.type) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="pingCount">Packets per Check</Label>
+                    <Input
+                      id="pingCount"
+                      type="number"
+                      min="1"
+                      max="20"
+                      value={formData.pingCount}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, pingCount: e.target.value }))}
+                      placeholder="1"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Send several packets to measure packet loss and jitter
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="pingIntervalMs">Packet Interval (ms)</Label>
+                    <Input
+                      id="pingIntervalMs"
+                      type="number"
+                      min="200"
+                      max="10000"
+                      value={formData.pingIntervalMs}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, pingIntervalMs: e.target.value }))}
+                      placeholder="1000"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {formData.type === 'dns' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dnsQueryName">Query Name</Label>
+                    <Input
+                      id="dnsQueryName"
+                      value={formData.dnsQueryName}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, dnsQueryName: e.target.value }))}
+                      placeholder="google.com"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="dnsRecordType">Record Type</Label>
+                    <Select
+                      value={formData.dnsRecordType}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, dnsRecordType: value as DnsRecordType }))}
+                    >
+                      <SelectTrigger id="dnsRecordType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DNS_RECORD_TYPES.map((recordType) => (
+                          <SelectItem key={recordType} value={recordType}>
+                            {recordType}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {isUrlType(formData.type) && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="httpMethod">HTTP Method</Label>
+                    <Select
+                      value={formData.httpMethod}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, httpMethod: value as HttpMethod }))}
+                    >
+                      <SelectTrigger id="httpMethod">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="GET">GET</SelectItem>
+                        <SelectItem value="HEAD">HEAD</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="expectedStatus">Expected Status</Label>
+                    <Input
+                      id="expectedStatus"
+                      type="number"
+                      min="100"
+                      max="599"
+                      value={formData.expectedStatus}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, expectedStatus: e.target.value }))}
+                      placeholder="Any 2xx/3xx"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="bodyMatch">Body Contains</Label>
+                    <Input
+                      id="bodyMatch"
+                      value={formData.bodyMatch}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, bodyMatch: e.target.value }))}
+                      placeholder={formData.httpMethod === 'HEAD' ? 'Requires GET' : 'Optional'}
+                      disabled={formData.httpMethod === 'HEAD'}
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -365,6 +683,7 @@ export default function TargetsManager() {
                   <TableHead>Display Name</TableHead>
                   <TableHead>Target</TableHead>
                   <TableHead>Type</TableHead>
+                  <TableHead>Group</TableHead>
                   <TableHead>Priority</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -372,7 +691,7 @@ export default function TargetsManager() {
               <TableBody>
                 {targets.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
                       No monitoring targets configured
                     </TableCell>
                   </TableRow>
@@ -385,8 +704,17 @@ export default function TargetsManager() {
                           title={target.isEnabled ? 'Enabled' : 'Disabled'}
                         />
                       </TableCell>
-                      <TableCell className="font-medium">{target.displayName}</TableCell>
-                      <TableCell className="font-mono text-sm">{target.target}</TableCell>
+                      <TableCell className="font-medium">
+                        <Link href={`/settings/targets/${target.id}`} className="text-primary hover:underline">
+                          {target.displayName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-sm">{target.target}</div>
+                        {formatOverrides(target) && (
+                          <div className="text-xs text-muted-foreground">{formatOverrides(target)}</div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <span
                           className={`inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ring-1 ring-inset ${
@@ -394,11 +722,23 @@ export default function TargetsManager() {
                               ? 'bg-blue-50 text-blue-700 ring-blue-600/20 dark:bg-blue-900/20 dark:text-blue-300'
                               : target.type === 'ip'
                               ? 'bg-purple-50 text-purple-700 ring-purple-600/20 dark:bg-purple-900/20 dark:text-purple-300'
+                              : isUrlType(target.type)
+                              ? 'bg-green-50 text-green-700 ring-green-600/20 dark:bg-green-900/20 dark:text-green-300'
+                              : target.type === 'tcp'
+                              ? 'bg-orange-50 text-orange-700 ring-orange-600/20 dark:bg-orange-900/20 dark:text-orange-300'
                               : 'bg-gray-50 text-gray-700 ring-gray-600/20 dark:bg-gray-900/20 dark:text-gray-300'
                           }`}
                         >
                           {target.type.toUpperCase()}
                         </span>
+                        {target.addressFamily === 'ipv6' && (
+                          <span className="ml-1 inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ring-1 ring-inset bg-cyan-50 text-cyan-700 ring-cyan-600/20 dark:bg-cyan-900/20 dark:text-cyan-300">
+                            IPv6
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {target.groupId !== null ? groupNames.get(target.groupId) ?? '-' : '-'}
                       </TableCell>
                       <TableCell>{target.priority}</TableCell>
                       <TableCell>
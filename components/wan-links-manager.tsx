@@ -0,0 +1,354 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { fetcher } from '@/lib/fetcher';
+
+interface WanLink {
+  id: number;
+  name: string;
+  interface: string | null;
+  sourceAddress: string | null;
+  isEnabled: boolean;
+}
+
+interface HostInterface {
+  name: string;
+  addresses: string[];
+}
+
+interface WanLinkFormData {
+  name: string;
+  interface: string;
+  sourceAddress: string;
+  isEnabled: boolean;
+}
+
+const EMPTY_FORM: WanLinkFormData = {
+  name: '',
+  interface: '',
+  sourceAddress: '',
+  isEnabled: true,
+};
+
+export default function WanLinksManager() {
+  const { data, error, mutate } = useSWR<{ links: WanLink[]; interfaces: HostInterface[] }>(
+    '/api/settings/wan-links',
+    fetcher,
+    { refreshInterval: 30000 }
+  );
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<WanLinkFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setStatusMessage({ type, text });
+    setTimeout(() => setStatusMessage(null), 5000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const payload = {
+        name: formData.name,
+        interface: formData.interface.trim() || null,
+        sourceAddress: formData.sourceAddress.trim() || null,
+        isEnabled: formData.isEnabled,
+      };
+      const body = editingId ? { id: editingId, ...payload } : payload;
+
+      const response = await fetch('/api/settings/wan-links', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        showMessage('success', editingId ? 'WAN link updated successfully' : 'WAN link added successfully');
+        await mutate();
+        resetForm();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to save WAN link');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to save WAN link. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (link: WanLink) => {
+    setFormData({
+      name: link.name,
+      interface: link.interface ?? '',
+      sourceAddress: link.sourceAddress ?? '',
+      isEnabled: link.isEnabled,
+    });
+    setEditingId(link.id);
+    setIsAdding(true);
+  };
+
+  const handleToggleEnabled = async (link: WanLink) => {
+    try {
+      const response = await fetch('/api/settings/wan-links', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: link.id, isEnabled: !link.isEnabled }),
+      });
+
+      if (response.ok) {
+        showMessage('success', `WAN link ${!link.isEnabled ? 'enabled' : 'disabled'} successfully`);
+        await mutate();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to update WAN link');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to update WAN link. Please try again.');
+    }
+  };
+
+  const handleDelete = async (link: WanLink) => {
+    try {
+      const response = await fetch(`/api/settings/wan-links?id=${link.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        showMessage('success', 'WAN link deleted successfully');
+        await mutate();
+      } else {
+        const result = await response.json();
+        showMessage('error', result.error || 'Failed to delete WAN link');
+      }
+    } catch (err) {
+      showMessage('error', 'Failed to delete WAN link. Please try again.');
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">Failed to load WAN links</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const links = data?.links || [];
+  const interfaces = data?.interfaces || [];
+
+  return (
+    <div className="space-y-6">
+      {statusMessage && (
+        <div
+          className={`p-4 rounded-md ${
+            statusMessage.type === 'success'
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {statusMessage.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>WAN Links</CardTitle>
+          <CardDescription>
+            Monitor each internet line on its own, e.g. a primary fibre line and an LTE backup. Every cycle, the
+            monitoring targets are probed over each link until one answers. Ping binds to the interface; other probes
+            are sent from the link&apos;s address, so the host needs source-based routing for each line.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4">
+            <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'outline' : 'default'}>
+              {isAdding ? 'Cancel' : '+ Add WAN Link'}
+            </Button>
+          </div>
+
+          {isAdding && (
+            <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg space-y-4 bg-muted/50">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="wanLinkName">Name *</Label>
+                  <Input
+                    id="wanLinkName"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., LTE backup"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="wanLinkInterface">Interface</Label>
+                  <Input
+                    id="wanLinkInterface"
+                    list="wanLinkInterfaces"
+                    value={formData.interface}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, interface: e.target.value }))}
+                    placeholder="e.g., wwan0"
+                  />
+                  <datalist id="wanLinkInterfaces">
+                    {interfaces.map((iface) => (
+                      <option key={iface.name} value={iface.name}>
+                        {iface.addresses.join(', ')}
+                      </option>
+                    ))}
+                  </datalist>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="wanLinkSourceAddress">Source Address</Label>
+                  <Input
+                    id="wanLinkSourceAddress"
+                    value={formData.sourceAddress}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, sourceAddress: e.target.value }))}
+                    placeholder="Defaults to the interface address"
+                  />
+                </div>
+              </div>
+
+              {interfaces.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Interfaces on this host:{' '}
+                  {interfaces.map((iface) => `${iface.name} (${iface.addresses.join(', ')})`).join('; ')}
+                </p>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="wanLinkEnabled"
+                  checked={formData.isEnabled}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, isEnabled: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="wanLinkEnabled" className="cursor-pointer">
+                  Enabled
+                </Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : editingId ? 'Update WAN Link' : 'Add WAN Link'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel Edit
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Interface</TableHead>
+                  <TableHead>Source Address</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {links.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No WAN links configured - only the default route is monitored
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  links.map((link) => (
+                    <TableRow key={link.id}>
+                      <TableCell>
+                        <div
+                          className={`w-3 h-3 rounded-full ${link.isEnabled ? 'bg-green-500' : 'bg-gray-400'}`}
+                          title={link.isEnabled ? 'Enabled' : 'Disabled'}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{link.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{link.interface ?? '-'}</TableCell>
+                      <TableCell className="font-mono text-sm">{link.sourceAddress ?? '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEdit(link)}>
+                            Edit
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleToggleEnabled(link)}>
+                            {link.isEnabled ? 'Disable' : 'Enable'}
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm">
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete WAN Link</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete &quot;{link.name}&quot;? Its check and outage
+                                  history is removed too. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(link)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -430,6 +430,15 @@ describe('Logger', () => {
         'Speed test monitoring started'
       );
     });
+
+    it('should log public_ip_monitoring_started as INFO', async () => {
+      await logger.logLifecycle('public_ip_monitoring_started', { intervalSeconds: 900 });
+
+      expect(mockPinoInfo).toHaveBeenCalledWith(
+        { event: 'public_ip_monitoring_started', intervalSeconds: 900 },
+        'Public IP monitoring started'
+      );
+    });
   });
 
   describe('logSettings', () => {
@@ -454,6 +463,17 @@ describe('Logger', () => {
         }),
       });
     });
+
+    it('should log target group changes', async () => {
+      await logger.logSettings('group_added', 'Public DNS');
+
+      expect(mockSystemLogCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          level: 'WARN',
+          message: 'Target group added: Public DNS',
+        }),
+      });
+    });
   });
 
   describe('withTiming', () => {
@@ -6,6 +6,13 @@
  * - Fallback to environment variables
  * - Validation of interval constraints
  * - Reset functionality
+ * - Probe strategy settings
+ * - Outage confirmation thresholds
+ * - Outage duration mode
+ * - Degraded connection settings
+ * - Interception detection settings
+ * - Path MTU discovery settings
+ * - Latency anomaly detection settings
  */
 
 import {
@@ -13,6 +20,27 @@ import {
   updateMonitoringIntervals,
   getDefaultIntervals,
   resetToDefaultIntervals,
+  getProbeSettings,
+  updateProbeSettings,
+  DEFAULT_PROBE_SETTINGS,
+  getOutageThresholds,
+  updateOutageThresholds,
+  DEFAULT_OUTAGE_THRESHOLDS,
+  getOutageDurationMode,
+  updateOutageDurationMode,
+  OutageDurationMode,
+  getDegradationSettings,
+  updateDegradationSettings,
+  DEFAULT_DEGRADATION_SETTINGS,
+  getInterceptionSettings,
+  updateInterceptionSettings,
+  DEFAULT_INTERCEPTION_SETTINGS,
+  getPathMtuSettings,
+  updatePathMtuSettings,
+  DEFAULT_PATH_MTU_SETTINGS,
+  getLatencyAnomalySettings,
+  updateLatencyAnomalySettings,
+  DEFAULT_LATENCY_ANOMALY_SETTINGS,
   MonitoringIntervals,
 } from '../settings';
 
@@ -22,6 +50,7 @@ jest.mock('@/lib/db', () => ({
     settings: {
       findUnique: jest.fn(),
       upsert: jest.fn(),
+      updateMany: jest.fn(),
       deleteMany: jest.fn(),
     },
   },
@@ -316,10 +345,20 @@ describe('Settings', () => {
   });
 
   describe('resetToDefaultIntervals', () => {
-    it('should delete all settings from database', async () => {
+    it('should restore the env intervals without deleting other settings', async () => {
+      mockEnv.CHECK_INTERVAL_SECONDS = '120';
+      mockEnv.OUTAGE_CHECK_INTERVAL_SECONDS = '15';
+
       await resetToDefaultIntervals();
 
-      expect(prisma.settings.deleteMany).toHaveBeenCalledWith({});
+      expect(prisma.settings.updateMany).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          checkIntervalSeconds: 120,
+          outageCheckIntervalSeconds: 15,
+        },
+      });
+      expect(prisma.settings.deleteMany).not.toHaveBeenCalled();
     });
 
     it('should log info message after reset', async () => {
@@ -330,4 +369,742 @@ describe('Settings', () => {
       );
     });
   });
+
+  describe('getProbeSettings', () => {
+    it('should return probe settings from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({
+        probeAllTargets: true,
+        probeConcurrency: 8,
+        probeTimeoutMs: 2000,
+        gatewayTarget: '192.168.1.1',
+      });
+
+      const settings = await getProbeSettings();
+
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: {
+          probeAllTargets: true,
+          probeConcurrency: true,
+          probeTimeoutMs: true,
+          gatewayTarget: true,
+        },
+      });
+      expect(settings).toEqual({
+        probeAllTargets: true,
+        probeConcurrency: 8,
+        probeTimeoutMs: 2000,
+        gatewayTarget: '192.168.1.1',
+      });
+    });
+
+    it('should fallback to defaults when no database settings', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const settings = await getProbeSettings();
+
+      expect(settings).toEqual(DEFAULT_PROBE_SETTINGS);
+    });
+
+    it('should fallback to defaults and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      const settings = await getProbeSettings();
+
+      expect(settings).toEqual(DEFAULT_PROBE_SETTINGS);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load probe settings from database, using defaults',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updateProbeSettings', () => {
+    it('should throw error if probeConcurrency is out of range', async () => {
+      await expect(
+        updateProbeSettings({ probeAllTargets: true, probeConcurrency: 0, probeTimeoutMs: 5000, gatewayTarget: null })
+      ).rejects.toThrow('probeConcurrency must be between 1 and 20');
+
+      await expect(
+        updateProbeSettings({ probeAllTargets: true, probeConcurrency: 21, probeTimeoutMs: 5000, gatewayTarget: null })
+      ).rejects.toThrow('probeConcurrency must be between 1 and 20');
+    });
+
+    it('should throw error if probeTimeoutMs is out of range', async () => {
+      await expect(
+        updateProbeSettings({ probeAllTargets: true, probeConcurrency: 4, probeTimeoutMs: 999, gatewayTarget: null })
+      ).rejects.toThrow('probeTimeoutMs must be between 1000 and 30000');
+
+      await expect(
+        updateProbeSettings({ probeAllTargets: true, probeConcurrency: 4, probeTimeoutMs: 30001, gatewayTarget: null })
+      ).rejects.toThrow('probeTimeoutMs must be between 1000 and 30000');
+    });
+
+    it('should throw error if gatewayTarget is not an IP address', async () => {
+      await expect(
+        updateProbeSettings({ probeAllTargets: false, probeConcurrency: 4, probeTimeoutMs: 5000, gatewayTarget: 'router.lan' })
+      ).rejects.toThrow('gatewayTarget must be an IP address');
+    });
+
+    it('should accept IPv4 and IPv6 gateways', async () => {
+      await updateProbeSettings({ probeAllTargets: false, probeConcurrency: 4, probeTimeoutMs: 5000, gatewayTarget: '192.168.1.1' });
+      await updateProbeSettings({ probeAllTargets: false, probeConcurrency: 4, probeTimeoutMs: 5000, gatewayTarget: 'fd00::1' });
+
+      expect(prisma.settings.upsert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should upsert probe settings, creating the row with env intervals', async () => {
+      const probeSettings = { probeAllTargets: true, probeConcurrency: 6, probeTimeoutMs: 3000, gatewayTarget: null };
+
+      await updateProbeSettings(probeSettings);
+
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          ...probeSettings,
+        },
+        update: probeSettings,
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated probe settings', probeSettings);
+    });
+  });
+
+  describe('getOutageThresholds', () => {
+    it('should return thresholds from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({
+        outageFailureThreshold: 3,
+        outageRecoveryThreshold: 2,
+        outageMinFailedTargets: 2,
+      });
+
+      const thresholds = await getOutageThresholds();
+
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: {
+          outageFailureThreshold: true,
+          outageRecoveryThreshold: true,
+          outageMinFailedTargets: true,
+        },
+      });
+      expect(thresholds).toEqual({
+        failureThreshold: 3,
+        recoveryThreshold: 2,
+        minFailedTargets: 2,
+      });
+    });
+
+    it('should fallback to defaults when no database settings', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await getOutageThresholds()).toEqual(DEFAULT_OUTAGE_THRESHOLDS);
+    });
+
+    it('should fallback to defaults and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      expect(await getOutageThresholds()).toEqual(DEFAULT_OUTAGE_THRESHOLDS);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load outage thresholds from database, using defaults',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updateOutageThresholds', () => {
+    it('should throw error if failureThreshold is out of range', async () => {
+      await expect(
+        updateOutageThresholds({ failureThreshold: 0, recoveryThreshold: 1, minFailedTargets: null })
+      ).rejects.toThrow('failureThreshold must be between 1 and 20');
+
+      await expect(
+        updateOutageThresholds({ failureThreshold: 21, recoveryThreshold: 1, minFailedTargets: null })
+      ).rejects.toThrow('failureThreshold must be between 1 and 20');
+    });
+
+    it('should throw error if recoveryThreshold is out of range', async () => {
+      await expect(
+        updateOutageThresholds({ failureThreshold: 1, recoveryThreshold: 0, minFailedTargets: null })
+      ).rejects.toThrow('recoveryThreshold must be between 1 and 20');
+    });
+
+    it('should throw error if minFailedTargets is below 1', async () => {
+      await expect(
+        updateOutageThresholds({ failureThreshold: 1, recoveryThreshold: 1, minFailedTargets: 0 })
+      ).rejects.toThrow('minFailedTargets must be at least 1');
+    });
+
+    it('should upsert thresholds, creating the row with env intervals', async () => {
+      const thresholds = { failureThreshold: 3, recoveryThreshold: 2, minFailedTargets: 2 };
+
+      await updateOutageThresholds(thresholds);
+
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          outageFailureThreshold: 3,
+          outageRecoveryThreshold: 2,
+          outageMinFailedTargets: 2,
+        },
+        update: {
+          outageFailureThreshold: 3,
+          outageRecoveryThreshold: 2,
+          outageMinFailedTargets: 2,
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated outage thresholds', thresholds);
+    });
+  });
+
+  describe('getOutageDurationMode', () => {
+    it('should return the duration mode from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({ outageDurationMode: 'estimated' });
+
+      expect(await getOutageDurationMode()).toBe('estimated');
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: { outageDurationMode: true },
+      });
+    });
+
+    it('should fallback to the default when no database settings or an unknown mode', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+      expect(await getOutageDurationMode()).toBe('recorded');
+
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({ outageDurationMode: 'longest' });
+      expect(await getOutageDurationMode()).toBe('recorded');
+    });
+
+    it('should fallback to the default and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      expect(await getOutageDurationMode()).toBe('recorded');
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load outage duration mode from database, using default',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updateOutageDurationMode', () => {
+    it('should throw error for an unknown mode', async () => {
+      await expect(
+        updateOutageDurationMode('longest' as OutageDurationMode)
+      ).rejects.toThrow('durationMode must be one of: recorded, conservative, estimated');
+    });
+
+    it('should upsert the mode, creating the row with env intervals', async () => {
+      await updateOutageDurationMode('conservative');
+
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          outageDurationMode: 'conservative',
+        },
+        update: { outageDurationMode: 'conservative' },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated outage duration mode', { durationMode: 'conservative' });
+    });
+  });
+
+  describe('getDegradationSettings', () => {
+    it('should return degradation settings from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({
+        degradedLatencyMs: 150,
+        degradedPacketLossPct: 5,
+        degradedWindowChecks: 10,
+        notifyDegraded: true,
+      });
+
+      const degradation = await getDegradationSettings();
+
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: {
+          degradedLatencyMs: true,
+          degradedPacketLossPct: true,
+          degradedWindowChecks: true,
+          notifyDegraded: true,
+        },
+      });
+      expect(degradation).toEqual({
+        latencyThresholdMs: 150,
+        packetLossThresholdPct: 5,
+        windowChecks: 10,
+        notify: true,
+      });
+    });
+
+    it('should fallback to defaults when no database settings', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await getDegradationSettings()).toEqual(DEFAULT_DEGRADATION_SETTINGS);
+    });
+
+    it('should fallback to defaults and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      expect(await getDegradationSettings()).toEqual(DEFAULT_DEGRADATION_SETTINGS);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load degradation settings from database, using defaults',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updateDegradationSettings', () => {
+    const valid = { latencyThresholdMs: 150, packetLossThresholdPct: 5, windowChecks: 10, notify: true };
+
+    it('should throw error if latencyThresholdMs is out of range', async () => {
+      await expect(
+        updateDegradationSettings({ ...valid, latencyThresholdMs: 0 })
+      ).rejects.toThrow('latencyThresholdMs must be between 1 and 60000');
+
+      await expect(
+        updateDegradationSettings({ ...valid, latencyThresholdMs: 60001 })
+      ).rejects.toThrow('latencyThresholdMs must be between 1 and 60000');
+    });
+
+    it('should throw error if packetLossThresholdPct is out of range', async () => {
+      await expect(
+        updateDegradationSettings({ ...valid, packetLossThresholdPct: 0 })
+      ).rejects.toThrow('packetLossThresholdPct must be between 0 and 100');
+
+      await expect(
+        updateDegradationSettings({ ...valid, packetLossThresholdPct: 100 })
+      ).rejects.toThrow('packetLossThresholdPct must be between 0 and 100');
+    });
+
+    it('should throw error if windowChecks is out of range', async () => {
+      await expect(
+        updateDegradationSettings({ ...valid, windowChecks: 0 })
+      ).rejects.toThrow('windowChecks must be between 1 and 60');
+
+      await expect(
+        updateDegradationSettings({ ...valid, windowChecks: 61 })
+      ).rejects.toThrow('windowChecks must be between 1 and 60');
+    });
+
+    it('should allow both thresholds to be disabled', async () => {
+      await updateDegradationSettings(DEFAULT_DEGRADATION_SETTINGS);
+
+      expect(prisma.settings.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: {
+          degradedLatencyMs: null,
+          degradedPacketLossPct: null,
+          degradedWindowChecks: 5,
+          notifyDegraded: false,
+        },
+      }));
+    });
+
+    it('should upsert degradation settings, creating the row with env intervals', async () => {
+      await updateDegradationSettings(valid);
+
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          degradedLatencyMs: 150,
+          degradedPacketLossPct: 5,
+          degradedWindowChecks: 10,
+          notifyDegraded: true,
+        },
+        update: {
+          degradedLatencyMs: 150,
+          degradedPacketLossPct: 5,
+          degradedWindowChecks: 10,
+          notifyDegraded: true,
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated degradation settings', valid);
+    });
+  });
+
+  describe('getInterceptionSettings', () => {
+    const row = {
+      interceptionCheckEnabled: true,
+      interceptionCheckUrl: 'https://example.com/health',
+      interceptionExpectedStatus: 200,
+      interceptionBodyMatch: 'ok',
+      interceptionDnsChecks: '[{"hostname":"example.com","ranges":["93.184.215.0/24"]}]',
+    };
+
+    it('should return interception settings from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(row);
+
+      const interception = await getInterceptionSettings();
+
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: {
+          interceptionCheckEnabled: true,
+          interceptionCheckUrl: true,
+          interceptionExpectedStatus: true,
+          interceptionBodyMatch: true,
+          interceptionDnsChecks: true,
+        },
+      });
+      expect(interception).toEqual({
+        enabled: true,
+        checkUrl: 'https://example.com/health',
+        expectedStatus: 200,
+        bodyMatch: 'ok',
+        dnsChecks: [{ hostname: 'example.com', ranges: ['93.184.215.0/24'] }],
+      });
+    });
+
+    it('should use the built-in hostname checks when none are saved', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({ ...row, interceptionDnsChecks: null });
+
+      const interception = await getInterceptionSettings();
+
+      expect(interception.dnsChecks).toEqual(DEFAULT_INTERCEPTION_SETTINGS.dnsChecks);
+    });
+
+    it('should fallback to defaults when no database settings', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await getInterceptionSettings()).toEqual(DEFAULT_INTERCEPTION_SETTINGS);
+    });
+
+    it('should fallback to defaults and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      expect(await getInterceptionSettings()).toEqual(DEFAULT_INTERCEPTION_SETTINGS);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load interception settings from database, using defaults',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updateInterceptionSettings', () => {
+    const valid = {
+      enabled: true,
+      checkUrl: 'http://connectivitycheck.gstatic.com/generate_204',
+      expectedStatus: 204,
+      bodyMatch: null,
+      dnsChecks: [{ hostname: 'dns.google', ranges: ['8.8.8.0/24', '2001:4860:4860::/48'] }],
+    };
+
+    it('should throw error if checkUrl is not an http(s) URL', async () => {
+      await expect(
+        updateInterceptionSettings({ ...valid, checkUrl: 'ftp://example.com' })
+      ).rejects.toThrow('checkUrl must be an http:// or https:// URL');
+
+      await expect(
+        updateInterceptionSettings({ ...valid, checkUrl: 'example.com' })
+      ).rejects.toThrow('checkUrl must be an http:// or https:// URL');
+    });
+
+    it('should throw error if expectedStatus is out of range', async () => {
+      await expect(
+        updateInterceptionSettings({ ...valid, expectedStatus: 99 })
+      ).rejects.toThrow('expectedStatus must be between 100 and 599');
+
+      await expect(
+        updateInterceptionSettings({ ...valid, expectedStatus: 600 })
+      ).rejects.toThrow('expectedStatus must be between 100 and 599');
+    });
+
+    it('should throw error if there are more than 10 hostname checks', async () => {
+      await expect(
+        updateInterceptionSettings({ ...valid, dnsChecks: Array(11).fill(valid.dnsChecks[0]) })
+      ).rejects.toThrow('dnsChecks must have at most 10 hostnames');
+    });
+
+    it('should throw error for a hostname that is not a domain', async () => {
+      await expect(
+        updateInterceptionSettings({ ...valid, dnsChecks: [{ hostname: '8.8.8.8', ranges: ['8.8.8.0/24'] }] })
+      ).rejects.toThrow('Invalid hostname: 8.8.8.8');
+
+      await expect(
+        updateInterceptionSettings({ ...valid, dnsChecks: [{ hostname: 'bad host', ranges: ['8.8.8.0/24'] }] })
+      ).rejects.toThrow('Invalid hostname: bad host');
+    });
+
+    it('should throw error for missing or invalid ranges', async () => {
+      await expect(
+        updateInterceptionSettings({ ...valid, dnsChecks: [{ hostname: 'dns.google', ranges: [] }] })
+      ).rejects.toThrow('dns.google needs at least one address range in CIDR notation');
+
+      for (const range of ['8.8.8.0', '8.8.8.0/33', '2001:db8::/129', 'dns.google/24', '8.8.8.0/24/1', '8.8.8.0/x']) {
+        await expect(
+          updateInterceptionSettings({ ...valid, dnsChecks: [{ hostname: 'dns.google', ranges: [range] }] })
+        ).rejects.toThrow('dns.google needs at least one address range in CIDR notation');
+      }
+    });
+
+    it('should upsert interception settings, storing the hostname checks as JSON', async () => {
+      await updateInterceptionSettings(valid);
+
+      const data = {
+        interceptionCheckEnabled: true,
+        interceptionCheckUrl: 'http://connectivitycheck.gstatic.com/generate_204',
+        interceptionExpectedStatus: 204,
+        interceptionBodyMatch: null,
+        interceptionDnsChecks: '[{"hostname":"dns.google","ranges":["8.8.8.0/24","2001:4860:4860::/48"]}]',
+      };
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          ...data,
+        },
+        update: data,
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated interception settings', valid);
+    });
+  });
+
+  describe('getPathMtuSettings', () => {
+    const row = {
+      pathMtuEnabled: true,
+      pathMtuTargets: '["9.9.9.9","dns.google"]',
+      pathMtuIntervalSeconds: 1800,
+      pathMtuAlertBelow: 1492,
+    };
+
+    it('should return path MTU settings from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(row);
+
+      const pathMtu = await getPathMtuSettings();
+
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: {
+          pathMtuEnabled: true,
+          pathMtuTargets: true,
+          pathMtuIntervalSeconds: true,
+          pathMtuAlertBelow: true,
+        },
+      });
+      expect(pathMtu).toEqual({
+        enabled: true,
+        targets: ['9.9.9.9', 'dns.google'],
+        intervalSeconds: 1800,
+        alertBelow: 1492,
+      });
+    });
+
+    it('should use the built-in targets when none are saved', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({ ...row, pathMtuTargets: null });
+
+      const pathMtu = await getPathMtuSettings();
+
+      expect(pathMtu.targets).toEqual(DEFAULT_PATH_MTU_SETTINGS.targets);
+    });
+
+    it('should fallback to defaults when no database settings', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await getPathMtuSettings()).toEqual(DEFAULT_PATH_MTU_SETTINGS);
+    });
+
+    it('should fallback to defaults and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      expect(await getPathMtuSettings()).toEqual(DEFAULT_PATH_MTU_SETTINGS);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load path MTU settings from database, using defaults',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updatePathMtuSettings', () => {
+    const valid = {
+      enabled: true,
+      targets: ['1.1.1.1', 'dns.google'],
+      intervalSeconds: 3600,
+      alertBelow: 1492,
+    };
+
+    it('should throw error without targets or with more than 5', async () => {
+      await expect(
+        updatePathMtuSettings({ ...valid, targets: [] })
+      ).rejects.toThrow('targets must have between 1 and 5 hosts');
+
+      await expect(
+        updatePathMtuSettings({ ...valid, targets: Array(6).fill('1.1.1.1') })
+      ).rejects.toThrow('targets must have between 1 and 5 hosts');
+    });
+
+    it('should throw error for a target that is not a host', async () => {
+      await expect(
+        updatePathMtuSettings({ ...valid, targets: ['https://example.com'] })
+      ).rejects.toThrow('Invalid target: https://example.com');
+
+      await expect(
+        updatePathMtuSettings({ ...valid, targets: ['bad host'] })
+      ).rejects.toThrow('Invalid target: bad host');
+    });
+
+    it('should throw error if intervalSeconds is out of range', async () => {
+      await expect(
+        updatePathMtuSettings({ ...valid, intervalSeconds: 299 })
+      ).rejects.toThrow('intervalSeconds must be between 300 and 86400');
+
+      await expect(
+        updatePathMtuSettings({ ...valid, intervalSeconds: 86401 })
+      ).rejects.toThrow('intervalSeconds must be between 300 and 86400');
+    });
+
+    it('should throw error if alertBelow is out of range', async () => {
+      await expect(
+        updatePathMtuSettings({ ...valid, alertBelow: 575 })
+      ).rejects.toThrow('alertBelow must be between 576 and 9000');
+
+      await expect(
+        updatePathMtuSettings({ ...valid, alertBelow: 9001 })
+      ).rejects.toThrow('alertBelow must be between 576 and 9000');
+    });
+
+    it('should upsert path MTU settings, storing the targets as JSON', async () => {
+      await updatePathMtuSettings({ ...valid, alertBelow: null });
+
+      const data = {
+        pathMtuEnabled: true,
+        pathMtuTargets: '["1.1.1.1","dns.google"]',
+        pathMtuIntervalSeconds: 3600,
+        pathMtuAlertBelow: null,
+      };
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          ...data,
+        },
+        update: data,
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated path MTU settings', { ...valid, alertBelow: null });
+    });
+  });
+
+  describe('getLatencyAnomalySettings', () => {
+    it('should return latency anomaly settings from database when settings exist', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue({
+        anomalyEnabled: true,
+        anomalyZScore: 2.5,
+        anomalyWindowChecks: 5,
+        anomalyBaselineDays: 28,
+        notifyAnomaly: true,
+      });
+
+      const anomaly = await getLatencyAnomalySettings();
+
+      expect(prisma.settings.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: {
+          anomalyEnabled: true,
+          anomalyZScore: true,
+          anomalyWindowChecks: true,
+          anomalyBaselineDays: true,
+          notifyAnomaly: true,
+        },
+      });
+      expect(anomaly).toEqual({
+        enabled: true,
+        zScoreThreshold: 2.5,
+        windowChecks: 5,
+        baselineDays: 28,
+        notify: true,
+      });
+    });
+
+    it('should fallback to defaults when no database settings', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await getLatencyAnomalySettings()).toEqual(DEFAULT_LATENCY_ANOMALY_SETTINGS);
+    });
+
+    it('should fallback to defaults and warn on database error', async () => {
+      (prisma.settings.findUnique as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+      expect(await getLatencyAnomalySettings()).toEqual(DEFAULT_LATENCY_ANOMALY_SETTINGS);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to load latency anomaly settings from database, using defaults',
+        { error: 'DB error' }
+      );
+    });
+  });
+
+  describe('updateLatencyAnomalySettings', () => {
+    const valid = {
+      enabled: true,
+      zScoreThreshold: 3,
+      windowChecks: 3,
+      baselineDays: 14,
+      notify: false,
+    };
+
+    it('should throw error if zScoreThreshold is out of range', async () => {
+      await expect(
+        updateLatencyAnomalySettings({ ...valid, zScoreThreshold: 0.5 })
+      ).rejects.toThrow('zScoreThreshold must be between 1 and 10');
+
+      await expect(
+        updateLatencyAnomalySettings({ ...valid, zScoreThreshold: 11 })
+      ).rejects.toThrow('zScoreThreshold must be between 1 and 10');
+    });
+
+    it('should throw error if windowChecks is out of range', async () => {
+      await expect(
+        updateLatencyAnomalySettings({ ...valid, windowChecks: 0 })
+      ).rejects.toThrow('windowChecks must be between 1 and 60');
+
+      await expect(
+        updateLatencyAnomalySettings({ ...valid, windowChecks: 61 })
+      ).rejects.toThrow('windowChecks must be between 1 and 60');
+    });
+
+    it('should throw error if baselineDays is out of range', async () => {
+      await expect(
+        updateLatencyAnomalySettings({ ...valid, baselineDays: 2 })
+      ).rejects.toThrow('baselineDays must be between 3 and 90');
+
+      await expect(
+        updateLatencyAnomalySettings({ ...valid, baselineDays: 91 })
+      ).rejects.toThrow('baselineDays must be between 3 and 90');
+    });
+
+    it('should upsert latency anomaly settings', async () => {
+      await updateLatencyAnomalySettings(valid);
+
+      const data = {
+        anomalyEnabled: true,
+        anomalyZScore: 3,
+        anomalyWindowChecks: 3,
+        anomalyBaselineDays: 14,
+        notifyAnomaly: false,
+      };
+      expect(prisma.settings.upsert).toHaveBeenCalledWith({
+        where: { id: 1 },
+        create: {
+          id: 1,
+          checkIntervalSeconds: 300,
+          outageCheckIntervalSeconds: 30,
+          ...data,
+        },
+        update: data,
+      });
+      expect(logger.info).toHaveBeenCalledWith('Updated latency anomaly settings', valid);
+    });
+  });
 });
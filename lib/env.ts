@@ -29,10 +29,21 @@ const envSchema = z.object({
   OUTAGE_CHECK_INTERVAL_SECONDS: z.string().regex(/^\d+$/).default('30'),
   ENABLE_MONITORING: z.enum(['true', 'false']).default('false'),
   NETWORK_INFO_CACHE_SECONDS: z.string().regex(/^\d+$/).optional(),
+  PUBLIC_IP_CHECK_INTERVAL_SECONDS: z.string().regex(/^\d+$/).default('900'), // Default: 15 minutes, 0 disables
+  NOTIFY_PUBLIC_IP_CHANGE: z.enum(['true', 'false']).default('false'),
 
   // Speed Test Configuration
   ENABLE_SPEED_TEST: z.enum(['true', 'false']).default('false'),
   SPEED_TEST_INTERVAL_SECONDS: z.string().regex(/^\d+$/).default('1800'), // Default: 30 minutes
+  // Pinged during speed tests to measure latency under load (bufferbloat)
+  SPEED_TEST_LATENCY_TARGET: z.string().min(1).default('1.1.1.1'),
+
+  // Remote Agents (optional)
+  // Set both on an agent to report its results to a central instance
+  AGENT_CENTRAL_URL: z.string().url().optional(),
+  AGENT_TOKEN: z.string().min(1).optional(),
+  // On the central instance - an agent is flagged once nothing arrived for this long
+  AGENT_STALE_SECONDS: z.string().regex(/^\d+$/).default('900'), // Default: 15 minutes
 
   // Docker Configuration (optional)
   TZ: z.string().optional(),
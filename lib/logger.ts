@@ -226,7 +226,10 @@ class Logger {
    * Log application lifecycle events
    */
   async logLifecycle(
-    event: 'startup' | 'shutdown' | 'config_loaded' | 'monitoring_started' | 'monitoring_stopped' | 'speedtest_monitoring_started' | 'speedtest_monitoring_stopped',
+    event:
+      | 'startup' | 'shutdown' | 'config_loaded' | 'monitoring_started' | 'monitoring_stopped'
+      | 'speedtest_monitoring_started' | 'speedtest_monitoring_stopped'
+      | 'public_ip_monitoring_started' | 'public_ip_monitoring_stopped',
     metadata?: LogMetadata
   ): Promise<void> {
     const messages = {
@@ -237,6 +240,8 @@ class Logger {
       monitoring_stopped: 'Monitoring system stopped',
       speedtest_monitoring_started: 'Speed test monitoring started',
       speedtest_monitoring_stopped: 'Speed test monitoring stopped',
+      public_ip_monitoring_started: 'Public IP monitoring started',
+      public_ip_monitoring_stopped: 'Public IP monitoring stopped',
     };
 
     this.info(messages[event], { event, ...metadata });
@@ -246,7 +251,12 @@ class Logger {
    * Log settings changes (audit trail)
    */
   async logSettings(
-    action: 'target_added' | 'target_updated' | 'target_deleted' | 'target_enabled' | 'target_disabled',
+    action:
+      | 'target_added' | 'target_updated' | 'target_deleted' | 'target_enabled' | 'target_disabled'
+      | 'group_added' | 'group_updated' | 'group_deleted'
+      | 'wan_link_added' | 'wan_link_updated' | 'wan_link_deleted'
+      | 'agent_added' | 'agent_updated' | 'agent_deleted'
+      | 'maintenance_added' | 'maintenance_updated' | 'maintenance_deleted',
     targetName: string,
     metadata?: LogMetadata
   ): Promise<void> {
@@ -256,6 +266,18 @@ class Logger {
       target_deleted: `Monitoring target deleted: ${targetName}`,
       target_enabled: `Monitoring target enabled: ${targetName}`,
       target_disabled: `Monitoring target disabled: ${targetName}`,
+      group_added: `Target group added: ${targetName}`,
+      group_updated: `Target group updated: ${targetName}`,
+      group_deleted: `Target group deleted: ${targetName}`,
+      wan_link_added: `WAN link added: ${targetName}`,
+      wan_link_updated: `WAN link updated: ${targetName}`,
+      wan_link_deleted: `WAN link deleted: ${targetName}`,
+      agent_added: `Agent added: ${targetName}`,
+      agent_updated: `Agent updated: ${targetName}`,
+      agent_deleted: `Agent deleted: ${targetName}`,
+      maintenance_added: `Maintenance window added: ${targetName}`,
+      maintenance_updated: `Maintenance window updated: ${targetName}`,
+      maintenance_deleted: `Maintenance window deleted: ${targetName}`,
     };
 
     const message = messages[action];
@@ -0,0 +1,219 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for agent-reporter.ts
+ *
+ * Tests the agent side of remote reporting including:
+ * - Detecting agent mode from the environment
+ * - Buffering results and capping the buffer
+ * - Uploading buffered results in batches, oldest first
+ * - Keeping results buffered while the central instance is unreachable
+ * - Dropping batches the central instance rejects for good
+ */
+
+import { flushAgentResults, isAgentMode, reportAgentResult } from '../agent-reporter';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    agentOutbox: {
+      create: jest.fn(),
+      count: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    AGENT_CENTRAL_URL: 'https://central.example.com',
+    AGENT_TOKEN: 'secret',
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+
+const mockCreate = prisma.agentOutbox.create as jest.Mock;
+const mockCount = prisma.agentOutbox.count as jest.Mock;
+const mockFindMany = prisma.agentOutbox.findMany as jest.Mock;
+const mockDeleteMany = prisma.agentOutbox.deleteMany as jest.Mock;
+const mockFetch = jest.fn();
+
+const row = (id: number) => ({
+  id,
+  timestamp: new Date(`2026-10-01T10:0${id}:00Z`),
+  isConnected: id !== 2,
+  latencyMs: id !== 2 ? 20 : null,
+  packetLossPct: null,
+  target: '8.8.8.8',
+});
+
+const checkResult = {
+  isConnected: true,
+  latencyMs: 20,
+  target: '8.8.8.8',
+  timestamp: new Date('2026-10-01T10:05:00Z'),
+};
+
+describe('agent-reporter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+    mockCount.mockResolvedValue(1);
+    mockFindMany.mockResolvedValue([]);
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    (env as any).AGENT_TOKEN = 'secret';
+  });
+
+  describe('isAgentMode', () => {
+    it('should be on when the central URL and token are set', () => {
+      expect(isAgentMode()).toBe(true);
+    });
+
+    it('should be off without a token', () => {
+      (env as any).AGENT_TOKEN = undefined;
+
+      expect(isAgentMode()).toBe(false);
+    });
+  });
+
+  describe('flushAgentResults', () => {
+    it('should upload buffered results oldest first and remove them', async () => {
+      mockFindMany.mockResolvedValueOnce([row(1), row(2)]).mockResolvedValueOnce([]);
+
+      expect(await flushAgentResults()).toBe(2);
+
+      expect(mockFindMany).toHaveBeenCalledWith({ orderBy: { timestamp: 'asc' }, take: 500 });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(String(url)).toBe('https://central.example.com/api/agents/ingest');
+      expect(init.headers.Authorization).toBe('Bearer secret');
+      expect(JSON.parse(init.body).results).toEqual([
+        { timestamp: '2026-10-01T10:01:00.000Z', isConnected: true, latencyMs: 20, packetLossPct: null, target: '8.8.8.8' },
+        { timestamp: '2026-10-01T10:02:00.000Z', isConnected: false, latencyMs: null, packetLossPct: null, target: '8.8.8.8' },
+      ]);
+      expect(mockDeleteMany).toHaveBeenCalledWith({ where: { id: { in: [1, 2] } } });
+      expect(logger.info).toHaveBeenCalledWith('Uploaded buffered agent results', { uploaded: 2 });
+    });
+
+    it('should keep results buffered while the central instance is unreachable', async () => {
+      mockFindMany.mockResolvedValue([row(1)]);
+      mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+      expect(await flushAgentResults()).toBe(0);
+
+      expect(mockDeleteMany).not.toHaveBeenCalled();
+      expect(logger.debug).toHaveBeenCalledWith('Central instance unreachable, results buffered', {
+        error: 'fetch failed',
+      });
+    });
+
+    it('should warn when the central instance rejects the results', async () => {
+      mockFindMany.mockResolvedValue([row(1)]);
+      mockFetch.mockResolvedValue({ ok: false, status: 401 });
+
+      expect(await flushAgentResults()).toBe(0);
+
+      expect(mockDeleteMany).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith('Central instance rejected agent results', {
+        status: 401,
+        buffered: 1,
+      });
+    });
+
+    it('should keep results buffered on server errors and rate limiting', async () => {
+      mockFindMany.mockResolvedValue([row(1)]);
+
+      for (const status of [500, 503, 429]) {
+        mockFetch.mockResolvedValue({ ok: false, status });
+
+        expect(await flushAgentResults()).toBe(0);
+      }
+
+      expect(mockDeleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should drop a batch rejected as invalid and upload the ones behind it', async () => {
+      mockFindMany.mockResolvedValueOnce([row(1), row(2)]).mockResolvedValueOnce([row(3)]).mockResolvedValueOnce([]);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400 }).mockResolvedValueOnce({ ok: true, status: 200 });
+
+      expect(await flushAgentResults()).toBe(1);
+
+      expect(mockDeleteMany).toHaveBeenNthCalledWith(1, { where: { id: { in: [1, 2] } } });
+      expect(mockDeleteMany).toHaveBeenNthCalledWith(2, { where: { id: { in: [3] } } });
+      expect(logger.warn).toHaveBeenCalledWith('Central instance rejected agent results for good, dropped them', {
+        status: 400,
+        dropped: 2,
+        firstTimestamp: '2026-10-01T10:01:00.000Z',
+      });
+    });
+  });
+
+  describe('reportAgentResult', () => {
+    it('should buffer the result and upload it', async () => {
+      mockFindMany.mockResolvedValueOnce([row(5)]).mockResolvedValueOnce([]);
+
+      await reportAgentResult(checkResult);
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          timestamp: checkResult.timestamp,
+          isConnected: true,
+          latencyMs: 20,
+          packetLossPct: null,
+          target: '8.8.8.8',
+        },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockDeleteMany).toHaveBeenCalledWith({ where: { id: { in: [5] } } });
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should buffer latency in whole milliseconds', async () => {
+      await reportAgentResult({ ...checkResult, latencyMs: 12.613 });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ latencyMs: 13 }),
+      });
+    });
+
+    it('should drop the oldest results once the buffer is full', async () => {
+      mockCount.mockResolvedValue(20002);
+      mockFindMany.mockResolvedValueOnce([{ id: 1 }, { id: 2 }]).mockResolvedValue([]);
+
+      await reportAgentResult(checkResult);
+
+      expect(mockFindMany).toHaveBeenCalledWith({
+        orderBy: { timestamp: 'asc' },
+        take: 2,
+        select: { id: true },
+      });
+      expect(mockDeleteMany).toHaveBeenCalledWith({ where: { id: { in: [1, 2] } } });
+      expect(logger.warn).toHaveBeenCalledWith('Agent result buffer full, dropped the oldest results', {
+        dropped: 2,
+        maxBufferedResults: 20000,
+      });
+    });
+
+    it('should warn instead of throwing on database errors', async () => {
+      mockCreate.mockRejectedValueOnce(new Error('Database locked'));
+
+      await expect(reportAgentResult(checkResult)).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith('Failed to report result to central instance', {
+        error: 'Database locked',
+      });
+    });
+  });
+});
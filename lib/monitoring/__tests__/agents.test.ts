@@ -0,0 +1,259 @@
+/**
+ * Tests for agents.ts
+ *
+ * Tests the central side of remote agents including:
+ * - Token generation and hashing
+ * - Ingesting results, skipping ones already received
+ * - Opening, extending and resolving agent outages from a backlog
+ * - Flagging agents whose results stop arriving
+ */
+
+import {
+  checkAgentHeartbeats,
+  findAgentByToken,
+  generateAgentToken,
+  hashAgentToken,
+  ingestAgentResults,
+  isAgentStale,
+} from '../agents';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    agent: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    agentCheck: {
+      createMany: jest.fn(),
+    },
+    agentOutage: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    AGENT_STALE_SECONDS: '900',
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+
+const mockAgentFindMany = prisma.agent.findMany as jest.Mock;
+const mockAgentUpdate = prisma.agent.update as jest.Mock;
+const mockCreateMany = prisma.agentCheck.createMany as jest.Mock;
+const mockOutageFindFirst = prisma.agentOutage.findFirst as jest.Mock;
+const mockOutageCreate = prisma.agentOutage.create as jest.Mock;
+const mockOutageUpdate = prisma.agentOutage.update as jest.Mock;
+
+const agent = { id: 3, name: 'Branch office', lastResultAt: null, isStale: false };
+
+const result = (time: string, isConnected: boolean) => ({
+  timestamp: new Date(time),
+  isConnected,
+  latencyMs: isConnected ? 20 : null,
+  packetLossPct: null,
+  target: '8.8.8.8',
+});
+
+describe('agents', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOutageFindFirst.mockResolvedValue(null);
+    mockOutageCreate.mockImplementation(({ data }) => Promise.resolve({ id: 11, checksCount: 1, ...data }));
+    mockOutageUpdate.mockImplementation(({ data }) => Promise.resolve({
+      id: 11,
+      startTime: new Date('2026-10-01T10:00:00Z'),
+      ...data,
+    }));
+  });
+
+  describe('tokens', () => {
+    it('should generate distinct 64 character hex tokens', () => {
+      const token = generateAgentToken();
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(generateAgentToken()).not.toBe(token);
+    });
+
+    it('should hash tokens deterministically', () => {
+      expect(hashAgentToken('secret')).toBe(hashAgentToken('secret'));
+      expect(hashAgentToken('secret')).not.toBe('secret');
+    });
+
+    it('should look agents up by token hash', async () => {
+      await findAgentByToken('secret');
+
+      expect(prisma.agent.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashAgentToken('secret') },
+      });
+    });
+  });
+
+  describe('ingestAgentResults', () => {
+    it('should store results and record when the agent reported', async () => {
+      const summary = await ingestAgentResults(agent, [
+        result('2026-10-01T10:01:00Z', true),
+        result('2026-10-01T10:00:00Z', true),
+      ]);
+
+      expect(summary).toEqual({ accepted: 2, skipped: 0 });
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ agentId: 3, timestamp: new Date('2026-10-01T10:00:00Z') }),
+          expect.objectContaining({ agentId: 3, timestamp: new Date('2026-10-01T10:01:00Z') }),
+        ],
+      });
+      expect(mockAgentUpdate).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: {
+          lastSeenAt: expect.any(Date),
+          isStale: false,
+          lastResultAt: new Date('2026-10-01T10:01:00Z'),
+        },
+      });
+    });
+
+    it('should skip results already received', async () => {
+      const summary = await ingestAgentResults(
+        { ...agent, lastResultAt: new Date('2026-10-01T10:00:00Z') },
+        [result('2026-10-01T10:00:00Z', true)]
+      );
+
+      expect(summary).toEqual({ accepted: 0, skipped: 1 });
+      expect(mockCreateMany).not.toHaveBeenCalled();
+      expect(mockAgentUpdate).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { lastSeenAt: expect.any(Date), isStale: false },
+      });
+    });
+
+    it('should backfill an outage from a buffered backlog', async () => {
+      await ingestAgentResults(agent, [
+        result('2026-10-01T10:00:00Z', false),
+        result('2026-10-01T10:01:00Z', false),
+        result('2026-10-01T10:02:00Z', true),
+      ]);
+
+      expect(mockOutageCreate).toHaveBeenCalledWith({
+        data: { agentId: 3, startTime: new Date('2026-10-01T10:00:00Z') },
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Agent site down: Branch office', {
+        agentId: 3,
+        outageId: 11,
+        startTime: '2026-10-01T10:00:00.000Z',
+      });
+      expect(mockOutageUpdate).toHaveBeenCalledWith({
+        where: { id: 11 },
+        data: { checksCount: { increment: 1 } },
+      });
+      expect(mockOutageUpdate).toHaveBeenCalledWith({
+        where: { id: 11 },
+        data: {
+          endTime: new Date('2026-10-01T10:02:00Z'),
+          durationSec: 120,
+          isResolved: true,
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Agent site restored: Branch office', {
+        agentId: 3,
+        outageId: 11,
+        durationSec: 120,
+      });
+    });
+
+    it('should extend an outage left open by an earlier upload', async () => {
+      mockOutageFindFirst.mockResolvedValue({ id: 11, startTime: new Date('2026-10-01T09:00:00Z') });
+
+      await ingestAgentResults(agent, [result('2026-10-01T10:00:00Z', false)]);
+
+      expect(mockOutageCreate).not.toHaveBeenCalled();
+      expect(mockOutageUpdate).toHaveBeenCalledWith({
+        where: { id: 11 },
+        data: { checksCount: { increment: 1 } },
+      });
+    });
+
+    it('should log when a stale agent reports again', async () => {
+      await ingestAgentResults({ ...agent, isStale: true }, [result('2026-10-01T10:00:00Z', true)]);
+
+      expect(logger.info).toHaveBeenCalledWith('Agent reporting again: Branch office', {
+        agentId: 3,
+        results: 1,
+      });
+    });
+  });
+
+  describe('isAgentStale', () => {
+    const now = new Date('2026-10-01T12:00:00Z');
+
+    it('should compare the last report against the stale period', () => {
+      expect(isAgentStale(new Date('2026-10-01T11:50:00Z'), new Date(0), now)).toBe(false);
+      expect(isAgentStale(new Date('2026-10-01T11:40:00Z'), new Date(0), now)).toBe(true);
+    });
+
+    it('should use the creation time for agents that never reported', () => {
+      expect(isAgentStale(null, new Date('2026-10-01T11:55:00Z'), now)).toBe(false);
+      expect(isAgentStale(null, new Date('2026-10-01T11:00:00Z'), now)).toBe(true);
+    });
+  });
+
+  describe('checkAgentHeartbeats', () => {
+    it('should flag agents whose results stopped arriving', async () => {
+      const lastSeenAt = new Date(Date.now() - 3600 * 1000);
+      mockAgentFindMany.mockResolvedValue([
+        { id: 3, name: 'Branch office', lastSeenAt, createdAt: new Date(0) },
+        { id: 4, name: 'Warehouse', lastSeenAt: new Date(), createdAt: new Date(0) },
+      ]);
+
+      await checkAgentHeartbeats();
+
+      expect(mockAgentFindMany).toHaveBeenCalledWith({
+        where: { isEnabled: true, isStale: false },
+        select: { id: true, name: true, lastSeenAt: true, createdAt: true },
+      });
+      expect(mockAgentUpdate).toHaveBeenCalledTimes(1);
+      expect(mockAgentUpdate).toHaveBeenCalledWith({ where: { id: 3 }, data: { isStale: true } });
+      expect(logger.warn).toHaveBeenCalledWith('Agent stopped reporting: Branch office', {
+        agentId: 3,
+        lastSeenAt: lastSeenAt.toISOString(),
+      });
+    });
+
+    it('should flag agents that never reported', async () => {
+      mockAgentFindMany.mockResolvedValue([
+        { id: 5, name: 'New site', lastSeenAt: null, createdAt: new Date(0) },
+      ]);
+
+      await checkAgentHeartbeats();
+
+      expect(logger.warn).toHaveBeenCalledWith('Agent stopped reporting: New site', {
+        agentId: 5,
+        lastSeenAt: null,
+      });
+    });
+
+    it('should warn instead of throwing on database errors', async () => {
+      mockAgentFindMany.mockRejectedValue(new Error('Database locked'));
+
+      await expect(checkAgentHeartbeats()).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith('Failed to check agent heartbeats', {
+        error: 'Database locked',
+      });
+    });
+  });
+});
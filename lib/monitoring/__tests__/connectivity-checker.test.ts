@@ -4,7 +4,16 @@
  * Tests the critical connectivity monitoring logic including:
  * - Target management and caching
  * - Ping execution and parsing
+ * - Probing every target concurrently
  * - Outage detection and resolution
+ * - Planned outages during maintenance windows
+ * - Path capture during outages
+ * - Gateway probing and outage classification
+ * - Captive portal and DNS hijack detection
+ * - Outage confirmation thresholds
+ * - Handing each cycle to degradation tracking
+ * - Per-target outcomes for incident and group tracking
+ * - Probing over each WAN link
  * - Database logging
  */
 
@@ -16,6 +25,7 @@ jest.mock('@/lib/db', () => ({
   prisma: {
     connectionCheck: {
       create: jest.fn(),
+      createMany: jest.fn(),
       findMany: jest.fn(),
       findFirst: jest.fn(),
       count: jest.fn(),
@@ -31,6 +41,9 @@ jest.mock('@/lib/db', () => ({
     monitoringTarget: {
       findMany: jest.fn(),
     },
+    wanLink: {
+      findMany: jest.fn(),
+    },
   },
 }));
 
@@ -45,20 +58,134 @@ jest.mock('@/lib/logger', () => ({
   },
 }));
 
+// Mock settings - first-responding-target mode unless a test overrides it
+jest.mock('@/lib/settings', () => ({
+  getProbeSettings: jest.fn(),
+  getOutageThresholds: jest.fn(),
+  getMonitoringIntervals: jest.fn(),
+}));
+
 // Mock the safePing utility
 jest.mock('@/lib/utils/shell', () => ({
   safePing: jest.fn(),
   isSafeTarget: jest.fn().mockReturnValue(true),
-  isValidIPv4: jest.fn().mockReturnValue(true),
+  isValidIPv4: jest.requireActual('@/lib/utils/shell').isValidIPv4,
+  isValidIPv6: jest.requireActual('@/lib/utils/shell').isValidIPv6,
+}));
+
+// Mock the non-ping probes
+jest.mock('../probes', () => ({
+  httpProbe: jest.fn(),
+  tcpProbe: jest.fn(),
+  dnsProbe: jest.fn(),
+}));
+
+// Mock path capture - traceroute runs in the background
+jest.mock('../path-capture', () => ({
+  captureOutagePath: jest.fn(),
+}));
+
+// Mock degradation tracking - covered by its own tests
+const mockHandleCycle = jest.fn();
+jest.mock('../degradation-monitor', () => ({
+  DegradationMonitor: jest.fn().mockImplementation(() => ({
+    handleCycle: (...args: unknown[]) => mockHandleCycle(...args),
+  })),
+}));
+
+// Mock per-target incident tracking - covered by its own tests
+jest.mock('../target-incidents', () => ({
+  recordTargetOutcomes: jest.fn(),
+}));
+
+// Mock target group verdicts - covered by their own tests
+jest.mock('../target-groups', () => ({
+  recordGroupVerdicts: jest.fn(),
+}));
+
+// Mock WAN link bindings and recording - covered by their own tests
+jest.mock('../wan-links', () => ({
+  getProbeBinding: jest.fn(),
+  recordWanLinkResults: jest.fn(),
+}));
+
+// Mock interception detection - covered by its own tests
+jest.mock('../interception', () => ({
+  checkForInterception: jest.fn(),
+}));
+
+// Mock maintenance windows - none in progress unless a test sets one
+jest.mock('../maintenance', () => ({
+  ...jest.requireActual('../maintenance'),
+  getActiveMaintenance: jest.fn(),
+}));
+
+// Mock the email notifier - only the restore email is sent from here
+jest.mock('../email-notifier', () => ({
+  sendOutageRestoredEmail: jest.fn(),
+}));
+
+// Mock gateway detection - no default route unless a test sets one
+jest.mock('../gateway', () => ({
+  ...jest.requireActual('../gateway'),
+  detectDefaultGateway: jest.fn(),
 }));
 
 // Import mocked modules
 import { prisma } from '@/lib/db';
 import { logger } from '@/lib/logger';
+import { getMonitoringIntervals, getOutageThresholds, getProbeSettings } from '@/lib/settings';
 import { safePing } from '@/lib/utils/shell';
-
-// Get the mock function
+import { dnsProbe, httpProbe, tcpProbe } from '../probes';
+import { captureOutagePath } from '../path-capture';
+import { detectDefaultGateway } from '../gateway';
+import { recordTargetOutcomes } from '../target-incidents';
+import { recordGroupVerdicts } from '../target-groups';
+import { getProbeBinding, recordWanLinkResults } from '../wan-links';
+import { checkForInterception } from '../interception';
+import { getActiveMaintenance } from '../maintenance';
+import { sendOutageRestoredEmail } from '../email-notifier';
+
+// Get the mock functions
 const mockSafePing = safePing as jest.MockedFunction<typeof safePing>;
+const mockGetProbeSettings = getProbeSettings as jest.MockedFunction<typeof getProbeSettings>;
+const mockGetOutageThresholds = getOutageThresholds as jest.MockedFunction<typeof getOutageThresholds>;
+const mockGetMonitoringIntervals = getMonitoringIntervals as jest.MockedFunction<typeof getMonitoringIntervals>;
+const mockHttpProbe = httpProbe as jest.MockedFunction<typeof httpProbe>;
+const mockTcpProbe = tcpProbe as jest.MockedFunction<typeof tcpProbe>;
+const mockDnsProbe = dnsProbe as jest.MockedFunction<typeof dnsProbe>;
+const mockCaptureOutagePath = captureOutagePath as jest.MockedFunction<typeof captureOutagePath>;
+const mockDetectDefaultGateway = detectDefaultGateway as jest.MockedFunction<typeof detectDefaultGateway>;
+const mockRecordTargetOutcomes = recordTargetOutcomes as jest.MockedFunction<typeof recordTargetOutcomes>;
+const mockRecordGroupVerdicts = recordGroupVerdicts as jest.MockedFunction<typeof recordGroupVerdicts>;
+const mockGetProbeBinding = getProbeBinding as jest.MockedFunction<typeof getProbeBinding>;
+const mockRecordWanLinkResults = recordWanLinkResults as jest.MockedFunction<typeof recordWanLinkResults>;
+const mockCheckForInterception = checkForInterception as jest.MockedFunction<typeof checkForInterception>;
+const mockGetActiveMaintenance = getActiveMaintenance as jest.MockedFunction<typeof getActiveMaintenance>;
+const mockSendOutageRestoredEmail = sendOutageRestoredEmail as jest.MockedFunction<typeof sendOutageRestoredEmail>;
+
+// Target IDs, unique per row built
+let nextTargetId = 1;
+
+// Build a target row as returned by getTargets' select
+const createTarget = (target: string, overrides: Record<string, unknown> = {}) => ({
+  id: nextTargetId++,
+  target,
+  type: 'ip',
+  addressFamily: 'ipv4',
+  httpMethod: null,
+  expectedStatus: null,
+  bodyMatch: null,
+  dnsQueryName: null,
+  dnsRecordType: null,
+  pingCount: null,
+  pingIntervalMs: null,
+  checkIntervalSeconds: null,
+  timeoutMs: null,
+  retries: null,
+  groupId: null,
+  ...overrides,
+});
 
 describe('ConnectivityChecker', () => {
   let checker: ConnectivityChecker;
@@ -69,11 +196,35 @@ describe('ConnectivityChecker', () => {
 
     checker = new ConnectivityChecker();
 
+    mockGetProbeSettings.mockResolvedValue({
+      probeAllTargets: false,
+      probeConcurrency: 4,
+      probeTimeoutMs: 5000,
+      gatewayTarget: null,
+    });
+
+    mockGetOutageThresholds.mockResolvedValue({
+      failureThreshold: 1,
+      recoveryThreshold: 1,
+      minFailedTargets: null,
+    });
+
+    mockGetMonitoringIntervals.mockResolvedValue({
+      checkIntervalSeconds: 300,
+      outageCheckIntervalSeconds: 30,
+    });
+
+    mockCaptureOutagePath.mockResolvedValue(undefined);
+    mockDetectDefaultGateway.mockResolvedValue(null);
+    (prisma.wanLink.findMany as jest.Mock).mockResolvedValue([]);
+    mockCheckForInterception.mockResolvedValue(null);
+    mockGetActiveMaintenance.mockResolvedValue([]);
+
     // Default: return some targets
     (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
-      { target: '8.8.8.8' },
-      { target: '1.1.1.1' },
-      { target: 'google.com' },
+      createTarget('8.8.8.8'),
+      createTarget('1.1.1.1'),
+      createTarget('google.com', { type: 'domain' }),
     ]);
   });
 
@@ -84,7 +235,23 @@ describe('ConnectivityChecker', () => {
       expect(prisma.monitoringTarget.findMany).toHaveBeenCalledWith({
         where: { isEnabled: true },
         orderBy: { priority: 'asc' },
-        select: { target: true },
+        select: {
+          id: true,
+          target: true,
+          type: true,
+          addressFamily: true,
+          httpMethod: true,
+          expectedStatus: true,
+          bodyMatch: true,
+          dnsQueryName: true,
+          dnsRecordType: true,
+          pingCount: true,
+          pingIntervalMs: true,
+          checkIntervalSeconds: true,
+          timeoutMs: true,
+          retries: true,
+          groupId: true,
+        },
       });
     });
 
@@ -125,15 +292,15 @@ describe('ConnectivityChecker', () => {
     it('should update cache after refresh', async () => {
       // Initial targets
       (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
-        { target: '8.8.8.8' },
+        createTarget('8.8.8.8'),
       ]);
 
       await checker.checkConnection();
 
       // Change targets in database
       (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
-        { target: '1.1.1.1' },
-        { target: '9.9.9.9' },
+        createTarget('1.1.1.1'),
+        createTarget('9.9.9.9'),
       ]);
 
       // Refresh should get new targets
@@ -213,12 +380,16 @@ describe('ConnectivityChecker', () => {
         );
       });
 
-      it('should not try remaining targets', async () => {
+      it('should probe the remaining targets without recording them as connection checks', async () => {
         await checker.checkConnection();
 
-        // Only one ping command for first target
-        expect(mockSafePing).toHaveBeenCalledTimes(1);
-        expect(mockSafePing).toHaveBeenCalledWith('8.8.8.8');
+        // The first target decides the connection, the rest only their incidents
+        expect(mockSafePing).toHaveBeenCalledTimes(3);
+        expect(mockSafePing).toHaveBeenNthCalledWith(1, '8.8.8.8', { family: 'ipv4', timeoutMs: 5000 });
+        expect(prisma.connectionCheck.create).toHaveBeenCalledTimes(1);
+        expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ target: '8.8.8.8' }),
+        });
       });
     });
 
@@ -249,9 +420,8 @@ describe('ConnectivityChecker', () => {
       it('should try targets in order until one succeeds', async () => {
         await checker.checkConnection();
 
-        expect(mockSafePing).toHaveBeenCalledTimes(2);
-        expect(mockSafePing).toHaveBeenNthCalledWith(1, '8.8.8.8');
-        expect(mockSafePing).toHaveBeenNthCalledWith(2, '1.1.1.1');
+        expect(mockSafePing).toHaveBeenNthCalledWith(1, '8.8.8.8', { family: 'ipv4', timeoutMs: 5000 });
+        expect(mockSafePing).toHaveBeenNthCalledWith(2, '1.1.1.1', { family: 'ipv4', timeoutMs: 5000 });
       });
     });
 
@@ -298,223 +468,1864 @@ describe('ConnectivityChecker', () => {
       });
     });
 
-    describe('latency parsing', () => {
-      it('should parse latency with decimal', async () => {
-        mockSafePing.mockResolvedValue({
-          stdout: 'time=42.7 ms',
-        });
+    describe('when a target is an HTTP(S) URL', () => {
+      beforeEach(() => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('https://example.com/health', {
+            type: 'https',
+            httpMethod: 'GET',
+            expectedStatus: 204,
+            bodyMatch: 'ok',
+          }),
+          createTarget('8.8.8.8'),
+        ]);
+      });
+
+      it('should probe it over HTTP instead of pinging', async () => {
+        mockHttpProbe.mockResolvedValue({ isConnected: true, latencyMs: 42 });
 
         const result = await checker.checkConnection();
-        expect(result.latencyMs).toBe(42.7);
+
+        expect(mockHttpProbe).toHaveBeenCalledWith('https://example.com/health', {
+          method: 'GET',
+          expectedStatus: 204,
+          bodyMatch: 'ok',
+          family: 'ipv4',
+          timeoutMs: 5000,
+        });
+        expect(mockSafePing).not.toHaveBeenCalledWith('https://example.com/health', expect.anything());
+        expect(result.isConnected).toBe(true);
+        expect(result.latencyMs).toBe(42);
+        expect(result.target).toBe('https://example.com/health');
       });
 
-      it('should parse latency without decimal', async () => {
-        mockSafePing.mockResolvedValue({
-          stdout: 'time=15 ms',
+      it('should record HTTP latency in the connection check', async () => {
+        mockHttpProbe.mockResolvedValue({ isConnected: true, latencyMs: 42 });
+
+        await checker.checkConnection();
+
+        expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            isConnected: true,
+            latencyMs: 42,
+            target: 'https://example.com/health',
+          }),
         });
+      });
 
-        const result = await checker.checkConnection();
-        expect(result.latencyMs).toBe(15);
+      it('should use HEAD when configured', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('http://example.com', { type: 'http', httpMethod: 'HEAD' }),
+        ]);
+        mockHttpProbe.mockResolvedValue({ isConnected: true, latencyMs: 10 });
+
+        await checker.checkConnection();
+
+        expect(mockHttpProbe).toHaveBeenCalledWith(
+          'http://example.com',
+          expect.objectContaining({ method: 'HEAD' })
+        );
       });
 
-      it('should handle missing latency in output', async () => {
-        mockSafePing.mockResolvedValue({
-          stdout: 'PING successful but no time reported',
+      it('should fall back to the next target when the HTTP check fails', async () => {
+        mockHttpProbe.mockResolvedValue({
+          isConnected: false,
+          latencyMs: null,
+          error: 'Unexpected HTTP status 503',
         });
+        mockSafePing.mockResolvedValue({ stdout: 'time=12 ms' });
 
         const result = await checker.checkConnection();
-        expect(result.latencyMs).toBeNull();
+
+        expect(mockSafePing).toHaveBeenCalledWith('8.8.8.8', { family: 'ipv4', timeoutMs: 5000 });
+        expect(result.target).toBe('8.8.8.8');
       });
-    });
-  });
 
-  describe('handleConnectionStatus', () => {
-    const createConnectivityResult = (overrides: Partial<ConnectivityResult> = {}): ConnectivityResult => ({
-      isConnected: true,
-      latencyMs: 20,
-      target: '8.8.8.8',
-      timestamp: new Date('2025-01-15T12:00:00Z'),
-      ...overrides,
+      it('should log and continue when a probe throws', async () => {
+        mockHttpProbe.mockRejectedValue(new Error('socket hang up'));
+        mockSafePing.mockResolvedValue({ stdout: 'time=12 ms' });
+
+        const result = await checker.checkConnection();
+
+        expect(logger.warn).toHaveBeenCalledWith(
+          'Probe failed for https://example.com/health',
+          expect.objectContaining({ error: 'socket hang up' })
+        );
+        expect(result.isConnected).toBe(true);
+      });
     });
 
-    describe('when disconnected with no active outage', () => {
+    describe('when a target is a TCP port', () => {
       beforeEach(() => {
-        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
-        (prisma.outage.create as jest.Mock).mockResolvedValue({
-          id: 1,
-          startTime: new Date('2025-01-15T12:00:00Z'),
-          checksCount: 1,
-        });
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('1.1.1.1:53', { type: 'tcp' }),
+          createTarget('8.8.8.8'),
+        ]);
       });
 
-      it('should create new outage', async () => {
-        const result = createConnectivityResult({ isConnected: false });
+      it('should connect to host and port instead of pinging', async () => {
+        mockTcpProbe.mockResolvedValue({ isConnected: true, latencyMs: 8 });
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(prisma.outage.create).toHaveBeenCalledWith({
-          data: {
-            startTime: result.timestamp,
-            checksCount: 1,
-          },
-        });
+        expect(mockTcpProbe).toHaveBeenCalledWith('1.1.1.1', 53, { family: 'ipv4', timeoutMs: 5000 });
+        expect(mockSafePing).not.toHaveBeenCalledWith(expect.stringContaining('1.1.1.1'), expect.anything());
+        expect(result).toEqual(expect.objectContaining({
+          isConnected: true,
+          latencyMs: 8,
+          target: '1.1.1.1:53',
+        }));
       });
 
-      it('should log outage started event', async () => {
-        const result = createConnectivityResult({ isConnected: false });
+      it('should fall back to the next target when the connect fails', async () => {
+        mockTcpProbe.mockResolvedValue({ isConnected: false, latencyMs: null, error: 'ECONNREFUSED' });
+        mockSafePing.mockResolvedValue({ stdout: 'time=12 ms' });
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(logger.logOutage).toHaveBeenCalledWith(
-          'started',
-          '1',
-          undefined,
-          expect.objectContaining({
-            timestamp: result.timestamp.toISOString(),
-          })
-        );
+        expect(result.target).toBe('8.8.8.8');
       });
-    });
 
-    describe('when disconnected with active outage', () => {
-      const activeOutage = createMockActiveOutage({
-        id: '1',
-        checksCount: 5,
+      it('should treat a target without a port as down', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('1.1.1.1', { type: 'tcp' }),
+        ]);
+
+        const result = await checker.checkConnection();
+
+        expect(mockTcpProbe).not.toHaveBeenCalled();
+        expect(result.isConnected).toBe(false);
       });
+    });
 
+    describe('when a target is a DNS resolver', () => {
       beforeEach(() => {
-        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('1.1.1.1', { type: 'dns', dnsQueryName: 'example.com', dnsRecordType: 'AAAA' }),
+          createTarget('8.8.8.8'),
+        ]);
       });
 
-      it('should increment checksCount', async () => {
-        const result = createConnectivityResult({ isConnected: false });
+      it('should send a DNS query instead of pinging', async () => {
+        mockDnsProbe.mockResolvedValue({ isConnected: true, latencyMs: 14 });
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(prisma.outage.update).toHaveBeenCalledWith({
-          where: { id: activeOutage.id },
-          data: {
-            checksCount: { increment: 1 },
-          },
+        expect(mockDnsProbe).toHaveBeenCalledWith('1.1.1.1', {
+          queryName: 'example.com',
+          recordType: 'AAAA',
+          timeoutMs: 5000,
         });
+        expect(mockSafePing).not.toHaveBeenCalledWith('1.1.1.1', expect.anything());
+        expect(result).toEqual(expect.objectContaining({
+          isConnected: true,
+          latencyMs: 14,
+          target: '1.1.1.1',
+        }));
       });
 
-      it('should log that outage continues', async () => {
-        const result = createConnectivityResult({ isConnected: false });
+      it('should log the resolver failure and fall back to the next target', async () => {
+        mockDnsProbe.mockResolvedValue({
+          isConnected: false,
+          latencyMs: null,
+          error: 'DNS lookup failed: ETIMEOUT',
+        });
+        mockSafePing.mockResolvedValue({ stdout: 'time=12 ms' });
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(logger.debug).toHaveBeenCalledWith(
-          'Outage continues',
-          expect.objectContaining({
-            outageId: activeOutage.id,
-            checksCount: 6, // Original 5 + 1
-          })
+        expect(logger.warn).toHaveBeenCalledWith(
+          'DNS lookup failed via resolver 1.1.1.1',
+          { target: '1.1.1.1', error: 'DNS lookup failed: ETIMEOUT' }
         );
+        expect(result.target).toBe('8.8.8.8');
       });
+    });
 
-      it('should not create new outage', async () => {
-        const result = createConnectivityResult({ isConnected: false });
+    describe('when targets cover both address families', () => {
+      beforeEach(() => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('2606:4700:4700::1111', { addressFamily: 'ipv6' }),
+          createTarget('8.8.8.8'),
+          createTarget('google.com', { type: 'domain', addressFamily: 'ipv6' }),
+        ]);
+      });
 
-        await checker.handleConnectionStatus(result);
+      it('should record a connection check for each family', async () => {
+        mockSafePing.mockResolvedValue({ stdout: 'time=12 ms' });
 
-        expect(prisma.outage.create).not.toHaveBeenCalled();
-      });
-    });
+        await checker.checkConnection();
 
-    describe('when connected with active outage (recovery)', () => {
-      const activeOutage = createMockActiveOutage({
-        id: '1',
-        startTime: new Date('2025-01-15T12:00:00Z'),
-        checksCount: 10,
+        expect(prisma.connectionCheck.create).toHaveBeenCalledTimes(2);
+        expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ target: '8.8.8.8', addressFamily: 'ipv4' }),
+        });
+        expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ target: '2606:4700:4700::1111', addressFamily: 'ipv6' }),
+        });
       });
 
-      beforeEach(() => {
-        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+      it('should ping hostnames over the family configured for them', async () => {
+        mockSafePing
+          .mockResolvedValueOnce({ stdout: 'time=12 ms' })
+          .mockRejectedValueOnce(new Error('Network unreachable'))
+          .mockResolvedValueOnce({ stdout: 'time=20 ms' });
 
-        // Mock email notifier
-        jest.mock('../email-notifier', () => ({
-          sendOutageRestoredEmail: jest.fn().mockResolvedValue(undefined),
-        }));
+        await checker.checkConnection();
+
+        expect(mockSafePing).toHaveBeenNthCalledWith(1, '8.8.8.8', { family: 'ipv4', timeoutMs: 5000 });
+        expect(mockSafePing).toHaveBeenNthCalledWith(2, '2606:4700:4700::1111', { family: 'ipv6', timeoutMs: 5000 });
+        expect(mockSafePing).toHaveBeenNthCalledWith(3, 'google.com', { family: 'ipv6', timeoutMs: 5000 });
       });
 
-      it('should calculate duration correctly', async () => {
-        const result = createConnectivityResult({
-          isConnected: true,
-          timestamp: new Date('2025-01-15T12:05:00Z'), // 5 minutes after outage start
+      it('should stay connected when only IPv6 is down', async () => {
+        mockSafePing.mockImplementation(async (target, options) => {
+          if (options?.family === 'ipv6') throw new Error('Network unreachable');
+          return { stdout: `time=12 ms (${target})` };
         });
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(prisma.outage.update).toHaveBeenCalledWith({
-          where: { id: activeOutage.id },
-          data: {
-            endTime: result.timestamp,
-            durationSec: 300, // 5 minutes = 300 seconds
-            isResolved: true,
-          },
+        expect(result.isConnected).toBe(true);
+        expect(result.target).toBe('8.8.8.8');
+        expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            isConnected: false,
+            target: 'all-targets-failed',
+            addressFamily: 'ipv6',
+          }),
         });
+        expect(logger.logConnectivityCheck).toHaveBeenCalledWith(
+          'all-targets',
+          false,
+          null,
+          { targetsAttempted: 2, addressFamily: 'ipv6' }
+        );
       });
 
-      it('should log outage resolution', async () => {
-        const result = createConnectivityResult({
-          isConnected: true,
-          timestamp: new Date('2025-01-15T12:05:00Z'),
+      it('should report the IPv6 result when only IPv4 is down', async () => {
+        mockSafePing.mockImplementation(async (_target, options) => {
+          if (options?.family === 'ipv4') throw new Error('Network unreachable');
+          return { stdout: 'time=30 ms' };
         });
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(logger.logOutage).toHaveBeenCalledWith(
-          'resolved',
-          '1',
-          300,
-          expect.objectContaining({
-            startTime: activeOutage.startTime.toISOString(),
-            endTime: result.timestamp.toISOString(),
-          })
-        );
+        expect(result).toEqual(expect.objectContaining({
+          isConnected: true,
+          latencyMs: 30,
+          target: '2606:4700:4700::1111',
+        }));
       });
 
-      it('should handle sub-second durations correctly', async () => {
-        const result = createConnectivityResult({
-          isConnected: true,
-          timestamp: new Date(activeOutage.startTime.getTime() + 500), // 500ms later
-        });
+      it('should report disconnected when both families are down', async () => {
+        mockSafePing.mockRejectedValue(new Error('Network unreachable'));
 
-        await checker.handleConnectionStatus(result);
+        const result = await checker.checkConnection();
 
-        expect(prisma.outage.update).toHaveBeenCalledWith({
-          where: { id: activeOutage.id },
-          data: {
-            endTime: result.timestamp,
-            durationSec: 0, // Less than 1 second rounds to 0
-            isResolved: true,
-          },
-        });
+        expect(result.isConnected).toBe(false);
+        expect(result.target).toBe('multiple');
+        expect(prisma.connectionCheck.create).toHaveBeenCalledTimes(2);
       });
     });
 
-    describe('when connected with no active outage (normal operation)', () => {
+    describe('when every target is probed', () => {
       beforeEach(() => {
-        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+        mockGetProbeSettings.mockResolvedValue({
+          probeAllTargets: true,
+          probeConcurrency: 2,
+          probeTimeoutMs: 2000,
+          gatewayTarget: null,
+        });
       });
 
-      it('should not create or update any outages', async () => {
-        const result = createConnectivityResult({ isConnected: true });
+      it('should probe all targets with the configured timeout', async () => {
+        mockSafePing.mockResolvedValue({ stdout: 'time=10 ms' });
 
-        await checker.handleConnectionStatus(result);
+        await checker.checkConnection();
 
-        expect(prisma.outage.create).not.toHaveBeenCalled();
-        expect(prisma.outage.update).not.toHaveBeenCalled();
+        expect(mockSafePing).toHaveBeenCalledTimes(3);
+        expect(mockSafePing).toHaveBeenCalledWith('8.8.8.8', { family: 'ipv4', timeoutMs: 2000 });
+        expect(mockSafePing).toHaveBeenCalledWith('1.1.1.1', { family: 'ipv4', timeoutMs: 2000 });
+        expect(mockSafePing).toHaveBeenCalledWith('google.com', { family: 'ipv4', timeoutMs: 2000 });
       });
 
-      it('should not log any outage events', async () => {
-        const result = createConnectivityResult({ isConnected: true });
+      it('should store one connection check per target', async () => {
+        mockSafePing
+          .mockResolvedValueOnce({ stdout: 'time=10 ms' })
+          .mockRejectedValueOnce(new Error('Host unreachable'))
+          .mockResolvedValueOnce({ stdout: 'time=30 ms' });
+
+        await checker.checkConnection();
+
+        expect(prisma.connectionCheck.create).not.toHaveBeenCalled();
+        expect(prisma.connectionCheck.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({ isConnected: true, latencyMs: 10, target: '8.8.8.8', addressFamily: 'ipv4' }),
+            expect.objectContaining({ isConnected: false, latencyMs: null, target: '1.1.1.1', addressFamily: 'ipv4' }),
+            expect.objectContaining({ isConnected: true, latencyMs: 30, target: 'google.com', addressFamily: 'ipv4' }),
+          ],
+        });
+      });
+
+      it('should report the highest priority target that answered', async () => {
+        mockSafePing
+          .mockRejectedValueOnce(new Error('Host unreachable'))
+          .mockResolvedValueOnce({ stdout: 'time=20 ms' })
+          .mockResolvedValueOnce({ stdout: 'time=30 ms' });
+
+        const result = await checker.checkConnection();
+
+        expect(result).toEqual(expect.objectContaining({
+          isConnected: true,
+          latencyMs: 20,
+          target: '1.1.1.1',
+        }));
+        expect(logger.logConnectivityCheck).toHaveBeenCalledWith('1.1.1.1', true, 20, {
+          targetsUp: 2,
+          targetsAttempted: 3,
+          addressFamily: 'ipv4',
+        });
+      });
+
+      it('should report disconnected when no target answers', async () => {
+        mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+        const result = await checker.checkConnection();
+
+        expect(result.isConnected).toBe(false);
+        expect(result.target).toBe('multiple');
+        expect(logger.logConnectivityCheck).toHaveBeenCalledWith('all-targets', false, null, {
+          targetsAttempted: 3,
+          addressFamily: 'ipv4',
+        });
+      });
+
+      it('should not run more probes at once than the concurrency cap', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        mockSafePing.mockImplementation(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          running--;
+          return { stdout: 'time=10 ms' };
+        });
+
+        await checker.checkConnection();
+
+        expect(mockSafePing).toHaveBeenCalledTimes(3);
+        expect(maxRunning).toBe(2);
+      });
+
+      it('should record a target whose probe throws as down', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('https://example.com', { type: 'https' }),
+          createTarget('8.8.8.8'),
+        ]);
+        mockHttpProbe.mockRejectedValue(new Error('socket hang up'));
+        mockSafePing.mockResolvedValue({ stdout: 'time=10 ms' });
+
+        const result = await checker.checkConnection();
+
+        expect(logger.warn).toHaveBeenCalledWith(
+          'Probe failed for https://example.com',
+          expect.objectContaining({ error: 'socket hang up' })
+        );
+        expect(prisma.connectionCheck.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({ target: 'https://example.com', isConnected: false }),
+            expect.objectContaining({ target: '8.8.8.8', isConnected: true }),
+          ],
+        });
+        expect(result.target).toBe('8.8.8.8');
+      });
+    });
+
+    describe('multi-packet ping', () => {
+      const summaryOutput = [
+        '64 bytes from 8.8.8.8: icmp_seq=1 ttl=117 time=11.0 ms',
+        '64 bytes from 8.8.8.8: icmp_seq=3 ttl=117 time=13.4 ms',
+        '',
+        '--- 8.8.8.8 ping statistics ---',
+        '3 packets transmitted, 2 received, 33.3333% packet loss, time 2003ms',
+        'rtt min/avg/max/mdev = 11.021/12.251/13.482/1.230 ms',
+      ].join('\n');
+
+      it('should send the packet count and interval configured on the target', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('8.8.8.8', { pingCount: 5, pingIntervalMs: 200 }),
+        ]);
+        mockSafePing.mockResolvedValue({ stdout: summaryOutput });
+
+        await checker.checkConnection();
+
+        expect(mockSafePing).toHaveBeenCalledWith('8.8.8.8', {
+          family: 'ipv4',
+          timeoutMs: 5000,
+          count: 5,
+          intervalMs: 200,
+        });
+      });
+
+      it('should store packet loss and jitter with the check', async () => {
+        mockSafePing.mockResolvedValue({ stdout: summaryOutput });
+
+        const result = await checker.checkConnection();
+
+        expect(result.latencyMs).toBe(12.251);
+        expect(result.packetLossPct).toBe(33.3333);
+        expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            isConnected: true,
+            latencyMs: 12.251,
+            packetLossPct: 33.3333,
+            jitterMs: 1.23,
+            target: '8.8.8.8',
+          }),
+        });
+      });
+
+      it('should store packet loss and jitter per target when every target is probed', async () => {
+        mockGetProbeSettings.mockResolvedValue({
+          probeAllTargets: true,
+          probeConcurrency: 4,
+          probeTimeoutMs: 5000,
+          gatewayTarget: null,
+        });
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([createTarget('8.8.8.8')]);
+        mockSafePing.mockResolvedValue({ stdout: summaryOutput });
+
+        const result = await checker.checkConnection();
+
+        expect(result.packetLossPct).toBe(33.3333);
+        expect(prisma.connectionCheck.createMany).toHaveBeenCalledWith({
+          data: [expect.objectContaining({ packetLossPct: 33.3333, jitterMs: 1.23 })],
+        });
+      });
+    });
+
+    describe('latency parsing', () => {
+      it('should parse latency with decimal', async () => {
+        mockSafePing.mockResolvedValue({
+          stdout: 'time=42.7 ms',
+        });
+
+        const result = await checker.checkConnection();
+        expect(result.latencyMs).toBe(42.7);
+      });
+
+      it('should parse latency without decimal', async () => {
+        mockSafePing.mockResolvedValue({
+          stdout: 'time=15 ms',
+        });
+
+        const result = await checker.checkConnection();
+        expect(result.latencyMs).toBe(15);
+      });
+
+      it('should handle missing latency in output', async () => {
+        mockSafePing.mockResolvedValue({
+          stdout: 'PING successful but no time reported',
+        });
+
+        const result = await checker.checkConnection();
+        expect(result.latencyMs).toBeNull();
+      });
+    });
+  });
+
+  describe('handleConnectionStatus', () => {
+    const createConnectivityResult = (overrides: Partial<ConnectivityResult> = {}): ConnectivityResult => ({
+      isConnected: true,
+      latencyMs: 20,
+      target: '8.8.8.8',
+      timestamp: new Date('2025-01-15T12:00:00Z'),
+      ...overrides,
+    });
+
+    describe('when disconnected with no active outage', () => {
+      beforeEach(() => {
+        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+        (prisma.outage.create as jest.Mock).mockResolvedValue({
+          id: 1,
+          startTime: new Date('2025-01-15T12:00:00Z'),
+          checksCount: 1,
+        });
+      });
+
+      it('should create new outage', async () => {
+        const result = createConnectivityResult({ isConnected: false });
 
         await checker.handleConnectionStatus(result);
 
-        expect(logger.logOutage).not.toHaveBeenCalled();
+        expect(prisma.outage.create).toHaveBeenCalledWith({
+          data: {
+            startTime: result.timestamp,
+            startLastGoodAt: null,
+            checksCount: 1,
+            classification: null,
+          },
+        });
+      });
+
+      it('should flag an outage starting in a maintenance window as planned', async () => {
+        mockGetActiveMaintenance.mockResolvedValue([{
+          id: 2,
+          description: 'Weekly router reboot',
+          targetId: null,
+          groupId: null,
+          groupTargetIds: [],
+          start: new Date('2025-01-15T11:55:00Z'),
+          end: new Date('2025-01-15T12:10:00Z'),
+        }]);
+        const result = createConnectivityResult({ isConnected: false });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(mockGetActiveMaintenance).toHaveBeenCalledWith(result.timestamp);
+        expect(prisma.outage.create).toHaveBeenCalledWith({
+          data: {
+            startTime: result.timestamp,
+            startLastGoodAt: null,
+            checksCount: 1,
+            classification: null,
+            isPlanned: true,
+          },
+        });
+        expect(logger.logOutage).toHaveBeenCalledWith(
+          'started',
+          '1',
+          undefined,
+          expect.objectContaining({ maintenance: 'Weekly router reboot' })
+        );
+      });
+
+      it('should not flag an outage for a window scoped to one target', async () => {
+        mockGetActiveMaintenance.mockResolvedValue([{
+          id: 3,
+          description: 'VPN server patching',
+          targetId: 7,
+          groupId: null,
+          groupTargetIds: [],
+          start: new Date('2025-01-15T11:55:00Z'),
+          end: new Date('2025-01-15T12:10:00Z'),
+        }]);
+        const result = createConnectivityResult({ isConnected: false });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(prisma.outage.create).toHaveBeenCalledWith({
+          data: {
+            startTime: result.timestamp,
+            startLastGoodAt: null,
+            checksCount: 1,
+            classification: null,
+          },
+        });
+      });
+
+      it('should log outage started event', async () => {
+        const result = createConnectivityResult({ isConnected: false });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(logger.logOutage).toHaveBeenCalledWith(
+          'started',
+          '1',
+          undefined,
+          expect.objectContaining({
+            timestamp: result.timestamp.toISOString(),
+          })
+        );
+      });
+    });
+
+    describe('when disconnected with active outage', () => {
+      const activeOutage = createMockActiveOutage({
+        id: '1',
+        checksCount: 5,
+      });
+
+      beforeEach(() => {
+        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+      });
+
+      it('should increment checksCount', async () => {
+        const result = createConnectivityResult({ isConnected: false });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(prisma.outage.update).toHaveBeenCalledWith({
+          where: { id: activeOutage.id },
+          data: {
+            checksCount: { increment: 1 },
+          },
+        });
+      });
+
+      it('should log that outage continues', async () => {
+        const result = createConnectivityResult({ isConnected: false });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(logger.debug).toHaveBeenCalledWith(
+          'Outage continues',
+          expect.objectContaining({
+            outageId: activeOutage.id,
+            checksCount: 6, // Original 5 + 1
+          })
+        );
+      });
+
+      it('should not create new outage', async () => {
+        const result = createConnectivityResult({ isConnected: false });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(prisma.outage.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('when connected with active outage (recovery)', () => {
+      const activeOutage = createMockActiveOutage({
+        id: '1',
+        startTime: new Date('2025-01-15T12:00:00Z'),
+        checksCount: 10,
+      });
+
+      beforeEach(() => {
+        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+
+        // Mock email notifier
+        jest.mock('../email-notifier', () => ({
+          sendOutageRestoredEmail: jest.fn().mockResolvedValue(undefined),
+        }));
+      });
+
+      it('should calculate duration correctly', async () => {
+        const result = createConnectivityResult({
+          isConnected: true,
+          timestamp: new Date('2025-01-15T12:05:00Z'), // 5 minutes after outage start
+        });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(prisma.outage.update).toHaveBeenCalledWith({
+          where: { id: activeOutage.id },
+          data: {
+            endTime: result.timestamp,
+            endLastBadAt: null,
+            durationSec: 300, // 5 minutes = 300 seconds
+            conservativeDurationSec: 300,
+            estimatedDurationSec: 300,
+            isResolved: true,
+          },
+        });
       });
+
+      it('should log outage resolution', async () => {
+        const result = createConnectivityResult({
+          isConnected: true,
+          timestamp: new Date('2025-01-15T12:05:00Z'),
+        });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(logger.logOutage).toHaveBeenCalledWith(
+          'resolved',
+          '1',
+          300,
+          expect.objectContaining({
+            startTime: activeOutage.startTime.toISOString(),
+            endTime: result.timestamp.toISOString(),
+          })
+        );
+      });
+
+      it('should send the restored email', async () => {
+        await checker.handleConnectionStatus(createConnectivityResult({
+          isConnected: true,
+          timestamp: new Date('2025-01-15T12:05:00Z'),
+        }));
+
+        expect(mockSendOutageRestoredEmail).toHaveBeenCalledWith(
+          activeOutage.startTime,
+          new Date('2025-01-15T12:05:00Z'),
+          300,
+          undefined
+        );
+      });
+
+      it('should not send the restored email for a planned outage', async () => {
+        (prisma.outage.findFirst as jest.Mock).mockResolvedValue({ ...activeOutage, isPlanned: true });
+
+        await checker.handleConnectionStatus(createConnectivityResult({
+          isConnected: true,
+          timestamp: new Date('2025-01-15T12:05:00Z'),
+        }));
+
+        expect(prisma.outage.update).toHaveBeenCalled();
+        expect(mockSendOutageRestoredEmail).not.toHaveBeenCalled();
+      });
+
+      it('should handle sub-second durations correctly', async () => {
+        const result = createConnectivityResult({
+          isConnected: true,
+          timestamp: new Date(activeOutage.startTime.getTime() + 500), // 500ms later
+        });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(prisma.outage.update).toHaveBeenCalledWith({
+          where: { id: activeOutage.id },
+          data: {
+            endTime: result.timestamp,
+            endLastBadAt: null,
+            durationSec: 0, // Less than 1 second rounds to 0
+            conservativeDurationSec: 0,
+            estimatedDurationSec: 0,
+            isResolved: true,
+          },
+        });
+      });
+    });
+
+    describe('when connected with no active outage (normal operation)', () => {
+      beforeEach(() => {
+        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+      });
+
+      it('should not create or update any outages', async () => {
+        const result = createConnectivityResult({ isConnected: true });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(prisma.outage.create).not.toHaveBeenCalled();
+        expect(prisma.outage.update).not.toHaveBeenCalled();
+      });
+
+      it('should not log any outage events', async () => {
+        const result = createConnectivityResult({ isConnected: true });
+
+        await checker.handleConnectionStatus(result);
+
+        expect(logger.logOutage).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('gateway probing', () => {
+    const pingOk = { stdout: '64 bytes from 192.168.1.1: icmp_seq=1 ttl=64 time=0.5 ms' };
+
+    it('should ping the detected default gateway each cycle', async () => {
+      mockDetectDefaultGateway.mockResolvedValue('192.168.1.1');
+      mockSafePing.mockResolvedValue(pingOk);
+
+      const result = await checker.checkConnection();
+
+      expect(mockSafePing).toHaveBeenCalledWith('192.168.1.1', { family: 'ipv4', timeoutMs: 5000 });
+      expect(result.gatewayReachable).toBe(true);
+    });
+
+    it('should prefer the configured gateway over the detected one', async () => {
+      mockGetProbeSettings.mockResolvedValue({
+        probeAllTargets: false,
+        probeConcurrency: 4,
+        probeTimeoutMs: 2000,
+        gatewayTarget: 'fd00::1',
+      });
+      mockSafePing.mockResolvedValue(pingOk);
+
+      await checker.checkConnection();
+
+      expect(mockDetectDefaultGateway).not.toHaveBeenCalled();
+      expect(mockSafePing).toHaveBeenCalledWith('fd00::1', { family: 'ipv6', timeoutMs: 2000 });
+    });
+
+    it('should report the gateway as unreachable when it does not answer', async () => {
+      mockDetectDefaultGateway.mockResolvedValue('192.168.1.1');
+      mockSafePing.mockImplementation(async (target) => {
+        if (target === '192.168.1.1') throw new Error('Host unreachable');
+        return pingOk;
+      });
+
+      const result = await checker.checkConnection();
+
+      expect(result.isConnected).toBe(true);
+      expect(result.gatewayReachable).toBe(false);
+    });
+
+    it('should report null when no gateway is known', async () => {
+      mockSafePing.mockResolvedValue(pingOk);
+
+      const result = await checker.checkConnection();
+
+      expect(result.gatewayReachable).toBeNull();
+      // Only the targets are pinged
+      expect(mockSafePing).toHaveBeenCalledTimes(3);
+    });
+
+    it('should probe the gateway even when no targets are configured', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([]);
+      mockDetectDefaultGateway.mockResolvedValue('192.168.1.1');
+      mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+      const result = await checker.checkConnection();
+
+      expect(result.target).toBe('no-targets-configured');
+      expect(result.gatewayReachable).toBe(false);
+    });
+  });
+
+  describe('interception detection', () => {
+    const pingOk = { stdout: '64 bytes from 8.8.8.8: icmp_seq=1 ttl=118 time=12.3 ms' };
+
+    it('should run the interception checks with the probe timeout', async () => {
+      mockSafePing.mockResolvedValue(pingOk);
+
+      await checker.checkConnection();
+
+      expect(mockCheckForInterception).toHaveBeenCalledWith(5000);
+    });
+
+    it('should report the connection as down while traffic is intercepted', async () => {
+      mockSafePing.mockResolvedValue(pingOk);
+      mockCheckForInterception.mockResolvedValue({
+        intercepted: true,
+        reason: 'dns.google resolved to 10.0.0.1, outside its expected ranges',
+      });
+
+      const result = await checker.checkConnection();
+
+      expect(result).toEqual(expect.objectContaining({
+        isConnected: false,
+        latencyMs: null,
+        target: 'intercepted',
+        intercepted: true,
+      }));
+      expect(logger.warn).toHaveBeenCalledWith('Traffic is being intercepted', {
+        reason: 'dns.google resolved to 10.0.0.1, outside its expected ranges',
+      });
+    });
+
+    it('should record the answering target as down while traffic is intercepted', async () => {
+      mockSafePing.mockResolvedValue(pingOk);
+      mockCheckForInterception.mockResolvedValue({ intercepted: true, reason: 'portal' });
+
+      await checker.checkConnection();
+
+      expect(prisma.connectionCheck.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ isConnected: false, target: '8.8.8.8' }),
+      });
+      expect(prisma.connectionCheck.create).not.toHaveBeenCalledWith({
+        data: expect.objectContaining({ isConnected: true }),
+      });
+    });
+
+    it('should record every target as down while traffic is intercepted and every target is probed', async () => {
+      mockGetProbeSettings.mockResolvedValue({
+        probeAllTargets: true,
+        probeConcurrency: 4,
+        probeTimeoutMs: 5000,
+        gatewayTarget: null,
+      });
+      mockSafePing.mockResolvedValue(pingOk);
+      mockCheckForInterception.mockResolvedValue({ intercepted: true, reason: 'portal' });
+
+      await checker.checkConnection();
+
+      const { data } = (prisma.connectionCheck.createMany as jest.Mock).mock.calls[0][0];
+      expect(data.length).toBeGreaterThan(0);
+      expect(data.every((check: { isConnected: boolean }) => !check.isConnected)).toBe(true);
+    });
+
+    it('should report intercepted even when every target failed', async () => {
+      mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+      mockCheckForInterception.mockResolvedValue({ intercepted: true, reason: 'portal' });
+
+      const result = await checker.checkConnection();
+
+      expect(result.target).toBe('intercepted');
+      expect(result.intercepted).toBe(true);
+    });
+
+    it('should leave the connection up when nothing was intercepted', async () => {
+      mockSafePing.mockResolvedValue(pingOk);
+      mockCheckForInterception.mockResolvedValue({ intercepted: false, reason: null });
+
+      const result = await checker.checkConnection();
+
+      expect(result.isConnected).toBe(true);
+      expect(result.intercepted).toBe(false);
+      expect(logger.warn).not.toHaveBeenCalledWith('Traffic is being intercepted', expect.anything());
+    });
+  });
+
+  describe('failed target counts', () => {
+    it('should count the targets that failed before one answered', async () => {
+      mockSafePing
+        .mockRejectedValueOnce(new Error('Host unreachable'))
+        .mockResolvedValueOnce({ stdout: 'time=20.5 ms' });
+
+      const result = await checker.checkConnection();
+
+      expect(result.failedTargets).toBe(1);
+    });
+
+    it('should count every target when all fail', async () => {
+      mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+      const result = await checker.checkConnection();
+
+      expect(result.failedTargets).toBe(3);
+    });
+
+    it('should count failed targets when every target is probed', async () => {
+      mockGetProbeSettings.mockResolvedValue({
+        probeAllTargets: true,
+        probeConcurrency: 4,
+        probeTimeoutMs: 5000,
+        gatewayTarget: null,
+      });
+      mockSafePing
+        .mockRejectedValueOnce(new Error('Host unreachable'))
+        .mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      const result = await checker.checkConnection();
+
+      expect(result.isConnected).toBe(true);
+      expect(result.failedTargets).toBe(1);
+    });
+  });
+
+  describe('per-target outcomes', () => {
+    const timestamp = expect.any(Date);
+
+    beforeEach(() => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('8.8.8.8', { id: 11 }),
+        createTarget('1.1.1.1', { id: 12 }),
+        createTarget('https://vpn.example.com', { id: 13, type: 'https' }),
+      ]);
+    });
+
+    it('should record the targets after the one that answered too', async () => {
+      mockSafePing
+        .mockRejectedValueOnce(new Error('Host unreachable'))
+        .mockResolvedValueOnce({ stdout: 'time=20.5 ms' });
+      mockHttpProbe.mockResolvedValue({ isConnected: false, latencyMs: null, error: 'HTTP 503' });
+
+      const result = await checker.checkConnection();
+
+      expect(mockRecordTargetOutcomes).toHaveBeenCalledWith([
+        { targetId: 11, target: '8.8.8.8', isConnected: false },
+        { targetId: 12, target: '1.1.1.1', isConnected: true },
+        { targetId: 13, target: 'https://vpn.example.com', isConnected: false, error: 'HTTP 503' },
+      ], timestamp);
+      // Only the targets tried before the answer count toward the connection
+      expect(result).toEqual(expect.objectContaining({ target: '1.1.1.1', failedTargets: 1 }));
+    });
+
+    it('should record every target when all fail, with probe errors', async () => {
+      mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+      mockHttpProbe.mockResolvedValue({ isConnected: false, latencyMs: null, error: 'HTTP 503' });
+
+      await checker.checkConnection();
+
+      expect(mockRecordTargetOutcomes).toHaveBeenCalledWith([
+        { targetId: 11, target: '8.8.8.8', isConnected: false },
+        { targetId: 12, target: '1.1.1.1', isConnected: false },
+        { targetId: 13, target: 'https://vpn.example.com', isConnected: false, error: 'HTTP 503' },
+      ], timestamp);
+    });
+
+    it('should record every target when every target is probed', async () => {
+      mockGetProbeSettings.mockResolvedValue({
+        probeAllTargets: true,
+        probeConcurrency: 4,
+        probeTimeoutMs: 5000,
+        gatewayTarget: null,
+      });
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+      mockHttpProbe.mockResolvedValue({ isConnected: false, latencyMs: null, error: 'HTTP 503' });
+
+      await checker.checkConnection();
+
+      expect(mockRecordTargetOutcomes).toHaveBeenCalledWith([
+        { targetId: 11, target: '8.8.8.8', isConnected: true },
+        { targetId: 12, target: '1.1.1.1', isConnected: true },
+        { targetId: 13, target: 'https://vpn.example.com', isConnected: false, error: 'HTTP 503' },
+      ], timestamp);
+    });
+
+    it('should judge groups from every member with the first responding target strategy', async () => {
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+      mockHttpProbe.mockResolvedValue({ isConnected: false, latencyMs: null, error: 'HTTP 503' });
+
+      await checker.checkConnection();
+
+      expect(mockRecordGroupVerdicts).toHaveBeenCalledWith([
+        { targetId: 11, target: '8.8.8.8', isConnected: true },
+        { targetId: 12, target: '1.1.1.1', isConnected: true },
+        { targetId: 13, target: 'https://vpn.example.com', isConnected: false, error: 'HTTP 503' },
+      ], timestamp);
+    });
+
+    it('should combine both address families into one call per cycle', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('8.8.8.8', { id: 11 }),
+        createTarget('2001:4860:4860::8888', { id: 14, addressFamily: 'ipv6' }),
+      ]);
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      await checker.checkConnection();
+
+      const outcomes = [
+        { targetId: 11, target: '8.8.8.8', isConnected: true },
+        { targetId: 14, target: '2001:4860:4860::8888', isConnected: true },
+      ];
+      expect(mockRecordTargetOutcomes).toHaveBeenCalledTimes(1);
+      expect(mockRecordTargetOutcomes).toHaveBeenCalledWith(outcomes, timestamp);
+      expect(mockRecordGroupVerdicts).toHaveBeenCalledWith(outcomes, timestamp);
+    });
+
+    it('should not leak the outcomes into the cycle result', async () => {
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      const result = await checker.checkConnection();
+
+      expect(result).not.toHaveProperty('outcomes');
+    });
+  });
+
+  describe('per-target overrides', () => {
+    const timestamp = expect.any(Date);
+
+    it('should use a target\'s own timeout instead of the global one', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('203.0.113.1', { timeoutMs: 15000 }),
+      ]);
+      mockSafePing.mockResolvedValue({ stdout: 'time=180 ms' });
+
+      await checker.checkConnection();
+
+      expect(mockSafePing).toHaveBeenCalledWith('203.0.113.1', { family: 'ipv4', timeoutMs: 15000 });
+    });
+
+    it('should retry a failed probe until it answers', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('8.8.8.8', { retries: 2 }),
+      ]);
+      mockSafePing
+        .mockRejectedValueOnce(new Error('Host unreachable'))
+        .mockResolvedValueOnce({ stdout: 'time=20 ms' });
+
+      const result = await checker.checkConnection();
+
+      expect(mockSafePing).toHaveBeenCalledTimes(2);
+      expect(result.isConnected).toBe(true);
+      expect(logger.debug).toHaveBeenCalledWith('Retrying probe for 8.8.8.8', {
+        target: '8.8.8.8',
+        attempt: 2,
+        attempts: 3,
+      });
+    });
+
+    it('should count the target as down once every retry failed', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('8.8.8.8', { retries: 2 }),
+      ]);
+      mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+      const result = await checker.checkConnection();
+
+      expect(mockSafePing).toHaveBeenCalledTimes(3);
+      expect(result.isConnected).toBe(false);
+    });
+
+    it('should not retry targets without retries', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([createTarget('8.8.8.8')]);
+      mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+      await checker.checkConnection();
+
+      expect(mockSafePing).toHaveBeenCalledTimes(1);
+    });
+
+    describe('targets on their own schedule', () => {
+      beforeEach(() => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('8.8.8.8', { id: 11, checkIntervalSeconds: 30 }),
+          createTarget('1.1.1.1', { id: 12 }),
+        ]);
+      });
+
+      it('should list the targets with their own interval', async () => {
+        expect(await checker.getScheduledTargets()).toEqual([
+          { id: 11, target: '8.8.8.8', checkIntervalSeconds: 30 },
+        ]);
+      });
+
+      it('should probe a scheduled target and record its outcome', async () => {
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+
+        await checker.checkTarget(11);
+
+        expect(mockSafePing).toHaveBeenCalledWith('8.8.8.8', { family: 'ipv4', timeoutMs: 5000 });
+        expect(mockRecordTargetOutcomes).toHaveBeenCalledWith([
+          { targetId: 11, target: '8.8.8.8', isConnected: true },
+        ], timestamp);
+      });
+
+      it('should not judge a group for a target outside groups', async () => {
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+
+        await checker.checkTarget(11);
+
+        expect(mockRecordGroupVerdicts).not.toHaveBeenCalled();
+      });
+
+      it('should judge the group of a scheduled target with its members\' latest outcomes', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('1.1.1.1', { id: 12, groupId: 5 }),
+          createTarget('8.8.8.8', { id: 11, checkIntervalSeconds: 30, groupId: 5 }),
+          createTarget('9.9.9.9', { id: 13, groupId: 5 }),
+        ]);
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+        await checker.checkConnection();
+        mockRecordGroupVerdicts.mockClear();
+
+        mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+        await checker.checkTarget(11);
+
+        expect(mockRecordGroupVerdicts).toHaveBeenCalledTimes(1);
+        expect(mockRecordGroupVerdicts).toHaveBeenCalledWith([
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+          { targetId: 11, target: '8.8.8.8', isConnected: false },
+          { targetId: 13, target: '9.9.9.9', isConnected: true },
+        ], timestamp);
+      });
+
+      it('should judge the group with the members probed so far', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('1.1.1.1', { id: 12, groupId: 5 }),
+          createTarget('8.8.8.8', { id: 11, checkIntervalSeconds: 30, groupId: 5 }),
+        ]);
+        mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+        await checker.checkTarget(11);
+
+        expect(mockRecordGroupVerdicts).toHaveBeenCalledWith([
+          { targetId: 11, target: '8.8.8.8', isConnected: false },
+        ], timestamp);
+      });
+
+      it('should skip a target that is no longer enabled', async () => {
+        await checker.checkTarget(99);
+
+        expect(mockSafePing).not.toHaveBeenCalled();
+        expect(mockRecordTargetOutcomes).not.toHaveBeenCalled();
+      });
+
+      it('should reuse the scheduled result in check cycles', async () => {
+        mockSafePing.mockRejectedValueOnce(new Error('Host unreachable'));
+        await checker.checkTarget(11);
+        mockSafePing.mockClear();
+        mockRecordTargetOutcomes.mockClear();
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+
+        const result = await checker.checkConnection();
+
+        // Only the second target is probed; the first keeps its scheduled failure
+        expect(mockSafePing).toHaveBeenCalledTimes(1);
+        expect(mockSafePing).toHaveBeenCalledWith('1.1.1.1', expect.any(Object));
+        expect(result).toEqual(expect.objectContaining({ isConnected: true, target: '1.1.1.1', failedTargets: 1 }));
+        // Incidents of the reused target were recorded when it was probed
+        expect(mockRecordTargetOutcomes).toHaveBeenCalledWith([
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+        ], timestamp);
+        expect(mockRecordGroupVerdicts).toHaveBeenCalledWith([
+          { targetId: 11, target: '8.8.8.8', isConnected: false },
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+        ], timestamp);
+      });
+
+      it('should reuse the scheduled result of a target after the one that answered', async () => {
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('1.1.1.1', { id: 12 }),
+          createTarget('8.8.8.8', { id: 11, checkIntervalSeconds: 30 }),
+        ]);
+        mockSafePing.mockRejectedValueOnce(new Error('Host unreachable'));
+        await checker.checkTarget(11);
+        mockSafePing.mockClear();
+        mockRecordTargetOutcomes.mockClear();
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+
+        await checker.checkConnection();
+
+        expect(mockSafePing).toHaveBeenCalledTimes(1);
+        expect(mockRecordTargetOutcomes).toHaveBeenCalledWith([
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+        ], timestamp);
+        expect(mockRecordGroupVerdicts).toHaveBeenCalledWith([
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+          { targetId: 11, target: '8.8.8.8', isConnected: false },
+        ], timestamp);
+      });
+
+      it('should probe a scheduled target in the cycle until it has a result', async () => {
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+
+        await checker.checkConnection();
+        await checker.checkConnection();
+
+        // Probed by the first cycle, reused by the second
+        const scheduledPings = mockSafePing.mock.calls.filter(([target]) => target === '8.8.8.8');
+        expect(scheduledPings).toHaveLength(1);
+        expect(mockRecordTargetOutcomes).toHaveBeenNthCalledWith(2, [
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+        ], timestamp);
+      });
+
+      it('should reuse a scheduled result older than a check cycle within its own interval', async () => {
+        jest.useFakeTimers({ now: new Date('2025-01-15T12:00:00Z') });
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('8.8.8.8', { id: 11, checkIntervalSeconds: 3600 }),
+          createTarget('1.1.1.1', { id: 12 }),
+        ]);
+
+        try {
+          mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+          await checker.checkTarget(11);
+          mockSafePing.mockClear();
+
+          jest.setSystemTime(new Date('2025-01-15T13:04:59Z'));
+          const result = await checker.checkConnection();
+
+          expect(mockSafePing).not.toHaveBeenCalledWith('8.8.8.8', expect.anything());
+          expect(result.isConnected).toBe(true);
+          expect(result.target).toBe('8.8.8.8');
+        } finally {
+          jest.useRealTimers();
+        }
+      });
+
+      it('should probe a scheduled target again once its result is a check cycle older than its own interval', async () => {
+        jest.useFakeTimers({ now: new Date('2025-01-15T12:00:00Z') });
+        (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+          createTarget('8.8.8.8', { id: 11, checkIntervalSeconds: 3600 }),
+          createTarget('1.1.1.1', { id: 12 }),
+        ]);
+        (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+        (prisma.outage.create as jest.Mock).mockResolvedValue({ id: 1 });
+
+        try {
+          mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+          await checker.checkTarget(11);
+          mockSafePing.mockClear();
+
+          // The scheduled success is from before the line went down, and the
+          // schedule has not run since
+          jest.setSystemTime(new Date('2025-01-15T13:05:01Z'));
+          mockSafePing.mockRejectedValue(new Error('Host unreachable'));
+
+          const result = await checker.checkConnection();
+          await checker.handleConnectionStatus(result);
+
+          expect(mockSafePing).toHaveBeenCalledWith('8.8.8.8', expect.any(Object));
+          expect(mockSafePing).toHaveBeenCalledWith('1.1.1.1', expect.any(Object));
+          expect(result.isConnected).toBe(false);
+          expect(prisma.outage.create).toHaveBeenCalled();
+          // Probed live, so its incident is recorded with this cycle
+          expect(mockRecordTargetOutcomes).toHaveBeenLastCalledWith([
+            { targetId: 11, target: '8.8.8.8', isConnected: false },
+            { targetId: 12, target: '1.1.1.1', isConnected: false },
+          ], timestamp);
+        } finally {
+          jest.useRealTimers();
+        }
+      });
+
+      it('should reuse scheduled results when every target is probed', async () => {
+        mockGetProbeSettings.mockResolvedValue({
+          probeAllTargets: true,
+          probeConcurrency: 4,
+          probeTimeoutMs: 5000,
+          gatewayTarget: null,
+        });
+        mockSafePing.mockResolvedValue({ stdout: 'time=20 ms' });
+        await checker.checkTarget(11);
+        mockSafePing.mockClear();
+
+        await checker.checkConnection();
+
+        expect(mockSafePing).toHaveBeenCalledTimes(1);
+        expect(prisma.connectionCheck.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({ isConnected: true, latencyMs: 20, target: '8.8.8.8' }),
+            expect.objectContaining({ isConnected: true, latencyMs: 20, target: '1.1.1.1' }),
+          ],
+        });
+        expect(mockRecordTargetOutcomes).toHaveBeenLastCalledWith([
+          { targetId: 12, target: '1.1.1.1', isConnected: true },
+        ], timestamp);
+      });
+    });
+  });
+
+  describe('WAN links', () => {
+    const lteLink = { id: 1, name: 'LTE backup', interface: 'wwan0', sourceAddress: null };
+    const lteBinding = { pingInterface: 'wwan0', localAddress: '10.64.0.2' };
+
+    beforeEach(() => {
+      (prisma.wanLink.findMany as jest.Mock).mockResolvedValue([lteLink]);
+      mockGetProbeBinding.mockReturnValue(lteBinding);
+    });
+
+    it('should load the enabled links', async () => {
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      await checker.checkConnection();
+
+      expect(prisma.wanLink.findMany).toHaveBeenCalledWith({
+        where: { isEnabled: true },
+        select: { id: true, name: true, interface: true, sourceAddress: true },
+      });
+    });
+
+    it('should record no results when no link is enabled', async () => {
+      (prisma.wanLink.findMany as jest.Mock).mockResolvedValue([]);
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      await checker.checkConnection();
+
+      expect(mockRecordWanLinkResults).toHaveBeenCalledWith([], expect.any(Date));
+    });
+
+    it('should ping over the link until a target answers', async () => {
+      // Fail the first target over the link only
+      mockSafePing.mockImplementation(async (target, options) => {
+        if (options?.sourceInterface && target === '8.8.8.8') {
+          throw new Error('Host unreachable');
+        }
+        return { stdout: 'time=42 ms' };
+      });
+
+      const result = await checker.checkConnection();
+
+      expect(mockGetProbeBinding).toHaveBeenCalledWith(lteLink, 'ipv4');
+      expect(mockSafePing).toHaveBeenCalledWith('1.1.1.1', {
+        family: 'ipv4',
+        timeoutMs: 5000,
+        sourceInterface: 'wwan0',
+      });
+      expect(mockRecordWanLinkResults).toHaveBeenCalledWith([{
+        wanLinkId: 1,
+        name: 'LTE backup',
+        isConnected: true,
+        latencyMs: 42,
+        target: '1.1.1.1',
+      }], result.timestamp);
+      expect(result.isConnected).toBe(true);
+    });
+
+    it('should record the link as down when no target answers over it', async () => {
+      mockSafePing.mockImplementation(async (_target, options) => {
+        if (options?.sourceInterface) {
+          throw new Error('Host unreachable');
+        }
+        return { stdout: 'time=20.5 ms' };
+      });
+
+      const result = await checker.checkConnection();
+
+      expect(mockRecordWanLinkResults).toHaveBeenCalledWith([{
+        wanLinkId: 1,
+        name: 'LTE backup',
+        isConnected: false,
+        latencyMs: null,
+        target: 'all-targets-failed',
+      }], expect.any(Date));
+      expect(result.isConnected).toBe(true);
+    });
+
+    it('should skip targets the link has no address for', async () => {
+      mockGetProbeBinding.mockReturnValue(null);
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      await checker.checkConnection();
+
+      expect(mockSafePing).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ sourceInterface: expect.anything() })
+      );
+      expect(mockRecordWanLinkResults).toHaveBeenCalledWith([
+        expect.objectContaining({ wanLinkId: 1, isConnected: false }),
+      ], expect.any(Date));
+    });
+
+    it('should send HTTP, TCP and DNS probes from the link address', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('https://vpn.example.com', { type: 'https' }),
+        createTarget('1.1.1.1:53', { type: 'tcp' }),
+        createTarget('9.9.9.9', { type: 'dns' }),
+      ]);
+      const down = { isConnected: false, latencyMs: null };
+      mockHttpProbe.mockResolvedValue(down);
+      mockTcpProbe.mockResolvedValue(down);
+      mockDnsProbe.mockResolvedValue(down);
+
+      await checker.checkConnection();
+
+      expect(mockHttpProbe).toHaveBeenCalledWith('https://vpn.example.com', expect.objectContaining({
+        localAddress: '10.64.0.2',
+      }));
+      expect(mockTcpProbe).toHaveBeenCalledWith('1.1.1.1', 53, {
+        family: 'ipv4',
+        timeoutMs: 5000,
+        localAddress: '10.64.0.2',
+      });
+      expect(mockDnsProbe).toHaveBeenCalledWith('9.9.9.9', expect.objectContaining({
+        localAddress: '10.64.0.2',
+      }));
+    });
+
+    it('should warn instead of failing the cycle when links cannot be loaded', async () => {
+      (prisma.wanLink.findMany as jest.Mock).mockRejectedValue(new Error('DB error'));
+      mockSafePing.mockResolvedValue({ stdout: 'time=20.5 ms' });
+
+      const result = await checker.checkConnection();
+
+      expect(result.isConnected).toBe(true);
+      expect(logger.warn).toHaveBeenCalledWith('Failed to check WAN links', { error: 'DB error' });
+    });
+  });
+
+  describe('degradation tracking', () => {
+    const result: ConnectivityResult = {
+      isConnected: true,
+      latencyMs: 250,
+      packetLossPct: 10,
+      target: '8.8.8.8',
+      timestamp: new Date('2025-01-15T12:00:00Z'),
+      failedTargets: 0,
+    };
+
+    beforeEach(() => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should hand each successful cycle to the degradation monitor', async () => {
+      await checker.handleConnectionStatus(result);
+
+      expect(mockHandleCycle).toHaveBeenCalledWith(result, false);
+    });
+
+    it('should tell the degradation monitor when a cycle failed', async () => {
+      const failedCycle = { ...result, isConnected: false, latencyMs: null, packetLossPct: null };
+      (prisma.outage.create as jest.Mock).mockResolvedValue({ id: 1 });
+
+      await checker.handleConnectionStatus(failedCycle);
+
+      expect(mockHandleCycle).toHaveBeenCalledWith(failedCycle, true);
+    });
+
+    it('should judge degradation before waiting on outage confirmation', async () => {
+      mockGetOutageThresholds.mockResolvedValue({
+        failureThreshold: 1,
+        recoveryThreshold: 3,
+        minFailedTargets: null,
+      });
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(createMockActiveOutage());
+
+      await checker.handleConnectionStatus(result);
+
+      expect(prisma.outage.update).not.toHaveBeenCalled();
+      expect(mockHandleCycle).toHaveBeenCalledWith(result, false);
+    });
+  });
+
+  describe('outage confirmation thresholds', () => {
+    const firstCheck = new Date('2025-01-15T12:00:00Z');
+    const at = (offsetSec: number) => new Date(firstCheck.getTime() + offsetSec * 1000);
+
+    const cycle = (timestamp: Date, isConnected: boolean, failedTargets = isConnected ? 0 : 3): ConnectivityResult => ({
+      isConnected,
+      latencyMs: isConnected ? 20 : null,
+      target: isConnected ? '8.8.8.8' : 'multiple',
+      timestamp,
+      failedTargets,
+    });
+
+    const activeOutage = {
+      id: 1,
+      startTime: firstCheck,
+      isResolved: false,
+      checksCount: 3,
+      classification: null,
+    };
+
+    beforeEach(() => {
+      mockGetOutageThresholds.mockResolvedValue({
+        failureThreshold: 3,
+        recoveryThreshold: 2,
+        minFailedTargets: null,
+      });
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.outage.create as jest.Mock).mockResolvedValue({ id: 1 });
+    });
+
+    it('should not open an outage before the failure threshold is reached', async () => {
+      await checker.handleConnectionStatus(cycle(firstCheck, false));
+      await checker.handleConnectionStatus(cycle(at(30), false));
+
+      expect(prisma.outage.create).not.toHaveBeenCalled();
+      expect(logger.debug).toHaveBeenCalledWith('Failed check not yet confirmed as an outage', {
+        consecutiveFailures: 2,
+        failureThreshold: 3,
+      });
+    });
+
+    it('should backdate a confirmed outage to the first failed check', async () => {
+      await checker.handleConnectionStatus(cycle(firstCheck, false));
+      await checker.handleConnectionStatus(cycle(at(30), false));
+      await checker.handleConnectionStatus(cycle(at(60), false));
+
+      expect(prisma.outage.create).toHaveBeenCalledWith({
+        data: { startTime: firstCheck, startLastGoodAt: null, checksCount: 3, classification: null },
+      });
+      expect(logger.logOutage).toHaveBeenCalledWith('started', '1', undefined, expect.objectContaining({
+        timestamp: firstCheck.toISOString(),
+      }));
+    });
+
+    it('should start counting again after a successful check', async () => {
+      await checker.handleConnectionStatus(cycle(firstCheck, false));
+      await checker.handleConnectionStatus(cycle(at(30), false));
+      await checker.handleConnectionStatus(cycle(at(60), true));
+      await checker.handleConnectionStatus(cycle(at(90), false));
+      await checker.handleConnectionStatus(cycle(at(120), false));
+
+      expect(prisma.outage.create).not.toHaveBeenCalled();
+
+      await checker.handleConnectionStatus(cycle(at(150), false));
+
+      expect(prisma.outage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ startTime: at(90) }),
+      });
+    });
+
+    it('should not resolve an outage before the recovery threshold is reached', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+
+      await checker.handleConnectionStatus(cycle(at(300), true));
+
+      expect(prisma.outage.update).not.toHaveBeenCalled();
+      expect(logger.debug).toHaveBeenCalledWith('Successful check not yet confirmed as a recovery', {
+        outageId: 1,
+        consecutiveSuccesses: 1,
+        recoveryThreshold: 2,
+      });
+    });
+
+    it('should end a confirmed recovery at the first successful check', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+
+      await checker.handleConnectionStatus(cycle(at(300), true));
+      await checker.handleConnectionStatus(cycle(at(330), true));
+
+      expect(prisma.outage.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          endTime: at(300),
+          endLastBadAt: null,
+          durationSec: 300,
+          conservativeDurationSec: 300,
+          estimatedDurationSec: 300,
+          isResolved: true,
+        },
+      });
+    });
+
+    it('should bound the start of an outage by the last successful check', async () => {
+      await checker.handleConnectionStatus(cycle(firstCheck, true));
+      await checker.handleConnectionStatus(cycle(at(30), false));
+      await checker.handleConnectionStatus(cycle(at(60), false));
+      await checker.handleConnectionStatus(cycle(at(90), false));
+
+      expect(prisma.outage.create).toHaveBeenCalledWith({
+        data: { startTime: at(30), startLastGoodAt: firstCheck, checksCount: 3, classification: null },
+      });
+    });
+
+    it('should bound the end of an outage by the last failed check', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue({ ...activeOutage, startLastGoodAt: at(-60) });
+
+      await checker.handleConnectionStatus(cycle(at(270), false));
+      await checker.handleConnectionStatus(cycle(at(300), true));
+      await checker.handleConnectionStatus(cycle(at(330), true));
+
+      expect(prisma.outage.update).toHaveBeenLastCalledWith({
+        where: { id: 1 },
+        data: {
+          endTime: at(300),
+          endLastBadAt: at(270),
+          durationSec: 300,
+          conservativeDurationSec: 270,
+          estimatedDurationSec: 315,
+          isResolved: true,
+        },
+      });
+    });
+
+    it('should keep the outage open when a failure interrupts the recovery', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+
+      await checker.handleConnectionStatus(cycle(at(300), true));
+      await checker.handleConnectionStatus(cycle(at(330), false));
+      await checker.handleConnectionStatus(cycle(at(360), true));
+
+      expect(prisma.outage.update).toHaveBeenCalledTimes(1);
+      expect(prisma.outage.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { checksCount: { increment: 1 } },
+      });
+    });
+
+    describe('with a minimum number of failed targets', () => {
+      beforeEach(() => {
+        mockGetOutageThresholds.mockResolvedValue({
+          failureThreshold: 1,
+          recoveryThreshold: 1,
+          minFailedTargets: 2,
+        });
+      });
+
+      it('should open an outage when enough targets failed even though one answered', async () => {
+        await checker.handleConnectionStatus(cycle(firstCheck, true, 2));
+
+        expect(prisma.outage.create).toHaveBeenCalled();
+      });
+
+      it('should not open an outage when fewer targets failed', async () => {
+        await checker.handleConnectionStatus(cycle(firstCheck, true, 1));
+
+        expect(prisma.outage.create).not.toHaveBeenCalled();
+      });
+
+      it('should treat a missing failed target count as none failed', async () => {
+        await checker.handleConnectionStatus({
+          isConnected: true,
+          latencyMs: 20,
+          target: '8.8.8.8',
+          timestamp: firstCheck,
+        });
+
+        expect(prisma.outage.create).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('outage classification', () => {
+    const timestamp = new Date('2025-01-15T12:00:00Z');
+
+    beforeEach(() => {
+      (prisma.outage.create as jest.Mock).mockResolvedValue({ id: 1 });
+    });
+
+    it('should classify an outage as local when the gateway is unreachable', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'multiple', timestamp, gatewayReachable: false,
+      });
+
+      expect(prisma.outage.create).toHaveBeenCalledWith({
+        data: { startTime: timestamp, startLastGoodAt: null, checksCount: 1, classification: 'local' },
+      });
+      expect(logger.logOutage).toHaveBeenCalledWith('started', '1', undefined, expect.objectContaining({
+        classification: 'local',
+      }));
+    });
+
+    it('should classify an outage as upstream when the gateway answers', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'multiple', timestamp, gatewayReachable: true,
+      });
+
+      expect(prisma.outage.create).toHaveBeenCalledWith({
+        data: { startTime: timestamp, startLastGoodAt: null, checksCount: 1, classification: 'upstream' },
+      });
+    });
+
+    it('should classify an unclassified outage once the gateway can be probed', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue({
+        id: 1, startTime: timestamp, isResolved: false, checksCount: 1, classification: null,
+      });
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'multiple', timestamp, gatewayReachable: true,
+      });
+
+      expect(prisma.outage.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { checksCount: { increment: 1 }, classification: 'upstream' },
+      });
+    });
+
+    it('should classify an outage as intercepted when a portal answered', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'intercepted', timestamp, gatewayReachable: true, intercepted: true,
+      });
+
+      expect(prisma.outage.create).toHaveBeenCalledWith({
+        data: { startTime: timestamp, startLastGoodAt: null, checksCount: 1, classification: 'intercepted' },
+      });
+    });
+
+    it('should reclassify an outage as intercepted once a portal shows up', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue({
+        id: 1, startTime: timestamp, isResolved: false, checksCount: 1, classification: 'upstream',
+      });
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'intercepted', timestamp, gatewayReachable: true, intercepted: true,
+      });
+
+      expect(prisma.outage.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { checksCount: { increment: 1 }, classification: 'intercepted' },
+      });
+    });
+
+    it('should not rewrite an outage already classified as intercepted', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue({
+        id: 1, startTime: timestamp, isResolved: false, checksCount: 1, classification: 'intercepted',
+      });
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'intercepted', timestamp, gatewayReachable: true, intercepted: true,
+      });
+
+      expect(prisma.outage.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { checksCount: { increment: 1 } },
+      });
+    });
+
+    it('should keep the classification from the start of the outage', async () => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue({
+        id: 1, startTime: timestamp, isResolved: false, checksCount: 1, classification: 'local',
+      });
+
+      await checker.handleConnectionStatus({
+        isConnected: false, latencyMs: null, target: 'multiple', timestamp, gatewayReachable: true,
+      });
+
+      expect(prisma.outage.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { checksCount: { increment: 1 } },
+      });
+    });
+  });
+
+  describe('outage path capture', () => {
+    const outageStart = new Date('2025-01-15T12:00:00Z');
+    const at = (offsetMs: number) => new Date(outageStart.getTime() + offsetMs);
+
+    const disconnectedAt = (timestamp: Date): ConnectivityResult => ({
+      isConnected: false,
+      latencyMs: null,
+      target: 'multiple',
+      timestamp,
+    });
+
+    const activeOutage = {
+      id: 1,
+      startTime: outageStart,
+      isResolved: false,
+      checksCount: 1,
+    };
+
+    beforeEach(() => {
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.outage.create as jest.Mock).mockResolvedValue({ id: 1 });
+    });
+
+    it('should trace the path toward the primary target when an outage starts', async () => {
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+
+      expect(mockCaptureOutagePath).toHaveBeenCalledWith(1, 'start', '8.8.8.8', 'ipv4');
+    });
+
+    it('should trace the host of a URL or host:port target', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('https://example.com/health', { type: 'https', addressFamily: 'ipv6' }),
+      ]);
+
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+
+      expect(mockCaptureOutagePath).toHaveBeenCalledWith(1, 'start', 'example.com', 'ipv6');
+    });
+
+    it('should repeat the capture once the interval has passed during an outage', async () => {
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+
+      await checker.handleConnectionStatus(disconnectedAt(at(60 * 1000)));
+      expect(mockCaptureOutagePath).toHaveBeenCalledTimes(1);
+
+      await checker.handleConnectionStatus(disconnectedAt(at(5 * 60 * 1000)));
+      expect(mockCaptureOutagePath).toHaveBeenCalledTimes(2);
+      expect(mockCaptureOutagePath).toHaveBeenLastCalledWith(1, 'during', '8.8.8.8', 'ipv4');
+    });
+
+    it('should skip periodic captures while a traceroute is still running', async () => {
+      mockCaptureOutagePath.mockReturnValueOnce(new Promise(() => {}));
+
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+      await checker.handleConnectionStatus(disconnectedAt(at(10 * 60 * 1000)));
+
+      expect(mockCaptureOutagePath).toHaveBeenCalledTimes(1);
+    });
+
+    it('should capture once more at recovery even while a traceroute is running', async () => {
+      mockCaptureOutagePath.mockReturnValueOnce(new Promise(() => {}));
+
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+      (prisma.outage.findFirst as jest.Mock).mockResolvedValue(activeOutage);
+      await checker.handleConnectionStatus({
+        isConnected: true,
+        latencyMs: 20,
+        target: '8.8.8.8',
+        timestamp: at(30 * 1000),
+      });
+
+      expect(mockCaptureOutagePath).toHaveBeenLastCalledWith(1, 'recovery', '8.8.8.8', 'ipv4');
+    });
+
+    it('should not capture when there are no targets', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([]);
+
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+
+      expect(mockCaptureOutagePath).not.toHaveBeenCalled();
+    });
+
+    it('should not capture when the primary target has no usable host', async () => {
+      (prisma.monitoringTarget.findMany as jest.Mock).mockResolvedValue([
+        createTarget('https://[invalid', { type: 'https' }),
+      ]);
+
+      await checker.handleConnectionStatus(disconnectedAt(outageStart));
+
+      expect(mockCaptureOutagePath).not.toHaveBeenCalled();
     });
   });
 
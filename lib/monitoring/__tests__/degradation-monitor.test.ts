@@ -0,0 +1,435 @@
+/**
+ * Tests for degradation-monitor.ts
+ *
+ * Tests degraded connection tracking including:
+ * - Comparing window averages against latency and loss thresholds
+ * - Waiting for a full rolling window
+ * - Opening, updating and resolving degraded periods
+ * - Notifications when enabled, except during maintenance windows
+ */
+
+import { DegradationMonitor, getDegradationReason } from '../degradation-monitor';
+import type { ConnectivityResult } from '../connectivity-checker';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    degradedPeriod: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getDegradationSettings: jest.fn(),
+}));
+
+jest.mock('../email-notifier', () => ({
+  sendDegradedConnectionEmail: jest.fn(),
+}));
+
+jest.mock('../maintenance', () => ({
+  ...jest.requireActual('../maintenance'),
+  getActiveMaintenance: jest.fn(),
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getDegradationSettings } from '@/lib/settings';
+import { sendDegradedConnectionEmail } from '../email-notifier';
+import { getActiveMaintenance } from '../maintenance';
+
+const mockGetDegradationSettings = getDegradationSettings as jest.MockedFunction<typeof getDegradationSettings>;
+const mockSendEmail = sendDegradedConnectionEmail as jest.MockedFunction<typeof sendDegradedConnectionEmail>;
+const mockGetActiveMaintenance = getActiveMaintenance as jest.MockedFunction<typeof getActiveMaintenance>;
+
+const firstCheck = new Date('2025-01-15T12:00:00Z');
+const at = (offsetSec: number) => new Date(firstCheck.getTime() + offsetSec * 1000);
+
+// Connection-wide window in progress around the first check
+const routerReboot = {
+  id: 2,
+  description: 'Weekly router reboot',
+  targetId: null,
+  groupId: null,
+  groupTargetIds: [],
+  start: new Date('2025-01-15T11:55:00Z'),
+  end: new Date('2025-01-15T12:10:00Z'),
+};
+
+const cycle = (
+  timestamp: Date,
+  latencyMs: number | null,
+  packetLossPct: number | null = null
+): ConnectivityResult => ({
+  isConnected: true,
+  latencyMs,
+  packetLossPct,
+  target: '8.8.8.8',
+  timestamp,
+  failedTargets: 0,
+});
+
+describe('getDegradationReason', () => {
+  const settings = { latencyThresholdMs: 100, packetLossThresholdPct: 5, windowChecks: 3, notify: false };
+
+  it('should flag high latency', () => {
+    expect(getDegradationReason({ latencyMs: 150, packetLossPct: 0 }, settings)).toBe('latency');
+  });
+
+  it('should flag packet loss', () => {
+    expect(getDegradationReason({ latencyMs: 20, packetLossPct: 10 }, settings)).toBe('packet_loss');
+  });
+
+  it('should flag both at once', () => {
+    expect(getDegradationReason({ latencyMs: 150, packetLossPct: 10 }, settings)).toBe('latency_and_packet_loss');
+  });
+
+  it('should not flag values at the threshold', () => {
+    expect(getDegradationReason({ latencyMs: 100, packetLossPct: 5 }, settings)).toBeNull();
+  });
+
+  it('should ignore values that were not measured', () => {
+    expect(getDegradationReason({ latencyMs: null, packetLossPct: null }, settings)).toBeNull();
+  });
+
+  it('should ignore disabled thresholds', () => {
+    const disabled = { ...settings, latencyThresholdMs: null, packetLossThresholdPct: null };
+
+    expect(getDegradationReason({ latencyMs: 5000, packetLossPct: 90 }, disabled)).toBeNull();
+  });
+});
+
+describe('DegradationMonitor', () => {
+  let monitor: DegradationMonitor;
+
+  const activePeriod = {
+    id: 7,
+    startTime: firstCheck,
+    isResolved: false,
+    reason: 'latency',
+    peakLatencyMs: 180,
+    peakPacketLossPct: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    monitor = new DegradationMonitor();
+
+    mockGetDegradationSettings.mockResolvedValue({
+      latencyThresholdMs: 100,
+      packetLossThresholdPct: 5,
+      windowChecks: 3,
+      notify: false,
+    });
+    (prisma.degradedPeriod.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.degradedPeriod.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: 7, ...data })
+    );
+    mockSendEmail.mockResolvedValue(true);
+    mockGetActiveMaintenance.mockResolvedValue([]);
+  });
+
+  describe('rolling window', () => {
+    it('should wait for a full window before judging', async () => {
+      await monitor.handleCycle(cycle(firstCheck, 500), false);
+      await monitor.handleCycle(cycle(at(30), 500), false);
+
+      expect(prisma.degradedPeriod.findFirst).not.toHaveBeenCalled();
+      expect(prisma.degradedPeriod.create).not.toHaveBeenCalled();
+    });
+
+    it('should not open a period for a single slow reply', async () => {
+      await monitor.handleCycle(cycle(firstCheck, 20), false);
+      await monitor.handleCycle(cycle(at(30), 20), false);
+      await monitor.handleCycle(cycle(at(60), 250), false);
+
+      expect(prisma.degradedPeriod.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep only the latest cycles in the window', async () => {
+      await monitor.handleCycle(cycle(firstCheck, 900), false);
+      await monitor.handleCycle(cycle(at(30), 20), false);
+      await monitor.handleCycle(cycle(at(60), 20), false);
+      await monitor.handleCycle(cycle(at(90), 20), false);
+
+      expect(prisma.degradedPeriod.create).toHaveBeenCalledTimes(1);
+      (prisma.degradedPeriod.create as jest.Mock).mockClear();
+      (prisma.degradedPeriod.findFirst as jest.Mock).mockResolvedValue(activePeriod);
+
+      await monitor.handleCycle(cycle(at(120), 20), false);
+
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ isResolved: true }),
+      });
+    });
+
+    it('should start a new window after a failed cycle', async () => {
+      await monitor.handleCycle(cycle(firstCheck, 500), false);
+      await monitor.handleCycle(cycle(at(30), 500), false);
+      await monitor.handleCycle(cycle(at(60), null), true);
+      await monitor.handleCycle(cycle(at(90), 500), false);
+
+      expect(mockGetDegradationSettings).toHaveBeenCalledTimes(3);
+      expect(prisma.degradedPeriod.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('opening a degraded period', () => {
+    it('should open a period when the average latency is over the threshold', async () => {
+      await monitor.handleCycle(cycle(firstCheck, 150), false);
+      await monitor.handleCycle(cycle(at(30), 100), false);
+      await monitor.handleCycle(cycle(at(60), 200), false);
+
+      expect(prisma.degradedPeriod.create).toHaveBeenCalledWith({
+        data: {
+          startTime: at(60),
+          reason: 'latency',
+          peakLatencyMs: 150,
+          peakPacketLossPct: null,
+        },
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Degraded connection started', {
+        degradedPeriodId: 7,
+        reason: 'latency',
+        averageLatencyMs: 150,
+        averagePacketLossPct: null,
+      });
+    });
+
+    it('should open a period when the average packet loss is over the threshold', async () => {
+      await monitor.handleCycle(cycle(firstCheck, 20, 0), false);
+      await monitor.handleCycle(cycle(at(30), 20, 20), false);
+      await monitor.handleCycle(cycle(at(60), 20, null), false);
+
+      expect(prisma.degradedPeriod.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ reason: 'packet_loss', peakPacketLossPct: 10 }),
+      });
+    });
+
+    it('should not email when notifications are off', async () => {
+      for (const offset of [0, 30, 60]) {
+        await monitor.handleCycle(cycle(at(offset), 500), false);
+      }
+
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email and mark the period when notifications are on', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: null,
+        windowChecks: 1,
+        notify: true,
+      });
+
+      await monitor.handleCycle(cycle(firstCheck, 500), false);
+
+      expect(mockSendEmail).toHaveBeenCalledWith('started', {
+        startTime: firstCheck,
+        endTime: null,
+        durationSec: null,
+        reason: 'latency',
+        peakLatencyMs: 500,
+        peakPacketLossPct: null,
+      });
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { emailSent: true },
+      });
+    });
+
+    it('should not email a period starting in a maintenance window', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: null,
+        windowChecks: 1,
+        notify: true,
+      });
+      mockGetActiveMaintenance.mockResolvedValue([routerReboot]);
+
+      await monitor.handleCycle(cycle(firstCheck, 500), false);
+
+      expect(mockGetActiveMaintenance).toHaveBeenCalledWith(firstCheck);
+      expect(prisma.degradedPeriod.create).toHaveBeenCalled();
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email a period when the maintenance window covers only one target', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: null,
+        windowChecks: 1,
+        notify: true,
+      });
+      mockGetActiveMaintenance.mockResolvedValue([{ ...routerReboot, targetId: 3 }]);
+
+      await monitor.handleCycle(cycle(firstCheck, 500), false);
+
+      expect(mockSendEmail).toHaveBeenCalledWith('started', expect.any(Object));
+    });
+
+    it('should leave the period unmarked when the email was not sent', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: null,
+        windowChecks: 1,
+        notify: true,
+      });
+      mockSendEmail.mockResolvedValue(false);
+
+      await monitor.handleCycle(cycle(firstCheck, 500), false);
+
+      expect(mockSendEmail).toHaveBeenCalled();
+      expect(prisma.degradedPeriod.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ongoing degraded period', () => {
+    beforeEach(() => {
+      (prisma.degradedPeriod.findFirst as jest.Mock).mockResolvedValue(activePeriod);
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: 5,
+        windowChecks: 1,
+        notify: true,
+      });
+    });
+
+    it('should keep the worst averages seen', async () => {
+      await monitor.handleCycle(cycle(at(30), 150, 8), false);
+
+      expect(prisma.degradedPeriod.create).not.toHaveBeenCalled();
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          reason: 'latency_and_packet_loss',
+          peakLatencyMs: 180,
+          peakPacketLossPct: 8,
+        },
+      });
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should keep the stored peak when the window has no measurement', async () => {
+      (prisma.degradedPeriod.findFirst as jest.Mock).mockResolvedValue({
+        ...activePeriod,
+        reason: 'packet_loss',
+        peakLatencyMs: 40,
+        peakPacketLossPct: 12,
+      });
+
+      await monitor.handleCycle(cycle(at(30), null, 6), false);
+
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          reason: 'packet_loss',
+          peakLatencyMs: 40,
+          peakPacketLossPct: 12,
+        },
+      });
+    });
+  });
+
+  describe('resolving a degraded period', () => {
+    beforeEach(() => {
+      (prisma.degradedPeriod.findFirst as jest.Mock).mockResolvedValue(activePeriod);
+    });
+
+    it('should resolve the period once the window is healthy again', async () => {
+      for (const offset of [600, 630, 660]) {
+        await monitor.handleCycle(cycle(at(offset), 20), false);
+      }
+
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          endTime: at(660),
+          durationSec: 660,
+          isResolved: true,
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Degraded connection resolved', {
+        degradedPeriodId: 7,
+        durationSec: 660,
+      });
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the period when the thresholds are turned off', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: null,
+        packetLossThresholdPct: null,
+        windowChecks: 1,
+        notify: false,
+      });
+
+      await monitor.handleCycle(cycle(at(60), 500), false);
+
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ isResolved: true }),
+      });
+    });
+
+    it('should email the resolution when notifications are on', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: 5,
+        windowChecks: 1,
+        notify: true,
+      });
+
+      await monitor.handleCycle(cycle(at(120), 20), false);
+
+      expect(mockSendEmail).toHaveBeenCalledWith('resolved', {
+        startTime: firstCheck,
+        endTime: at(120),
+        durationSec: 120,
+        reason: 'latency',
+        peakLatencyMs: 180,
+        peakPacketLossPct: null,
+      });
+    });
+
+    it('should not email the resolution of a period that started in a maintenance window', async () => {
+      mockGetDegradationSettings.mockResolvedValue({
+        latencyThresholdMs: 100,
+        packetLossThresholdPct: 5,
+        windowChecks: 1,
+        notify: true,
+      });
+      mockGetActiveMaintenance.mockResolvedValue([routerReboot]);
+
+      await monitor.handleCycle(cycle(at(1200), 20), false);
+
+      expect(mockGetActiveMaintenance).toHaveBeenCalledWith(firstCheck);
+      expect(prisma.degradedPeriod.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ isResolved: true }),
+      });
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing while healthy with no open period', async () => {
+      (prisma.degradedPeriod.findFirst as jest.Mock).mockResolvedValue(null);
+
+      for (const offset of [0, 30, 60]) {
+        await monitor.handleCycle(cycle(at(offset), 20), false);
+      }
+
+      expect(prisma.degradedPeriod.create).not.toHaveBeenCalled();
+      expect(prisma.degradedPeriod.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,9 +6,20 @@
  * - Email sending
  * - Duration formatting
  * - Error handling
+ * - Degraded connection notifications
+ * - Latency anomaly notifications
+ * - Target group notifications and recipients
+ * - Public IP change notifications
+ * - No notifications from remote agents
  */
 
-import { sendOutageRestoredEmail } from '../email-notifier';
+import {
+  sendDegradedConnectionEmail,
+  sendGroupStatusEmail,
+  sendLatencyAnomalyEmail,
+  sendOutageRestoredEmail,
+  sendPublicIpChangeEmail
+} from '../email-notifier';
 
 // Mock nodemailer
 const mockSendMail = jest.fn();
@@ -49,7 +60,13 @@ jest.mock('@/lib/utils', () => ({
     error instanceof Error ? error.message : String(error),
 }));
 
+// Mock agent mode
+jest.mock('../agent-reporter', () => ({
+  isAgentMode: jest.fn().mockReturnValue(false),
+}));
+
 import { logger } from '@/lib/logger';
+import { isAgentMode } from '../agent-reporter';
 
 describe('sendOutageRestoredEmail', () => {
   beforeEach(() => {
@@ -95,6 +112,21 @@ describe('sendOutageRestoredEmail', () => {
       );
       expect(mockCreateTransport).not.toHaveBeenCalled();
     });
+
+    it('should skip sending when running as a remote agent', async () => {
+      (isAgentMode as jest.Mock).mockReturnValueOnce(true);
+
+      const startTime = new Date('2025-01-15T10:00:00Z');
+      const endTime = new Date('2025-01-15T10:05:00Z');
+
+      await sendOutageRestoredEmail(startTime, endTime, 300);
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Running as a remote agent, skipping notification'
+      );
+      expect(mockCreateTransport).not.toHaveBeenCalled();
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
   });
 
   describe('SMTP transport configuration', () => {
@@ -265,6 +297,51 @@ describe('sendOutageRestoredEmail', () => {
     });
   });
 
+  describe('outage cause', () => {
+    const startTime = new Date('2025-01-15T10:00:00Z');
+    const endTime = new Date('2025-01-15T10:05:00Z');
+
+    it('should describe a local outage', async () => {
+      await sendOutageRestoredEmail(startTime, endTime, 300, 'local');
+
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          html: expect.stringContaining('<strong>Cause:</strong> Local network (gateway unreachable)'),
+        })
+      );
+    });
+
+    it('should describe an upstream outage', async () => {
+      await sendOutageRestoredEmail(startTime, endTime, 300, 'upstream');
+
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          html: expect.stringContaining('<strong>Cause:</strong> Upstream / ISP (gateway reachable)'),
+        })
+      );
+    });
+
+    it('should describe an intercepted outage', async () => {
+      await sendOutageRestoredEmail(startTime, endTime, 300, 'intercepted');
+
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          html: expect.stringContaining('<strong>Cause:</strong> Intercepted (captive portal or DNS hijack)'),
+        })
+      );
+    });
+
+    it('should leave out the cause when the outage is unclassified', async () => {
+      await sendOutageRestoredEmail(startTime, endTime, 300, null);
+
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          html: expect.not.stringContaining('Cause:'),
+        })
+      );
+    });
+  });
+
   describe('success logging', () => {
     it('should log successful email send', async () => {
       const startTime = new Date('2025-01-15T10:00:00Z');
@@ -343,3 +420,322 @@ describe('sendOutageRestoredEmail', () => {
     });
   });
 });
+
+describe('sendDegradedConnectionEmail', () => {
+  const startTime = new Date('2025-01-15T10:00:00Z');
+  const endTime = new Date('2025-01-15T10:45:00Z');
+
+  const startedPeriod = {
+    startTime,
+    endTime: null,
+    durationSec: null,
+    reason: 'latency' as const,
+    peakLatencyMs: 250.5,
+    peakPacketLossPct: null,
+  };
+
+  const resolvedPeriod = {
+    ...startedPeriod,
+    endTime,
+    durationSec: 2700,
+    reason: 'latency_and_packet_loss' as const,
+    peakPacketLossPct: 12.5,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEnv.SMTP_HOST = 'smtp.example.com';
+    mockEnv.SMTP_PORT = '587';
+    mockEnv.SMTP_SECURE = 'false';
+    mockEnv.EMAIL_FROM = 'wanwatch@example.com';
+    mockEnv.EMAIL_TO = 'admin@example.com';
+    mockEnv.APP_URL = 'https://wanwatch.example.com';
+    mockSendMail.mockResolvedValue({ messageId: 'test-message-id' });
+  });
+
+  it('should skip sending when email is not configured', async () => {
+    mockEnv.SMTP_HOST = '';
+
+    await expect(sendDegradedConnectionEmail('started', startedPeriod)).resolves.toBe(false);
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it('should report the start of a degraded period', async () => {
+    await expect(sendDegradedConnectionEmail('started', startedPeriod)).resolves.toBe(true);
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.subject).toBe('🟠 WanWatch - Connection Degraded');
+    expect(mail.html).toContain('<strong>Reason:</strong> High latency');
+    expect(mail.html).toContain('<strong>Worst Average Latency:</strong> 250.5 ms');
+    expect(mail.html).not.toContain('Restored At:');
+    expect(mail.html).not.toContain('Duration:');
+    expect(mail.html).not.toContain('Packet Loss:');
+    expect(logger.logEmail).toHaveBeenCalledWith('success', 'admin@example.com', 'Connection Degraded', {
+      reason: 'latency',
+      startTime: startTime.toISOString(),
+    });
+  });
+
+  it('should report the end of a degraded period', async () => {
+    await sendDegradedConnectionEmail('resolved', resolvedPeriod);
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.subject).toBe('🟢 WanWatch - Connection Quality Restored');
+    expect(mail.html).toContain('<strong>Reason:</strong> High latency and packet loss');
+    expect(mail.html).toContain('<strong>Duration:</strong> 45m 0s');
+    expect(mail.html).toContain('<strong>Worst Average Packet Loss:</strong> 12.5%');
+    expect(logger.logEmail).toHaveBeenCalledWith(
+      'success',
+      'admin@example.com',
+      'Connection Quality Restored',
+      expect.objectContaining({ endTime: endTime.toISOString() })
+    );
+  });
+
+  it('should describe packet loss and leave out a missing latency', async () => {
+    await sendDegradedConnectionEmail('started', {
+      ...startedPeriod,
+      reason: 'packet_loss',
+      peakLatencyMs: null,
+      peakPacketLossPct: 8,
+    });
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.html).toContain('<strong>Reason:</strong> Packet loss');
+    expect(mail.html).not.toContain('Latency:');
+  });
+
+  it('should log failure and report the email as not sent', async () => {
+    mockSendMail.mockRejectedValue(new Error('SMTP connection failed'));
+
+    await expect(sendDegradedConnectionEmail('started', startedPeriod)).resolves.toBe(false);
+    expect(logger.logEmail).toHaveBeenCalledWith('failure', 'admin@example.com', 'Connection Degraded', {
+      error: 'SMTP connection failed',
+      reason: 'latency',
+    });
+  });
+});
+
+describe('sendLatencyAnomalyEmail', () => {
+  const startTime = new Date('2025-01-15T19:00:00Z');
+  const endTime = new Date('2025-01-15T21:15:00Z');
+
+  const startedAnomaly = {
+    target: '8.8.8.8',
+    startTime,
+    endTime: null,
+    durationSec: null,
+    baselineMs: 14.2,
+    peakLatencyMs: 61.5,
+    peakZScore: 4.7,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEnv.SMTP_HOST = 'smtp.example.com';
+    mockEnv.SMTP_PORT = '587';
+    mockEnv.SMTP_SECURE = 'false';
+    mockEnv.EMAIL_FROM = 'wanwatch@example.com';
+    mockEnv.EMAIL_TO = 'admin@example.com';
+    mockEnv.APP_URL = 'https://wanwatch.example.com';
+    mockSendMail.mockResolvedValue({ messageId: 'test-message-id' });
+  });
+
+  it('should skip sending when email is not configured', async () => {
+    mockEnv.EMAIL_TO = '';
+
+    await expect(sendLatencyAnomalyEmail('started', startedAnomaly)).resolves.toBe(false);
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it('should report the start of an anomaly', async () => {
+    await expect(sendLatencyAnomalyEmail('started', startedAnomaly)).resolves.toBe(true);
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.subject).toBe('🟠 WanWatch - Unusual Latency to 8.8.8.8');
+    expect(mail.html).toContain('<strong>Normal Latency:</strong> 14.2 ms');
+    expect(mail.html).toContain('<strong>Worst Average Latency:</strong> 61.5 ms (z-score 4.7)');
+    expect(mail.html).not.toContain('Normal Again At:');
+    expect(mail.html).not.toContain('Duration:');
+    expect(logger.logEmail).toHaveBeenCalledWith('success', 'admin@example.com', 'Unusual Latency to 8.8.8.8', {
+      target: '8.8.8.8',
+      startTime: startTime.toISOString(),
+    });
+  });
+
+  it('should report the end of an anomaly', async () => {
+    await sendLatencyAnomalyEmail('resolved', { ...startedAnomaly, endTime, durationSec: 8100 });
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.subject).toBe('🟢 WanWatch - Latency to 8.8.8.8 Back to Normal');
+    expect(mail.html).toContain('<strong>Duration:</strong> 2h 15m');
+    expect(logger.logEmail).toHaveBeenCalledWith(
+      'success',
+      'admin@example.com',
+      'Latency to 8.8.8.8 Back to Normal',
+      expect.objectContaining({ endTime: endTime.toISOString() })
+    );
+  });
+
+  it('should log failure and report the email as not sent', async () => {
+    mockSendMail.mockRejectedValue(new Error('SMTP connection failed'));
+
+    await expect(sendLatencyAnomalyEmail('started', startedAnomaly)).resolves.toBe(false);
+    expect(logger.logEmail).toHaveBeenCalledWith('failure', 'admin@example.com', 'Unusual Latency to 8.8.8.8', {
+      error: 'SMTP connection failed',
+      target: '8.8.8.8',
+    });
+  });
+});
+
+describe('sendGroupStatusEmail', () => {
+  const startTime = new Date('2025-01-15T10:00:00Z');
+  const endTime = new Date('2025-01-15T11:30:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEnv.SMTP_HOST = 'smtp.example.com';
+    mockEnv.EMAIL_FROM = 'wanwatch@example.com';
+    mockEnv.EMAIL_TO = 'admin@example.com';
+    mockEnv.APP_URL = 'https://wanwatch.example.com';
+    mockSendMail.mockResolvedValue({ messageId: 'test-message-id' });
+  });
+
+  it('should skip sending when SMTP is not configured', async () => {
+    mockEnv.SMTP_HOST = '';
+
+    await expect(
+      sendGroupStatusEmail('down', 'Work VPN', { startTime, endTime: null, durationSec: null }, 'it@example.com')
+    ).resolves.toBe(false);
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it('should skip sending when there is no recipient', async () => {
+    mockEnv.EMAIL_TO = '';
+
+    await expect(
+      sendGroupStatusEmail('down', 'Work VPN', { startTime, endTime: null, durationSec: null }, null)
+    ).resolves.toBe(false);
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it('should skip sending to the group recipient when running as a remote agent', async () => {
+    (isAgentMode as jest.Mock).mockReturnValueOnce(true);
+
+    await expect(
+      sendGroupStatusEmail('down', 'Work VPN', { startTime, endTime: null, durationSec: null }, 'it@example.com')
+    ).resolves.toBe(false);
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it('should send to the group recipient when set', async () => {
+    await expect(
+      sendGroupStatusEmail('down', 'Work VPN', { startTime, endTime: null, durationSec: null }, 'it@example.com')
+    ).resolves.toBe(true);
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.to).toBe('it@example.com');
+    expect(mail.subject).toBe('🔴 WanWatch - Work VPN Down');
+    expect(mail.html).toContain('Too few targets in the Work VPN group are answering.');
+    expect(mail.html).not.toContain('Restored At:');
+    expect(logger.logEmail).toHaveBeenCalledWith('success', 'it@example.com', 'Work VPN Down', {
+      group: 'Work VPN',
+      startTime: startTime.toISOString(),
+    });
+  });
+
+  it('should escape the group name in the email body', async () => {
+    await sendGroupStatusEmail('down', '<b>VPN</b> & "Office"', { startTime, endTime: null, durationSec: null });
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.subject).toBe('🔴 WanWatch - <b>VPN</b> & "Office" Down');
+    expect(mail.html).toContain('<h2>&lt;b&gt;VPN&lt;/b&gt; &amp; &quot;Office&quot; Down</h2>');
+    expect(mail.html).toContain('in the &lt;b&gt;VPN&lt;/b&gt; &amp; &quot;Office&quot; group');
+    expect(mail.html).not.toContain('<b>VPN</b>');
+  });
+
+  it('should fall back to EMAIL_TO and report the restore', async () => {
+    await sendGroupStatusEmail('restored', 'Public DNS', { startTime, endTime, durationSec: 5400 });
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.to).toBe('admin@example.com');
+    expect(mail.subject).toBe('🟢 WanWatch - Public DNS Restored');
+    expect(mail.html).toContain('<strong>Duration:</strong> 1h 30m');
+    expect(logger.logEmail).toHaveBeenCalledWith(
+      'success',
+      'admin@example.com',
+      'Public DNS Restored',
+      expect.objectContaining({ endTime: endTime.toISOString() })
+    );
+  });
+
+  it('should log failure and report the email as not sent', async () => {
+    mockSendMail.mockRejectedValue(new Error('SMTP connection failed'));
+
+    await expect(
+      sendGroupStatusEmail('down', 'Work VPN', { startTime, endTime: null, durationSec: null })
+    ).resolves.toBe(false);
+    expect(logger.logEmail).toHaveBeenCalledWith('failure', 'admin@example.com', 'Work VPN Down', {
+      error: 'SMTP connection failed',
+      group: 'Work VPN',
+    });
+  });
+});
+
+describe('sendPublicIpChangeEmail', () => {
+  const previous = { ipv4: '203.0.113.5', ipv6: null, asn: 'AS64500 Fibre Co', isp: 'Fibre Co' };
+  const current = { ipv4: '198.51.100.7', ipv6: '2001:db8::7', asn: 'AS64500 Fibre Co', isp: 'Fibre Co' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEnv.SMTP_HOST = 'smtp.example.com';
+    mockEnv.EMAIL_FROM = 'wanwatch@example.com';
+    mockEnv.EMAIL_TO = 'admin@example.com';
+    mockEnv.APP_URL = 'https://wanwatch.example.com';
+    mockSendMail.mockResolvedValue({ messageId: 'test-message-id' });
+  });
+
+  it('should skip sending when email is not configured', async () => {
+    mockEnv.EMAIL_TO = '';
+
+    await expect(sendPublicIpChangeEmail(previous, current, ['ipv4'])).resolves.toBe(false);
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it('should list each changed field with its old and new value', async () => {
+    await expect(sendPublicIpChangeEmail(previous, current, ['ipv4', 'ipv6'])).resolves.toBe(true);
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.subject).toBe('🔵 WanWatch - Public IP Changed');
+    expect(mail.html).toContain('<strong>IPv4:</strong> 203.0.113.5 → 198.51.100.7');
+    expect(mail.html).toContain('<strong>IPv6:</strong> none → 2001:db8::7');
+    expect(mail.html).not.toContain('ISP:');
+    expect(logger.logEmail).toHaveBeenCalledWith('success', 'admin@example.com', 'Public IP Changed', {
+      changedFields: ['ipv4', 'ipv6'],
+    });
+  });
+
+  it('should escape values from the lookup service', async () => {
+    await sendPublicIpChangeEmail(previous, { ...current, isp: '<img src=x onerror=alert(1)>' }, ['isp']);
+
+    const mail = mockSendMail.mock.calls[0][0];
+    expect(mail.html).toContain('Fibre Co → &lt;img src=x onerror=alert(1)&gt;');
+    expect(mail.html).not.toContain('<img');
+  });
+
+  it('should show a value that went away as none', async () => {
+    await sendPublicIpChangeEmail(current, previous, ['ipv6']);
+
+    expect(mockSendMail.mock.calls[0][0].html).toContain('<strong>IPv6:</strong> 2001:db8::7 → none');
+  });
+
+  it('should log and report failures without throwing', async () => {
+    mockSendMail.mockRejectedValue(new Error('SMTP down'));
+
+    await expect(sendPublicIpChangeEmail(previous, current, ['isp'])).resolves.toBe(false);
+    expect(logger.logEmail).toHaveBeenCalledWith('failure', 'admin@example.com', 'Public IP Changed', {
+      error: 'SMTP down',
+      changedFields: ['isp'],
+    });
+  });
+});
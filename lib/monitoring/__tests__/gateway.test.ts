@@ -0,0 +1,97 @@
+/**
+ * Tests for gateway.ts
+ *
+ * Tests LAN gateway handling including:
+ * - Finding the default gateway in /proc/net/route
+ * - Choosing between several default routes
+ * - Outage classification from the gateway probe
+ */
+
+import { classifyOutage, detectDefaultGateway, parseDefaultGateway } from '../gateway';
+
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+  },
+}));
+
+import { promises as fs } from 'fs';
+
+const mockReadFile = fs.readFile as jest.Mock;
+
+const HEADER = 'Iface\tDestination\tGateway \tFlags\tRefCnt\tUse\tMetric\tMask\t\tMTU\tWindow\tIRTT';
+
+const routeTable = (...routes: string[]) => [HEADER, ...routes, ''].join('\n');
+
+describe('parseDefaultGateway', () => {
+  it('should decode the little-endian gateway of the default route', () => {
+    const table = routeTable(
+      'eth0\t00000000\t0101A8C0\t0003\t0\t0\t100\t00000000\t0\t0\t0',
+      'eth0\t0001A8C0\t00000000\t0001\t0\t0\t100\t00FFFFFF\t0\t0\t0'
+    );
+
+    expect(parseDefaultGateway(table)).toBe('192.168.1.1');
+  });
+
+  it('should pick the default route with the lowest metric', () => {
+    const table = routeTable(
+      'wlan0\t00000000\t0100000A\t0003\t0\t0\t600\t00000000\t0\t0\t0',
+      'eth0\t00000000\t0101A8C0\t0003\t0\t0\t100\t00000000\t0\t0\t0'
+    );
+
+    expect(parseDefaultGateway(table)).toBe('192.168.1.1');
+  });
+
+  it('should ignore default routes without a gateway', () => {
+    const table = routeTable('tun0\t00000000\t00000000\t0001\t0\t0\t0\t00000000\t0\t0\t0');
+
+    expect(parseDefaultGateway(table)).toBeNull();
+  });
+
+  it('should ignore routes without the gateway flag', () => {
+    const table = routeTable('eth0\t00000000\t0101A8C0\t0001\t0\t0\t0\t00000000\t0\t0\t0');
+
+    expect(parseDefaultGateway(table)).toBeNull();
+  });
+
+  it('should return null without a default route', () => {
+    expect(parseDefaultGateway(routeTable())).toBeNull();
+    expect(parseDefaultGateway('')).toBeNull();
+  });
+});
+
+describe('detectDefaultGateway', () => {
+  it('should read the kernel routing table', async () => {
+    mockReadFile.mockResolvedValue(routeTable('eth0\t00000000\t011011AC\t0003\t0\t0\t0\t00000000\t0\t0\t0'));
+
+    await expect(detectDefaultGateway()).resolves.toBe('172.17.16.1');
+    expect(mockReadFile).toHaveBeenCalledWith('/proc/net/route', 'utf8');
+  });
+
+  it('should return null when the routing table cannot be read', async () => {
+    mockReadFile.mockRejectedValue(new Error('ENOENT: no such file or directory'));
+
+    await expect(detectDefaultGateway()).resolves.toBeNull();
+  });
+});
+
+describe('classifyOutage', () => {
+  it('should classify as local when the gateway is unreachable', () => {
+    expect(classifyOutage(false)).toBe('local');
+  });
+
+  it('should classify as upstream when the gateway answered', () => {
+    expect(classifyOutage(true)).toBe('upstream');
+  });
+
+  it('should leave the outage unclassified when no gateway was probed', () => {
+    expect(classifyOutage(null)).toBeNull();
+    expect(classifyOutage(undefined)).toBeNull();
+  });
+
+  it('should classify as intercepted whatever the gateway did', () => {
+    expect(classifyOutage(true, true)).toBe('intercepted');
+    expect(classifyOutage(false, true)).toBe('intercepted');
+    expect(classifyOutage(null, true)).toBe('intercepted');
+  });
+});
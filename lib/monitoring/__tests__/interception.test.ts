@@ -0,0 +1,189 @@
+/**
+ * Tests for interception.ts
+ *
+ * Tests captive portal and DNS hijack detection including:
+ * - Skipping the checks while detection is off
+ * - Connectivity-check URL responses
+ * - Hostnames resolving outside their expected ranges
+ * - Lookups that fail or time out
+ */
+
+import { checkForInterception } from '../interception';
+
+jest.mock('dns', () => ({
+  promises: {
+    lookup: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getInterceptionSettings: jest.fn(),
+}));
+
+jest.mock('../probes', () => ({
+  httpProbe: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+import { promises as dns } from 'dns';
+import { getInterceptionSettings } from '@/lib/settings';
+import { logger } from '@/lib/logger';
+import { httpProbe } from '../probes';
+
+const mockLookup = dns.lookup as unknown as jest.Mock;
+const mockGetInterceptionSettings = getInterceptionSettings as jest.MockedFunction<typeof getInterceptionSettings>;
+const mockHttpProbe = httpProbe as jest.MockedFunction<typeof httpProbe>;
+
+const settings = {
+  enabled: true,
+  checkUrl: 'http://connectivitycheck.gstatic.com/generate_204',
+  expectedStatus: 204,
+  bodyMatch: null,
+  dnsChecks: [{ hostname: 'dns.google', ranges: ['8.8.8.0/24', '8.8.4.0/24'] }],
+};
+
+const resolved = (...addresses: string[]) =>
+  addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+
+describe('checkForInterception', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetInterceptionSettings.mockResolvedValue(settings);
+    mockHttpProbe.mockResolvedValue({ isConnected: true, latencyMs: 20 });
+    mockLookup.mockResolvedValue(resolved('8.8.8.8', '8.8.4.4'));
+  });
+
+  it('should skip the checks while detection is off', async () => {
+    mockGetInterceptionSettings.mockResolvedValue({ ...settings, enabled: false });
+
+    expect(await checkForInterception(5000)).toBeNull();
+    expect(mockHttpProbe).not.toHaveBeenCalled();
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  it('should fetch the check URL with the expected status and body', async () => {
+    mockGetInterceptionSettings.mockResolvedValue({ ...settings, bodyMatch: 'Success' });
+
+    await checkForInterception(3000);
+
+    expect(mockHttpProbe).toHaveBeenCalledWith('http://connectivitycheck.gstatic.com/generate_204', {
+      expectedStatus: 204,
+      bodyMatch: 'Success',
+      timeoutMs: 3000,
+    });
+    expect(mockLookup).toHaveBeenCalledWith('dns.google', { all: true });
+  });
+
+  it('should report nothing when every check passes', async () => {
+    expect(await checkForInterception(5000)).toEqual({ intercepted: false, reason: null });
+  });
+
+  it('should flag a check URL that answers with the wrong response', async () => {
+    mockHttpProbe.mockResolvedValue({
+      isConnected: false,
+      latencyMs: null,
+      httpStatus: 302,
+      error: 'Unexpected HTTP status 302',
+    });
+
+    expect(await checkForInterception(5000)).toEqual({
+      intercepted: true,
+      reason: 'http://connectivitycheck.gstatic.com/generate_204 answered with an unexpected response ' +
+        '(Unexpected HTTP status 302)',
+    });
+  });
+
+  it('should not flag a check URL that does not answer at all', async () => {
+    mockHttpProbe.mockResolvedValue({ isConnected: false, latencyMs: null, error: 'Timed out after 5000ms' });
+
+    expect(await checkForInterception(5000)).toEqual({ intercepted: false, reason: null });
+  });
+
+  it('should flag a hostname resolving outside its expected ranges', async () => {
+    mockLookup.mockResolvedValue(resolved('8.8.8.8', '192.168.100.1'));
+
+    expect(await checkForInterception(5000)).toEqual({
+      intercepted: true,
+      reason: 'dns.google resolved to 192.168.100.1, outside its expected ranges',
+    });
+  });
+
+  it('should check IPv6 addresses against IPv6 ranges', async () => {
+    mockGetInterceptionSettings.mockResolvedValue({
+      ...settings,
+      dnsChecks: [{ hostname: 'dns.google', ranges: ['8.8.8.0/24', '2001:4860:4860::/48'] }],
+    });
+    mockLookup.mockResolvedValue(resolved('2001:4860:4860::8888', 'fd00::1'));
+
+    expect(await checkForInterception(5000)).toEqual({
+      intercepted: true,
+      reason: 'dns.google resolved to fd00::1, outside its expected ranges',
+    });
+  });
+
+  it('should not check addresses of a family with no expected range', async () => {
+    mockLookup.mockResolvedValue(resolved('8.8.8.8', '2001:4860:4860::8888'));
+
+    expect(await checkForInterception(5000)).toEqual({ intercepted: false, reason: null });
+  });
+
+  it('should not flag a hostname that fails to resolve', async () => {
+    mockLookup.mockRejectedValue(new Error('getaddrinfo ENOTFOUND dns.google'));
+
+    expect(await checkForInterception(5000)).toEqual({ intercepted: false, reason: null });
+    expect(logger.debug).toHaveBeenCalledWith('Interception check lookup failed', {
+      hostname: 'dns.google',
+      error: 'getaddrinfo ENOTFOUND dns.google',
+    });
+  });
+
+  it('should give up on a lookup that outlasts the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      mockLookup.mockReturnValue(new Promise(() => {}));
+
+      const pending = checkForInterception(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await pending).toEqual({ intercepted: false, reason: null });
+      expect(logger.debug).toHaveBeenCalledWith('Interception check lookup failed', {
+        hostname: 'dns.google',
+        error: 'Timed out after 1000ms',
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should report the first check that found interception', async () => {
+    mockHttpProbe.mockResolvedValue({
+      isConnected: false,
+      latencyMs: null,
+      httpStatus: 200,
+      error: 'Response body did not contain the expected text',
+    });
+    mockLookup.mockResolvedValue(resolved('10.0.0.1'));
+
+    const result = await checkForInterception(5000);
+
+    expect(result?.reason).toMatch(/^http:\/\/connectivitycheck/);
+  });
+
+  it('should warn instead of throwing on unexpected errors', async () => {
+    mockGetInterceptionSettings.mockResolvedValue({
+      ...settings,
+      dnsChecks: [{ hostname: 'dns.google', ranges: ['8.8.8.0/99'] }],
+    });
+
+    expect(await checkForInterception(5000)).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to check for interception', {
+      error: expect.any(String),
+    });
+  });
+});
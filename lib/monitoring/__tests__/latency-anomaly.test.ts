@@ -0,0 +1,403 @@
+/**
+ * Tests for latency-anomaly.ts
+ *
+ * Tests latency anomaly detection including:
+ * - Learning a baseline per target and hour of day
+ * - Z-scores against the baseline
+ * - Opening, extending and resolving anomalies from rolling windows
+ * - Reading only checks written since the last run
+ * - Notifications, except during maintenance windows
+ */
+
+import { baselineKey, buildBaseline, getZScore, LatencyAnomalyDetector } from '../latency-anomaly';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    connectionCheck: {
+      findMany: jest.fn(),
+    },
+    latencyAnomaly: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getLatencyAnomalySettings: jest.fn(),
+}));
+
+jest.mock('../email-notifier', () => ({
+  sendLatencyAnomalyEmail: jest.fn(),
+}));
+
+jest.mock('../maintenance', () => ({
+  ...jest.requireActual('../maintenance'),
+  getActiveMaintenance: jest.fn(),
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getLatencyAnomalySettings } from '@/lib/settings';
+import { sendLatencyAnomalyEmail } from '../email-notifier';
+import { getActiveMaintenance } from '../maintenance';
+
+const mockQueryRaw = prisma.$queryRaw as jest.Mock;
+const mockFindMany = prisma.connectionCheck.findMany as jest.Mock;
+const mockFindFirst = prisma.latencyAnomaly.findFirst as jest.Mock;
+const mockCreate = prisma.latencyAnomaly.create as jest.Mock;
+const mockUpdate = prisma.latencyAnomaly.update as jest.Mock;
+const mockGetSettings = getLatencyAnomalySettings as jest.Mock;
+const mockSendEmail = sendLatencyAnomalyEmail as jest.Mock;
+const mockGetActiveMaintenance = getActiveMaintenance as jest.Mock;
+
+const settings = {
+  enabled: true,
+  zScoreThreshold: 3,
+  windowChecks: 3,
+  baselineDays: 14,
+  notify: false,
+};
+
+// Half past the hour, so every check below falls in the same hour of day
+const NOW = new Date(2026, 9, 1, 19, 30).getTime();
+
+const at = (minutesAgo: number) => new Date(NOW - minutesAgo * 60 * 1000);
+
+const check = (minutesAgo: number, latencyMs: number | null, target = '8.8.8.8', targetId: number | null = 3) => ({
+  target,
+  targetId,
+  timestamp: at(minutesAgo),
+  isConnected: latencyMs !== null,
+  latencyMs,
+});
+
+/**
+ * History totals of 20 checks around 20 ms (half 18 ms, half 22 ms - mean 20,
+ * standard deviation 2) for the current hour
+ */
+const history = (target = '8.8.8.8', count = 20) => ({
+  target,
+  hour: at(0).getHours(),
+  count,
+  sum: count * 20,
+  sumOfSquares: (count / 2) * (18 * 18 + 22 * 22),
+});
+
+/**
+ * Answer the baseline query with history and the new checks query with checks
+ */
+function mockChecks(...batches: ReturnType<typeof check>[][]) {
+  mockQueryRaw.mockResolvedValue([history()]);
+  mockFindMany.mockImplementation(async () => batches.shift() ?? []);
+}
+
+describe('latency-anomaly', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    mockGetSettings.mockResolvedValue(settings);
+    mockFindFirst.mockResolvedValue(null);
+    mockCreate.mockImplementation(({ data }) => Promise.resolve({ id: 7, ...data }));
+    mockUpdate.mockImplementation(({ data }) => Promise.resolve({
+      id: 7,
+      startTime: at(10),
+      baselineMs: 20,
+      ...data,
+    }));
+    mockSendEmail.mockResolvedValue(true);
+    mockGetActiveMaintenance.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('buildBaseline', () => {
+    it('should learn the mean and standard deviation per target and hour', () => {
+      const baseline = buildBaseline([history()]);
+
+      expect(baseline.get(baselineKey('8.8.8.8', at(0).getHours()))).toEqual({
+        meanMs: 20,
+        stdDevMs: 2,
+        samples: 20,
+      });
+    });
+
+    it('should leave out hours without enough checks', () => {
+      expect(buildBaseline([history('8.8.8.8', 18)]).size).toBe(0);
+    });
+  });
+
+  describe('getZScore', () => {
+    it('should measure standard deviations above the mean', () => {
+      expect(getZScore(30, { meanMs: 20, stdDevMs: 4, samples: 20 })).toBe(2.5);
+    });
+
+    it('should not divide by a tiny standard deviation', () => {
+      expect(getZScore(30, { meanMs: 20, stdDevMs: 0, samples: 20 })).toBe(5);
+    });
+  });
+
+  describe('LatencyAnomalyDetector', () => {
+    it('should do nothing when disabled', async () => {
+      mockGetSettings.mockResolvedValue({ ...settings, enabled: false });
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockQueryRaw).not.toHaveBeenCalled();
+      expect(mockFindMany).not.toHaveBeenCalled();
+    });
+
+    it('should total the configured history per target and hour in the database', async () => {
+      mockChecks([]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockQueryRaw).toHaveBeenCalledTimes(1);
+      const [query, since] = mockQueryRaw.mock.calls[0];
+      expect(query.join('?')).toContain('GROUP BY target, hour');
+      expect(since).toEqual(new Date(NOW - 14 * 24 * 60 * 60 * 1000));
+    });
+
+    it('should read totals the database returns as big integers', async () => {
+      mockChecks([check(3, 30), check(2, 32), check(1, 34)]);
+      const { target, hour, count, sum, sumOfSquares } = history();
+      mockQueryRaw.mockResolvedValue([
+        { target, hour: BigInt(hour), count: BigInt(count), sum: BigInt(sum), sumOfSquares: BigInt(sumOfSquares) },
+      ]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ baselineMs: 20, baselineStdDev: 2, peakZScore: 6 }),
+      });
+    });
+
+    it('should open an anomaly when the window average is far above the baseline', async () => {
+      mockChecks([check(3, 30), check(2, 32), check(1, 34)]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          target: '8.8.8.8',
+          startTime: at(1),
+          baselineMs: 20,
+          baselineStdDev: 2,
+          peakLatencyMs: 32,
+          peakZScore: 6,
+        },
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Latency anomaly started: 8.8.8.8', {
+        anomalyId: 7,
+        averageLatencyMs: 32,
+        baselineMs: 20,
+        zScore: 6,
+      });
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not judge a window that is not yet full', async () => {
+      mockChecks([check(2, 60), check(1, 60)]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should clear the window on failed checks', async () => {
+      mockChecks([check(4, 60), check(3, 60), check(2, null), check(1, 60)]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should not flag targets without a baseline for the hour', async () => {
+      mockChecks([check(3, 60, '1.1.1.1'), check(2, 60, '1.1.1.1'), check(1, 60, '1.1.1.1')]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should keep the worst window while the anomaly lasts', async () => {
+      mockChecks([check(3, 30), check(2, 30), check(1, 30), check(0, 60)]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { peakLatencyMs: 40, peakZScore: 10 },
+      });
+    });
+
+    it('should resolve the anomaly once latency is back to normal', async () => {
+      mockFindFirst.mockResolvedValue({
+        id: 7,
+        startTime: at(10),
+        baselineMs: 20,
+        peakLatencyMs: 40,
+        peakZScore: 10,
+      });
+      mockChecks([check(3, 20), check(2, 21), check(0, 19)]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockFindFirst).toHaveBeenCalledWith({
+        where: { target: '8.8.8.8', isResolved: false },
+        orderBy: { startTime: 'desc' },
+      });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { endTime: at(0), durationSec: 600, isResolved: true },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Latency anomaly resolved: 8.8.8.8', {
+        anomalyId: 7,
+        durationSec: 600,
+        peakZScore: 10,
+      });
+    });
+
+    it('should carry windows over and read only new checks on the next run', async () => {
+      mockChecks([check(3, 30), check(2, 32)], [check(1, 34)]);
+      const detector = new LatencyAnomalyDetector();
+
+      await detector.check();
+      expect(mockCreate).not.toHaveBeenCalled();
+
+      await detector.check();
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      const newChecksQuery = mockFindMany.mock.calls[1][0];
+      expect(newChecksQuery.where.timestamp).toEqual({ gt: at(2) });
+      // The baseline is reused within the hour
+      expect(mockQueryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should email when notifications are on and record that it was sent', async () => {
+      mockGetSettings.mockResolvedValue({ ...settings, notify: true });
+      mockChecks([check(3, 30), check(2, 32), check(1, 34), check(0.5, 20), check(0, 20)]);
+      mockUpdate.mockResolvedValue({});
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockSendEmail).toHaveBeenCalledWith('started', {
+        target: '8.8.8.8',
+        startTime: at(1),
+        endTime: null,
+        durationSec: null,
+        baselineMs: 20,
+        peakLatencyMs: 32,
+        peakZScore: 6,
+      });
+      expect(mockUpdate).toHaveBeenCalledWith({ where: { id: 7 }, data: { emailSent: true } });
+      expect(mockSendEmail).toHaveBeenCalledWith('resolved', expect.objectContaining({
+        target: '8.8.8.8',
+        endTime: at(0),
+        durationSec: 60,
+      }));
+    });
+
+    describe('during maintenance', () => {
+      const vpnPatching = {
+        id: 2,
+        description: 'VPN server patching',
+        targetId: 3,
+        groupId: null,
+        groupTargetIds: [],
+        start: at(30),
+        end: at(-30),
+      };
+
+      beforeEach(() => {
+        mockGetSettings.mockResolvedValue({ ...settings, notify: true });
+        mockChecks([check(3, 30), check(2, 32), check(1, 34), check(0.5, 20), check(0, 20)]);
+        mockUpdate.mockResolvedValue({});
+      });
+
+      it('should not email an anomaly starting in a window covering its target', async () => {
+        mockGetActiveMaintenance.mockResolvedValue([vpnPatching]);
+
+        await new LatencyAnomalyDetector().check();
+
+        expect(mockGetActiveMaintenance).toHaveBeenCalledWith(at(1));
+        expect(mockCreate).toHaveBeenCalled();
+        expect(mockSendEmail).not.toHaveBeenCalled();
+      });
+
+      it('should not email an anomaly starting in a connection-wide window', async () => {
+        mockGetActiveMaintenance.mockResolvedValue([{ ...vpnPatching, targetId: null }]);
+
+        await new LatencyAnomalyDetector().check();
+
+        expect(mockSendEmail).not.toHaveBeenCalled();
+      });
+
+      it('should match checks without a target id to connection-wide windows only', async () => {
+        mockChecks([check(3, 30, '8.8.8.8', null), check(2, 32, '8.8.8.8', null), check(1, 34, '8.8.8.8', null)]);
+        mockGetActiveMaintenance.mockResolvedValue([vpnPatching]);
+
+        await new LatencyAnomalyDetector().check();
+
+        expect(mockSendEmail).toHaveBeenCalledWith('started', expect.any(Object));
+      });
+
+      it('should email an anomaly when the window covers another target', async () => {
+        mockGetActiveMaintenance.mockResolvedValue([{ ...vpnPatching, targetId: 4 }]);
+
+        await new LatencyAnomalyDetector().check();
+
+        expect(mockSendEmail).toHaveBeenCalledWith('started', expect.any(Object));
+        expect(mockSendEmail).toHaveBeenCalledWith('resolved', expect.any(Object));
+      });
+    });
+
+    it('should not record an email that was not sent', async () => {
+      mockGetSettings.mockResolvedValue({ ...settings, notify: true });
+      mockSendEmail.mockResolvedValue(false);
+      mockChecks([check(3, 30), check(2, 32), check(1, 34)]);
+
+      await new LatencyAnomalyDetector().check();
+
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not start a run while one is in progress', async () => {
+      let release: () => void = () => {};
+      mockGetSettings.mockReturnValueOnce(new Promise(resolve => {
+        release = () => resolve({ ...settings, enabled: false });
+      }));
+      const detector = new LatencyAnomalyDetector();
+
+      const first = detector.check();
+      await detector.check();
+      release();
+      await first;
+
+      expect(mockGetSettings).toHaveBeenCalledTimes(1);
+    });
+
+    it('should warn instead of throwing on database errors', async () => {
+      mockQueryRaw.mockRejectedValue(new Error('Database locked'));
+
+      await expect(new LatencyAnomalyDetector().check()).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith('Failed to check latency anomalies', {
+        error: 'Database locked',
+      });
+    });
+  });
+});
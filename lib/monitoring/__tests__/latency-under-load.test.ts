@@ -0,0 +1,127 @@
+/**
+ * Tests for latency-under-load.ts
+ *
+ * Tests bufferbloat measurement including:
+ * - Probing latency until stopped, recording lost replies
+ * - Splitting samples into idle, download and upload phases
+ * - Falling back to the speed test's own figures
+ * - Grading the latency increase under load
+ */
+
+import { gradeBufferbloat, LatencySample, startLatencySampler, summarizeLatencyUnderLoad } from '../latency-under-load';
+
+jest.mock('@/lib/utils/shell', () => ({
+  safePing: jest.fn(),
+}));
+
+import { safePing } from '@/lib/utils/shell';
+
+const mockSafePing = safePing as jest.MockedFunction<typeof safePing>;
+
+const phases = {
+  pingMs: 12,
+  downloadElapsedMs: 10000,
+  uploadElapsedMs: 10000,
+};
+
+// Finished at 30s: idle before 10s, download 10-20s, upload 20-30s
+const finishedAt = 30000;
+
+const sample = (at: number, latencyMs: number | null): LatencySample => ({ at, latencyMs });
+
+describe('latency-under-load', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startLatencySampler', () => {
+    it('should ping the target until stopped', async () => {
+      mockSafePing
+        .mockResolvedValueOnce({ stdout: '64 bytes from 1.1.1.1: icmp_seq=1 ttl=58 time=11.2 ms' })
+        .mockRejectedValueOnce(new Error('Ping failed with code 1: timeout or unreachable'))
+        .mockResolvedValue({ stdout: '64 bytes from 1.1.1.1: icmp_seq=1 ttl=58 time=48.5 ms' });
+
+      const sampler = startLatencySampler('1.1.1.1', 1);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const samples = await sampler.stop();
+
+      expect(mockSafePing).toHaveBeenCalledWith('1.1.1.1', { timeoutMs: 1000 });
+      expect(samples.length).toBeGreaterThanOrEqual(3);
+      expect(samples.slice(0, 3).map(s => s.latencyMs)).toEqual([11.2, null, 48.5]);
+      expect(samples[0]!.at).toEqual(expect.any(Number));
+    });
+
+    it('should stop probing once stopped', async () => {
+      mockSafePing.mockResolvedValue({ stdout: 'time=10 ms' });
+
+      const sampler = startLatencySampler('1.1.1.1', 1000);
+      const samples = await sampler.stop();
+      const calls = mockSafePing.mock.calls.length;
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(samples).toHaveLength(1);
+      expect(mockSafePing).toHaveBeenCalledTimes(calls);
+      expect(await sampler.stop()).toBe(samples);
+    });
+  });
+
+  describe('summarizeLatencyUnderLoad', () => {
+    it('should take the median latency of each phase', () => {
+      const samples = [
+        sample(1000, 10), sample(2000, 12), sample(3000, 30),
+        sample(11000, 80), sample(12000, 90), sample(13000, null),
+        sample(21000, 40), sample(22000, 50), sample(23000, 45), sample(24000, 41),
+      ];
+
+      expect(summarizeLatencyUnderLoad(samples, finishedAt, phases)).toEqual({
+        idleLatencyMs: 12,
+        downloadLatencyMs: 85,
+        uploadLatencyMs: 43,
+        bufferbloatGrade: 'C',
+      });
+    });
+
+    it('should fall back to the speed test figures without replies', () => {
+      expect(summarizeLatencyUnderLoad([sample(1000, null)], finishedAt, {
+        ...phases,
+        ooklaDownloadLatencyMs: 20,
+        ooklaUploadLatencyMs: 35,
+      })).toEqual({
+        idleLatencyMs: 12,
+        downloadLatencyMs: 20,
+        uploadLatencyMs: 35,
+        bufferbloatGrade: 'A',
+      });
+    });
+
+    it('should not grade without any loaded latency', () => {
+      expect(summarizeLatencyUnderLoad([], finishedAt, phases)).toEqual({
+        idleLatencyMs: 12,
+        downloadLatencyMs: null,
+        uploadLatencyMs: null,
+        bufferbloatGrade: null,
+      });
+    });
+  });
+
+  describe('gradeBufferbloat', () => {
+    it.each([
+      [14, 'A+'],
+      [40, 'A'],
+      [70, 'B'],
+      [200, 'C'],
+      [411, 'D'],
+      [412, 'F'],
+    ])('should grade %d ms under load against 12 ms idle as %s', (loaded, grade) => {
+      expect(gradeBufferbloat(12, loaded, null)).toBe(grade);
+    });
+
+    it('should grade the worse of download and upload', () => {
+      expect(gradeBufferbloat(12, 15, 90)).toBe('C');
+    });
+
+    it('should not grade without loaded latency', () => {
+      expect(gradeBufferbloat(12, null, null)).toBeNull();
+    });
+  });
+});
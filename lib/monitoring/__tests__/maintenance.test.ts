@@ -0,0 +1,216 @@
+/**
+ * Tests for maintenance.ts
+ *
+ * Tests maintenance windows including:
+ * - One-off, daily and weekly occurrences
+ * - Keeping recurring windows at the same local time
+ * - Which windows cover the connection, a target or a group
+ * - Loading the windows in progress
+ */
+
+import {
+  ActiveMaintenance,
+  findMaintenance,
+  getActiveMaintenance,
+  getOccurrenceAt,
+  getOccurrencesBetween,
+} from '../maintenance';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    maintenanceWindow: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    warn: jest.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+
+// Local times, so the tests hold in any time zone
+const local = (month: number, day: number, hour: number, minute = 0) =>
+  new Date(2026, month - 1, day, hour, minute);
+
+// Sunday 4 October 2026, 4am - the weekly router reboot
+const routerReboot = {
+  startTime: local(10, 4, 4),
+  durationMin: 15,
+  recurrence: 'weekly',
+  repeatUntil: null,
+};
+
+describe('getOccurrencesBetween', () => {
+  it('should return a one-off window overlapping the period', () => {
+    const ispNight = { startTime: local(10, 14, 0), durationMin: 240, recurrence: 'none', repeatUntil: null };
+
+    expect(getOccurrencesBetween(ispNight, local(10, 13, 12), local(10, 14, 12))).toEqual([
+      { start: local(10, 14, 0), end: local(10, 14, 4) },
+    ]);
+    expect(getOccurrencesBetween(ispNight, local(10, 14, 4), local(10, 15, 0))).toEqual([]);
+  });
+
+  it('should repeat a weekly window every seven days', () => {
+    const occurrences = getOccurrencesBetween(routerReboot, local(10, 1, 0), local(10, 26, 0));
+
+    expect(occurrences).toEqual([
+      { start: local(10, 4, 4), end: local(10, 4, 4, 15) },
+      { start: local(10, 11, 4), end: local(10, 11, 4, 15) },
+      { start: local(10, 18, 4), end: local(10, 18, 4, 15) },
+      { start: local(10, 25, 4), end: local(10, 25, 4, 15) },
+    ]);
+  });
+
+  it('should repeat a daily window every day', () => {
+    const backup = { startTime: local(10, 1, 2), durationMin: 30, recurrence: 'daily', repeatUntil: null };
+
+    expect(getOccurrencesBetween(backup, local(10, 10, 0), local(10, 12, 0))).toHaveLength(2);
+  });
+
+  it('should keep a recurring window at the same local time across daylight saving changes', () => {
+    const occurrences = getOccurrencesBetween(routerReboot, local(12, 1, 0), local(12, 8, 0));
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0]?.start.getHours()).toBe(4);
+    expect(occurrences[0]?.start.getDay()).toBe(0);
+  });
+
+  it('should include an occurrence still in progress at the start of the period', () => {
+    expect(getOccurrencesBetween(routerReboot, local(10, 11, 4, 10), local(10, 11, 5))).toEqual([
+      { start: local(10, 11, 4), end: local(10, 11, 4, 15) },
+    ]);
+  });
+
+  it('should stop repeating after the end date', () => {
+    const limited = { ...routerReboot, repeatUntil: local(10, 12, 0) };
+
+    expect(getOccurrencesBetween(limited, local(10, 1, 0), local(10, 26, 0))).toHaveLength(2);
+  });
+
+  it('should return nothing before the first occurrence', () => {
+    expect(getOccurrencesBetween(routerReboot, local(9, 1, 0), local(10, 1, 0))).toEqual([]);
+  });
+});
+
+describe('getOccurrenceAt', () => {
+  it('should return the occurrence in progress', () => {
+    expect(getOccurrenceAt(routerReboot, local(10, 18, 4, 5))).toEqual({
+      start: local(10, 18, 4),
+      end: local(10, 18, 4, 15),
+    });
+  });
+
+  it('should return null outside the window', () => {
+    expect(getOccurrenceAt(routerReboot, local(10, 18, 4, 15))).toBeNull();
+    expect(getOccurrenceAt(routerReboot, local(10, 19, 4, 5))).toBeNull();
+  });
+});
+
+describe('findMaintenance', () => {
+  const window = (overrides: Partial<ActiveMaintenance>): ActiveMaintenance => ({
+    id: 1,
+    description: 'Maintenance',
+    targetId: null,
+    groupId: null,
+    groupTargetIds: [],
+    start: local(10, 18, 4),
+    end: local(10, 18, 4, 15),
+    ...overrides,
+  });
+
+  it('should let a window without a scope cover everything', () => {
+    const windows = [window({})];
+
+    expect(findMaintenance(windows)).toBe(windows[0]);
+    expect(findMaintenance(windows, { targetId: 3 })).toBe(windows[0]);
+    expect(findMaintenance(windows, { groupId: 2 })).toBe(windows[0]);
+  });
+
+  it('should only cover its own target with a target window', () => {
+    const windows = [window({ targetId: 3 })];
+
+    expect(findMaintenance(windows, { targetId: 3 })).toBe(windows[0]);
+    expect(findMaintenance(windows, { targetId: 4 })).toBeNull();
+    expect(findMaintenance(windows)).toBeNull();
+  });
+
+  it('should cover a group and its member targets with a group window', () => {
+    const windows = [window({ groupId: 2, groupTargetIds: [3] })];
+
+    expect(findMaintenance(windows, { groupId: 2 })).toBe(windows[0]);
+    expect(findMaintenance(windows, { targetId: 3 })).toBe(windows[0]);
+    expect(findMaintenance(windows, { groupId: 5 })).toBeNull();
+    expect(findMaintenance(windows)).toBeNull();
+  });
+});
+
+describe('getActiveMaintenance', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load enabled windows that have started', async () => {
+    (prisma.maintenanceWindow.findMany as jest.Mock).mockResolvedValue([]);
+    const time = local(10, 18, 4, 5);
+
+    await getActiveMaintenance(time);
+
+    expect(prisma.maintenanceWindow.findMany).toHaveBeenCalledWith({
+      where: { isEnabled: true, startTime: { lte: time } },
+      include: { group: { select: { targets: { select: { id: true } } } } },
+    });
+  });
+
+  it('should return the windows in progress with their scope', async () => {
+    (prisma.maintenanceWindow.findMany as jest.Mock).mockResolvedValue([
+      { id: 1, description: 'Router reboot', targetId: null, groupId: null, group: null, ...routerReboot },
+      {
+        id: 2,
+        description: 'VPN maintenance',
+        targetId: null,
+        groupId: 2,
+        group: { targets: [{ id: 11 }, { id: 12 }] },
+        startTime: local(10, 18, 3),
+        durationMin: 120,
+        recurrence: 'none',
+        repeatUntil: null,
+      },
+      { id: 3, description: 'ISP night', targetId: null, groupId: null, group: null, ...routerReboot, startTime: local(10, 4, 1) },
+    ]);
+
+    expect(await getActiveMaintenance(local(10, 18, 4, 5))).toEqual([
+      {
+        id: 1,
+        description: 'Router reboot',
+        targetId: null,
+        groupId: null,
+        groupTargetIds: [],
+        start: local(10, 18, 4),
+        end: local(10, 18, 4, 15),
+      },
+      {
+        id: 2,
+        description: 'VPN maintenance',
+        targetId: null,
+        groupId: 2,
+        groupTargetIds: [11, 12],
+        start: local(10, 18, 3),
+        end: local(10, 18, 5),
+      },
+    ]);
+  });
+
+  it('should warn and treat nothing as planned on database errors', async () => {
+    (prisma.maintenanceWindow.findMany as jest.Mock).mockRejectedValue(new Error('Database locked'));
+
+    expect(await getActiveMaintenance(local(10, 18, 4, 5))).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith('Failed to load maintenance windows', {
+      error: 'Database locked',
+    });
+  });
+});
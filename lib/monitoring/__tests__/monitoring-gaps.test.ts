@@ -0,0 +1,198 @@
+/**
+ * Tests for monitoring-gaps.ts
+ *
+ * Tests monitoring gap detection including:
+ * - Recording the heartbeat
+ * - Recording a gap after a long silence, but not after a restart
+ * - Falling back to the newest check without a heartbeat
+ * - Closing the outage left open when monitoring stopped
+ * - Error handling
+ */
+
+import { reconcileMonitoringGap, recordHeartbeat } from '../monitoring-gaps';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    monitorHeartbeat: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    connectionCheck: {
+      findFirst: jest.fn(),
+    },
+    monitoringGap: {
+      create: jest.fn(),
+    },
+    outage: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    warn: jest.fn(),
+    logOutage: jest.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const minutesBefore = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+describe('recordHeartbeat', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write the single heartbeat row', async () => {
+    await recordHeartbeat(now);
+
+    expect(prisma.monitorHeartbeat.upsert).toHaveBeenCalledWith({
+      where: { id: 1 },
+      create: { id: 1, timestamp: now },
+      update: { timestamp: now },
+    });
+  });
+
+  it('should warn instead of throwing on database errors', async () => {
+    (prisma.monitorHeartbeat.upsert as jest.Mock).mockRejectedValue(new Error('Database locked'));
+
+    await expect(recordHeartbeat(now)).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to record monitoring heartbeat', {
+      error: 'Database locked',
+    });
+  });
+});
+
+describe('reconcileMonitoringGap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (prisma.monitorHeartbeat.findUnique as jest.Mock).mockResolvedValue({ id: 1, timestamp: minutesBefore(90) });
+    (prisma.connectionCheck.findFirst as jest.Mock).mockResolvedValue({ timestamp: minutesBefore(91) });
+    (prisma.monitoringGap.create as jest.Mock).mockResolvedValue({ id: 7 });
+    (prisma.outage.findFirst as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should record a gap from the last heartbeat to now', async () => {
+    await reconcileMonitoringGap(300, now);
+
+    expect(prisma.monitoringGap.create).toHaveBeenCalledWith({
+      data: {
+        startTime: minutesBefore(90),
+        endTime: now,
+        durationSec: 5400,
+      },
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Monitoring was not running - recorded a monitoring gap', {
+      monitoringGapId: 7,
+      startTime: minutesBefore(90).toISOString(),
+      endTime: now.toISOString(),
+      durationSec: 5400,
+    });
+  });
+
+  it('should start the gap at a check newer than the heartbeat', async () => {
+    (prisma.connectionCheck.findFirst as jest.Mock).mockResolvedValue({ timestamp: minutesBefore(89.5) });
+
+    await reconcileMonitoringGap(300, now);
+
+    expect(prisma.monitoringGap.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ startTime: minutesBefore(89.5), durationSec: 5370 }),
+    });
+  });
+
+  it('should not record a gap after a quick restart', async () => {
+    (prisma.monitorHeartbeat.findUnique as jest.Mock).mockResolvedValue({ id: 1, timestamp: minutesBefore(2) });
+
+    await reconcileMonitoringGap(300, now);
+
+    expect(prisma.monitoringGap.create).not.toHaveBeenCalled();
+    expect(prisma.outage.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should not record a gap before anything was monitored', async () => {
+    (prisma.monitorHeartbeat.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.connectionCheck.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await reconcileMonitoringGap(300, now);
+
+    expect(prisma.monitoringGap.create).not.toHaveBeenCalled();
+  });
+
+  it('should allow two check intervals of silence without a heartbeat', async () => {
+    (prisma.monitorHeartbeat.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.connectionCheck.findFirst as jest.Mock).mockResolvedValue({ timestamp: minutesBefore(8) });
+
+    await reconcileMonitoringGap(300, now);
+    expect(prisma.monitoringGap.create).not.toHaveBeenCalled();
+
+    (prisma.connectionCheck.findFirst as jest.Mock).mockResolvedValue({ timestamp: minutesBefore(11) });
+
+    await reconcileMonitoringGap(300, now);
+    expect(prisma.monitoringGap.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ startTime: minutesBefore(11), durationSec: 660 }),
+    });
+  });
+
+  it('should close an open outage when the gap starts', async () => {
+    (prisma.outage.findFirst as jest.Mock).mockResolvedValue({
+      id: 3,
+      startTime: minutesBefore(100),
+      startLastGoodAt: minutesBefore(100.5),
+    });
+
+    await reconcileMonitoringGap(300, now);
+
+    expect(prisma.outage.findFirst).toHaveBeenCalledWith({ where: { isResolved: false } });
+    expect(prisma.outage.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        endTime: minutesBefore(90),
+        durationSec: 600,
+        conservativeDurationSec: 600,
+        estimatedDurationSec: 615,
+        isResolved: true,
+      },
+    });
+    expect(logger.logOutage).toHaveBeenCalledWith('resolved', '3', 600, {
+      startTime: minutesBefore(100).toISOString(),
+      endTime: minutesBefore(90).toISOString(),
+      reason: 'monitoring_gap',
+    });
+  });
+
+  it('should not end an outage before it started', async () => {
+    (prisma.outage.findFirst as jest.Mock).mockResolvedValue({
+      id: 3,
+      startTime: minutesBefore(85),
+      startLastGoodAt: null,
+    });
+
+    await reconcileMonitoringGap(300, now);
+
+    expect(prisma.outage.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        endTime: minutesBefore(85),
+        durationSec: 0,
+        conservativeDurationSec: 0,
+        estimatedDurationSec: 0,
+        isResolved: true,
+      },
+    });
+  });
+
+  it('should warn instead of throwing on database errors', async () => {
+    (prisma.monitorHeartbeat.findUnique as jest.Mock).mockRejectedValue(new Error('Database locked'));
+
+    await expect(reconcileMonitoringGap(300, now)).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to check for a monitoring gap', {
+      error: 'Database locked',
+    });
+  });
+});
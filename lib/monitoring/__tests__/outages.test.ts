@@ -0,0 +1,608 @@
+/**
+ * Tests for outages.ts
+ *
+ * Tests manual outage changes including:
+ * - Editing times, exclusion from statistics and annotations
+ * - Merging adjacent outages
+ * - Splitting an outage in two
+ * - Deleting outages
+ * - Recording every change in the audit trail
+ */
+
+import {
+  deleteOutage,
+  getOutageAudit,
+  loadOutage,
+  mergeOutages,
+  splitOutage,
+  toOutage,
+  updateOutage,
+} from '../outages';
+
+jest.mock('@/lib/db', () => {
+  const prisma = {
+    outage: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    outagePath: {
+      updateMany: jest.fn(),
+    },
+    outageAudit: {
+      create: jest.fn(),
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  return { prisma };
+});
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+
+const mockFindUnique = prisma.outage.findUnique as jest.Mock;
+const mockFindFirst = prisma.outage.findFirst as jest.Mock;
+const mockFindMany = prisma.outage.findMany as jest.Mock;
+const mockCreate = prisma.outage.create as jest.Mock;
+const mockUpdate = prisma.outage.update as jest.Mock;
+const mockDelete = prisma.outage.delete as jest.Mock;
+const mockDeleteMany = prisma.outage.deleteMany as jest.Mock;
+const mockPathUpdateMany = prisma.outagePath.updateMany as jest.Mock;
+const mockAuditCreate = prisma.outageAudit.create as jest.Mock;
+const mockAuditCreateMany = prisma.outageAudit.createMany as jest.Mock;
+const mockAuditFindMany = prisma.outageAudit.findMany as jest.Mock;
+const mockTransaction = prisma.$transaction as jest.Mock;
+
+const NOW = new Date('2026-10-02T12:00:00Z');
+
+const outageRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  startTime: new Date('2026-10-01T10:00:00Z'),
+  endTime: new Date('2026-10-01T10:30:00Z'),
+  durationSec: 1800,
+  startLastGoodAt: new Date('2026-10-01T09:59:30Z'),
+  endLastBadAt: new Date('2026-10-01T10:29:30Z'),
+  conservativeDurationSec: 1770,
+  estimatedDurationSec: 1800,
+  isResolved: true,
+  checksCount: 60,
+  emailSent: true,
+  classification: 'upstream',
+  rootCause: null,
+  notes: null,
+  ispTicket: null,
+  isExcluded: false,
+  isPlanned: false,
+  tags: [] as Array<{ tag: string }>,
+  ...overrides,
+});
+
+/**
+ * Audit details written by the last create or createMany call
+ */
+const auditDetails = (mock: jest.Mock, index = 0) => {
+  const data = mock.mock.calls[mock.mock.calls.length - 1][0].data;
+  return JSON.parse((Array.isArray(data) ? data[index] : data).details);
+};
+
+describe('outages', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    mockFindFirst.mockResolvedValue(null);
+    mockUpdate.mockResolvedValue({});
+    mockCreate.mockImplementation(({ data }) => Promise.resolve({ id: 9, ...data }));
+    mockTransaction.mockImplementation(operations =>
+      typeof operations === 'function' ? operations(prisma) : Promise.all(operations)
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('toOutage', () => {
+    it('should flatten tags and the path count', () => {
+      expect(toOutage({ ...outageRow({ tags: [{ tag: 'storm' }] }), _count: { paths: 2 } })).toEqual({
+        id: 5,
+        startTime: new Date('2026-10-01T10:00:00Z'),
+        endTime: new Date('2026-10-01T10:30:00Z'),
+        durationSec: 1800,
+        startLastGoodAt: new Date('2026-10-01T09:59:30Z'),
+        endLastBadAt: new Date('2026-10-01T10:29:30Z'),
+        estimatedStartTime: new Date('2026-10-01T09:59:45Z'),
+        estimatedEndTime: new Date('2026-10-01T10:29:45Z'),
+        conservativeDurationSec: 1770,
+        estimatedDurationSec: 1800,
+        isResolved: true,
+        checksCount: 60,
+        emailSent: true,
+        classification: 'upstream',
+        rootCause: null,
+        notes: null,
+        ispTicket: null,
+        tags: ['storm'],
+        isExcluded: false,
+        isPlanned: false,
+        pathCount: 2,
+      });
+    });
+  });
+
+  describe('loadOutage', () => {
+    it('should return null for an unknown outage', async () => {
+      mockFindUnique.mockResolvedValue(null);
+
+      expect(await loadOutage(404)).toBeNull();
+    });
+
+    it('should load tags and the path count', async () => {
+      mockFindUnique.mockResolvedValue({ ...outageRow(), _count: { paths: 1 } });
+
+      const outage = await loadOutage(5);
+
+      expect(mockFindUnique).toHaveBeenCalledWith({
+        where: { id: 5 },
+        include: {
+          tags: { orderBy: { id: 'asc' } },
+          _count: { select: { paths: true } },
+        },
+      });
+      expect(outage?.pathCount).toBe(1);
+    });
+  });
+
+  describe('getOutageAudit', () => {
+    it('should parse the details of one outage\'s entries', async () => {
+      mockAuditFindMany.mockResolvedValue([
+        { id: 1, outageId: 5, timestamp: NOW, action: 'deleted', userEmail: 'admin@example.com', details: '{"before":{}}' },
+      ]);
+
+      const entries = await getOutageAudit(5);
+
+      expect(mockAuditFindMany).toHaveBeenCalledWith({
+        where: { outageId: 5 },
+        orderBy: { timestamp: 'desc' },
+        take: 200,
+      });
+      expect(entries).toEqual([
+        { id: 1, outageId: 5, timestamp: NOW, action: 'deleted', userEmail: 'admin@example.com', details: { before: {} } },
+      ]);
+    });
+
+    it('should list entries of every outage without an id', async () => {
+      mockAuditFindMany.mockResolvedValue([]);
+
+      await getOutageAudit();
+
+      expect(mockAuditFindMany).toHaveBeenCalledWith(expect.objectContaining({ where: {} }));
+    });
+  });
+
+  describe('updateOutage', () => {
+    beforeEach(() => {
+      mockFindUnique.mockResolvedValue(outageRow());
+    });
+
+    it('should report an unknown outage', async () => {
+      mockFindUnique.mockResolvedValue(null);
+
+      expect(await updateOutage(404, { isExcluded: true })).toEqual({
+        success: false,
+        status: 404,
+        error: 'Outage not found',
+      });
+    });
+
+    it('should move the start time and record the changed fields', async () => {
+      const startTime = new Date('2026-10-01T10:10:00Z');
+
+      const result = await updateOutage(5, { startTime }, 'admin@example.com');
+
+      expect(result).toEqual({ success: true, outageIds: [5] });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: {
+          startTime,
+          endTime: new Date('2026-10-01T10:30:00Z'),
+          // The new start is taken as exact; the end keeps its bounds
+          startLastGoodAt: null,
+          endLastBadAt: new Date('2026-10-01T10:29:30Z'),
+          durationSec: 1200,
+          conservativeDurationSec: 1170,
+          estimatedDurationSec: 1185,
+          rootCause: null,
+          notes: null,
+          ispTicket: null,
+          isExcluded: false,
+        },
+      });
+      expect(mockAuditCreate.mock.calls[0][0].data).toMatchObject({
+        outageId: 5,
+        action: 'updated',
+        userEmail: 'admin@example.com',
+      });
+      expect(auditDetails(mockAuditCreate)).toEqual({
+        changes: {
+          startTime: { from: '2026-10-01T10:00:00.000Z', to: '2026-10-01T10:10:00.000Z' },
+          durationSec: { from: 1800, to: 1200 },
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Outage updated: #5', {
+        fields: 'startTime,durationSec',
+        userEmail: 'admin@example.com',
+      });
+    });
+
+    it('should reject an end time before the start', async () => {
+      const result = await updateOutage(5, { endTime: new Date('2026-10-01T09:00:00Z') });
+
+      expect(result).toEqual({ success: false, status: 400, error: 'End time must be after start time' });
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject times in the future', async () => {
+      const result = await updateOutage(5, { endTime: new Date('2026-10-03T00:00:00Z') });
+
+      expect(result).toEqual({ success: false, status: 400, error: 'Outage times cannot be in the future' });
+    });
+
+    it('should not let an edit overlap another outage', async () => {
+      mockFindFirst.mockResolvedValue(outageRow({ id: 4 }));
+      const endTime = new Date('2026-10-01T11:00:00Z');
+
+      const result = await updateOutage(5, { endTime });
+
+      expect(mockFindFirst).toHaveBeenCalledWith({
+        where: {
+          id: { notIn: [5] },
+          startTime: { lt: endTime },
+          OR: [
+            { endTime: null },
+            { endTime: { gt: new Date('2026-10-01T10:00:00Z') } },
+          ],
+        },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(result).toEqual({ success: false, status: 409, error: 'The outage would overlap outage #4' });
+    });
+
+    it('should leave the end of an outage in progress to the checker', async () => {
+      mockFindUnique.mockResolvedValue(outageRow({ isResolved: false, endTime: null, durationSec: null }));
+
+      expect(await updateOutage(5, { endTime: new Date('2026-10-01T11:00:00Z') })).toEqual({
+        success: false,
+        status: 409,
+        error: 'An outage still in progress cannot be given an end time',
+      });
+    });
+
+    it('should move the start of an outage in progress', async () => {
+      mockFindUnique.mockResolvedValue(outageRow({ isResolved: false, endTime: null, durationSec: null }));
+      const startTime = new Date('2026-10-01T09:55:00Z');
+
+      const result = await updateOutage(5, { startTime });
+
+      expect(result.success).toBe(true);
+      expect(mockFindFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.not.objectContaining({ startTime: expect.anything() }),
+      }));
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({ startTime, endTime: null, durationSec: null });
+    });
+
+    it('should exclude an outage from statistics', async () => {
+      await updateOutage(5, { isExcluded: true });
+
+      expect(mockUpdate.mock.calls[0][0].data.isExcluded).toBe(true);
+      expect(auditDetails(mockAuditCreate)).toEqual({
+        changes: { isExcluded: { from: false, to: true } },
+      });
+      expect(mockFindFirst).not.toHaveBeenCalled();
+    });
+
+    it('should replace tags and set annotations', async () => {
+      mockFindUnique.mockResolvedValue(outageRow({ tags: [{ tag: 'storm' }] }));
+
+      await updateOutage(5, { rootCause: 'isp', ispTicket: 'INC-1', tags: ['fibre-cut'] });
+
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({
+        rootCause: 'isp',
+        ispTicket: 'INC-1',
+        tags: {
+          deleteMany: {},
+          create: [{ tag: 'fibre-cut' }],
+        },
+      });
+      expect(auditDetails(mockAuditCreate).changes.tags).toEqual({ from: ['storm'], to: ['fibre-cut'] });
+    });
+
+    it('should write nothing when nothing changes', async () => {
+      mockFindUnique.mockResolvedValue(outageRow({ notes: 'Router reboot', tags: [{ tag: 'storm' }] }));
+
+      const result = await updateOutage(5, { notes: 'Router reboot', tags: ['storm'], isExcluded: false });
+
+      expect(result).toEqual({ success: true, outageIds: [5] });
+      expect(mockTransaction).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeOutages', () => {
+    const first = outageRow({
+      id: 5,
+      notes: 'Modem restarted',
+      tags: [{ tag: 'storm' }],
+    });
+    const second = outageRow({
+      id: 6,
+      startTime: new Date('2026-10-01T10:32:00Z'),
+      endTime: new Date('2026-10-01T10:45:00Z'),
+      durationSec: 780,
+      startLastGoodAt: new Date('2026-10-01T10:31:30Z'),
+      endLastBadAt: new Date('2026-10-01T10:44:30Z'),
+      checksCount: 26,
+      emailSent: false,
+      classification: 'local',
+      rootCause: 'isp',
+      notes: 'Came back briefly',
+      ispTicket: 'INC-7',
+      tags: [{ tag: 'storm' }, { tag: 'fibre-cut' }],
+    });
+
+    beforeEach(() => {
+      mockFindMany.mockResolvedValue([first, second]);
+    });
+
+    it('should need at least two outages', async () => {
+      expect(await mergeOutages([5, 5])).toEqual({
+        success: false,
+        status: 400,
+        error: 'Select at least two outages to merge',
+      });
+      expect(mockFindMany).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown outages', async () => {
+      mockFindMany.mockResolvedValue([first]);
+
+      expect(await mergeOutages([5, 404])).toEqual({ success: false, status: 404, error: 'Outage not found' });
+    });
+
+    it('should not merge an outage in progress', async () => {
+      mockFindMany.mockResolvedValue([first, { ...second, isResolved: false, endTime: null }]);
+
+      expect(await mergeOutages([5, 6])).toEqual({
+        success: false,
+        status: 409,
+        error: 'An outage still in progress cannot be merged',
+      });
+    });
+
+    it('should only merge adjacent outages', async () => {
+      mockFindFirst.mockResolvedValue(outageRow({ id: 8 }));
+
+      const result = await mergeOutages([5, 6]);
+
+      expect(mockFindFirst).toHaveBeenCalledWith({
+        where: {
+          id: { notIn: [5, 6] },
+          startTime: { gte: first.startTime, lte: second.endTime },
+        },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(result).toEqual({
+        success: false,
+        status: 409,
+        error: 'Only adjacent outages can be merged - outage #8 lies between them',
+      });
+    });
+
+    it('should merge into the earliest outage', async () => {
+      const result = await mergeOutages([6, 5], 'admin@example.com');
+
+      expect(result).toEqual({ success: true, outageIds: [5] });
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: { id: { in: [6, 5] } },
+        orderBy: { startTime: 'asc' },
+        include: { tags: { orderBy: { id: 'asc' } } },
+      });
+      expect(mockPathUpdateMany).toHaveBeenCalledWith({
+        where: { outageId: { in: [6] } },
+        data: { outageId: 5 },
+      });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: {
+          endTime: new Date('2026-10-01T10:45:00Z'),
+          endLastBadAt: new Date('2026-10-01T10:44:30Z'),
+          durationSec: 2700,
+          conservativeDurationSec: 2670,
+          estimatedDurationSec: 2700,
+          checksCount: 86,
+          emailSent: true,
+          classification: 'upstream',
+          rootCause: 'isp',
+          notes: 'Modem restarted\n\nCame back briefly',
+          ispTicket: 'INC-7',
+          isExcluded: false,
+          isPlanned: false,
+          tags: {
+            deleteMany: {},
+            create: [{ tag: 'storm' }, { tag: 'fibre-cut' }],
+          },
+        },
+      });
+      expect(mockDeleteMany).toHaveBeenCalledWith({ where: { id: { in: [6] } } });
+      expect(auditDetails(mockAuditCreateMany, 0)).toMatchObject({ mergedOutageIds: [6] });
+      expect(auditDetails(mockAuditCreateMany, 0).before).toHaveLength(2);
+      expect(auditDetails(mockAuditCreateMany, 1)).toMatchObject({ mergedInto: 5 });
+      expect(mockAuditCreateMany.mock.calls[0][0].data[1]).toMatchObject({ outageId: 6, action: 'merged' });
+      expect(logger.info).toHaveBeenCalledWith('Outages merged into #5', {
+        mergedOutageIds: '6',
+        userEmail: 'admin@example.com',
+      });
+    });
+
+    it('should keep the merged outage excluded or planned only if every part was', async () => {
+      mockFindMany.mockResolvedValue([
+        { ...first, isExcluded: true, isPlanned: true, notes: null },
+        { ...second, isExcluded: true, isPlanned: true, notes: null, ispTicket: null },
+      ]);
+
+      await mergeOutages([5, 6]);
+
+      expect(mockUpdate.mock.calls[0][0].data).toMatchObject({
+        isExcluded: true,
+        isPlanned: true,
+        notes: null,
+        ispTicket: null,
+      });
+    });
+  });
+
+  describe('splitOutage', () => {
+    beforeEach(() => {
+      mockFindUnique.mockResolvedValue(outageRow({ rootCause: 'power', tags: [{ tag: 'storm' }] }));
+    });
+
+    it('should report an unknown outage', async () => {
+      mockFindUnique.mockResolvedValue(null);
+
+      expect((await splitOutage(404, NOW)).success).toBe(false);
+    });
+
+    it('should not split an outage in progress', async () => {
+      mockFindUnique.mockResolvedValue(outageRow({ isResolved: false, endTime: null }));
+
+      expect(await splitOutage(5, new Date('2026-10-01T10:10:00Z'))).toEqual({
+        success: false,
+        status: 409,
+        error: 'An outage still in progress cannot be split',
+      });
+    });
+
+    it.each([
+      ['at the start', '2026-10-01T10:00:00Z', undefined],
+      ['after the end', '2026-10-01T10:40:00Z', undefined],
+      ['resuming before the split', '2026-10-01T10:10:00Z', '2026-10-01T10:05:00Z'],
+      ['resuming at the end', '2026-10-01T10:10:00Z', '2026-10-01T10:30:00Z'],
+    ])('should reject a split %s', async (_, splitAt, resumeAt) => {
+      const result = await splitOutage(5, new Date(splitAt), resumeAt ? new Date(resumeAt) : undefined);
+
+      expect(result).toMatchObject({ success: false, status: 400 });
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should split into two outages with a gap between them', async () => {
+      const splitAt = new Date('2026-10-01T10:10:00Z');
+      const resumeAt = new Date('2026-10-01T10:15:00Z');
+
+      const result = await splitOutage(5, splitAt, resumeAt, 'admin@example.com');
+
+      expect(result).toEqual({ success: true, outageIds: [5, 9] });
+      // 600s and 900s of the outage - the 60 checks are shared out 24 / 36
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          startTime: resumeAt,
+          endTime: new Date('2026-10-01T10:30:00Z'),
+          endLastBadAt: new Date('2026-10-01T10:29:30Z'),
+          durationSec: 900,
+          conservativeDurationSec: 870,
+          estimatedDurationSec: 885,
+          isResolved: true,
+          checksCount: 36,
+          emailSent: true,
+          classification: 'upstream',
+          rootCause: 'power',
+          notes: null,
+          ispTicket: null,
+          isExcluded: false,
+          isPlanned: false,
+          tags: { create: [{ tag: 'storm' }] },
+        },
+      });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: {
+          endTime: splitAt,
+          endLastBadAt: null,
+          durationSec: 600,
+          conservativeDurationSec: 600,
+          estimatedDurationSec: 615,
+          checksCount: 24,
+        },
+      });
+      expect(mockPathUpdateMany).toHaveBeenCalledWith({
+        where: { outageId: 5, timestamp: { gte: resumeAt } },
+        data: { outageId: 9 },
+      });
+      expect(auditDetails(mockAuditCreateMany, 0)).toMatchObject({
+        splitAt: '2026-10-01T10:10:00.000Z',
+        resumeAt: '2026-10-01T10:15:00.000Z',
+        newOutageId: 9,
+      });
+      expect(auditDetails(mockAuditCreateMany, 1)).toEqual({ splitFrom: 5 });
+      expect(logger.info).toHaveBeenCalledWith('Outage split: #5', {
+        newOutageId: 9,
+        userEmail: 'admin@example.com',
+      });
+    });
+
+    it('should resume at the split time by default', async () => {
+      const splitAt = new Date('2026-10-01T10:20:00Z');
+
+      await splitOutage(5, splitAt);
+
+      expect(mockCreate.mock.calls[0][0].data).toMatchObject({ startTime: splitAt, durationSec: 600, checksCount: 20 });
+    });
+  });
+
+  describe('deleteOutage', () => {
+    it('should report an unknown outage', async () => {
+      mockFindUnique.mockResolvedValue(null);
+
+      expect((await deleteOutage(404)).success).toBe(false);
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
+    it('should not delete an outage in progress', async () => {
+      mockFindUnique.mockResolvedValue(outageRow({ isResolved: false, endTime: null }));
+
+      expect(await deleteOutage(5)).toEqual({
+        success: false,
+        status: 409,
+        error: 'An outage still in progress cannot be deleted',
+      });
+    });
+
+    it('should delete the outage and keep its values in the audit trail', async () => {
+      mockFindUnique.mockResolvedValue(outageRow());
+
+      const result = await deleteOutage(5, 'admin@example.com');
+
+      expect(result).toEqual({ success: true, outageIds: [] });
+      expect(mockDelete).toHaveBeenCalledWith({ where: { id: 5 } });
+      expect(mockAuditCreate.mock.calls[0][0].data).toMatchObject({ outageId: 5, action: 'deleted' });
+      expect(auditDetails(mockAuditCreate).before).toMatchObject({
+        startTime: '2026-10-01T10:00:00.000Z',
+        durationSec: 1800,
+      });
+      expect(logger.info).toHaveBeenCalledWith('Outage deleted: #5', { userEmail: 'admin@example.com' });
+    });
+  });
+});
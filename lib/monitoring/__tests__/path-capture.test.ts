@@ -0,0 +1,145 @@
+/**
+ * Tests for path-capture.ts
+ *
+ * Tests outage path capture including:
+ * - Parsing traceroute and busybox hop lines
+ * - Hops that did not answer
+ * - Storing captured paths and failed traceroutes
+ */
+
+import { captureOutagePath, parseTracerouteOutput } from '../path-capture';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    outagePath: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/utils/shell', () => ({
+  safeTraceroute: jest.fn(),
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { safeTraceroute } from '@/lib/utils/shell';
+
+const mockSafeTraceroute = safeTraceroute as jest.MockedFunction<typeof safeTraceroute>;
+
+const TRACEROUTE_OUTPUT = [
+  'traceroute to 8.8.8.8 (8.8.8.8), 20 hops max, 60 byte packets',
+  ' 1  192.168.1.1  0.512 ms',
+  ' 2  *',
+  ' 3  100.64.0.1  9.871 ms !H',
+  '',
+].join('\n');
+
+describe('parseTracerouteOutput', () => {
+  it('should parse the address and round trip time of each hop', () => {
+    const hops = parseTracerouteOutput(TRACEROUTE_OUTPUT);
+
+    expect(hops[0]).toEqual({ hop: 1, address: '192.168.1.1', rttMs: 0.512 });
+    expect(hops[2]).toEqual({ hop: 3, address: '100.64.0.1', rttMs: 9.871 });
+  });
+
+  it('should record hops that did not answer as null', () => {
+    const hops = parseTracerouteOutput(TRACEROUTE_OUTPUT);
+
+    expect(hops[1]).toEqual({ hop: 2, address: null, rttMs: null });
+  });
+
+  it('should skip the header line', () => {
+    expect(parseTracerouteOutput(TRACEROUTE_OUTPUT)).toHaveLength(3);
+  });
+
+  it('should parse busybox and IPv6 hop lines', () => {
+    const output = [
+      'traceroute to 2001:4860:4860::8888 (2001:4860:4860::8888), 20 hops max, 80 byte packets',
+      ' 1  2001:db8::1  1.204 ms',
+      ' 2  2001:db8:ffff::1  12.5 ms',
+    ].join('\n');
+
+    expect(parseTracerouteOutput(output)).toEqual([
+      { hop: 1, address: '2001:db8::1', rttMs: 1.204 },
+      { hop: 2, address: '2001:db8:ffff::1', rttMs: 12.5 },
+    ]);
+  });
+
+  it('should leave the round trip time null when none is printed', () => {
+    expect(parseTracerouteOutput(' 4  203.0.113.9')).toEqual([
+      { hop: 4, address: '203.0.113.9', rttMs: null },
+    ]);
+  });
+
+  it('should return no hops for empty output', () => {
+    expect(parseTracerouteOutput('')).toEqual([]);
+  });
+});
+
+describe('captureOutagePath', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.outagePath.create as jest.Mock).mockResolvedValue({ id: 1 });
+  });
+
+  it('should trace over the given address family', async () => {
+    mockSafeTraceroute.mockResolvedValue({ stdout: TRACEROUTE_OUTPUT });
+
+    await captureOutagePath(7, 'start', '8.8.8.8', 'ipv6');
+
+    expect(mockSafeTraceroute).toHaveBeenCalledWith('8.8.8.8', { family: 'ipv6' });
+  });
+
+  it('should store the parsed hops on the outage', async () => {
+    mockSafeTraceroute.mockResolvedValue({ stdout: TRACEROUTE_OUTPUT });
+
+    await captureOutagePath(7, 'during', '8.8.8.8', 'ipv4');
+
+    expect(prisma.outagePath.create).toHaveBeenCalledWith({
+      data: {
+        outageId: 7,
+        phase: 'during',
+        target: '8.8.8.8',
+        hops: JSON.stringify(parseTracerouteOutput(TRACEROUTE_OUTPUT)),
+        error: null,
+      },
+    });
+  });
+
+  it('should store the error when traceroute cannot run', async () => {
+    mockSafeTraceroute.mockRejectedValue(new Error('Traceroute failed with code 1: unknown host'));
+
+    await captureOutagePath(7, 'recovery', 'example.com', 'ipv4');
+
+    expect(prisma.outagePath.create).toHaveBeenCalledWith({
+      data: {
+        outageId: 7,
+        phase: 'recovery',
+        target: 'example.com',
+        hops: '[]',
+        error: 'Traceroute failed with code 1: unknown host',
+      },
+    });
+  });
+
+  it('should warn instead of throwing when the path cannot be stored', async () => {
+    mockSafeTraceroute.mockResolvedValue({ stdout: TRACEROUTE_OUTPUT });
+    (prisma.outagePath.create as jest.Mock).mockRejectedValue(new Error('Database write failed'));
+
+    await expect(captureOutagePath(7, 'start', '8.8.8.8', 'ipv4')).resolves.toBeUndefined();
+
+    expect(logger.warn).toHaveBeenCalledWith('Failed to store outage path', {
+      outageId: 7,
+      phase: 'start',
+      error: 'Database write failed',
+    });
+  });
+});
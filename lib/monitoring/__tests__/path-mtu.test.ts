@@ -0,0 +1,251 @@
+/**
+ * Tests for path-mtu.ts
+ *
+ * Tests path MTU discovery including:
+ * - Binary search over don't-fragment ping sizes, per address family
+ * - Retrying failed pings before treating a size as too big
+ * - Storing results and raising events on drops below the threshold
+ * - Measuring only when enabled and due
+ */
+
+import { checkPathMtu, discoverPathMtu } from '../path-mtu';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    pathMtuCheck: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getPathMtuSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/utils/shell', () => ({
+  safePing: jest.fn(),
+  isValidIPv6: jest.requireActual('@/lib/utils/shell').isValidIPv6,
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getPathMtuSettings } from '@/lib/settings';
+import { safePing } from '@/lib/utils/shell';
+
+const mockSafePing = safePing as jest.MockedFunction<typeof safePing>;
+const mockFindFirst = prisma.pathMtuCheck.findFirst as jest.Mock;
+const mockCreate = prisma.pathMtuCheck.create as jest.Mock;
+const mockGetSettings = getPathMtuSettings as jest.Mock;
+
+/**
+ * Answer pings whose packets fit within a path MTU
+ */
+function simulatePath(pathMtu: number | null, headerBytes = 28) {
+  mockSafePing.mockImplementation(async (_target, options = {}) => {
+    if (pathMtu !== null && (options.packetSize ?? 56) + headerBytes <= pathMtu) {
+      return { stdout: '1 packets transmitted, 1 received' };
+    }
+    throw new Error(pathMtu === null ? 'Ping failed with code 1: timeout or unreachable' : 'Ping failed with code 1: message too long');
+  });
+}
+
+const settings = {
+  enabled: true,
+  targets: ['1.1.1.1'],
+  intervalSeconds: 3600,
+  alertBelow: 1492,
+};
+
+describe('path-mtu', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSettings.mockResolvedValue(settings);
+    mockFindFirst.mockResolvedValue(null);
+  });
+
+  describe('discoverPathMtu', () => {
+    it('should stop at 1500 when full-size packets get through', async () => {
+      simulatePath(1500);
+
+      expect(await discoverPathMtu('1.1.1.1')).toEqual({ mtu: 1500, error: null });
+      expect(mockSafePing).toHaveBeenCalledTimes(1);
+      expect(mockSafePing).toHaveBeenCalledWith('1.1.1.1', {
+        family: 'ipv4',
+        packetSize: 1472,
+        dontFragment: true,
+        timeoutMs: 2000,
+      });
+    });
+
+    it('should find a smaller path MTU by binary search', async () => {
+      simulatePath(1492);
+
+      expect(await discoverPathMtu('1.1.1.1')).toEqual({ mtu: 1492, error: null });
+    });
+
+    it('should account for the larger IPv6 headers', async () => {
+      simulatePath(1480, 48);
+
+      expect(await discoverPathMtu('2606:4700:4700::1111')).toEqual({ mtu: 1480, error: null });
+      expect(mockSafePing).toHaveBeenCalledWith('2606:4700:4700::1111', expect.objectContaining({
+        family: 'ipv6',
+        packetSize: 1452,
+      }));
+    });
+
+    it('should retry a failed ping before treating the size as too big', async () => {
+      simulatePath(1500);
+      mockSafePing.mockRejectedValueOnce(new Error('Ping failed with code 1: timeout or unreachable'));
+
+      expect(await discoverPathMtu('1.1.1.1')).toEqual({ mtu: 1500, error: null });
+      expect(mockSafePing).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report no MTU when even the smallest packet gets no reply', async () => {
+      simulatePath(null);
+
+      expect(await discoverPathMtu('1.1.1.1')).toEqual({
+        mtu: null,
+        error: 'Ping failed with code 1: timeout or unreachable',
+      });
+    });
+  });
+
+  describe('checkPathMtu', () => {
+    it('should do nothing when disabled', async () => {
+      mockGetSettings.mockResolvedValue({ ...settings, enabled: false });
+
+      await checkPathMtu();
+
+      expect(mockSafePing).not.toHaveBeenCalled();
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should wait for the interval to pass since the last measurement', async () => {
+      mockFindFirst.mockResolvedValue({ timestamp: new Date(Date.now() - 60 * 1000) });
+
+      await checkPathMtu();
+
+      expect(mockSafePing).not.toHaveBeenCalled();
+    });
+
+    it('should store the measured MTU for each target', async () => {
+      simulatePath(1500);
+      mockGetSettings.mockResolvedValue({ ...settings, targets: ['1.1.1.1', 'one.one.one.one'] });
+
+      await checkPathMtu();
+
+      expect(mockCreate).toHaveBeenCalledWith({ data: { target: '1.1.1.1', mtu: 1500, error: null } });
+      expect(mockCreate).toHaveBeenCalledWith({ data: { target: 'one.one.one.one', mtu: 1500, error: null } });
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should store a failed measurement without raising an event', async () => {
+      simulatePath(null);
+
+      await checkPathMtu();
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: { target: '1.1.1.1', mtu: null, error: 'Ping failed with code 1: timeout or unreachable' },
+      });
+      expect(logger.warn).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should warn when the MTU drops below the threshold', async () => {
+      simulatePath(1400);
+      mockFindFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ mtu: 1500 });
+
+      await checkPathMtu();
+
+      expect(mockFindFirst).toHaveBeenLastCalledWith({
+        where: { target: '1.1.1.1', mtu: { not: null } },
+        orderBy: { timestamp: 'desc' },
+        select: { mtu: true },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Path MTU changed: 1.1.1.1', {
+        target: '1.1.1.1',
+        mtu: 1400,
+        previousMtu: 1500,
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Path MTU below 1492: 1.1.1.1', {
+        target: '1.1.1.1',
+        mtu: 1400,
+        previousMtu: 1500,
+        alertBelow: 1492,
+      });
+    });
+
+    it('should not warn again while the MTU stays below the threshold', async () => {
+      simulatePath(1400);
+      mockFindFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ mtu: 1400 });
+
+      await checkPathMtu();
+
+      expect(logger.warn).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should log when the MTU is back at or above the threshold', async () => {
+      simulatePath(1492);
+      mockFindFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ mtu: 1400 });
+
+      await checkPathMtu();
+
+      expect(logger.info).toHaveBeenCalledWith('Path MTU restored: 1.1.1.1', {
+        target: '1.1.1.1',
+        mtu: 1492,
+        alertBelow: 1492,
+      });
+    });
+
+    it('should only record the MTU without a threshold', async () => {
+      simulatePath(1400);
+      mockGetSettings.mockResolvedValue({ ...settings, alertBelow: null });
+
+      await checkPathMtu();
+
+      expect(mockCreate).toHaveBeenCalledWith({ data: { target: '1.1.1.1', mtu: 1400, error: null } });
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should not start a measurement while one is running', async () => {
+      let release: () => void = () => {};
+      mockGetSettings.mockReturnValueOnce(new Promise(resolve => {
+        release = () => resolve({ ...settings, enabled: false });
+      }));
+
+      const first = checkPathMtu();
+      await checkPathMtu();
+      release();
+      await first;
+
+      expect(mockGetSettings).toHaveBeenCalledTimes(1);
+    });
+
+    it('should warn instead of throwing on database errors', async () => {
+      mockFindFirst.mockRejectedValue(new Error('Database locked'));
+
+      await expect(checkPathMtu()).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith('Failed to check path MTU', {
+        error: 'Database locked',
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for ping-stats.ts
+ *
+ * Tests parsing of ping output including:
+ * - iputils and busybox summary formats
+ * - Packet loss
+ * - Jitter from mdev or consecutive replies
+ * - Output without a summary
+ */
+
+import { parsePingOutput } from '../ping-stats';
+
+describe('parsePingOutput', () => {
+  describe('iputils output', () => {
+    const output = [
+      'PING 8.8.8.8 (8.8.8.8) 56(84) bytes of data.',
+      '64 bytes from 8.8.8.8: icmp_seq=1 ttl=117 time=11.0 ms',
+      '64 bytes from 8.8.8.8: icmp_seq=2 ttl=117 time=12.1 ms',
+      '64 bytes from 8.8.8.8: icmp_seq=3 ttl=117 time=13.4 ms',
+      '',
+      '--- 8.8.8.8 ping statistics ---',
+      '3 packets transmitted, 3 received, 0% packet loss, time 2003ms',
+      'rtt min/avg/max/mdev = 11.021/12.113/13.482/1.010 ms',
+    ].join('\n');
+
+    it('should parse min/avg/max from the summary', () => {
+      const stats = parsePingOutput(output);
+
+      expect(stats.minMs).toBe(11.021);
+      expect(stats.avgMs).toBe(12.113);
+      expect(stats.maxMs).toBe(13.482);
+    });
+
+    it('should use the average as latency', () => {
+      expect(parsePingOutput(output).latencyMs).toBe(12.113);
+    });
+
+    it('should use mdev as jitter', () => {
+      expect(parsePingOutput(output).jitterMs).toBe(1.01);
+    });
+
+    it('should parse packet loss', () => {
+      expect(parsePingOutput(output).packetLossPct).toBe(0);
+    });
+
+    it('should parse fractional packet loss with errors reported', () => {
+      const stats = parsePingOutput(
+        '3 packets transmitted, 2 received, +1 errors, 33.3333% packet loss, time 2003ms'
+      );
+
+      expect(stats.packetLossPct).toBe(33.3333);
+    });
+  });
+
+  describe('busybox output', () => {
+    const output = [
+      'PING 8.8.8.8 (8.8.8.8): 56 data bytes',
+      '64 bytes from 8.8.8.8: seq=0 ttl=117 time=10.000 ms',
+      '64 bytes from 8.8.8.8: seq=1 ttl=117 time=14.000 ms',
+      '64 bytes from 8.8.8.8: seq=2 ttl=117 time=12.000 ms',
+      '',
+      '--- 8.8.8.8 ping statistics ---',
+      '4 packets transmitted, 3 packets received, 25% packet loss',
+      'round-trip min/avg/max = 10.000/12.000/14.000 ms',
+    ].join('\n');
+
+    it('should parse the summary without mdev', () => {
+      const stats = parsePingOutput(output);
+
+      expect(stats).toEqual(expect.objectContaining({
+        latencyMs: 12,
+        packetLossPct: 25,
+        minMs: 10,
+        avgMs: 12,
+        maxMs: 14,
+      }));
+    });
+
+    it('should derive jitter from consecutive reply times', () => {
+      // |14 - 10| and |12 - 14| average to 3
+      expect(parsePingOutput(output).jitterMs).toBe(3);
+    });
+  });
+
+  describe('single packet', () => {
+    it('should report no jitter for a single reply', () => {
+      const stats = parsePingOutput([
+        '64 bytes from 8.8.8.8: icmp_seq=1 ttl=117 time=11.0 ms',
+        '1 packets transmitted, 1 received, 0% packet loss, time 0ms',
+        'rtt min/avg/max/mdev = 11.021/11.021/11.021/0.000 ms',
+      ].join('\n'));
+
+      expect(stats.jitterMs).toBeNull();
+      expect(stats.latencyMs).toBe(11.021);
+    });
+  });
+
+  describe('output without a summary', () => {
+    it('should fall back to the first reply time', () => {
+      const stats = parsePingOutput('64 bytes from 8.8.8.8: icmp_seq=1 ttl=117 time=15.2 ms');
+
+      expect(stats).toEqual({
+        latencyMs: 15.2,
+        packetLossPct: null,
+        jitterMs: null,
+        minMs: null,
+        avgMs: null,
+        maxMs: null,
+      });
+    });
+
+    it('should compute jitter from the replies when there are several', () => {
+      const stats = parsePingOutput('time=10 ms\ntime=20 ms');
+
+      expect(stats.jitterMs).toBe(10);
+    });
+
+    it('should return nulls for unrecognised output', () => {
+      const stats = parsePingOutput('PING successful but no time reported');
+
+      expect(stats.latencyMs).toBeNull();
+      expect(stats.jitterMs).toBeNull();
+    });
+  });
+});
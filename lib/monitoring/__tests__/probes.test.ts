@@ -0,0 +1,391 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for probes.ts
+ *
+ * Runs the probes against real local servers including:
+ * - HTTP status code checks
+ * - Body substring matching
+ * - TCP connect timing and address family selection
+ * - DNS queries against a specific resolver
+ * - Sending from a given local address
+ * - Timeouts and connection errors
+ */
+
+import dgram from 'dgram';
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import { dnsProbe, httpProbe, tcpProbe } from '../probes';
+
+describe('httpProbe', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: http.RequestListener;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => handler(req, res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('status: ok');
+    };
+  });
+
+  it('should report connected with latency for a 2xx response', async () => {
+    const result = await httpProbe(`${baseUrl}/health`);
+
+    expect(result.isConnected).toBe(true);
+    expect(result.latencyMs).toEqual(expect.any(Number));
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should accept 3xx responses when no status is configured', async () => {
+    handler = (_req, res) => {
+      res.writeHead(301, { Location: '/elsewhere' });
+      res.end();
+    };
+
+    const result = await httpProbe(baseUrl);
+
+    expect(result.isConnected).toBe(true);
+  });
+
+  it('should fail on a 5xx response', async () => {
+    handler = (_req, res) => {
+      res.writeHead(503);
+      res.end('down');
+    };
+
+    const result = await httpProbe(baseUrl);
+
+    expect(result).toEqual({
+      isConnected: false,
+      latencyMs: null,
+      httpStatus: 503,
+      error: 'Unexpected HTTP status 503',
+    });
+  });
+
+  it('should require the exact expected status when configured', async () => {
+    const result = await httpProbe(baseUrl, { expectedStatus: 204 });
+
+    expect(result.isConnected).toBe(false);
+    expect(result.error).toBe('Unexpected HTTP status 200');
+  });
+
+  it('should send the configured method', async () => {
+    let receivedMethod: string | undefined;
+    handler = (req, res) => {
+      receivedMethod = req.method;
+      res.writeHead(200);
+      res.end();
+    };
+
+    await httpProbe(baseUrl, { method: 'HEAD' });
+
+    expect(receivedMethod).toBe('HEAD');
+  });
+
+  it('should pass when the body contains the expected text', async () => {
+    const result = await httpProbe(baseUrl, { bodyMatch: 'ok' });
+
+    expect(result.isConnected).toBe(true);
+  });
+
+  it('should pass as soon as a streamed body contains the expected text', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200);
+      res.write('status: ok');
+      // Never ends - the probe must not wait for the rest of the body
+    };
+
+    const result = await httpProbe(baseUrl, { bodyMatch: 'ok', timeoutMs: 1000 });
+
+    expect(result.isConnected).toBe(true);
+  });
+
+  it('should fail when the body does not contain the expected text', async () => {
+    const result = await httpProbe(baseUrl, { bodyMatch: 'healthy' });
+
+    expect(result).toEqual({
+      isConnected: false,
+      latencyMs: null,
+      httpStatus: 200,
+      error: 'Response body did not contain the expected text',
+    });
+  });
+
+  it('should give up on oversized bodies without a match', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200);
+      res.write('x'.repeat(1024 * 1024 + 1));
+    };
+
+    const result = await httpProbe(baseUrl, { bodyMatch: 'ok', timeoutMs: 2000 });
+
+    expect(result.error).toBe('Response body did not contain the expected text');
+  });
+
+  it('should ignore body matching for HEAD requests', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200);
+      res.end();
+    };
+
+    const result = await httpProbe(baseUrl, { method: 'HEAD', bodyMatch: 'ok' });
+
+    expect(result.isConnected).toBe(true);
+  });
+
+  it('should time out slow servers', async () => {
+    handler = () => {
+      // Never respond
+    };
+
+    const result = await httpProbe(baseUrl, { timeoutMs: 50 });
+
+    expect(result).toEqual({
+      isConnected: false,
+      latencyMs: null,
+      error: 'Timed out after 50ms',
+    });
+  });
+
+  it('should send from the given local address', async () => {
+    let remoteAddress: string | undefined;
+    handler = (req, res) => {
+      remoteAddress = req.socket.remoteAddress;
+      res.writeHead(204);
+      res.end();
+    };
+
+    const result = await httpProbe(baseUrl, { localAddress: '127.0.0.2' });
+
+    expect(result.isConnected).toBe(true);
+    expect(remoteAddress).toBe('127.0.0.2');
+  });
+
+  it('should fail when the connection is refused', async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const result = await httpProbe(`http://127.0.0.1:${port}`);
+
+    expect(result.isConnected).toBe(false);
+    expect(result.error).toMatch(/ECONNREFUSED/);
+  });
+});
+
+describe('tcpProbe', () => {
+  let server: net.Server;
+  let port: number;
+  let remoteAddresses: Array<string | undefined>;
+
+  beforeAll(async () => {
+    remoteAddresses = [];
+    server = net.createServer((socket) => {
+      remoteAddresses.push(socket.remoteAddress);
+      socket.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should report connected with the handshake time', async () => {
+    const result = await tcpProbe('127.0.0.1', port);
+
+    expect(result.isConnected).toBe(true);
+    expect(result.latencyMs).toEqual(expect.any(Number));
+  });
+
+  it('should resolve hostnames to the requested address family', async () => {
+    const connectSpy = jest.spyOn(net, 'connect');
+
+    const result = await tcpProbe('localhost', port, { family: 'ipv4' });
+
+    expect(connectSpy).toHaveBeenCalledWith({ host: 'localhost', port, family: 4 });
+    expect(result.isConnected).toBe(true);
+    connectSpy.mockRestore();
+  });
+
+  it('should connect from the given local address', async () => {
+    remoteAddresses = [];
+
+    const result = await tcpProbe('127.0.0.1', port, { localAddress: '127.0.0.2' });
+
+    expect(result.isConnected).toBe(true);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(remoteAddresses).toEqual(['127.0.0.2']);
+  });
+
+  it('should fail when the port is closed', async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const result = await tcpProbe('127.0.0.1', closedPort);
+
+    expect(result.isConnected).toBe(false);
+    expect(result.latencyMs).toBeNull();
+    expect(result.error).toMatch(/ECONNREFUSED/);
+  });
+
+  it('should time out when the handshake never completes', async () => {
+    const connectSpy = jest.spyOn(net, 'connect').mockImplementation(() => {
+      const socket = new net.Socket();
+      // Emit the idle timeout without ever connecting
+      socket.setTimeout = ((_ms: number) => {
+        setImmediate(() => socket.emit('timeout'));
+        return socket;
+      }) as typeof socket.setTimeout;
+      return socket;
+    });
+
+    const result = await tcpProbe('192.0.2.1', 443, { timeoutMs: 25 });
+
+    expect(result).toEqual({
+      isConnected: false,
+      latencyMs: null,
+      error: 'Timed out after 25ms',
+    });
+    connectSpy.mockRestore();
+  });
+});
+
+describe('dnsProbe', () => {
+  let server: dgram.Socket;
+  let resolverAddress: string;
+  let queries: Array<{ name: string; type: number; from: string }>;
+  let answerMode: 'answer' | 'empty' | 'nxdomain';
+
+  // Minimal DNS responder: answers A queries with 192.0.2.1
+  const respond = (query: Buffer, rinfo: dgram.RemoteInfo) => {
+    const labels: string[] = [];
+    let offset = 12;
+    while (query[offset] !== 0) {
+      const length = query[offset]!;
+      labels.push(query.subarray(offset + 1, offset + 1 + length).toString());
+      offset += length + 1;
+    }
+    const questionEnd = offset + 5;
+    queries.push({ name: labels.join('.'), type: query.readUInt16BE(offset + 1), from: rinfo.address });
+
+    const header = Buffer.alloc(12);
+    query.copy(header, 0, 0, 2);
+    header.writeUInt16BE(answerMode === 'nxdomain' ? 0x8183 : 0x8180, 2);
+    header.writeUInt16BE(1, 4);
+    header.writeUInt16BE(answerMode === 'answer' ? 1 : 0, 6);
+
+    const answer = answerMode === 'answer'
+      ? Buffer.from([0xc0, 0x0c, 0, 1, 0, 1, 0, 0, 0, 60, 0, 4, 192, 0, 2, 1])
+      : Buffer.alloc(0);
+
+    server.send(Buffer.concat([header, query.subarray(12, questionEnd), answer]), rinfo.port, rinfo.address);
+  };
+
+  beforeAll(async () => {
+    server = dgram.createSocket('udp4');
+    server.on('message', respond);
+    await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+    resolverAddress = `127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    queries = [];
+    answerMode = 'answer';
+  });
+
+  it('should report connected when the resolver answers', async () => {
+    const result = await dnsProbe(resolverAddress, { queryName: 'example.com' });
+
+    expect(result.isConnected).toBe(true);
+    expect(result.latencyMs).toEqual(expect.any(Number));
+    expect(queries).toEqual([{ name: 'example.com', type: 1, from: '127.0.0.1' }]);
+  });
+
+  it('should query the default name for an A record when not configured', async () => {
+    await dnsProbe(resolverAddress);
+
+    expect(queries).toEqual([{ name: 'google.com', type: 1, from: '127.0.0.1' }]);
+  });
+
+  it('should send the query from the given local address', async () => {
+    const result = await dnsProbe(resolverAddress, { localAddress: '127.0.0.2' });
+
+    expect(result.isConnected).toBe(true);
+    expect(queries[0]?.from).toBe('127.0.0.2');
+  });
+
+  it('should keep an IPv6 local address for IPv6 resolvers only', async () => {
+    const result = await dnsProbe(resolverAddress, { localAddress: '::1' });
+
+    expect(result.isConnected).toBe(true);
+    expect(queries[0]?.from).toBe('127.0.0.1');
+  });
+
+  it('should send the configured record type', async () => {
+    answerMode = 'empty';
+
+    await dnsProbe(resolverAddress, { recordType: 'AAAA' });
+
+    expect(queries[0]?.type).toBe(28);
+  });
+
+  it('should fail when the answer is empty', async () => {
+    answerMode = 'empty';
+
+    const result = await dnsProbe(resolverAddress);
+
+    expect(result.isConnected).toBe(false);
+    expect(result.latencyMs).toBeNull();
+    expect(result.error).toBe('DNS lookup failed: ENODATA');
+  });
+
+  it('should fail on NXDOMAIN', async () => {
+    answerMode = 'nxdomain';
+
+    const result = await dnsProbe(resolverAddress, { queryName: 'missing.example' });
+
+    expect(result).toEqual({
+      isConnected: false,
+      latencyMs: null,
+      error: 'DNS lookup failed: ENOTFOUND',
+    });
+  });
+
+  it('should time out when the resolver never answers', async () => {
+    server.removeListener('message', respond);
+
+    const result = await dnsProbe(resolverAddress, { timeoutMs: 50 });
+
+    server.on('message', respond);
+    expect(result).toEqual({
+      isConnected: false,
+      latencyMs: null,
+      error: 'DNS lookup failed: ETIMEOUT',
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for public-ip.ts
+ *
+ * Tests public IP tracking including:
+ * - Fetching addresses and geo details, with fallbacks
+ * - Recording the first observation and later changes
+ * - Keeping last known values when a lookup fails
+ * - Optional change notifications
+ */
+
+import { checkPublicIp, fetchNetworkInfo, recordPublicIp, toSnapshot } from '../public-ip';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    publicIpChange: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    NOTIFY_PUBLIC_IP_CHANGE: 'false',
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../email-notifier', () => ({
+  sendPublicIpChangeEmail: jest.fn().mockResolvedValue(true),
+}));
+
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+import { sendPublicIpChangeEmail } from '../email-notifier';
+import type { NetworkInfo } from '@/types/dashboard';
+
+const mockFindFirst = prisma.publicIpChange.findFirst as jest.Mock;
+const mockCreate = prisma.publicIpChange.create as jest.Mock;
+const mockFetch = jest.fn();
+
+const info: NetworkInfo = {
+  ipv4: '203.0.113.10',
+  ipv6: '2001:db8::10',
+  city: 'Atlanta',
+  region: 'GA',
+  country: 'United States',
+  isp: 'Example ISP',
+  timezone: 'America/New_York',
+  asn: 'AS64500 Example ISP',
+};
+
+const lastRow = {
+  id: 1,
+  timestamp: new Date('2026-10-01T00:00:00Z'),
+  ipv4: '203.0.113.10',
+  ipv6: '2001:db8::10',
+  asn: 'AS64500 Example ISP',
+  isp: 'Example ISP',
+  changedFields: '',
+};
+
+const jsonResponse = (body: unknown, ok = true) => ({
+  ok,
+  status: ok ? 200 : 503,
+  statusText: ok ? 'OK' : 'Service Unavailable',
+  json: jest.fn().mockResolvedValue(body),
+  text: jest.fn().mockResolvedValue('unavailable'),
+});
+
+const geoSuccess = {
+  status: 'success',
+  city: 'Atlanta',
+  region: 'GA',
+  country: 'United States',
+  org: 'Example ISP',
+  timezone: 'America/New_York',
+  as: 'AS64500 Example ISP',
+};
+
+describe('public-ip', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+    mockFindFirst.mockResolvedValue(lastRow);
+    mockCreate.mockImplementation(({ data }) => Promise.resolve({ id: 2, timestamp: new Date(), ...data }));
+    (env as any).NOTIFY_PUBLIC_IP_CHANGE = 'false';
+  });
+
+  describe('fetchNetworkInfo', () => {
+    it('should combine the address and geo lookups', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ip: '203.0.113.10' }))
+        .mockResolvedValueOnce(jsonResponse({ ip: '2001:db8::10' }))
+        .mockResolvedValueOnce(jsonResponse(geoSuccess));
+
+      expect(await fetchNetworkInfo()).toEqual(info);
+    });
+
+    it('should report lookups that fail as N/A and Unknown', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network down'))
+        .mockResolvedValueOnce(jsonResponse({}, false))
+        .mockRejectedValueOnce(new Error('Network down'));
+
+      expect(await fetchNetworkInfo()).toEqual({
+        ipv4: 'N/A',
+        ipv6: 'N/A',
+        city: 'Unknown',
+        region: 'Unknown',
+        country: 'Unknown',
+        isp: 'Unknown',
+        timezone: 'Unknown',
+        asn: 'Unknown',
+      });
+      expect(logger.error).toHaveBeenCalledWith('Geo fetch rejected', { error: 'Network down' });
+    });
+
+    it('should keep the previous geo details when the geo API returns an error', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ip: '198.51.100.7' }))
+        .mockResolvedValueOnce(jsonResponse({ ip: '' }))
+        .mockResolvedValueOnce(jsonResponse({ status: 'fail', message: 'quota' }));
+
+      const result = await fetchNetworkInfo(info);
+
+      expect(result).toEqual({ ...info, ipv4: '198.51.100.7', ipv6: 'N/A' });
+      expect(logger.warn).toHaveBeenCalledWith('Geo API returned error', { error: 'quota' });
+    });
+
+    it('should keep the previous geo details when the geo fetch fails', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ip: '203.0.113.10' }))
+        .mockResolvedValueOnce(jsonResponse({ ip: '2001:db8::10' }))
+        .mockResolvedValueOnce(jsonResponse({}, false));
+
+      expect(await fetchNetworkInfo(info)).toEqual(info);
+      expect(logger.error).toHaveBeenCalledWith('Geo fetch failed', {
+        status: 503,
+        statusText: 'Service Unavailable',
+        response: 'unavailable',
+      });
+    });
+
+    it('should report Unknown geo details when the geo API errors without a previous lookup', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ip: '203.0.113.10' }))
+        .mockResolvedValueOnce(jsonResponse({ ip: '2001:db8::10' }))
+        .mockResolvedValueOnce(jsonResponse({ status: 'fail' }));
+
+      expect((await fetchNetworkInfo()).isp).toBe('Unknown');
+    });
+  });
+
+  describe('toSnapshot', () => {
+    it('should map failed lookups to null', () => {
+      expect(toSnapshot({ ...info, ipv6: 'N/A', isp: 'Unknown' })).toEqual({
+        ipv4: '203.0.113.10',
+        ipv6: null,
+        asn: 'AS64500 Example ISP',
+        isp: null,
+      });
+    });
+  });
+
+  describe('recordPublicIp', () => {
+    it('should record the first observation without changed fields', async () => {
+      mockFindFirst.mockResolvedValue(null);
+
+      expect(await recordPublicIp(info)).toEqual([]);
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: {
+          ipv4: '203.0.113.10',
+          ipv6: '2001:db8::10',
+          asn: 'AS64500 Example ISP',
+          isp: 'Example ISP',
+          changedFields: '',
+        },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Public IP recorded', expect.any(Object));
+    });
+
+    it('should not record anything when nothing changed', async () => {
+      expect(await recordPublicIp(info)).toBeNull();
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should record the fields that changed', async () => {
+      const result = await recordPublicIp({ ...info, ipv4: '198.51.100.7' });
+
+      expect(result).toEqual(['ipv4']);
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ipv4: '198.51.100.7', changedFields: 'ipv4' }),
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Public IP changed', {
+        changedFields: ['ipv4'],
+        previous: { ipv4: '203.0.113.10' },
+        current: { ipv4: '198.51.100.7' },
+      });
+    });
+
+    it('should keep last known values for lookups that failed', async () => {
+      expect(await recordPublicIp({ ...info, ipv6: 'N/A', isp: 'Unknown', asn: 'Unknown' })).toBeNull();
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should skip a lookup where everything failed', async () => {
+      const failed = { ...info, ipv4: 'N/A', ipv6: 'N/A', isp: 'Unknown', asn: 'Unknown' };
+
+      expect(await recordPublicIp(failed)).toBeNull();
+      expect(mockFindFirst).not.toHaveBeenCalled();
+    });
+
+    it('should not notify unless enabled', async () => {
+      await recordPublicIp({ ...info, isp: 'Other ISP' });
+
+      expect(sendPublicIpChangeEmail).not.toHaveBeenCalled();
+    });
+
+    it('should notify about a change when enabled', async () => {
+      (env as any).NOTIFY_PUBLIC_IP_CHANGE = 'true';
+
+      await recordPublicIp({ ...info, isp: 'Other ISP' });
+
+      expect(sendPublicIpChangeEmail).toHaveBeenCalledWith(
+        lastRow,
+        expect.objectContaining({ isp: 'Other ISP' }),
+        ['isp']
+      );
+    });
+
+    it('should not notify about the first observation', async () => {
+      (env as any).NOTIFY_PUBLIC_IP_CHANGE = 'true';
+      mockFindFirst.mockResolvedValue(null);
+
+      await recordPublicIp(info);
+
+      expect(sendPublicIpChangeEmail).not.toHaveBeenCalled();
+    });
+
+    it('should warn instead of throwing on database errors', async () => {
+      mockFindFirst.mockRejectedValue(new Error('Database locked'));
+
+      expect(await recordPublicIp(info)).toBeNull();
+      expect(logger.warn).toHaveBeenCalledWith('Failed to record public IP', {
+        error: 'Database locked',
+      });
+    });
+  });
+
+  describe('checkPublicIp', () => {
+    it('should look up and record the public IP', async () => {
+      mockFindFirst.mockResolvedValue(null);
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ ip: '203.0.113.10' }))
+        .mockResolvedValueOnce(jsonResponse({ ip: '2001:db8::10' }))
+        .mockResolvedValueOnce(jsonResponse(geoSuccess));
+
+      await checkPublicIp();
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ipv4: '203.0.113.10', isp: 'Example ISP' }),
+      });
+    });
+  });
+});
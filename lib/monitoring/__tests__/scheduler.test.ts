@@ -5,6 +5,11 @@
  * - Starting/stopping monitoring
  * - Adaptive monitoring (normal vs outage mode)
  * - Speed test scheduling
+ * - Public IP check scheduling
+ * - Targets on their own check interval
+ * - Remote agent reporting and heartbeats
+ * - Path MTU checks
+ * - Monitoring heartbeat and gap detection
  * - Error handling
  */
 
@@ -14,9 +19,33 @@ import {
   restartMonitoring,
 } from '../scheduler';
 
+const mockAnomalyCheck = jest.fn().mockResolvedValue(undefined);
+
 // Mock dependencies
 jest.mock('../connectivity-checker');
 jest.mock('../speed-tester');
+jest.mock('../public-ip', () => ({
+  checkPublicIp: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../agents', () => ({
+  checkAgentHeartbeats: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../path-mtu', () => ({
+  checkPathMtu: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../latency-anomaly', () => ({
+  LatencyAnomalyDetector: jest.fn().mockImplementation(() => ({
+    check: mockAnomalyCheck,
+  })),
+}));
+jest.mock('../monitoring-gaps', () => ({
+  reconcileMonitoringGap: jest.fn().mockResolvedValue(undefined),
+  recordHeartbeat: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../agent-reporter', () => ({
+  isAgentMode: jest.fn().mockReturnValue(false),
+  reportAgentResult: jest.fn().mockResolvedValue(undefined),
+}));
 jest.mock('@/lib/settings');
 jest.mock('@/lib/db', () => ({
   prisma: {
@@ -39,6 +68,7 @@ jest.mock('@/lib/env', () => ({
   env: {
     ENABLE_SPEED_TEST: 'false',
     SPEED_TEST_INTERVAL_SECONDS: '1800',
+    PUBLIC_IP_CHECK_INTERVAL_SECONDS: '900',
     NODE_ENV: 'test',
     ENABLE_MONITORING: 'true',
   },
@@ -46,6 +76,11 @@ jest.mock('@/lib/env', () => ({
 
 import { ConnectivityChecker } from '../connectivity-checker';
 import { SpeedTester } from '../speed-tester';
+import { checkPublicIp } from '../public-ip';
+import { checkAgentHeartbeats } from '../agents';
+import { checkPathMtu } from '../path-mtu';
+import { reconcileMonitoringGap, recordHeartbeat } from '../monitoring-gaps';
+import { isAgentMode, reportAgentResult } from '../agent-reporter';
 import { getMonitoringIntervals } from '@/lib/settings';
 import { logger } from '@/lib/logger';
 import { env } from '@/lib/env';
@@ -53,6 +88,7 @@ import { env } from '@/lib/env';
 describe('scheduler', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (isAgentMode as jest.Mock).mockReturnValue(false);
 
     // Default mock implementation for getMonitoringIntervals
     (getMonitoringIntervals as jest.Mock).mockResolvedValue({
@@ -73,6 +109,7 @@ describe('scheduler', () => {
     (ConnectivityChecker as jest.Mock).mockImplementation(() => ({
       checkConnection: mockCheckConnection,
       handleConnectionStatus: mockHandleConnectionStatus,
+      getScheduledTargets: jest.fn().mockResolvedValue([]),
     }));
   });
 
@@ -264,6 +301,309 @@ describe('scheduler', () => {
     });
   });
 
+  describe('public IP monitoring', () => {
+    it('should check the public IP immediately on startup', async () => {
+      await startMonitoring();
+
+      expect(checkPublicIp).toHaveBeenCalledTimes(1);
+      expect(logger.logLifecycle).toHaveBeenCalledWith('public_ip_monitoring_started', {
+        intervalSeconds: 900,
+      });
+    });
+
+    it('should check the public IP on its interval', async () => {
+      jest.useFakeTimers();
+      try {
+        await startMonitoring();
+        jest.advanceTimersByTime(900 * 1000);
+
+        expect(checkPublicIp).toHaveBeenCalledTimes(2);
+      } finally {
+        stopMonitoring();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not schedule checks when the interval is 0', async () => {
+      (env as any).PUBLIC_IP_CHECK_INTERVAL_SECONDS = '0';
+
+      await startMonitoring();
+
+      expect(checkPublicIp).not.toHaveBeenCalled();
+      expect(logger.logLifecycle).not.toHaveBeenCalledWith(
+        'public_ip_monitoring_started',
+        expect.any(Object)
+      );
+
+      (env as any).PUBLIC_IP_CHECK_INTERVAL_SECONDS = '900';
+    });
+
+    it('should log errors from the public IP check', async () => {
+      (checkPublicIp as jest.Mock).mockRejectedValueOnce(new Error('Lookup failed'));
+
+      await startMonitoring();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(logger.error).toHaveBeenCalledWith('Error during public IP check', {
+        error: 'Lookup failed',
+      });
+    });
+
+    it('should stop public IP monitoring', async () => {
+      await startMonitoring();
+
+      stopMonitoring();
+
+      expect(logger.logLifecycle).toHaveBeenCalledWith('public_ip_monitoring_stopped');
+    });
+  });
+
+  describe('target schedules', () => {
+    const mockCheckTarget = jest.fn();
+    const mockGetScheduledTargets = jest.fn();
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockCheckTarget.mockReset().mockResolvedValue(undefined);
+      mockGetScheduledTargets.mockReset().mockResolvedValue([
+        { id: 7, target: '8.8.8.8', checkIntervalSeconds: 30 },
+      ]);
+
+      (ConnectivityChecker as jest.Mock).mockImplementation(() => ({
+        checkConnection: jest.fn().mockResolvedValue({
+          isConnected: true,
+          latencyMs: 20,
+          target: '8.8.8.8',
+          timestamp: new Date(),
+        }),
+        handleConnectionStatus: jest.fn().mockResolvedValue(undefined),
+        getScheduledTargets: mockGetScheduledTargets,
+        checkTarget: mockCheckTarget,
+      }));
+    });
+
+    afterEach(() => {
+      stopMonitoring();
+      jest.useRealTimers();
+    });
+
+    it('should check a target on its own interval', async () => {
+      await startMonitoring();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockCheckTarget).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(mockCheckTarget).toHaveBeenCalledTimes(2);
+      expect(mockCheckTarget).toHaveBeenCalledWith(7);
+    });
+
+    it('should reschedule a target when its interval changes', async () => {
+      await startMonitoring();
+      await jest.advanceTimersByTimeAsync(0);
+
+      // The next cycle sees the new interval
+      mockGetScheduledTargets.mockResolvedValue([
+        { id: 7, target: '8.8.8.8', checkIntervalSeconds: 200 },
+      ]);
+      await jest.advanceTimersByTimeAsync(300 * 1000);
+      mockCheckTarget.mockClear();
+
+      await jest.advanceTimersByTimeAsync(200 * 1000);
+
+      expect(mockCheckTarget).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop checking a target that lost its interval', async () => {
+      await startMonitoring();
+      await jest.advanceTimersByTimeAsync(0);
+
+      mockGetScheduledTargets.mockResolvedValue([]);
+      await jest.advanceTimersByTimeAsync(300 * 1000);
+      mockCheckTarget.mockClear();
+
+      await jest.advanceTimersByTimeAsync(120 * 1000);
+
+      expect(mockCheckTarget).not.toHaveBeenCalled();
+    });
+
+    it('should stop target checks when monitoring stops', async () => {
+      await startMonitoring();
+      await jest.advanceTimersByTimeAsync(0);
+
+      stopMonitoring();
+      await jest.advanceTimersByTimeAsync(120 * 1000);
+
+      expect(mockCheckTarget).not.toHaveBeenCalled();
+    });
+
+    it('should log errors from a target check', async () => {
+      mockCheckTarget.mockRejectedValue(new Error('Database locked'));
+
+      await startMonitoring();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+
+      expect(logger.error).toHaveBeenCalledWith('Error during target check', {
+        target: '8.8.8.8',
+        error: 'Database locked',
+      });
+    });
+
+    it('should log errors loading the scheduled targets', async () => {
+      mockGetScheduledTargets.mockRejectedValue(new Error('Database locked'));
+
+      await startMonitoring();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(logger.error).toHaveBeenCalledWith('Error scheduling target checks', {
+        error: 'Database locked',
+      });
+    });
+  });
+
+  describe('remote agents', () => {
+    it('should not report results unless in agent mode', async () => {
+      await startMonitoring();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(reportAgentResult).not.toHaveBeenCalled();
+    });
+
+    it('should report each check result in agent mode', async () => {
+      (isAgentMode as jest.Mock).mockReturnValue(true);
+
+      await startMonitoring();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(reportAgentResult).toHaveBeenCalledWith(
+        expect.objectContaining({ isConnected: true, target: '8.8.8.8' })
+      );
+    });
+
+    it('should only run connectivity checks in agent mode', async () => {
+      (isAgentMode as jest.Mock).mockReturnValue(true);
+      (env as any).ENABLE_SPEED_TEST = 'true';
+      jest.useFakeTimers();
+      try {
+        await startMonitoring();
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(ConnectivityChecker).toHaveBeenCalled();
+        expect(recordHeartbeat).toHaveBeenCalled();
+        expect(SpeedTester).not.toHaveBeenCalled();
+        expect(checkPublicIp).not.toHaveBeenCalled();
+        expect(checkAgentHeartbeats).not.toHaveBeenCalled();
+        expect(checkPathMtu).not.toHaveBeenCalled();
+        expect(mockAnomalyCheck).not.toHaveBeenCalled();
+      } finally {
+        stopMonitoring();
+        jest.useRealTimers();
+        (env as any).ENABLE_SPEED_TEST = 'false';
+      }
+    });
+
+    it('should check agent heartbeats every minute until stopped', async () => {
+      jest.useFakeTimers();
+      try {
+        await startMonitoring();
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(checkAgentHeartbeats).toHaveBeenCalledTimes(1);
+
+        stopMonitoring();
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(checkAgentHeartbeats).toHaveBeenCalledTimes(1);
+      } finally {
+        stopMonitoring();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('path MTU checks', () => {
+    it('should check the path MTU on startup and every minute until stopped', async () => {
+      jest.useFakeTimers();
+      try {
+        await startMonitoring();
+
+        expect(checkPathMtu).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(60 * 1000);
+        expect(checkPathMtu).toHaveBeenCalledTimes(2);
+
+        stopMonitoring();
+        jest.advanceTimersByTime(60 * 1000);
+        expect(checkPathMtu).toHaveBeenCalledTimes(2);
+      } finally {
+        stopMonitoring();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('latency anomaly checks', () => {
+    it('should check for latency anomalies every minute until stopped', async () => {
+      jest.useFakeTimers();
+      try {
+        await startMonitoring();
+
+        expect(mockAnomalyCheck).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(60 * 1000);
+        expect(mockAnomalyCheck).toHaveBeenCalledTimes(1);
+
+        stopMonitoring();
+        jest.advanceTimersByTime(60 * 1000);
+        expect(mockAnomalyCheck).toHaveBeenCalledTimes(1);
+      } finally {
+        stopMonitoring();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('monitoring heartbeat', () => {
+    it('should record a monitoring gap before the first check', async () => {
+      const order: string[] = [];
+      (reconcileMonitoringGap as jest.Mock).mockImplementationOnce(async () => {
+        order.push('reconcile');
+      });
+      (ConnectivityChecker as jest.Mock).mockImplementation(() => ({
+        checkConnection: jest.fn().mockImplementation(async () => {
+          order.push('check');
+          return { isConnected: true, latencyMs: 20, target: '8.8.8.8', timestamp: new Date() };
+        }),
+        handleConnectionStatus: jest.fn().mockResolvedValue(undefined),
+        getScheduledTargets: jest.fn().mockResolvedValue([]),
+      }));
+
+      await startMonitoring();
+
+      expect(reconcileMonitoringGap).toHaveBeenCalledWith(300);
+      expect(order[0]).toBe('reconcile');
+    });
+
+    it('should record a heartbeat on startup and every minute until stopped', async () => {
+      jest.useFakeTimers();
+      try {
+        await startMonitoring();
+
+        expect(recordHeartbeat).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(60 * 1000);
+        expect(recordHeartbeat).toHaveBeenCalledTimes(2);
+
+        stopMonitoring();
+        jest.advanceTimersByTime(60 * 1000);
+        expect(recordHeartbeat).toHaveBeenCalledTimes(2);
+      } finally {
+        stopMonitoring();
+        jest.useRealTimers();
+      }
+    });
+  });
+
   describe('restartMonitoring', () => {
     it('should stop and restart monitoring', async () => {
       await startMonitoring();
@@ -399,6 +739,31 @@ describe('scheduler', () => {
     });
   });
 
+  describe('outage mode', () => {
+    it('should keep the same checker when switching to outage mode', async () => {
+      (ConnectivityChecker as jest.Mock).mockImplementation(() => ({
+        checkConnection: jest.fn().mockResolvedValue({
+          isConnected: false,
+          latencyMs: null,
+          target: 'multiple',
+          timestamp: new Date(),
+        }),
+        handleConnectionStatus: jest.fn().mockResolvedValue(undefined),
+      }));
+
+      await startMonitoring();
+
+      // Wait for async check to complete
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(logger.info).toHaveBeenCalledWith(
+        'Switching to outage mode - increasing check frequency',
+        expect.any(Object)
+      );
+      expect(ConnectivityChecker).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('speed test functionality', () => {
     it('should create SpeedTester when enabled', async () => {
       (env as any).ENABLE_SPEED_TEST = 'true';
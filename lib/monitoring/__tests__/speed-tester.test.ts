@@ -6,6 +6,7 @@
  * - Concurrent execution prevention
  * - Unit conversion (bytes to Mbps)
  * - Database persistence
+ * - Latency under load (bufferbloat) measurement
  * - Error handling
  */
 
@@ -44,6 +45,19 @@ jest.mock('@/lib/logger', () => ({
   },
 }));
 
+// Mock env
+jest.mock('@/lib/env', () => ({
+  env: {
+    SPEED_TEST_LATENCY_TARGET: '1.1.1.1',
+  },
+}));
+
+// Mock the latency sampler, keeping the real phase split and grading
+jest.mock('../latency-under-load', () => ({
+  ...jest.requireActual('../latency-under-load'),
+  startLatencySampler: jest.fn(),
+}));
+
 // Mock utils
 jest.mock('@/lib/utils', () => ({
   getErrorMessage: (error: unknown) =>
@@ -53,8 +67,11 @@ jest.mock('@/lib/utils', () => ({
 import { prisma } from '@/lib/db';
 import { logger } from '@/lib/logger';
 import * as util from 'util';
+import { startLatencySampler } from '../latency-under-load';
 
 const mockExecAsync = (util as Record<string, unknown>).__mockExecAsync as jest.Mock;
+const mockStartLatencySampler = startLatencySampler as jest.Mock;
+const mockStopSampler = jest.fn();
 
 // Sample Ookla speedtest CLI output
 const createOoklaResult = (overrides: Partial<Record<string, unknown>> = {}) => ({
@@ -103,6 +120,8 @@ describe('SpeedTester', () => {
     jest.clearAllMocks();
     speedTester = new SpeedTester();
     (prisma.speedTest.create as jest.Mock).mockResolvedValue({ id: 'test-id' });
+    mockStopSampler.mockResolvedValue([]);
+    mockStartLatencySampler.mockReturnValue({ stop: mockStopSampler });
   });
 
   describe('runSpeedTest', () => {
@@ -386,6 +405,95 @@ ${JSON.stringify(ooklaResult)}
       });
     });
 
+    describe('latency under load', () => {
+      it('should sample latency to the configured target while the test runs', async () => {
+        mockExecAsync.mockImplementation(async () => {
+          expect(mockStopSampler).not.toHaveBeenCalled();
+          return { stdout: JSON.stringify(createOoklaResult()), stderr: '' };
+        });
+
+        await speedTester.runSpeedTest();
+
+        expect(mockStartLatencySampler).toHaveBeenCalledWith('1.1.1.1');
+        expect(mockStopSampler).toHaveBeenCalled();
+      });
+
+      it('should grade bufferbloat from the sampled latency', async () => {
+        const now = Date.now();
+        mockStopSampler.mockResolvedValue([
+          { at: now - 30000, latencyMs: 14 },
+          { at: now - 15000, latencyMs: 70 },
+          { at: now - 5000, latencyMs: 30 },
+        ]);
+        mockExecAsync.mockResolvedValue({
+          stdout: JSON.stringify(createOoklaResult()),
+          stderr: '',
+        });
+
+        const result = await speedTester.runSpeedTest();
+
+        expect(result).toEqual(expect.objectContaining({
+          idleLatencyMs: 14,
+          downloadLatencyMs: 70,
+          uploadLatencyMs: 30,
+          bufferbloatGrade: 'B',
+        }));
+        expect(prisma.speedTest.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            idleLatencyMs: 14,
+            downloadLatencyMs: 70,
+            uploadLatencyMs: 30,
+            bufferbloatGrade: 'B',
+          }),
+        });
+      });
+
+      it('should keep the loaded latency reported by Ookla', async () => {
+        mockExecAsync.mockResolvedValue({
+          stdout: JSON.stringify(createOoklaResult({
+            download: { bandwidth: 12500000, bytes: 125000000, elapsed: 10000, latency: { iqm: 40.2, low: 12, high: 80, jitter: 5 } },
+            upload: { bandwidth: 2500000, bytes: 25000000, elapsed: 10000, latency: { iqm: 22.7, low: 12, high: 50, jitter: 3 } },
+          })),
+          stderr: '',
+        });
+
+        const result = await speedTester.runSpeedTest();
+
+        // No samples from the probe, so the grade comes from Ookla's figures
+        expect(result).toEqual(expect.objectContaining({
+          idleLatencyMs: 15.3,
+          downloadLatencyMs: 40.2,
+          uploadLatencyMs: 22.7,
+          ooklaDownloadLatencyMs: 40.2,
+          ooklaUploadLatencyMs: 22.7,
+          bufferbloatGrade: 'A',
+        }));
+      });
+
+      it('should leave loaded latency unset when none was measured', async () => {
+        mockExecAsync.mockResolvedValue({
+          stdout: JSON.stringify(createOoklaResult()),
+          stderr: '',
+        });
+
+        const result = await speedTester.runSpeedTest();
+
+        expect(result?.idleLatencyMs).toBe(15.3);
+        expect(result?.downloadLatencyMs).toBeUndefined();
+        expect(result?.uploadLatencyMs).toBeUndefined();
+        expect(result?.ooklaDownloadLatencyMs).toBeUndefined();
+        expect(result?.bufferbloatGrade).toBeUndefined();
+      });
+
+      it('should stop sampling when the test fails', async () => {
+        mockExecAsync.mockRejectedValue(new Error('speedtest: command not found'));
+
+        await speedTester.runSpeedTest();
+
+        expect(mockStopSampler).toHaveBeenCalled();
+      });
+    });
+
     describe('handling optional fields', () => {
       it('should handle missing optional fields in Ookla result', async () => {
         const ooklaResult = createOoklaResult({
@@ -424,6 +532,12 @@ ${JSON.stringify(ooklaResult)}
         isp: 'Test ISP',
         externalIp: '203.0.113.1',
         resultUrl: 'https://speedtest.net/result/12345',
+        idleLatencyMs: 14,
+        downloadLatencyMs: 70,
+        uploadLatencyMs: 30,
+        ooklaDownloadLatencyMs: 40.2,
+        ooklaUploadLatencyMs: 22.7,
+        bufferbloatGrade: 'B',
       };
       (prisma.speedTest.findFirst as jest.Mock).mockResolvedValue(mockResult);
 
@@ -437,6 +551,8 @@ ${JSON.stringify(ooklaResult)}
           downloadMbps: 100,
           uploadMbps: 20,
           pingMs: 15,
+          downloadLatencyMs: 70,
+          bufferbloatGrade: 'B',
         })
       );
     });
@@ -463,6 +579,12 @@ ${JSON.stringify(ooklaResult)}
         isp: null,
         externalIp: null,
         resultUrl: null,
+        idleLatencyMs: null,
+        downloadLatencyMs: null,
+        uploadLatencyMs: null,
+        ooklaDownloadLatencyMs: null,
+        ooklaUploadLatencyMs: null,
+        bufferbloatGrade: null,
       };
       (prisma.speedTest.findFirst as jest.Mock).mockResolvedValue(mockResult);
 
@@ -471,6 +593,8 @@ ${JSON.stringify(ooklaResult)}
       expect(result?.jitterMs).toBeUndefined();
       expect(result?.serverId).toBeUndefined();
       expect(result?.serverName).toBeUndefined();
+      expect(result?.idleLatencyMs).toBeUndefined();
+      expect(result?.bufferbloatGrade).toBeUndefined();
     });
 
     it('should log error and return null on database failure', async () => {
@@ -504,6 +628,12 @@ ${JSON.stringify(ooklaResult)}
           isp: 'Test ISP',
           externalIp: '203.0.113.1',
           resultUrl: 'https://speedtest.net/result/1',
+          idleLatencyMs: 14,
+          downloadLatencyMs: 70,
+          uploadLatencyMs: 30,
+          ooklaDownloadLatencyMs: 40.2,
+          ooklaUploadLatencyMs: 22.7,
+          bufferbloatGrade: 'B',
         },
         {
           id: '2',
@@ -571,6 +701,12 @@ ${JSON.stringify(ooklaResult)}
           isp: null,
           externalIp: null,
           resultUrl: null,
+          idleLatencyMs: null,
+          downloadLatencyMs: null,
+          uploadLatencyMs: null,
+          ooklaDownloadLatencyMs: null,
+          ooklaUploadLatencyMs: null,
+          bufferbloatGrade: null,
         },
       ];
       (prisma.speedTest.findMany as jest.Mock).mockResolvedValue(mockResults);
@@ -579,6 +715,7 @@ ${JSON.stringify(ooklaResult)}
 
       expect(results[0].jitterMs).toBeUndefined();
       expect(results[0].serverId).toBeUndefined();
+      expect(results[0]?.bufferbloatGrade).toBeUndefined();
     });
   });
 
@@ -0,0 +1,317 @@
+/**
+ * Tests for target-groups.ts
+ *
+ * Tests target group verdicts including:
+ * - The any, all and quorum rules
+ * - Targets that were not probed this cycle
+ * - Recording group checks and incidents
+ * - Notification routing per group
+ * - Planned incidents during maintenance windows
+ */
+
+import { evaluateGroup, recordGroupVerdicts } from '../target-groups';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    targetGroup: {
+      findMany: jest.fn(),
+    },
+    groupCheck: {
+      create: jest.fn(),
+    },
+    groupIncident: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+jest.mock('../email-notifier', () => ({
+  sendGroupStatusEmail: jest.fn(),
+}));
+
+// Mock maintenance windows - none in progress unless a test sets one
+jest.mock('../maintenance', () => ({
+  ...jest.requireActual('../maintenance'),
+  getActiveMaintenance: jest.fn(),
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { sendGroupStatusEmail } from '../email-notifier';
+import { getActiveMaintenance } from '../maintenance';
+
+const mockSendGroupStatusEmail = sendGroupStatusEmail as jest.MockedFunction<typeof sendGroupStatusEmail>;
+const mockGetActiveMaintenance = getActiveMaintenance as jest.MockedFunction<typeof getActiveMaintenance>;
+
+describe('evaluateGroup', () => {
+  describe('any rule', () => {
+    it('should be up when one target answers', () => {
+      expect(evaluateGroup('any', null, 3, 1, 2)).toBe(true);
+    });
+
+    it('should be down when every target failed', () => {
+      expect(evaluateGroup('any', null, 3, 0, 3)).toBe(false);
+    });
+
+    it('should be undecided while unprobed targets could still answer', () => {
+      expect(evaluateGroup('any', null, 3, 0, 1)).toBeNull();
+    });
+  });
+
+  describe('all rule', () => {
+    it('should be up when every target answers', () => {
+      expect(evaluateGroup('all', null, 2, 2, 0)).toBe(true);
+    });
+
+    it('should be down as soon as one target fails', () => {
+      expect(evaluateGroup('all', null, 3, 1, 1)).toBe(false);
+    });
+
+    it('should be undecided while some targets were not probed', () => {
+      expect(evaluateGroup('all', null, 3, 2, 0)).toBeNull();
+    });
+  });
+
+  describe('quorum rule', () => {
+    it('should be up when the quorum answers', () => {
+      expect(evaluateGroup('quorum', 2, 3, 2, 1)).toBe(true);
+    });
+
+    it('should be down when the quorum can no longer be reached', () => {
+      expect(evaluateGroup('quorum', 2, 3, 0, 2)).toBe(false);
+    });
+
+    it('should be undecided while the quorum could still be reached', () => {
+      expect(evaluateGroup('quorum', 2, 3, 1, 1)).toBeNull();
+    });
+
+    it('should cap the quorum at the number of targets', () => {
+      expect(evaluateGroup('quorum', 5, 2, 2, 0)).toBe(true);
+    });
+
+    it('should need one target when no quorum is set', () => {
+      expect(evaluateGroup('quorum', null, 3, 1, 0)).toBe(true);
+    });
+  });
+});
+
+describe('recordGroupVerdicts', () => {
+  const timestamp = new Date('2025-01-15T12:30:00Z');
+
+  const vpnGroup = (overrides: Record<string, unknown> = {}) => ({
+    id: 2,
+    name: 'Work VPN',
+    rule: 'all',
+    quorum: null,
+    notify: true,
+    notifyEmail: 'it@example.com',
+    targets: [{ id: 11 }, { id: 12 }],
+    incidents: [],
+    ...overrides,
+  });
+
+  const outcomes = [
+    { targetId: 11, target: 'vpn1.example.com', isConnected: true },
+    { targetId: 12, target: 'vpn2.example.com', isConnected: false },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([vpnGroup()]);
+    (prisma.groupIncident.create as jest.Mock).mockResolvedValue({ id: 30 });
+    mockSendGroupStatusEmail.mockResolvedValue(true);
+    mockGetActiveMaintenance.mockResolvedValue([]);
+  });
+
+  it('should do nothing without outcomes', async () => {
+    await recordGroupVerdicts([], timestamp);
+
+    expect(prisma.targetGroup.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should load groups with their enabled targets and open incident', async () => {
+    await recordGroupVerdicts(outcomes, timestamp);
+
+    expect(prisma.targetGroup.findMany).toHaveBeenCalledWith({
+      include: {
+        targets: { where: { isEnabled: true }, select: { id: true } },
+        incidents: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 },
+      },
+    });
+  });
+
+  it('should record the group verdict for the cycle', async () => {
+    await recordGroupVerdicts(outcomes, timestamp);
+
+    expect(prisma.groupCheck.create).toHaveBeenCalledWith({
+      data: { groupId: 2, timestamp, isUp: false, targetsUp: 1, targetsDown: 1 },
+    });
+  });
+
+  it('should skip groups without enabled targets', async () => {
+    (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([vpnGroup({ targets: [] })]);
+
+    await recordGroupVerdicts(outcomes, timestamp);
+
+    expect(prisma.groupCheck.create).not.toHaveBeenCalled();
+  });
+
+  it('should skip groups whose verdict cannot be decided', async () => {
+    (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([
+      vpnGroup({ rule: 'any', targets: [{ id: 12 }, { id: 13 }] }),
+    ]);
+
+    await recordGroupVerdicts(outcomes, timestamp);
+
+    expect(prisma.groupCheck.create).not.toHaveBeenCalled();
+  });
+
+  describe('group incidents', () => {
+    it('should open an incident and email the group recipient when the group goes down', async () => {
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupIncident.create).toHaveBeenCalledWith({
+        data: { groupId: 2, startTime: timestamp },
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Target group down: Work VPN', {
+        groupId: 2,
+        incidentId: 30,
+        rule: 'all',
+        targetsUp: 1,
+        targetsDown: 1,
+      });
+      expect(mockSendGroupStatusEmail).toHaveBeenCalledWith('down', 'Work VPN', {
+        startTime: timestamp,
+        endTime: null,
+        durationSec: null,
+      }, 'it@example.com');
+      expect(prisma.groupIncident.update).toHaveBeenCalledWith({
+        where: { id: 30 },
+        data: { emailSent: true },
+      });
+    });
+
+    it('should leave the incident unmarked when the email was not sent', async () => {
+      mockSendGroupStatusEmail.mockResolvedValue(false);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupIncident.update).not.toHaveBeenCalled();
+    });
+
+    it('should not email groups with notifications off', async () => {
+      (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([vpnGroup({ notify: false })]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupIncident.create).toHaveBeenCalled();
+      expect(mockSendGroupStatusEmail).not.toHaveBeenCalled();
+    });
+
+    it('should leave an open incident alone while the group stays down', async () => {
+      (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([
+        vpnGroup({ incidents: [{ id: 30, startTime: new Date('2025-01-15T12:00:00Z') }] }),
+      ]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupCheck.create).toHaveBeenCalled();
+      expect(prisma.groupIncident.create).not.toHaveBeenCalled();
+      expect(prisma.groupIncident.update).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the incident and email when the group is restored', async () => {
+      const startTime = new Date('2025-01-15T12:00:00Z');
+      (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([
+        vpnGroup({ rule: 'any', incidents: [{ id: 30, startTime }] }),
+      ]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupIncident.update).toHaveBeenCalledWith({
+        where: { id: 30 },
+        data: { endTime: timestamp, durationSec: 1800, isResolved: true },
+      });
+      expect(logger.info).toHaveBeenCalledWith('Target group restored: Work VPN', {
+        groupId: 2,
+        incidentId: 30,
+        durationSec: 1800,
+      });
+      expect(mockSendGroupStatusEmail).toHaveBeenCalledWith('restored', 'Work VPN', {
+        startTime,
+        endTime: timestamp,
+        durationSec: 1800,
+      }, 'it@example.com');
+    });
+
+    it('should resolve without emailing when notifications are off', async () => {
+      (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([
+        vpnGroup({ rule: 'any', notify: false, incidents: [{ id: 30, startTime: timestamp }] }),
+      ]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupIncident.update).toHaveBeenCalled();
+      expect(mockSendGroupStatusEmail).not.toHaveBeenCalled();
+    });
+
+    it('should open a planned incident without emailing during maintenance of the group', async () => {
+      mockGetActiveMaintenance.mockResolvedValue([{
+        id: 4,
+        description: 'VPN maintenance',
+        targetId: null,
+        groupId: 2,
+        groupTargetIds: [11, 12],
+        start: new Date('2025-01-15T12:00:00Z'),
+        end: new Date('2025-01-15T13:00:00Z'),
+      }]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(mockGetActiveMaintenance).toHaveBeenCalledWith(timestamp);
+      expect(prisma.groupIncident.create).toHaveBeenCalledWith({
+        data: { groupId: 2, startTime: timestamp, isPlanned: true },
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Target group down: Work VPN', expect.objectContaining({
+        maintenance: 'VPN maintenance',
+      }));
+      expect(mockSendGroupStatusEmail).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a planned incident without emailing', async () => {
+      (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([
+        vpnGroup({ rule: 'any', incidents: [{ id: 30, startTime: timestamp, isPlanned: true }] }),
+      ]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupIncident.update).toHaveBeenCalled();
+      expect(mockSendGroupStatusEmail).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing more while the group stays up', async () => {
+      (prisma.targetGroup.findMany as jest.Mock).mockResolvedValue([vpnGroup({ rule: 'any' })]);
+
+      await recordGroupVerdicts(outcomes, timestamp);
+
+      expect(prisma.groupCheck.create).toHaveBeenCalled();
+      expect(prisma.groupIncident.create).not.toHaveBeenCalled();
+      expect(prisma.groupIncident.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should warn instead of throwing on database errors', async () => {
+    (prisma.targetGroup.findMany as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+    await expect(recordGroupVerdicts(outcomes, timestamp)).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to record target group verdicts', { error: 'DB error' });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Tests for target-incidents.ts
+ *
+ * Tests per-target incident tracking including:
+ * - Opening an incident when a target fails
+ * - Extending and resolving open incidents
+ * - Planned incidents during maintenance windows
+ * - Availability from incidents over a window
+ * - Database errors not breaking the check cycle
+ */
+
+import { calculateAvailability, recordTargetOutcomes } from '../target-incidents';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    targetIncident: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+// Mock maintenance windows - none in progress unless a test sets one
+jest.mock('../maintenance', () => ({
+  ...jest.requireActual('../maintenance'),
+  getActiveMaintenance: jest.fn(),
+}));
+
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getActiveMaintenance } from '../maintenance';
+
+const mockGetActiveMaintenance = getActiveMaintenance as jest.MockedFunction<typeof getActiveMaintenance>;
+
+const windowStart = new Date('2025-01-15T00:00:00Z');
+const at = (offsetMin: number) => new Date(windowStart.getTime() + offsetMin * 60 * 1000);
+
+describe('calculateAvailability', () => {
+  const windowEnd = at(100);
+
+  it('should be fully available without incidents', () => {
+    expect(calculateAvailability([], windowStart, windowEnd)).toBe(100);
+  });
+
+  it('should subtract resolved incidents', () => {
+    const incidents = [
+      { startTime: at(10), endTime: at(20) },
+      { startTime: at(50), endTime: at(55) },
+    ];
+
+    expect(calculateAvailability(incidents, windowStart, windowEnd)).toBe(85);
+  });
+
+  it('should count an open incident up to the end of the window', () => {
+    expect(calculateAvailability([{ startTime: at(75), endTime: null }], windowStart, windowEnd)).toBe(75);
+  });
+
+  it('should only count the part of an incident inside the window', () => {
+    const incidents = [
+      { startTime: at(-30), endTime: at(10) },
+      { startTime: at(-60), endTime: at(-40) },
+    ];
+
+    expect(calculateAvailability(incidents, windowStart, windowEnd)).toBe(90);
+  });
+
+  it('should return null for an empty window', () => {
+    expect(calculateAvailability([], windowStart, windowStart)).toBeNull();
+  });
+});
+
+describe('recordTargetOutcomes', () => {
+  const timestamp = at(30);
+
+  const openIncident = {
+    id: 5,
+    targetId: 1,
+    startTime: at(0),
+    isResolved: false,
+    checksCount: 3,
+    lastError: 'HTTP 503',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.targetIncident.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.targetIncident.create as jest.Mock).mockResolvedValue({ id: 9 });
+    mockGetActiveMaintenance.mockResolvedValue([]);
+  });
+
+  it('should do nothing without outcomes', async () => {
+    await recordTargetOutcomes([], timestamp);
+
+    expect(prisma.targetIncident.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should look up open incidents for the probed targets', async () => {
+    await recordTargetOutcomes([
+      { targetId: 1, target: 'https://vpn.example.com', isConnected: true },
+      { targetId: 2, target: '8.8.8.8', isConnected: true },
+    ], timestamp);
+
+    expect(prisma.targetIncident.findMany).toHaveBeenCalledWith({
+      where: { isResolved: false, targetId: { in: [1, 2] } },
+    });
+    expect(prisma.targetIncident.create).not.toHaveBeenCalled();
+    expect(prisma.targetIncident.update).not.toHaveBeenCalled();
+  });
+
+  it('should open an incident when a target fails', async () => {
+    await recordTargetOutcomes([
+      { targetId: 1, target: 'https://vpn.example.com', isConnected: false, error: 'HTTP 503' },
+    ], timestamp);
+
+    expect(prisma.targetIncident.create).toHaveBeenCalledWith({
+      data: { targetId: 1, startTime: timestamp, lastError: 'HTTP 503' },
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Target incident started: https://vpn.example.com', {
+      target: 'https://vpn.example.com',
+      incidentId: 9,
+      error: 'HTTP 503',
+    });
+  });
+
+  it('should open an incident without an error message', async () => {
+    await recordTargetOutcomes([{ targetId: 2, target: '8.8.8.8', isConnected: false }], timestamp);
+
+    expect(prisma.targetIncident.create).toHaveBeenCalledWith({
+      data: { targetId: 2, startTime: timestamp, lastError: null },
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Target incident started: 8.8.8.8', {
+      target: '8.8.8.8',
+      incidentId: 9,
+    });
+  });
+
+  it('should flag incidents of targets under maintenance as planned', async () => {
+    mockGetActiveMaintenance.mockResolvedValue([{
+      id: 4,
+      description: 'VPN maintenance',
+      targetId: null,
+      groupId: 2,
+      groupTargetIds: [1],
+      start: at(0),
+      end: at(60),
+    }]);
+
+    await recordTargetOutcomes([
+      { targetId: 1, target: 'https://vpn.example.com', isConnected: false },
+      { targetId: 2, target: '8.8.8.8', isConnected: false },
+    ], timestamp);
+
+    expect(mockGetActiveMaintenance).toHaveBeenCalledTimes(1);
+    expect(mockGetActiveMaintenance).toHaveBeenCalledWith(timestamp);
+    expect(prisma.targetIncident.create).toHaveBeenCalledWith({
+      data: { targetId: 1, startTime: timestamp, lastError: null, isPlanned: true },
+    });
+    expect(prisma.targetIncident.create).toHaveBeenCalledWith({
+      data: { targetId: 2, startTime: timestamp, lastError: null },
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Target incident started: https://vpn.example.com', {
+      target: 'https://vpn.example.com',
+      incidentId: 9,
+      maintenance: 'VPN maintenance',
+    });
+  });
+
+  it('should only look up maintenance windows when an incident starts', async () => {
+    await recordTargetOutcomes([{ targetId: 2, target: '8.8.8.8', isConnected: true }], timestamp);
+
+    expect(mockGetActiveMaintenance).not.toHaveBeenCalled();
+  });
+
+  it('should extend an open incident while the target keeps failing', async () => {
+    (prisma.targetIncident.findMany as jest.Mock).mockResolvedValue([openIncident]);
+
+    await recordTargetOutcomes([
+      { targetId: 1, target: 'https://vpn.example.com', isConnected: false, error: 'Timeout' },
+    ], timestamp);
+
+    expect(prisma.targetIncident.create).not.toHaveBeenCalled();
+    expect(prisma.targetIncident.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { checksCount: { increment: 1 }, lastError: 'Timeout' },
+    });
+  });
+
+  it('should keep the last error when a failure has none', async () => {
+    (prisma.targetIncident.findMany as jest.Mock).mockResolvedValue([openIncident]);
+
+    await recordTargetOutcomes([{ targetId: 1, target: 'https://vpn.example.com', isConnected: false }], timestamp);
+
+    expect(prisma.targetIncident.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { checksCount: { increment: 1 } },
+    });
+  });
+
+  it('should resolve an open incident when the target answers', async () => {
+    (prisma.targetIncident.findMany as jest.Mock).mockResolvedValue([openIncident]);
+
+    await recordTargetOutcomes([{ targetId: 1, target: 'https://vpn.example.com', isConnected: true }], timestamp);
+
+    expect(prisma.targetIncident.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { endTime: timestamp, durationSec: 1800, isResolved: true },
+    });
+    expect(logger.info).toHaveBeenCalledWith('Target incident resolved: https://vpn.example.com', {
+      target: 'https://vpn.example.com',
+      incidentId: 5,
+      durationSec: 1800,
+    });
+  });
+
+  it('should warn instead of throwing on database errors', async () => {
+    (prisma.targetIncident.findMany as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+    await expect(
+      recordTargetOutcomes([{ targetId: 1, target: '8.8.8.8', isConnected: false }], timestamp)
+    ).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to record target incidents', { error: 'DB error' });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for wan-links.ts
+ *
+ * Tests WAN link monitoring including:
+ * - Finding an interface's address for each family
+ * - Binding probes to a source address or interface
+ * - Recording link checks
+ * - Opening, extending and resolving link outages
+ */
+
+import { getInterfaceAddress, getProbeBinding, recordWanLinkResults } from '../wan-links';
+
+jest.mock('os', () => ({
+  ...jest.requireActual('os'),
+  networkInterfaces: jest.fn(),
+}));
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    wanLinkCheck: {
+      createMany: jest.fn(),
+    },
+    wanLinkOutage: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+import { networkInterfaces, NetworkInterfaceInfo } from 'os';
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+
+const mockNetworkInterfaces = networkInterfaces as jest.MockedFunction<typeof networkInterfaces>;
+
+const address = (addr: string, family: 'IPv4' | 'IPv6', internal = false) => ({
+  address: addr,
+  netmask: family === 'IPv4' ? '255.255.255.0' : 'ffff:ffff:ffff:ffff::',
+  family,
+  mac: '00:00:00:00:00:00',
+  internal,
+  cidr: null,
+  ...(family === 'IPv6' && { scopeid: 0 }),
+}) as NetworkInterfaceInfo;
+
+beforeEach(() => {
+  mockNetworkInterfaces.mockReturnValue({
+    lo: [address('127.0.0.1', 'IPv4', true), address('::1', 'IPv6', true)],
+    wwan0: [
+      address('fe80::1', 'IPv6'),
+      address('10.64.0.2', 'IPv4'),
+      address('2001:db8::2', 'IPv6'),
+    ],
+    eth1: [address('192.168.8.10', 'IPv4')],
+  });
+});
+
+describe('getInterfaceAddress', () => {
+  it('should return the interface address of the family', () => {
+    expect(getInterfaceAddress('wwan0', 'ipv4')).toBe('10.64.0.2');
+  });
+
+  it('should skip link-local IPv6 addresses', () => {
+    expect(getInterfaceAddress('wwan0', 'ipv6')).toBe('2001:db8::2');
+  });
+
+  it('should skip loopback addresses', () => {
+    expect(getInterfaceAddress('lo', 'ipv4')).toBeNull();
+  });
+
+  it('should return null when the interface has no address of the family', () => {
+    expect(getInterfaceAddress('eth1', 'ipv6')).toBeNull();
+  });
+
+  it('should return null for a missing interface', () => {
+    expect(getInterfaceAddress('wwan1', 'ipv4')).toBeNull();
+  });
+});
+
+describe('getProbeBinding', () => {
+  it('should bind to the interface and its address', () => {
+    expect(getProbeBinding({ interface: 'wwan0', sourceAddress: null }, 'ipv4')).toEqual({
+      pingInterface: 'wwan0',
+      localAddress: '10.64.0.2',
+    });
+  });
+
+  it('should prefer the source address over the interface address', () => {
+    expect(getProbeBinding({ interface: 'eth1', sourceAddress: '192.168.8.20' }, 'ipv4')).toEqual({
+      pingInterface: 'eth1',
+      localAddress: '192.168.8.20',
+    });
+  });
+
+  it('should ping from the source address when there is no interface', () => {
+    expect(getProbeBinding({ interface: null, sourceAddress: '2001:db8::9' }, 'ipv6')).toEqual({
+      pingInterface: '2001:db8::9',
+      localAddress: '2001:db8::9',
+    });
+  });
+
+  it('should fall back to the interface address for the other family', () => {
+    expect(getProbeBinding({ interface: 'wwan0', sourceAddress: '10.64.0.9' }, 'ipv6')).toEqual({
+      pingInterface: 'wwan0',
+      localAddress: '2001:db8::2',
+    });
+  });
+
+  it('should return null when the link has no address of the family', () => {
+    expect(getProbeBinding({ interface: null, sourceAddress: '10.64.0.9' }, 'ipv6')).toBeNull();
+    expect(getProbeBinding({ interface: 'eth1', sourceAddress: null }, 'ipv6')).toBeNull();
+  });
+});
+
+describe('recordWanLinkResults', () => {
+  const timestamp = new Date('2025-01-15T12:30:00Z');
+
+  const fibreUp = { wanLinkId: 1, name: 'Fibre', isConnected: true, latencyMs: 8, target: '8.8.8.8' };
+  const lteDown = {
+    wanLinkId: 2,
+    name: 'LTE backup',
+    isConnected: false,
+    latencyMs: null,
+    target: 'all-targets-failed',
+  };
+
+  const openOutage = {
+    id: 7,
+    wanLinkId: 2,
+    startTime: new Date('2025-01-15T12:00:00Z'),
+    isResolved: false,
+    checksCount: 3,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.wanLinkOutage.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.wanLinkOutage.create as jest.Mock).mockResolvedValue({ id: 9 });
+  });
+
+  it('should do nothing without results', async () => {
+    await recordWanLinkResults([], timestamp);
+
+    expect(prisma.wanLinkCheck.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should record a check per link', async () => {
+    await recordWanLinkResults([fibreUp, lteDown], timestamp);
+
+    expect(prisma.wanLinkCheck.createMany).toHaveBeenCalledWith({
+      data: [
+        { wanLinkId: 1, timestamp, isConnected: true, latencyMs: 8, target: '8.8.8.8' },
+        { wanLinkId: 2, timestamp, isConnected: false, latencyMs: null, target: 'all-targets-failed' },
+      ],
+    });
+    expect(prisma.wanLinkOutage.findMany).toHaveBeenCalledWith({
+      where: { isResolved: false, wanLinkId: { in: [1, 2] } },
+    });
+  });
+
+  it('should open an outage when a link goes down', async () => {
+    await recordWanLinkResults([fibreUp, lteDown], timestamp);
+
+    expect(prisma.wanLinkOutage.create).toHaveBeenCalledTimes(1);
+    expect(prisma.wanLinkOutage.create).toHaveBeenCalledWith({
+      data: { wanLinkId: 2, startTime: timestamp },
+    });
+    expect(logger.warn).toHaveBeenCalledWith('WAN link down: LTE backup', { wanLinkId: 2, outageId: 9 });
+  });
+
+  it('should extend an open outage while the link stays down', async () => {
+    (prisma.wanLinkOutage.findMany as jest.Mock).mockResolvedValue([openOutage]);
+
+    await recordWanLinkResults([lteDown], timestamp);
+
+    expect(prisma.wanLinkOutage.create).not.toHaveBeenCalled();
+    expect(prisma.wanLinkOutage.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { checksCount: { increment: 1 } },
+    });
+  });
+
+  it('should resolve the outage when the link answers again', async () => {
+    (prisma.wanLinkOutage.findMany as jest.Mock).mockResolvedValue([openOutage]);
+
+    await recordWanLinkResults([{ ...lteDown, isConnected: true, latencyMs: 60, target: '1.1.1.1' }], timestamp);
+
+    expect(prisma.wanLinkOutage.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { endTime: timestamp, durationSec: 1800, isResolved: true },
+    });
+    expect(logger.info).toHaveBeenCalledWith('WAN link restored: LTE backup', {
+      wanLinkId: 2,
+      outageId: 7,
+      durationSec: 1800,
+    });
+  });
+
+  it('should leave links that stay up alone', async () => {
+    await recordWanLinkResults([fibreUp], timestamp);
+
+    expect(prisma.wanLinkOutage.create).not.toHaveBeenCalled();
+    expect(prisma.wanLinkOutage.update).not.toHaveBeenCalled();
+  });
+
+  it('should warn instead of throwing on database errors', async () => {
+    (prisma.wanLinkCheck.createMany as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+    await expect(recordWanLinkResults([lteDown], timestamp)).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to record WAN link results', { error: 'DB error' });
+  });
+});
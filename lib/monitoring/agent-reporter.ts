@@ -0,0 +1,154 @@
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import type { ConnectivityResult } from './connectivity-checker';
+
+// Results sent per upload, so a long backlog goes up in pieces
+const UPLOAD_BATCH_SIZE = 500;
+// Oldest results are dropped beyond this - about a week at 30s checks
+const MAX_BUFFERED_RESULTS = 20000;
+const UPLOAD_TIMEOUT_MS = 10000;
+
+/**
+ * Whether the central instance rejected a batch for good
+ * Other 4xx answers mean the batch itself is invalid and would be rejected
+ * on every retry. An unknown token (not yet set up on the central instance)
+ * and rate limiting pass, as do server errors
+ */
+function isPermanentRejection(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 401 && status !== 429;
+}
+
+/**
+ * Whether this instance reports to a central instance as an agent
+ */
+export function isAgentMode(): boolean {
+  return Boolean(env.AGENT_CENTRAL_URL && env.AGENT_TOKEN);
+}
+
+/**
+ * Add a cycle's result to the outbox, dropping the oldest results once the
+ * buffer is full
+ */
+async function bufferResult(result: ConnectivityResult): Promise<void> {
+  await prisma.agentOutbox.create({
+    data: {
+      timestamp: result.timestamp,
+      isConnected: result.isConnected,
+      // Ping reports fractions of a millisecond; the central instance takes whole ones
+      latencyMs: result.latencyMs === null ? null : Math.round(result.latencyMs),
+      packetLossPct: result.packetLossPct ?? null,
+      target: result.target
+    }
+  });
+
+  const buffered = await prisma.agentOutbox.count();
+  if (buffered <= MAX_BUFFERED_RESULTS) {
+    return;
+  }
+
+  const oldest = await prisma.agentOutbox.findMany({
+    orderBy: { timestamp: 'asc' },
+    take: buffered - MAX_BUFFERED_RESULTS,
+    select: { id: true }
+  });
+  await prisma.agentOutbox.deleteMany({
+    where: { id: { in: oldest.map(row => row.id) } }
+  });
+
+  await logger.warn('Agent result buffer full, dropped the oldest results', {
+    dropped: oldest.length,
+    maxBufferedResults: MAX_BUFFERED_RESULTS
+  });
+}
+
+/**
+ * Upload buffered results to the central instance, oldest first
+ * Stops at the first failed upload, leaving the rest buffered for the next
+ * cycle. A batch rejected for good is dropped instead, so it cannot hold up
+ * the results behind it. Returns the number of results uploaded
+ */
+export async function flushAgentResults(): Promise<number> {
+  let uploaded = 0;
+
+  for (;;) {
+    const batch = await prisma.agentOutbox.findMany({
+      orderBy: { timestamp: 'asc' },
+      take: UPLOAD_BATCH_SIZE
+    });
+    if (batch.length === 0) {
+      break;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(new URL('/api/agents/ingest', env.AGENT_CENTRAL_URL), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${env.AGENT_TOKEN}`
+        },
+        body: JSON.stringify({
+          results: batch.map(row => ({
+            timestamp: row.timestamp.toISOString(),
+            isConnected: row.isConnected,
+            latencyMs: row.latencyMs,
+            packetLossPct: row.packetLossPct,
+            target: row.target
+          }))
+        }),
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS)
+      });
+    } catch (error: unknown) {
+      // Expected while the WAN is down - the results wait in the buffer
+      logger.debug('Central instance unreachable, results buffered', {
+        error: getErrorMessage(error)
+      });
+      break;
+    }
+
+    if (!response.ok && !isPermanentRejection(response.status)) {
+      await logger.warn('Central instance rejected agent results', {
+        status: response.status,
+        buffered: batch.length
+      });
+      break;
+    }
+
+    await prisma.agentOutbox.deleteMany({
+      where: { id: { in: batch.map(row => row.id) } }
+    });
+
+    if (!response.ok) {
+      await logger.warn('Central instance rejected agent results for good, dropped them', {
+        status: response.status,
+        dropped: batch.length,
+        firstTimestamp: batch[0]!.timestamp.toISOString()
+      });
+      continue;
+    }
+    uploaded += batch.length;
+  }
+
+  if (uploaded > 1) {
+    await logger.info('Uploaded buffered agent results', { uploaded });
+  }
+
+  return uploaded;
+}
+
+/**
+ * Buffer a cycle's result and upload everything buffered
+ * Never throws, so a failure here cannot break the check cycle
+ */
+export async function reportAgentResult(result: ConnectivityResult): Promise<void> {
+  try {
+    await bufferResult(result);
+    await flushAgentResults();
+  } catch (error: unknown) {
+    await logger.warn('Failed to report result to central instance', {
+      error: getErrorMessage(error)
+    });
+  }
+}
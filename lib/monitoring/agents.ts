@@ -0,0 +1,190 @@
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+
+/**
+ * One check cycle's result as uploaded by an agent
+ */
+export interface AgentResult {
+  timestamp: Date;
+  isConnected: boolean;
+  latencyMs: number | null;
+  packetLossPct: number | null;
+  target: string;
+}
+
+/**
+ * Agent fields needed to ingest its results
+ */
+export interface IngestingAgent {
+  id: number;
+  name: string;
+  lastResultAt: Date | null;
+  isStale: boolean;
+}
+
+/**
+ * Outcome of ingesting one upload
+ */
+export interface IngestSummary {
+  accepted: number;
+  /** Results at or before the newest one already received - resent after a lost response */
+  skipped: number;
+}
+
+/**
+ * Generate a new agent token - shown once, only its hash is stored
+ */
+export function generateAgentToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash an agent token for storage and lookup
+ */
+export function hashAgentToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Find the agent a token belongs to, null for an unknown token
+ */
+export async function findAgentByToken(token: string) {
+  return prisma.agent.findUnique({
+    where: { tokenHash: hashAgentToken(token) }
+  });
+}
+
+/**
+ * Store an upload of agent results, and open, extend or resolve the
+ * agent's outage from them
+ *
+ * Results are processed oldest first, so a backlog buffered while the
+ * agent's WAN was down backfills the outage with the times it happened. An
+ * agent outage opens on the first failed cycle and closes on the first
+ * successful one, like a WAN link's
+ */
+export async function ingestAgentResults(agent: IngestingAgent, results: AgentResult[]): Promise<IngestSummary> {
+  const fresh = results
+    .filter(result => !agent.lastResultAt || result.timestamp > agent.lastResultAt)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const summary = { accepted: fresh.length, skipped: results.length - fresh.length };
+  const now = new Date();
+
+  if (fresh.length > 0) {
+    await prisma.agentCheck.createMany({
+      data: fresh.map(result => ({ agentId: agent.id, ...result }))
+    });
+    await recordAgentOutages(agent, fresh);
+  }
+
+  await prisma.agent.update({
+    where: { id: agent.id },
+    data: {
+      lastSeenAt: now,
+      isStale: false,
+      ...(fresh.length > 0 && { lastResultAt: fresh[fresh.length - 1]!.timestamp })
+    }
+  });
+
+  if (agent.isStale) {
+    await logger.info(`Agent reporting again: ${agent.name}`, {
+      agentId: agent.id,
+      results: fresh.length
+    });
+  }
+
+  return summary;
+}
+
+/**
+ * Walk an agent's results in order, tracking its open outage
+ */
+async function recordAgentOutages(agent: IngestingAgent, results: AgentResult[]): Promise<void> {
+  let outage = await prisma.agentOutage.findFirst({
+    where: { agentId: agent.id, isResolved: false },
+    orderBy: { startTime: 'desc' }
+  });
+
+  for (const result of results) {
+    if (!result.isConnected && !outage) {
+      outage = await prisma.agentOutage.create({
+        data: { agentId: agent.id, startTime: result.timestamp }
+      });
+
+      await logger.warn(`Agent site down: ${agent.name}`, {
+        agentId: agent.id,
+        outageId: outage.id,
+        startTime: result.timestamp.toISOString()
+      });
+    } else if (!result.isConnected && outage) {
+      outage = await prisma.agentOutage.update({
+        where: { id: outage.id },
+        data: { checksCount: { increment: 1 } }
+      });
+    } else if (result.isConnected && outage) {
+      const durationSec = Math.floor(
+        (result.timestamp.getTime() - outage.startTime.getTime()) / 1000
+      );
+
+      await prisma.agentOutage.update({
+        where: { id: outage.id },
+        data: {
+          endTime: result.timestamp,
+          durationSec,
+          isResolved: true
+        }
+      });
+
+      await logger.info(`Agent site restored: ${agent.name}`, {
+        agentId: agent.id,
+        outageId: outage.id,
+        durationSec
+      });
+      outage = null;
+    }
+  }
+}
+
+/**
+ * Whether an agent's results have stopped arriving
+ */
+export function isAgentStale(lastSeenAt: Date | null, createdAt: Date, now = new Date()): boolean {
+  const staleAfterMs = parseInt(env.AGENT_STALE_SECONDS) * 1000;
+  return now.getTime() - (lastSeenAt ?? createdAt).getTime() > staleAfterMs;
+}
+
+/**
+ * Flag enabled agents whose results stopped arriving
+ * Agents that never reported are flagged once they are older than the stale
+ * period. Never throws, so a failure here cannot break monitoring
+ */
+export async function checkAgentHeartbeats(): Promise<void> {
+  try {
+    const agents = await prisma.agent.findMany({
+      where: { isEnabled: true, isStale: false },
+      select: { id: true, name: true, lastSeenAt: true, createdAt: true }
+    });
+
+    const now = new Date();
+    for (const agent of agents) {
+      if (!isAgentStale(agent.lastSeenAt, agent.createdAt, now)) continue;
+
+      await prisma.agent.update({
+        where: { id: agent.id },
+        data: { isStale: true }
+      });
+
+      await logger.warn(`Agent stopped reporting: ${agent.name}`, {
+        agentId: agent.id,
+        lastSeenAt: agent.lastSeenAt?.toISOString() ?? null
+      });
+    }
+  } catch (error: unknown) {
+    await logger.warn('Failed to check agent heartbeats', {
+      error: getErrorMessage(error)
+    });
+  }
+}
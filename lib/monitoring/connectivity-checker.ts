@@ -1,25 +1,141 @@
 import { prisma } from '@/lib/db';
 import { getErrorMessage } from '@/lib/utils';
 import { logger } from '@/lib/logger';
-import { safePing } from '@/lib/utils/shell';
+import {
+  getMonitoringIntervals, getOutageThresholds, getProbeSettings, OutageThresholds, ProbeSettings
+} from '@/lib/settings';
+import { isValidIPv6, safePing } from '@/lib/utils/shell';
+import {
+  ADDRESS_FAMILIES,
+  AddressFamily,
+  DnsRecordType,
+  getTargetHost,
+  isUrlTargetType,
+  parseHostPort
+} from '@/lib/utils/target-validation';
+import { DegradationMonitor } from './degradation-monitor';
+import { classifyOutage, detectDefaultGateway } from './gateway';
+import { checkForInterception } from './interception';
+import { findMaintenance, getActiveMaintenance } from './maintenance';
+import { getOutageDurations } from './outages';
+import { captureOutagePath, PathPhase } from './path-capture';
+import { parsePingOutput } from './ping-stats';
+import { dnsProbe, httpProbe, ProbeResult, tcpProbe } from './probes';
+import { recordGroupVerdicts } from './target-groups';
+import { recordTargetOutcomes, TargetOutcome } from './target-incidents';
+import { getProbeBinding, ProbeBinding, recordWanLinkResults, WanLinkBinding, WanLinkResult } from './wan-links';
+
+// Trace the path again this often while an outage lasts
+const PATH_CAPTURE_INTERVAL_MS = 5 * 60 * 1000;
 
 export interface ConnectivityResult {
   isConnected: boolean;
   latencyMs: number | null;
+  /** Packet loss of the reported target, when it was pinged */
+  packetLossPct?: number | null;
   target: string;
   timestamp: Date;
+  /** Whether the LAN gateway answered this cycle, null when none is known */
+  gatewayReachable?: boolean | null;
+  /** Targets that failed this cycle, across both address families */
+  failedTargets?: number;
+  /** Whether a captive portal or DNS hijack answered in place of the internet */
+  intercepted?: boolean;
+}
+
+/**
+ * Result of checking the targets of one address family, with the outcome of
+ * each target that was probed. Targets on their own schedule may reuse their
+ * latest result instead - those are listed in reusedTargetIds
+ */
+type FamilyResult = ConnectivityResult & {
+  failedTargets: number;
+  outcomes: TargetOutcome[];
+  reusedTargetIds: number[];
+};
+
+/**
+ * Monitoring target fields needed to run a probe
+ */
+export interface ProbeTarget {
+  id: number;
+  target: string;
+  type: string;
+  addressFamily: string;
+  httpMethod: string | null;
+  expectedStatus: number | null;
+  bodyMatch: string | null;
+  dnsQueryName: string | null;
+  dnsRecordType: string | null;
+  pingCount: number | null;
+  pingIntervalMs: number | null;
+  checkIntervalSeconds: number | null;
+  timeoutMs: number | null;
+  retries: number | null;
+  groupId: number | null;
+}
+
+/**
+ * A target probed on its own schedule rather than every check cycle
+ */
+export interface ScheduledTarget {
+  id: number;
+  target: string;
+  checkIntervalSeconds: number;
+}
+
+/**
+ * Map over items running at most `limit` async calls at a time
+ * Results keep the order of the input
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index] as T);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
 export class ConnectivityChecker {
-  private targetsCache: string[] = [];
+  private targetsCache: ProbeTarget[] = [];
   private lastCacheUpdate = 0;
   private readonly CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+  private pathCaptureInFlight = false;
+  private lastPathCaptureAt = 0;
+  // Streak of failed or successful cycles, used to confirm outages and
+  // recoveries. The first timestamp of a streak backdates the outage start/end
+  private consecutiveFailures = 0;
+  private consecutiveSuccesses = 0;
+  private streakStartedAt = new Date(0);
+  // Last cycle of the streak before the current one - the last successful
+  // cycle before an outage, or the last failed one before a recovery. Null
+  // when monitoring started with the current streak
+  private previousStreakEndedAt: Date | null = null;
+  private lastCycleAt: Date | null = null;
+  private readonly degradationMonitor = new DegradationMonitor();
+  // Latest result of each target on its own schedule, reused by check cycles
+  // while it is recent enough
+  private readonly scheduledResults = new Map<number, { result: ProbeResult; probedAt: number }>();
+  // Latest outcome of each target, so a scheduled probe can judge its group
+  // along with the other members' results
+  private readonly lastOutcomes = new Map<number, TargetOutcome>();
 
   /**
    * Load enabled targets from database, ordered by priority
    * Uses caching to avoid database queries on every check
    */
-  private async getTargets(): Promise<string[]> {
+  private async getTargets(): Promise<ProbeTarget[]> {
     const now = Date.now();
 
     // Return cached targets if still valid
@@ -31,15 +147,31 @@ export class ConnectivityChecker {
     const targets = await prisma.monitoringTarget.findMany({
       where: { isEnabled: true },
       orderBy: { priority: 'asc' },
-      select: { target: true }
+      select: {
+        id: true,
+        target: true,
+        type: true,
+        addressFamily: true,
+        httpMethod: true,
+        expectedStatus: true,
+        bodyMatch: true,
+        dnsQueryName: true,
+        dnsRecordType: true,
+        pingCount: true,
+        pingIntervalMs: true,
+        checkIntervalSeconds: true,
+        timeoutMs: true,
+        retries: true,
+        groupId: true
+      }
     });
 
-    this.targetsCache = targets.map(t => t.target);
+    this.targetsCache = targets;
     this.lastCacheUpdate = now;
 
     logger.debug('Monitoring targets loaded from database', {
       count: this.targetsCache.length,
-      targets: this.targetsCache
+      targets: this.targetsCache.map(t => t.target)
     });
 
     return this.targetsCache;
@@ -54,9 +186,65 @@ export class ConnectivityChecker {
     await this.getTargets();
   }
 
+  /**
+   * Enabled targets with their own check interval, for the scheduler
+   */
+  public async getScheduledTargets(): Promise<ScheduledTarget[]> {
+    const targets = await this.getTargets();
+    return targets.flatMap(({ id, target, checkIntervalSeconds }) =>
+      checkIntervalSeconds ? [{ id, target, checkIntervalSeconds }] : []
+    );
+  }
+
+  /**
+   * Probe one target on its own schedule and record its incident state and
+   * its group's verdict. Check cycles reuse the result until the next
+   * scheduled probe. Targets disabled or removed since the schedule was set
+   * are skipped
+   */
+  public async checkTarget(targetId: number): Promise<void> {
+    const targets = await this.getTargets();
+    const probeTarget = targets.find(t => t.id === targetId);
+    if (!probeTarget) {
+      return;
+    }
+
+    const timestamp = new Date();
+    const { probeTimeoutMs } = await getProbeSettings();
+    const result = await this.runProbe(probeTarget, probeTimeoutMs);
+    this.scheduledResults.set(targetId, { result, probedAt: timestamp.getTime() });
+
+    logger.debug('Scheduled target check complete', {
+      target: probeTarget.target,
+      isConnected: result.isConnected,
+      latencyMs: result.latencyMs
+    });
+
+    const outcome = this.toOutcome(probeTarget, result);
+    this.lastOutcomes.set(targetId, outcome);
+    await recordTargetOutcomes([outcome], timestamp);
+
+    if (probeTarget.groupId !== null) {
+      const memberOutcomes = targets
+        .filter(t => t.groupId === probeTarget.groupId)
+        .flatMap(t => this.lastOutcomes.get(t.id) ?? []);
+      await recordGroupVerdicts(memberOutcomes, timestamp);
+    }
+  }
+
   async checkConnection(): Promise<ConnectivityResult> {
     const timestamp = new Date();
     const targets = await this.getTargets();
+    const probeSettings = await getProbeSettings();
+    // Scheduled results are reused until a check cycle past the target's
+    // next scheduled probe - an older one means the schedule stopped, and
+    // could hide an outage that started since
+    const { checkIntervalSeconds } = await getMonitoringIntervals();
+    const cycleMs = checkIntervalSeconds * 1000;
+
+    // The gateway is pinged alongside the targets so a failed cycle can be
+    // told apart as a LAN fault or an ISP outage
+    const gatewayCheck = this.checkGateway(probeSettings);
 
     // Ensure we have targets to check
     if (targets.length === 0) {
@@ -68,38 +256,208 @@ export class ConnectivityChecker {
         isConnected: false,
         latencyMs: null,
         target: 'no-targets-configured',
-        timestamp
+        timestamp,
+        gatewayReachable: await gatewayCheck,
+        failedTargets: 0
       };
     }
 
+    // WAN links and interception are checked alongside the default route
+    const wanLinkCheck = this.checkWanLinks(targets, timestamp, probeSettings.probeTimeoutMs);
+    const interceptionCheck = checkForInterception(probeSettings.probeTimeoutMs);
+    // Targets answering through a captive portal (e.g. hostnames resolved to
+    // the portal) do not make the connection healthy, so their checks are
+    // recorded as down
+    const interceptedCheck = interceptionCheck.then(interception => interception?.intercepted ?? false);
+
+    // Each address family gets its own failover chain, so an IPv6 drop is
+    // recorded even while IPv4 keeps the connection up (and vice versa)
+    const results: FamilyResult[] = [];
+    for (const family of ADDRESS_FAMILIES) {
+      const familyTargets = targets.filter(t => this.getFamily(t) === family);
+      if (familyTargets.length === 0) continue;
+
+      results.push(probeSettings.probeAllTargets
+        ? await this.checkAllTargets(family, familyTargets, timestamp, probeSettings, cycleMs, interceptedCheck)
+        : await this.checkInPriorityOrder(family, familyTargets, timestamp, probeSettings, cycleMs, interceptedCheck));
+    }
+
+    // Targets and groups are judged across both families. Reused results
+    // were recorded as incidents when their target was probed
+    const outcomes = results.flatMap(familyResult => familyResult.outcomes);
+    for (const outcome of outcomes) {
+      this.lastOutcomes.set(outcome.targetId, outcome);
+    }
+    const reusedTargetIds = new Set(results.flatMap(familyResult => familyResult.reusedTargetIds));
+    await recordTargetOutcomes(outcomes.filter(outcome => !reusedTargetIds.has(outcome.targetId)), timestamp);
+    await recordGroupVerdicts(outcomes, timestamp);
+    await wanLinkCheck;
+
+    const interception = await interceptionCheck;
+    const intercepted = interception?.intercepted ?? false;
+    if (intercepted) {
+      await logger.warn('Traffic is being intercepted', {
+        reason: interception?.reason
+      });
+    }
+
+    // The connection counts as up while any family is reachable
+    const connected = intercepted ? undefined : results.find(familyResult => familyResult.isConnected);
+
+    return {
+      isConnected: connected !== undefined,
+      latencyMs: connected?.latencyMs ?? null,
+      packetLossPct: connected?.packetLossPct,
+      target: connected?.target ?? (intercepted ? 'intercepted' : 'multiple'),
+      timestamp,
+      gatewayReachable: await gatewayCheck,
+      failedTargets: results.reduce((sum, familyResult) => sum + familyResult.failedTargets, 0),
+      intercepted
+    };
+  }
+
+  /**
+   * Ping the LAN gateway - the configured one, or the default route's gateway
+   * Returns null when no gateway is known. Never throws
+   */
+  private async checkGateway(probeSettings: ProbeSettings): Promise<boolean | null> {
+    const gateway = probeSettings.gatewayTarget ?? await detectDefaultGateway();
+    if (!gateway) {
+      return null;
+    }
+
+    try {
+      await safePing(gateway, {
+        family: isValidIPv6(gateway) ? 'ipv6' : 'ipv4',
+        timeoutMs: probeSettings.probeTimeoutMs
+      });
+      return true;
+    } catch {
+      logger.debug('Gateway did not answer', { gateway });
+      return false;
+    }
+  }
+
+  /**
+   * Check every enabled WAN link and record the results
+   * Never throws, so a failure here cannot break the check cycle
+   */
+  private async checkWanLinks(targets: ProbeTarget[], timestamp: Date, timeoutMs: number): Promise<void> {
+    try {
+      const links = await prisma.wanLink.findMany({
+        where: { isEnabled: true },
+        select: { id: true, name: true, interface: true, sourceAddress: true }
+      });
+
+      const results = await Promise.all(links.map(link => this.checkWanLink(link, targets, timeoutMs)));
+      await recordWanLinkResults(results, timestamp);
+    } catch (error: unknown) {
+      await logger.warn('Failed to check WAN links', {
+        error: getErrorMessage(error)
+      });
+    }
+  }
+
+  /**
+   * Try the targets in priority order over one WAN link until one responds
+   * Targets of a family the link has no address for are skipped, so a link
+   * whose interface is gone counts as down
+   */
+  private async checkWanLink(
+    link: WanLinkBinding & { id: number; name: string },
+    targets: ProbeTarget[],
+    timeoutMs: number
+  ): Promise<WanLinkResult> {
+    for (const probeTarget of targets) {
+      const binding = getProbeBinding(link, this.getFamily(probeTarget));
+      if (!binding) continue;
+
+      const result = await this.runProbe(probeTarget, timeoutMs, binding);
+      if (result.isConnected) {
+        return {
+          wanLinkId: link.id,
+          name: link.name,
+          isConnected: true,
+          latencyMs: result.latencyMs,
+          target: probeTarget.target
+        };
+      }
+    }
+
+    return {
+      wanLinkId: link.id,
+      name: link.name,
+      isConnected: false,
+      latencyMs: null,
+      target: 'all-targets-failed'
+    };
+  }
+
+  /**
+   * Try the targets of one address family in priority order until one
+   * responds, and record a connection check for that family
+   * Targets after the one that answers do not decide the connection, but are
+   * still probed (concurrently) for their own incidents and group verdicts
+   */
+  private async checkInPriorityOrder(
+    family: AddressFamily,
+    targets: ProbeTarget[],
+    timestamp: Date,
+    probeSettings: ProbeSettings,
+    cycleMs: number,
+    interceptedCheck: Promise<boolean>
+  ): Promise<FamilyResult> {
+    const outcomes: TargetOutcome[] = [];
+    const reusedTargetIds: number[] = [];
+
     // Try multiple targets for reliability
-    for (const target of targets) {
-      try {
-        const result = await this.pingTarget(target);
-        if (result.isConnected) {
-          // Log successful check to database
-          await prisma.connectionCheck.create({
-            data: {
-              timestamp,
-              isConnected: true,
-              latencyMs: result.latencyMs,
-              target
-            }
-          });
-
-          // Log connectivity success
-          await logger.logConnectivityCheck(target, true, result.latencyMs);
-
-          return { ...result, timestamp, target };
+    for (const [index, probeTarget] of targets.entries()) {
+      const { target } = probeTarget;
+      const { result, reused } = await this.probeInCycle(probeTarget, probeSettings.probeTimeoutMs, timestamp, cycleMs);
+      outcomes.push(this.toOutcome(probeTarget, result));
+      if (reused) reusedTargetIds.push(probeTarget.id);
+
+      if (result.isConnected) {
+        const remaining = await mapWithConcurrency(
+          targets.slice(index + 1),
+          probeSettings.probeConcurrency,
+          async (remainingTarget) => ({
+            remainingTarget,
+            ...await this.probeInCycle(remainingTarget, probeSettings.probeTimeoutMs, timestamp, cycleMs)
+          })
+        );
+        for (const { remainingTarget, result: remainingResult, reused: remainingReused } of remaining) {
+          outcomes.push(this.toOutcome(remainingTarget, remainingResult));
+          if (remainingReused) reusedTargetIds.push(remainingTarget.id);
         }
-      } catch (error: unknown) {
-        const errorMessage = getErrorMessage(error);
 
-        // Log ping failure
-        await logger.warn(`Ping failed for ${target}`, {
-          target,
-          error: errorMessage
+        // Log successful check to database
+        await prisma.connectionCheck.create({
+          data: {
+            timestamp,
+            isConnected: !await interceptedCheck,
+            latencyMs: result.latencyMs,
+            packetLossPct: result.packetLossPct,
+            jitterMs: result.jitterMs,
+            target,
+            targetId: probeTarget.id,
+            addressFamily: family
+          }
         });
+
+        // Log connectivity success
+        await logger.logConnectivityCheck(target, true, result.latencyMs);
+
+        return {
+          isConnected: true,
+          latencyMs: result.latencyMs,
+          packetLossPct: result.packetLossPct,
+          timestamp,
+          target,
+          failedTargets: index,
+          outcomes,
+          reusedTargetIds
+        };
       }
     }
 
@@ -108,34 +466,266 @@ export class ConnectivityChecker {
       data: {
         timestamp,
         isConnected: false,
-        target: 'all-targets-failed'
+        target: 'all-targets-failed',
+        addressFamily: family
       }
     });
 
     // Log connectivity failure
     await logger.logConnectivityCheck('all-targets', false, null, {
-      targetsAttempted: targets.length
+      targetsAttempted: targets.length,
+      addressFamily: family
     });
 
     return {
       isConnected: false,
       latencyMs: null,
       target: 'multiple',
-      timestamp
+      timestamp,
+      failedTargets: targets.length,
+      outcomes,
+      reusedTargetIds
+    };
+  }
+
+  /**
+   * Probe every target of one address family concurrently and record a
+   * connection check per target. The family is up if any target answered
+   */
+  private async checkAllTargets(
+    family: AddressFamily,
+    targets: ProbeTarget[],
+    timestamp: Date,
+    probeSettings: ProbeSettings,
+    cycleMs: number,
+    interceptedCheck: Promise<boolean>
+  ): Promise<FamilyResult> {
+    const outcomes = await mapWithConcurrency(
+      targets,
+      probeSettings.probeConcurrency,
+      async (probeTarget) => ({
+        probeTarget,
+        target: probeTarget.target,
+        ...await this.probeInCycle(probeTarget, probeSettings.probeTimeoutMs, timestamp, cycleMs)
+      })
+    );
+
+    const intercepted = await interceptedCheck;
+    await prisma.connectionCheck.createMany({
+      data: outcomes.map(({ probeTarget, target, result }) => ({
+        timestamp,
+        isConnected: result.isConnected && !intercepted,
+        latencyMs: result.latencyMs,
+        packetLossPct: result.packetLossPct,
+        jitterMs: result.jitterMs,
+        target,
+        targetId: probeTarget.id,
+        addressFamily: family
+      }))
+    });
+    const targetOutcomes = outcomes.map(({ probeTarget, result }) => this.toOutcome(probeTarget, result));
+    const reusedTargetIds = outcomes.filter(({ reused }) => reused).map(({ probeTarget }) => probeTarget.id);
+
+    // Targets are in priority order, so the first one up is the one reported
+    const firstUp = outcomes.find(({ result }) => result.isConnected);
+    const failedTargets = outcomes.filter(({ result }) => !result.isConnected).length;
+    if (!firstUp) {
+      await logger.logConnectivityCheck('all-targets', false, null, {
+        targetsAttempted: targets.length,
+        addressFamily: family
+      });
+
+      return {
+        isConnected: false,
+        latencyMs: null,
+        target: 'multiple',
+        timestamp,
+        failedTargets,
+        outcomes: targetOutcomes,
+        reusedTargetIds
+      };
+    }
+
+    await logger.logConnectivityCheck(firstUp.target, true, firstUp.result.latencyMs, {
+      targetsUp: outcomes.filter(({ result }) => result.isConnected).length,
+      targetsAttempted: targets.length,
+      addressFamily: family
+    });
+
+    return {
+      isConnected: true,
+      latencyMs: firstUp.result.latencyMs,
+      packetLossPct: firstUp.result.packetLossPct,
+      timestamp,
+      target: firstUp.target,
+      failedTargets,
+      outcomes: targetOutcomes,
+      reusedTargetIds
     };
   }
 
-  private async pingTarget(target: string): Promise<{ isConnected: boolean; latencyMs: number | null }> {
+  /**
+   * Probe a target within a check cycle
+   * A target on its own schedule reuses its latest result while it is newer
+   * than its own interval plus one check cycle (cycleMs), and is probed here
+   * when it has none or it is older
+   */
+  private async probeInCycle(
+    probeTarget: ProbeTarget,
+    timeoutMs: number,
+    timestamp: Date,
+    cycleMs: number
+  ): Promise<{ result: ProbeResult; reused: boolean }> {
+    const scheduled = probeTarget.checkIntervalSeconds ? this.scheduledResults.get(probeTarget.id) : undefined;
+    const maxReuseAgeMs = (probeTarget.checkIntervalSeconds ?? 0) * 1000 + cycleMs;
+    if (scheduled && timestamp.getTime() - scheduled.probedAt < maxReuseAgeMs) {
+      return { result: scheduled.result, reused: true };
+    }
+
+    const result = await this.runProbe(probeTarget, timeoutMs);
+    if (probeTarget.checkIntervalSeconds) {
+      this.scheduledResults.set(probeTarget.id, { result, probedAt: timestamp.getTime() });
+    }
+    return { result, reused: false };
+  }
+
+  /**
+   * Probe a single target, retrying as configured, and log failures that
+   * deserve attention. The target's own timeout overrides the given one.
+   * Never throws - an unexpected error counts as the target being down
+   */
+  private async runProbe(probeTarget: ProbeTarget, timeoutMs: number, binding?: ProbeBinding): Promise<ProbeResult> {
+    const { target } = probeTarget;
+    const attempts = 1 + (probeTarget.retries ?? 0);
+    const probeTimeoutMs = probeTarget.timeoutMs ?? timeoutMs;
+
+    let result = await this.attemptProbe(probeTarget, probeTimeoutMs, binding);
+    for (let attempt = 2; attempt <= attempts && !result.isConnected; attempt++) {
+      logger.debug(`Retrying probe for ${target}`, { target, attempt, attempts });
+      result = await this.attemptProbe(probeTarget, probeTimeoutMs, binding);
+    }
+
+    // A resolver that cannot answer is worth flagging on its own, since
+    // it looks different from the whole WAN being down
+    if (!result.isConnected && probeTarget.type === 'dns') {
+      await logger.warn(`DNS lookup failed via resolver ${target}`, {
+        target,
+        error: result.error
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Make one probe attempt
+   * An unexpected error counts as the target being down
+   */
+  private async attemptProbe(probeTarget: ProbeTarget, timeoutMs: number, binding?: ProbeBinding): Promise<ProbeResult> {
+    const { target } = probeTarget;
+    try {
+      return await this.probeTarget(probeTarget, timeoutMs, binding);
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+
+      // Log probe failure
+      await logger.warn(`Probe failed for ${target}`, {
+        target,
+        error: errorMessage
+      });
+
+      return { isConnected: false, latencyMs: null, error: errorMessage };
+    }
+  }
+
+  /**
+   * Per-target result of a probe, for incident tracking
+   */
+  private toOutcome(probeTarget: ProbeTarget, result: ProbeResult): TargetOutcome {
+    return {
+      targetId: probeTarget.id,
+      target: probeTarget.target,
+      isConnected: result.isConnected,
+      ...(result.error && { error: result.error })
+    };
+  }
+
+  /**
+   * Address family a target is monitored over (IPv4 unless set to IPv6)
+   */
+  private getFamily(target: ProbeTarget): AddressFamily {
+    return target.addressFamily === 'ipv6' ? 'ipv6' : 'ipv4';
+  }
+
+  /**
+   * Probe a target using the method for its type
+   * URL targets get an HTTP(S) request, tcp targets a connect attempt,
+   * dns targets a query, everything else is pinged. Hostnames are resolved
+   * to the target's address family only. With a binding, the probe is sent
+   * over that WAN link
+   */
+  private async probeTarget(target: ProbeTarget, timeoutMs: number, binding?: ProbeBinding): Promise<ProbeResult> {
+    const family = this.getFamily(target);
+    const localAddress = binding && { localAddress: binding.localAddress };
+
+    if (isUrlTargetType(target.type)) {
+      return httpProbe(target.target, {
+        method: target.httpMethod === 'HEAD' ? 'HEAD' : 'GET',
+        expectedStatus: target.expectedStatus,
+        bodyMatch: target.bodyMatch,
+        family,
+        timeoutMs,
+        ...localAddress
+      });
+    }
+
+    if (target.type === 'tcp') {
+      const hostPort = parseHostPort(target.target);
+      if (!hostPort) {
+        return { isConnected: false, latencyMs: null, error: `Invalid tcp target: ${target.target}` };
+      }
+      return tcpProbe(hostPort.host, hostPort.port, { family, timeoutMs, ...localAddress });
+    }
+
+    if (target.type === 'dns') {
+      return dnsProbe(target.target, {
+        queryName: target.dnsQueryName,
+        recordType: target.dnsRecordType as DnsRecordType | null,
+        timeoutMs,
+        ...localAddress
+      });
+    }
+
+    return this.pingTarget(target, family, timeoutMs, binding);
+  }
+
+  /**
+   * Ping a target, sending several packets when configured
+   * The target is up if any packet got a reply; loss and jitter come from
+   * the ping summary
+   */
+  private async pingTarget(
+    target: ProbeTarget,
+    family: AddressFamily,
+    timeoutMs: number,
+    binding?: ProbeBinding
+  ): Promise<ProbeResult> {
     try {
-      const { stdout } = await safePing(target);
+      const { stdout } = await safePing(target.target, {
+        family,
+        timeoutMs,
+        ...(binding && { sourceInterface: binding.pingInterface }),
+        ...(target.pingCount && { count: target.pingCount }),
+        ...(target.pingIntervalMs && { intervalMs: target.pingIntervalMs })
+      });
 
-      // Parse latency from ping output
-      const match = stdout.match(/time=(\d+\.?\d*)/);
-      const latencyMs = match?.[1] ? parseFloat(match[1]) : null;
+      const { latencyMs, packetLossPct, jitterMs } = parsePingOutput(stdout);
 
       return {
         isConnected: true,
-        latencyMs
+        latencyMs,
+        packetLossPct,
+        jitterMs
       };
     } catch {
       return {
@@ -145,31 +735,116 @@ export class ConnectivityChecker {
     }
   }
 
+  /**
+   * Trace the path toward the primary (highest priority) target in the background
+   * Traceroute can take far longer than a check, so it is not awaited.
+   * Captures during an outage are spaced out and skipped while one is running
+   */
+  private async startPathCapture(outageId: number, phase: PathPhase, timestamp: Date): Promise<void> {
+    if (phase === 'during' && (
+      this.pathCaptureInFlight ||
+      timestamp.getTime() - this.lastPathCaptureAt < PATH_CAPTURE_INTERVAL_MS
+    )) {
+      return;
+    }
+
+    const [primary] = await this.getTargets();
+    const host = primary ? getTargetHost(primary.target) : null;
+    if (!primary || !host) {
+      return;
+    }
+
+    this.pathCaptureInFlight = true;
+    this.lastPathCaptureAt = timestamp.getTime();
+
+    void captureOutagePath(outageId, phase, host, this.getFamily(primary)).finally(() => {
+      this.pathCaptureInFlight = false;
+    });
+  }
+
+  /**
+   * Whether a cycle counts toward an outage
+   * Every target failing always does; with minFailedTargets set, a cycle
+   * where that many targets failed does too, even if others answered
+   */
+  private isFailedCycle(result: ConnectivityResult, thresholds: OutageThresholds): boolean {
+    if (!result.isConnected) {
+      return true;
+    }
+    return thresholds.minFailedTargets !== null && (result.failedTargets ?? 0) >= thresholds.minFailedTargets;
+  }
+
+  /**
+   * Track the current streak of failed or successful cycles
+   */
+  private recordCycle(failed: boolean, timestamp: Date): void {
+    const continuesStreak = failed ? this.consecutiveFailures > 0 : this.consecutiveSuccesses > 0;
+    if (!continuesStreak) {
+      this.streakStartedAt = timestamp;
+      this.previousStreakEndedAt = this.lastCycleAt;
+    }
+    this.lastCycleAt = timestamp;
+
+    this.consecutiveFailures = failed ? this.consecutiveFailures + 1 : 0;
+    this.consecutiveSuccesses = failed ? 0 : this.consecutiveSuccesses + 1;
+  }
+
   async handleConnectionStatus(result: ConnectivityResult): Promise<void> {
+    const thresholds = await getOutageThresholds();
+    const failed = this.isFailedCycle(result, thresholds);
+    this.recordCycle(failed, result.timestamp);
+    const streakStartedAt = this.streakStartedAt;
+
+    // Line quality is judged separately from outages
+    await this.degradationMonitor.handleCycle(result, failed);
+
     const activeOutage = await prisma.outage.findFirst({
       where: { isResolved: false },
       orderBy: { startTime: 'desc' }
     });
 
-    if (!result.isConnected && !activeOutage) {
-      // New outage detected
+    if (failed && !activeOutage) {
+      if (this.consecutiveFailures < thresholds.failureThreshold) {
+        logger.debug('Failed check not yet confirmed as an outage', {
+          consecutiveFailures: this.consecutiveFailures,
+          failureThreshold: thresholds.failureThreshold
+        });
+        return;
+      }
+
+      // New outage confirmed - backdated to the first failed check, and
+      // planned when that falls in a connection-wide maintenance window
+      const classification = classifyOutage(result.gatewayReachable, result.intercepted);
+      const maintenance = findMaintenance(await getActiveMaintenance(streakStartedAt));
       const newOutage = await prisma.outage.create({
         data: {
-          startTime: result.timestamp,
-          checksCount: 1
+          startTime: streakStartedAt,
+          startLastGoodAt: this.previousStreakEndedAt,
+          checksCount: this.consecutiveFailures,
+          classification,
+          ...(maintenance && { isPlanned: true })
         }
       });
 
       // Log critical outage event
       await logger.logOutage('started', newOutage.id.toString(), undefined, {
-        timestamp: result.timestamp.toISOString()
+        timestamp: streakStartedAt.toISOString(),
+        classification,
+        ...(maintenance && { maintenance: maintenance.description })
       });
-    } else if (!result.isConnected && activeOutage) {
-      // Outage continues
+
+      await this.startPathCapture(newOutage.id, 'start', result.timestamp);
+    } else if (failed && activeOutage) {
+      // Outage continues - classify it now if the gateway could not be
+      // probed when it started, or as intercepted once a portal shows up
+      const classification = activeOutage.classification && !result.intercepted
+        ? null
+        : classifyOutage(result.gatewayReachable, result.intercepted);
       await prisma.outage.update({
         where: { id: activeOutage.id },
         data: {
-          checksCount: { increment: 1 }
+          checksCount: { increment: 1 },
+          ...(classification && classification !== activeOutage.classification && { classification })
         }
       });
 
@@ -177,17 +852,35 @@ export class ConnectivityChecker {
         outageId: activeOutage.id,
         checksCount: activeOutage.checksCount + 1
       });
-    } else if (result.isConnected && activeOutage) {
-      // Connection restored
-      const durationSec = Math.floor(
-        (result.timestamp.getTime() - activeOutage.startTime.getTime()) / 1000
-      );
+
+      await this.startPathCapture(activeOutage.id, 'during', result.timestamp);
+    } else if (!failed && activeOutage) {
+      if (this.consecutiveSuccesses < thresholds.recoveryThreshold) {
+        logger.debug('Successful check not yet confirmed as a recovery', {
+          outageId: activeOutage.id,
+          consecutiveSuccesses: this.consecutiveSuccesses,
+          recoveryThreshold: thresholds.recoveryThreshold
+        });
+        return;
+      }
+
+      // Connection restored - the outage ends at the first successful check
+      const endTime = streakStartedAt;
+      const endLastBadAt = this.previousStreakEndedAt;
+      const durations = getOutageDurations({
+        startTime: activeOutage.startTime,
+        endTime,
+        startLastGoodAt: activeOutage.startLastGoodAt,
+        endLastBadAt
+      });
+      const { durationSec } = durations;
 
       await prisma.outage.update({
         where: { id: activeOutage.id },
         data: {
-          endTime: result.timestamp,
-          durationSec,
+          endTime,
+          endLastBadAt,
+          ...durations,
           isResolved: true
         }
       });
@@ -195,12 +888,19 @@ export class ConnectivityChecker {
       // Log outage resolution
       await logger.logOutage('resolved', activeOutage.id.toString(), durationSec, {
         startTime: activeOutage.startTime.toISOString(),
-        endTime: result.timestamp.toISOString()
+        endTime: endTime.toISOString()
       });
 
+      await this.startPathCapture(activeOutage.id, 'recovery', result.timestamp);
+
+      // Planned outages are recorded without notifications
+      if (activeOutage.isPlanned) {
+        return;
+      }
+
       // Trigger email notification
       const { sendOutageRestoredEmail } = await import('./email-notifier');
-      await sendOutageRestoredEmail(activeOutage.startTime, result.timestamp, durationSec);
+      await sendOutageRestoredEmail(activeOutage.startTime, endTime, durationSec, activeOutage.classification);
     }
   }
 }
@@ -0,0 +1,189 @@
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { DegradationSettings, getDegradationSettings } from '@/lib/settings';
+import type { ConnectivityResult } from './connectivity-checker';
+import { findMaintenance, getActiveMaintenance } from './maintenance';
+
+/**
+ * Why a degraded period was opened
+ * Matches the comment on DegradedPeriod.reason in the Prisma schema
+ */
+export type DegradationReason = 'latency' | 'packet_loss' | 'latency_and_packet_loss';
+
+/**
+ * Line quality of one connected cycle
+ */
+interface QualitySample {
+  latencyMs: number | null;
+  packetLossPct: number | null;
+}
+
+/**
+ * Averages over the rolling window, null when no cycle measured the value
+ */
+export interface WindowAverages {
+  latencyMs: number | null;
+  packetLossPct: number | null;
+}
+
+/**
+ * Average the non-null values, or null when there are none
+ */
+function averageOf(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return null;
+  }
+  return Math.round((present.reduce((sum, value) => sum + value, 0) / present.length) * 100) / 100;
+}
+
+/**
+ * Larger of two optional values
+ */
+function maxOf(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+}
+
+/**
+ * Decide whether the window averages are over the configured thresholds
+ * Returns null when the connection is healthy or no threshold is set
+ */
+export function getDegradationReason(
+  averages: WindowAverages,
+  settings: DegradationSettings
+): DegradationReason | null {
+  const slow = settings.latencyThresholdMs !== null &&
+    averages.latencyMs !== null &&
+    averages.latencyMs > settings.latencyThresholdMs;
+  const lossy = settings.packetLossThresholdPct !== null &&
+    averages.packetLossPct !== null &&
+    averages.packetLossPct > settings.packetLossThresholdPct;
+
+  if (slow && lossy) return 'latency_and_packet_loss';
+  if (slow) return 'latency';
+  if (lossy) return 'packet_loss';
+  return null;
+}
+
+/**
+ * Tracks line quality over a rolling window of connected cycles and records
+ * degraded periods - times the connection was up but too slow or lossy
+ *
+ * Failed cycles are outages and are tracked by the connectivity checker, so
+ * they clear the window instead of counting toward it.
+ */
+export class DegradationMonitor {
+  private samples: QualitySample[] = [];
+
+  async handleCycle(result: ConnectivityResult, failed: boolean): Promise<void> {
+    if (failed) {
+      this.samples = [];
+      return;
+    }
+
+    const settings = await getDegradationSettings();
+    this.samples.push({
+      latencyMs: result.latencyMs,
+      packetLossPct: result.packetLossPct ?? null
+    });
+    this.samples = this.samples.slice(-settings.windowChecks);
+
+    // Judge only full windows, so a single slow reply cannot open a period
+    if (this.samples.length < settings.windowChecks) {
+      return;
+    }
+
+    const averages: WindowAverages = {
+      latencyMs: averageOf(this.samples.map(sample => sample.latencyMs)),
+      packetLossPct: averageOf(this.samples.map(sample => sample.packetLossPct))
+    };
+    const reason = getDegradationReason(averages, settings);
+
+    const activePeriod = await prisma.degradedPeriod.findFirst({
+      where: { isResolved: false },
+      orderBy: { startTime: 'desc' }
+    });
+
+    if (reason && !activePeriod) {
+      const newPeriod = await prisma.degradedPeriod.create({
+        data: {
+          startTime: result.timestamp,
+          reason,
+          peakLatencyMs: averages.latencyMs,
+          peakPacketLossPct: averages.packetLossPct
+        }
+      });
+
+      await logger.warn('Degraded connection started', {
+        degradedPeriodId: newPeriod.id,
+        reason,
+        averageLatencyMs: averages.latencyMs,
+        averagePacketLossPct: averages.packetLossPct
+      });
+
+      // Periods starting in a connection-wide maintenance window are not emailed
+      if (settings.notify && !findMaintenance(await getActiveMaintenance(newPeriod.startTime))) {
+        const { sendDegradedConnectionEmail } = await import('./email-notifier');
+        const sent = await sendDegradedConnectionEmail('started', {
+          startTime: newPeriod.startTime,
+          endTime: null,
+          durationSec: null,
+          reason,
+          peakLatencyMs: averages.latencyMs,
+          peakPacketLossPct: averages.packetLossPct
+        });
+
+        if (sent) {
+          await prisma.degradedPeriod.update({
+            where: { id: newPeriod.id },
+            data: { emailSent: true }
+          });
+        }
+      }
+    } else if (reason && activePeriod) {
+      // Still degraded - keep the worst averages seen
+      await prisma.degradedPeriod.update({
+        where: { id: activePeriod.id },
+        data: {
+          reason,
+          peakLatencyMs: maxOf(activePeriod.peakLatencyMs, averages.latencyMs),
+          peakPacketLossPct: maxOf(activePeriod.peakPacketLossPct, averages.packetLossPct)
+        }
+      });
+    } else if (!reason && activePeriod) {
+      const endTime = result.timestamp;
+      const durationSec = Math.floor(
+        (endTime.getTime() - activePeriod.startTime.getTime()) / 1000
+      );
+
+      await prisma.degradedPeriod.update({
+        where: { id: activePeriod.id },
+        data: {
+          endTime,
+          durationSec,
+          isResolved: true
+        }
+      });
+
+      await logger.info('Degraded connection resolved', {
+        degradedPeriodId: activePeriod.id,
+        durationSec
+      });
+
+      // Nor is the end of one, since its start was not announced
+      if (settings.notify && !findMaintenance(await getActiveMaintenance(activePeriod.startTime))) {
+        const { sendDegradedConnectionEmail } = await import('./email-notifier');
+        await sendDegradedConnectionEmail('resolved', {
+          startTime: activePeriod.startTime,
+          endTime,
+          durationSec,
+          reason: activePeriod.reason as DegradationReason,
+          peakLatencyMs: activePeriod.peakLatencyMs,
+          peakPacketLossPct: activePeriod.peakPacketLossPct
+        });
+      }
+    }
+  }
+}
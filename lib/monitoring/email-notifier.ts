@@ -2,19 +2,50 @@ import nodemailer from 'nodemailer';
 import { getErrorMessage } from '@/lib/utils';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
+import { isAgentMode } from './agent-reporter';
+import type { DegradationReason } from './degradation-monitor';
+import type { PublicIpField, PublicIpSnapshot } from './public-ip';
 
-export async function sendOutageRestoredEmail(
-  startTime: Date,
-  endTime: Date,
-  durationSec: number
-): Promise<void> {
-  // Check if email is configured
-  if (!env.SMTP_HOST || !env.EMAIL_TO) {
-    logger.debug('Email not configured, skipping notification');
-    return;
-  }
+/**
+ * Degraded period fields needed for a notification
+ */
+export interface DegradedPeriodSummary {
+  startTime: Date;
+  endTime: Date | null;
+  durationSec: number | null;
+  reason: DegradationReason;
+  peakLatencyMs: number | null;
+  peakPacketLossPct: number | null;
+}
+
+/**
+ * Latency anomaly fields needed for a notification
+ */
+export interface LatencyAnomalySummary {
+  target: string;
+  startTime: Date;
+  endTime: Date | null;
+  durationSec: number | null;
+  baselineMs: number;
+  peakLatencyMs: number;
+  peakZScore: number;
+}
 
-  const transporter = nodemailer.createTransport({
+const REASON_LABELS: Record<DegradationReason, string> = {
+  latency: 'High latency',
+  packet_loss: 'Packet loss',
+  latency_and_packet_loss: 'High latency and packet loss'
+};
+
+const PUBLIC_IP_LABELS: Record<PublicIpField, string> = {
+  ipv4: 'IPv4',
+  ipv6: 'IPv6',
+  asn: 'ASN',
+  isp: 'ISP'
+};
+
+function createTransporter() {
+  return nodemailer.createTransport({
     host: env.SMTP_HOST,
     port: parseInt(env.SMTP_PORT || '587'),
     secure: env.SMTP_SECURE === 'true',
@@ -23,12 +54,65 @@ export async function sendOutageRestoredEmail(
       pass: env.SMTP_PASS
     }
   });
+}
 
+function formatDuration(durationSec: number): string {
   const durationMin = Math.floor(durationSec / 60);
   const durationHours = Math.floor(durationMin / 60);
-  const durationDisplay = durationHours > 0
+  return durationHours > 0
     ? `${durationHours}h ${durationMin % 60}m`
     : `${durationMin}m ${durationSec % 60}s`;
+}
+
+/**
+ * Escape text for the HTML body of an email
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Whether email is configured and sent from this instance
+ * A remote agent leaves notifications to the central instance, which gets
+ * its results
+ */
+function canSendEmail(to: string | undefined): to is string {
+  if (isAgentMode()) {
+    logger.debug('Running as a remote agent, skipping notification');
+    return false;
+  }
+  if (!env.SMTP_HOST || !to) {
+    logger.debug('Email not configured, skipping notification');
+    return false;
+  }
+  return true;
+}
+
+export async function sendOutageRestoredEmail(
+  startTime: Date,
+  endTime: Date,
+  durationSec: number,
+  classification?: string | null
+): Promise<void> {
+  if (!canSendEmail(env.EMAIL_TO)) {
+    return;
+  }
+
+  const transporter = createTransporter();
+  const durationDisplay = formatDuration(durationSec);
+
+  const causeDisplay = classification === 'local'
+    ? 'Local network (gateway unreachable)'
+    : classification === 'upstream'
+    ? 'Upstream / ISP (gateway reachable)'
+    : classification === 'intercepted'
+    ? 'Intercepted (captive portal or DNS hijack)'
+    : null;
 
   const mailOptions = {
     from: env.EMAIL_FROM,
@@ -41,6 +125,7 @@ export async function sendOutageRestoredEmail(
         <li><strong>Outage Start:</strong> ${startTime.toLocaleString()}</li>
         <li><strong>Restored At:</strong> ${endTime.toLocaleString()}</li>
         <li><strong>Duration:</strong> ${durationDisplay}</li>
+        ${causeDisplay ? `<li><strong>Cause:</strong> ${causeDisplay}</li>` : ''}
       </ul>
       <p><a href="${env.APP_URL || 'http://localhost:3000'}/dashboard">View Dashboard</a></p>
       <hr style="margin-top: 20px; border: none; border-top: 1px solid #ddd;">
@@ -54,6 +139,7 @@ export async function sendOutageRestoredEmail(
     // Log successful email send
     await logger.logEmail('success', env.EMAIL_TO, 'Connection Restored', {
       durationSec,
+      classification,
       startTime: startTime.toISOString(),
       endTime: endTime.toISOString()
     });
@@ -67,3 +153,244 @@ export async function sendOutageRestoredEmail(
     });
   }
 }
+
+/**
+ * Notify that a degraded period started or ended
+ * Unlike outages, the connection still works while degraded, so the start is
+ * reported as it happens. Returns whether the email was sent
+ */
+export async function sendDegradedConnectionEmail(
+  event: 'started' | 'resolved',
+  period: DegradedPeriodSummary
+): Promise<boolean> {
+  if (!canSendEmail(env.EMAIL_TO)) {
+    return false;
+  }
+
+  const transporter = createTransporter();
+  const subject = event === 'started' ? 'Connection Degraded' : 'Connection Quality Restored';
+
+  const mailOptions = {
+    from: env.EMAIL_FROM,
+    to: env.EMAIL_TO,
+    subject: `${event === 'started' ? '🟠' : '🟢'} WanWatch - ${subject}`,
+    html: `
+      <h2>${subject}</h2>
+      <p>${event === 'started'
+        ? 'Your internet connection is up, but its quality is below the configured thresholds.'
+        : 'Your internet connection quality is back within the configured thresholds.'}</p>
+      <ul>
+        <li><strong>Reason:</strong> ${REASON_LABELS[period.reason]}</li>
+        <li><strong>Degraded Since:</strong> ${period.startTime.toLocaleString()}</li>
+        ${period.endTime ? `<li><strong>Restored At:</strong> ${period.endTime.toLocaleString()}</li>` : ''}
+        ${period.durationSec !== null ? `<li><strong>Duration:</strong> ${formatDuration(period.durationSec)}</li>` : ''}
+        ${period.peakLatencyMs !== null ? `<li><strong>Worst Average Latency:</strong> ${period.peakLatencyMs} ms</li>` : ''}
+        ${period.peakPacketLossPct !== null ? `<li><strong>Worst Average Packet Loss:</strong> ${period.peakPacketLossPct}%</li>` : ''}
+      </ul>
+      <p><a href="${env.APP_URL || 'http://localhost:3000'}/dashboard">View Dashboard</a></p>
+      <hr style="margin-top: 20px; border: none; border-top: 1px solid #ddd;">
+      <p style="color: #666; font-size: 12px;">Sent by WanWatch</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+
+    // Log successful email send
+    await logger.logEmail('success', env.EMAIL_TO, subject, {
+      reason: period.reason,
+      startTime: period.startTime.toISOString(),
+      ...(period.endTime && { endTime: period.endTime.toISOString() })
+    });
+    return true;
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+
+    // Log email failure
+    await logger.logEmail('failure', env.EMAIL_TO, subject, {
+      error: errorMessage,
+      reason: period.reason
+    });
+    return false;
+  }
+}
+
+/**
+ * Notify that a target's latency left or returned to its normal range for
+ * the time of day. Returns whether the email was sent
+ */
+export async function sendLatencyAnomalyEmail(
+  event: 'started' | 'resolved',
+  anomaly: LatencyAnomalySummary
+): Promise<boolean> {
+  if (!canSendEmail(env.EMAIL_TO)) {
+    return false;
+  }
+
+  const transporter = createTransporter();
+  const subject = event === 'started'
+    ? `Unusual Latency to ${anomaly.target}`
+    : `Latency to ${anomaly.target} Back to Normal`;
+
+  const mailOptions = {
+    from: env.EMAIL_FROM,
+    to: env.EMAIL_TO,
+    subject: `${event === 'started' ? '🟠' : '🟢'} WanWatch - ${subject}`,
+    html: `
+      <h2>${subject}</h2>
+      <p>${event === 'started'
+        ? 'Latency is well above what is normal for this time of day, e.g. because of congestion at your ISP.'
+        : 'Latency is back within its normal range for this time of day.'}</p>
+      <ul>
+        <li><strong>Target:</strong> ${anomaly.target}</li>
+        <li><strong>Normal Latency:</strong> ${anomaly.baselineMs} ms</li>
+        <li><strong>Worst Average Latency:</strong> ${anomaly.peakLatencyMs} ms (z-score ${anomaly.peakZScore})</li>
+        <li><strong>Unusual Since:</strong> ${anomaly.startTime.toLocaleString()}</li>
+        ${anomaly.endTime ? `<li><strong>Normal Again At:</strong> ${anomaly.endTime.toLocaleString()}</li>` : ''}
+        ${anomaly.durationSec !== null ? `<li><strong>Duration:</strong> ${formatDuration(anomaly.durationSec)}</li>` : ''}
+      </ul>
+      <p><a href="${env.APP_URL || 'http://localhost:3000'}/dashboard">View Dashboard</a></p>
+      <hr style="margin-top: 20px; border: none; border-top: 1px solid #ddd;">
+      <p style="color: #666; font-size: 12px;">Sent by WanWatch</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+
+    // Log successful email send
+    await logger.logEmail('success', env.EMAIL_TO, subject, {
+      target: anomaly.target,
+      startTime: anomaly.startTime.toISOString(),
+      ...(anomaly.endTime && { endTime: anomaly.endTime.toISOString() })
+    });
+    return true;
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+
+    // Log email failure
+    await logger.logEmail('failure', env.EMAIL_TO, subject, {
+      error: errorMessage,
+      target: anomaly.target
+    });
+    return false;
+  }
+}
+
+/**
+ * Notify that a target group went down or came back
+ * Sent to the group's own recipient when set, EMAIL_TO otherwise. Returns
+ * whether the email was sent
+ */
+export async function sendGroupStatusEmail(
+  event: 'down' | 'restored',
+  groupName: string,
+  incident: { startTime: Date; endTime: Date | null; durationSec: number | null },
+  recipient?: string | null
+): Promise<boolean> {
+  const to = recipient || env.EMAIL_TO;
+
+  if (!canSendEmail(to)) {
+    return false;
+  }
+
+  const transporter = createTransporter();
+  const subject = event === 'down' ? `${groupName} Down` : `${groupName} Restored`;
+  // Group names are entered by users
+  const groupHtml = escapeHtml(groupName);
+
+  const mailOptions = {
+    from: env.EMAIL_FROM,
+    to,
+    subject: `${event === 'down' ? '🔴' : '🟢'} WanWatch - ${subject}`,
+    html: `
+      <h2>${escapeHtml(subject)}</h2>
+      <p>${event === 'down'
+        ? `Too few targets in the ${groupHtml} group are answering.`
+        : `The ${groupHtml} group is answering again.`}</p>
+      <ul>
+        <li><strong>Down Since:</strong> ${incident.startTime.toLocaleString()}</li>
+        ${incident.endTime ? `<li><strong>Restored At:</strong> ${incident.endTime.toLocaleString()}</li>` : ''}
+        ${incident.durationSec !== null ? `<li><strong>Duration:</strong> ${formatDuration(incident.durationSec)}</li>` : ''}
+      </ul>
+      <p><a href="${env.APP_URL || 'http://localhost:3000'}/dashboard">View Dashboard</a></p>
+      <hr style="margin-top: 20px; border: none; border-top: 1px solid #ddd;">
+      <p style="color: #666; font-size: 12px;">Sent by WanWatch</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+
+    // Log successful email send
+    await logger.logEmail('success', to, subject, {
+      group: groupName,
+      startTime: incident.startTime.toISOString(),
+      ...(incident.endTime && { endTime: incident.endTime.toISOString() })
+    });
+    return true;
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+
+    // Log email failure
+    await logger.logEmail('failure', to, subject, {
+      error: errorMessage,
+      group: groupName
+    });
+    return false;
+  }
+}
+
+/**
+ * Notify that the public IP, ASN or ISP changed
+ * A new IP often means the modem rebooted or traffic failed over to another
+ * line. The values come from an external lookup service, so they are
+ * escaped. Returns whether the email was sent
+ */
+export async function sendPublicIpChangeEmail(
+  previous: PublicIpSnapshot,
+  current: PublicIpSnapshot,
+  changedFields: PublicIpField[]
+): Promise<boolean> {
+  if (!canSendEmail(env.EMAIL_TO)) {
+    return false;
+  }
+
+  const transporter = createTransporter();
+  const subject = 'Public IP Changed';
+
+  const mailOptions = {
+    from: env.EMAIL_FROM,
+    to: env.EMAIL_TO,
+    subject: `🔵 WanWatch - ${subject}`,
+    html: `
+      <h2>${subject}</h2>
+      <p>Your public address details changed. This often means the modem rebooted or traffic failed over to another line.</p>
+      <ul>
+        ${changedFields.map(field =>
+          `<li><strong>${PUBLIC_IP_LABELS[field]}:</strong> ${escapeHtml(previous[field] ?? 'none')} → ${escapeHtml(current[field] ?? 'none')}</li>`
+        ).join('')}
+      </ul>
+      <p><a href="${env.APP_URL || 'http://localhost:3000'}/dashboard">View Dashboard</a></p>
+      <hr style="margin-top: 20px; border: none; border-top: 1px solid #ddd;">
+      <p style="color: #666; font-size: 12px;">Sent by WanWatch</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+
+    // Log successful email send
+    await logger.logEmail('success', env.EMAIL_TO, subject, { changedFields });
+    return true;
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+
+    // Log email failure
+    await logger.logEmail('failure', env.EMAIL_TO, subject, {
+      error: errorMessage,
+      changedFields
+    });
+    return false;
+  }
+}
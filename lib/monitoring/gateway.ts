@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Kernel IPv4 routing table
+ */
+const PROC_NET_ROUTE = '/proc/net/route';
+
+// RTF_GATEWAY - the route goes through a gateway rather than a directly attached network
+const RTF_GATEWAY = 0x2;
+
+/**
+ * Where an outage was caused
+ * Matches the comment on Outage.classification in the Prisma schema
+ *
+ * - local: the LAN gateway was unreachable (router, switch or cabling)
+ * - upstream: the gateway answered but the internet targets did not
+ * - intercepted: something on the path (e.g. a captive portal or DNS hijack)
+ *   answered in place of the internet
+ */
+export type OutageClassification = 'local' | 'upstream' | 'intercepted';
+
+/**
+ * Classify an outage from the gateway and interception checks of the same cycle
+ * Interception wins, since the gateway answers while a portal intercepts.
+ * Returns null when no gateway could be probed
+ */
+export function classifyOutage(
+  gatewayReachable: boolean | null | undefined,
+  intercepted?: boolean
+): OutageClassification | null {
+  if (intercepted) {
+    return 'intercepted';
+  }
+  if (gatewayReachable === null || gatewayReachable === undefined) {
+    return null;
+  }
+  return gatewayReachable ? 'upstream' : 'local';
+}
+
+/**
+ * Find the default gateway in the contents of /proc/net/route
+ *
+ *   Iface  Destination  Gateway   Flags  RefCnt  Use  Metric  Mask      ...
+ *   eth0   00000000     0101A8C0  0003   0       0    100     00000000  ...
+ *
+ * Addresses are little-endian hex, so 0101A8C0 is 192.168.1.1. With several
+ * default routes, the one with the lowest metric wins.
+ */
+export function parseDefaultGateway(routeTable: string): string | null {
+  let best: { gateway: string; metric: number } | null = null;
+
+  for (const line of routeTable.split('\n').slice(1)) {
+    const [, destination, gatewayHex, flagsHex, , , metricText] = line.trim().split(/\s+/);
+    if (destination !== '00000000' || !gatewayHex || !flagsHex) continue;
+    if ((parseInt(flagsHex, 16) & RTF_GATEWAY) === 0) continue;
+
+    const gatewayValue = parseInt(gatewayHex, 16);
+    if (!gatewayValue) continue;
+
+    const metric = parseInt(metricText ?? '0', 10);
+    if (best && best.metric <= metric) continue;
+
+    const gateway = [0, 8, 16, 24].map(shift => (gatewayValue >>> shift) & 0xff).join('.');
+    best = { gateway, metric };
+  }
+
+  return best?.gateway ?? null;
+}
+
+/**
+ * Detect the IPv4 default gateway from the kernel routing table
+ * Returns null where /proc is unavailable (e.g. macOS) or there is no default route
+ */
+export async function detectDefaultGateway(): Promise<string | null> {
+  try {
+    return parseDefaultGateway(await fs.readFile(PROC_NET_ROUTE, 'utf8'));
+  } catch {
+    return null;
+  }
+}
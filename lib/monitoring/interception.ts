@@ -0,0 +1,118 @@
+import { promises as dns } from 'dns';
+import { BlockList } from 'net';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { DnsInterceptionCheck, getInterceptionSettings, InterceptionSettings } from '@/lib/settings';
+import { isValidIPv6 } from '@/lib/utils/shell';
+import { httpProbe } from './probes';
+
+/**
+ * Outcome of the interception checks of one cycle
+ */
+export interface InterceptionResult {
+  intercepted: boolean;
+  /** What gave the interception away, null when nothing did */
+  reason: string | null;
+}
+
+/**
+ * Resolve a hostname with the system resolver - the one an ISP or captive
+ * portal hijacks - giving up after the timeout
+ */
+async function resolveWithTimeout(hostname: string, timeoutMs: number): Promise<string[]> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    const addresses = await Promise.race([dns.lookup(hostname, { all: true }), timeout]);
+    return addresses.map(entry => entry.address);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch the connectivity-check URL
+ * Only a response that fails the check counts as interception - no answer
+ * at all is a plain outage, which the targets already report
+ */
+async function checkUrl(settings: InterceptionSettings, timeoutMs: number): Promise<string | null> {
+  const result = await httpProbe(settings.checkUrl, {
+    expectedStatus: settings.expectedStatus,
+    bodyMatch: settings.bodyMatch,
+    timeoutMs
+  });
+
+  if (result.isConnected || result.httpStatus === undefined) {
+    return null;
+  }
+
+  return `${settings.checkUrl} answered with an unexpected response (${result.error})`;
+}
+
+/**
+ * Resolve a known hostname and check every address lands in its expected ranges
+ * A failed lookup is not counted - with the line down it is expected
+ */
+async function checkHostname(check: DnsInterceptionCheck, timeoutMs: number): Promise<string | null> {
+  let addresses: string[];
+  try {
+    addresses = await resolveWithTimeout(check.hostname, timeoutMs);
+  } catch (error: unknown) {
+    logger.debug('Interception check lookup failed', {
+      hostname: check.hostname,
+      error: getErrorMessage(error)
+    });
+    return null;
+  }
+
+  const expected = new BlockList();
+  const checkedFamilies = new Set<'ipv4' | 'ipv6'>();
+  for (const range of check.ranges) {
+    // Ranges are validated as CIDR when the settings are saved
+    const [network, prefix] = range.split('/') as [string, string];
+    const family = isValidIPv6(network) ? 'ipv6' : 'ipv4';
+    expected.addSubnet(network, parseInt(prefix, 10), family);
+    checkedFamilies.add(family);
+  }
+
+  const unexpected = addresses.find(address => {
+    const family = isValidIPv6(address) ? 'ipv6' : 'ipv4';
+    return checkedFamilies.has(family) && !expected.check(address, family);
+  });
+
+  return unexpected
+    ? `${check.hostname} resolved to ${unexpected}, outside its expected ranges`
+    : null;
+}
+
+/**
+ * Look for a captive portal or DNS hijack answering in place of the internet
+ *
+ * Runs the connectivity-check URL and every hostname check concurrently.
+ * Returns null when detection is turned off. Never throws, so a failure here
+ * cannot break the check cycle
+ */
+export async function checkForInterception(timeoutMs: number): Promise<InterceptionResult | null> {
+  try {
+    const settings = await getInterceptionSettings();
+    if (!settings.enabled) {
+      return null;
+    }
+
+    const reasons = await Promise.all([
+      checkUrl(settings, timeoutMs),
+      ...settings.dnsChecks.map(check => checkHostname(check, timeoutMs))
+    ]);
+    const reason = reasons.find(found => found !== null) ?? null;
+
+    return { intercepted: reason !== null, reason };
+  } catch (error: unknown) {
+    await logger.warn('Failed to check for interception', {
+      error: getErrorMessage(error)
+    });
+    return null;
+  }
+}
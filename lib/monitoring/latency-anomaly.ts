@@ -0,0 +1,342 @@
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getLatencyAnomalySettings, LatencyAnomalySettings } from '@/lib/settings';
+import { getErrorMessage } from '@/lib/utils';
+import { findMaintenance, getActiveMaintenance } from './maintenance';
+
+/** How long a learned baseline is used before it is rebuilt from history */
+const BASELINE_REFRESH_MS = 60 * 60 * 1000;
+/** Checks an hour of day needs before its baseline is trusted */
+const MIN_BASELINE_SAMPLES = 20;
+/** Floor for the standard deviation, so a very steady line is not flagged over a few ms */
+const MIN_STD_DEV_MS = 2;
+/** History read on the first run, to fill the rolling windows */
+const STARTUP_LOOKBACK_MS = 60 * 60 * 1000;
+
+/**
+ * Normal latency of one target at one hour of day
+ */
+export interface BaselineEntry {
+  meanMs: number;
+  stdDevMs: number;
+  samples: number;
+}
+
+/**
+ * Baseline entries keyed by target and hour of day (server time)
+ */
+export type LatencyBaseline = Map<string, BaselineEntry>;
+
+/**
+ * Latency totals of one target at one hour of day (server time)
+ */
+export interface HourlyLatencySums {
+  target: string;
+  hour: number;
+  count: number;
+  sum: number;
+  sumOfSquares: number;
+}
+
+interface CheckRow {
+  target: string;
+  targetId: number | null;
+  timestamp: Date;
+  isConnected: boolean;
+  latencyMs: number | null;
+}
+
+interface ActiveAnomaly {
+  id: number;
+  startTime: Date;
+  baselineMs: number;
+  peakLatencyMs: number;
+  peakZScore: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function baselineKey(target: string, hour: number): string {
+  return `${target}|${hour}`;
+}
+
+/**
+ * Learn the mean and standard deviation of latency per target and hour of day
+ * Hours with fewer than MIN_BASELINE_SAMPLES checks are left out, so nothing
+ * is flagged until enough history exists
+ */
+export function buildBaseline(rows: HourlyLatencySums[]): LatencyBaseline {
+  const baseline: LatencyBaseline = new Map();
+  for (const { target, hour, count, sum, sumOfSquares } of rows) {
+    if (count < MIN_BASELINE_SAMPLES) continue;
+    const mean = sum / count;
+    const variance = Math.max(0, sumOfSquares / count - mean * mean);
+    baseline.set(baselineKey(target, hour), {
+      meanMs: round(mean),
+      stdDevMs: round(Math.sqrt(variance)),
+      samples: count
+    });
+  }
+  return baseline;
+}
+
+/**
+ * Standard deviations a latency lies above the baseline
+ */
+export function getZScore(latencyMs: number, entry: BaselineEntry): number {
+  return round((latencyMs - entry.meanMs) / Math.max(entry.stdDevMs, MIN_STD_DEV_MS));
+}
+
+/**
+ * Whether a maintenance window covering the target was in progress at a time
+ * Checks written before they recorded their target id only match
+ * connection-wide windows
+ */
+async function isInMaintenance(targetId: number | null, time: Date): Promise<boolean> {
+  const windows = await getActiveMaintenance(time);
+  return findMaintenance(windows, targetId !== null ? { targetId } : {}) !== null;
+}
+
+/**
+ * Records latency anomalies - times a target's rolling average latency was
+ * far above its normal latency for that hour of day
+ *
+ * Catches gradual problems a fixed threshold misses, e.g. ISP congestion
+ * every evening on a line that is fast the rest of the day. New checks are
+ * read from the database on each run, so every target probed by the
+ * connectivity checker or on its own schedule is covered. Failed checks are
+ * outages and clear the target's window instead of counting toward it.
+ */
+export class LatencyAnomalyDetector {
+  private baseline: { data: LatencyBaseline; builtAt: number; days: number } | null = null;
+  private windows = new Map<string, number[]>();
+  private lastCheckAt: Date | null = null;
+  private isChecking = false;
+
+  async check(): Promise<void> {
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      const settings = await getLatencyAnomalySettings();
+      if (!settings.enabled) {
+        this.windows.clear();
+        this.lastCheckAt = null;
+        return;
+      }
+
+      const now = new Date();
+      const baseline = await this.loadBaseline(settings, now);
+      const checks: CheckRow[] = await prisma.connectionCheck.findMany({
+        where: { timestamp: { gt: this.lastCheckAt ?? new Date(now.getTime() - STARTUP_LOOKBACK_MS) } },
+        orderBy: { timestamp: 'asc' },
+        select: { target: true, targetId: true, timestamp: true, isConnected: true, latencyMs: true }
+      });
+      if (checks.length === 0) {
+        return;
+      }
+      this.lastCheckAt = checks[checks.length - 1]!.timestamp;
+
+      const byTarget = new Map<string, CheckRow[]>();
+      for (const check of checks) {
+        const targetChecks = byTarget.get(check.target);
+        if (targetChecks) {
+          targetChecks.push(check);
+        } else {
+          byTarget.set(check.target, [check]);
+        }
+      }
+
+      for (const [target, targetChecks] of byTarget) {
+        await this.checkTarget(target, targetChecks, baseline, settings);
+      }
+    } catch (error) {
+      await logger.warn('Failed to check latency anomalies', { error: getErrorMessage(error) });
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Rebuild the baseline once it is an hour old or the history length changed
+   */
+  private async loadBaseline(settings: LatencyAnomalySettings, now: Date): Promise<LatencyBaseline> {
+    if (this.baseline &&
+        this.baseline.days === settings.baselineDays &&
+        now.getTime() - this.baseline.builtAt < BASELINE_REFRESH_MS) {
+      return this.baseline.data;
+    }
+
+    // Totalled per target and hour by the database, so the history itself is
+    // never loaded. SQLite's localtime is the server time getHours() uses
+    const since = new Date(now.getTime() - settings.baselineDays * 24 * 60 * 60 * 1000);
+    const rows = await prisma.$queryRaw<Array<Record<keyof HourlyLatencySums, string | number | bigint>>>`
+      SELECT target,
+             CAST(strftime('%H', timestamp, 'localtime') AS INTEGER) AS hour,
+             COUNT(*) AS count,
+             SUM(latencyMs) AS sum,
+             SUM(latencyMs * latencyMs) AS sumOfSquares
+      FROM "ConnectionCheck"
+      WHERE timestamp >= ${since} AND isConnected = 1 AND latencyMs IS NOT NULL
+      GROUP BY target, hour
+    `;
+    const data = buildBaseline(rows.map(row => ({
+      target: String(row.target),
+      hour: Number(row.hour),
+      count: Number(row.count),
+      sum: Number(row.sum),
+      sumOfSquares: Number(row.sumOfSquares)
+    })));
+    this.baseline = { data, builtAt: now.getTime(), days: settings.baselineDays };
+
+    logger.debug('Latency baseline rebuilt', { hours: rows.length, entries: data.size });
+    return data;
+  }
+
+  private async checkTarget(
+    target: string,
+    checks: CheckRow[],
+    baseline: LatencyBaseline,
+    settings: LatencyAnomalySettings
+  ): Promise<void> {
+    let active: ActiveAnomaly | null = await prisma.latencyAnomaly.findFirst({
+      where: { target, isResolved: false },
+      orderBy: { startTime: 'desc' }
+    });
+    const window = this.windows.get(target) ?? [];
+
+    for (const check of checks) {
+      if (!check.isConnected || check.latencyMs === null) {
+        window.length = 0;
+        continue;
+      }
+
+      window.push(check.latencyMs);
+      while (window.length > settings.windowChecks) {
+        window.shift();
+      }
+      // Judge only full windows, so a single slow reply cannot open an anomaly
+      if (window.length < settings.windowChecks) {
+        continue;
+      }
+
+      const entry = baseline.get(baselineKey(target, check.timestamp.getHours()));
+      if (!entry) {
+        continue;
+      }
+
+      const averageMs = round(window.reduce((sum, latency) => sum + latency, 0) / window.length);
+      const zScore = getZScore(averageMs, entry);
+      const isAnomalous = zScore >= settings.zScoreThreshold;
+
+      if (isAnomalous && !active) {
+        active = await this.openAnomaly(target, check.targetId, check.timestamp, entry, averageMs, zScore, settings);
+      } else if (isAnomalous && active && zScore > active.peakZScore) {
+        // Still anomalous - keep the worst window seen
+        active = await prisma.latencyAnomaly.update({
+          where: { id: active.id },
+          data: { peakLatencyMs: averageMs, peakZScore: zScore }
+        });
+      } else if (!isAnomalous && active) {
+        await this.resolveAnomaly(target, check.targetId, active, check.timestamp, settings);
+        active = null;
+      }
+    }
+
+    this.windows.set(target, window);
+  }
+
+  private async openAnomaly(
+    target: string,
+    targetId: number | null,
+    startTime: Date,
+    entry: BaselineEntry,
+    averageMs: number,
+    zScore: number,
+    settings: LatencyAnomalySettings
+  ): Promise<ActiveAnomaly> {
+    const anomaly = await prisma.latencyAnomaly.create({
+      data: {
+        target,
+        startTime,
+        baselineMs: entry.meanMs,
+        baselineStdDev: entry.stdDevMs,
+        peakLatencyMs: averageMs,
+        peakZScore: zScore
+      }
+    });
+
+    await logger.warn(`Latency anomaly started: ${target}`, {
+      anomalyId: anomaly.id,
+      averageLatencyMs: averageMs,
+      baselineMs: entry.meanMs,
+      zScore
+    });
+
+    // Anomalies starting in a maintenance window are not emailed
+    if (settings.notify && !await isInMaintenance(targetId, startTime)) {
+      const { sendLatencyAnomalyEmail } = await import('./email-notifier');
+      const sent = await sendLatencyAnomalyEmail('started', {
+        target,
+        startTime,
+        endTime: null,
+        durationSec: null,
+        baselineMs: entry.meanMs,
+        peakLatencyMs: averageMs,
+        peakZScore: zScore
+      });
+
+      if (sent) {
+        await prisma.latencyAnomaly.update({
+          where: { id: anomaly.id },
+          data: { emailSent: true }
+        });
+      }
+    }
+
+    return anomaly;
+  }
+
+  private async resolveAnomaly(
+    target: string,
+    targetId: number | null,
+    anomaly: ActiveAnomaly,
+    endTime: Date,
+    settings: LatencyAnomalySettings
+  ): Promise<void> {
+    const durationSec = Math.floor((endTime.getTime() - anomaly.startTime.getTime()) / 1000);
+
+    await prisma.latencyAnomaly.update({
+      where: { id: anomaly.id },
+      data: {
+        endTime,
+        durationSec,
+        isResolved: true
+      }
+    });
+
+    await logger.info(`Latency anomaly resolved: ${target}`, {
+      anomalyId: anomaly.id,
+      durationSec,
+      peakZScore: anomaly.peakZScore
+    });
+
+    // Nor is the end of one, since its start was not announced
+    if (settings.notify && !await isInMaintenance(targetId, anomaly.startTime)) {
+      const { sendLatencyAnomalyEmail } = await import('./email-notifier');
+      await sendLatencyAnomalyEmail('resolved', {
+        target,
+        startTime: anomaly.startTime,
+        endTime,
+        durationSec,
+        baselineMs: anomaly.baselineMs,
+        peakLatencyMs: anomaly.peakLatencyMs,
+        peakZScore: anomaly.peakZScore
+      });
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { parsePingOutput } from './ping-stats';
+import { safePing } from '@/lib/utils/shell';
+
+/** Gap between probes while a speed test runs */
+const SAMPLE_INTERVAL_MS = 250;
+/** A reply this late is lost as far as the sampler is concerned */
+const SAMPLE_TIMEOUT_MS = 1000;
+
+export type BufferbloatGrade = 'A+' | 'A' | 'B' | 'C' | 'D' | 'F';
+
+/**
+ * Latency increase under load (ms) below which each grade is given,
+ * the same scale DSLReports and Waveform use
+ */
+const GRADE_THRESHOLDS: [number, BufferbloatGrade][] = [
+  [5, 'A+'],
+  [30, 'A'],
+  [60, 'B'],
+  [200, 'C'],
+  [400, 'D'],
+];
+
+export interface LatencySample {
+  /** When the probe was sent (epoch ms) */
+  at: number;
+  /** Round trip time, null when the reply was lost */
+  latencyMs: number | null;
+}
+
+export interface LatencySampler {
+  /** Stop probing and return the samples, safe to call more than once */
+  stop(): Promise<LatencySample[]>;
+}
+
+/**
+ * Speed test figures the samples are split and checked against
+ */
+export interface SpeedTestPhases {
+  /** Idle latency measured by the speed test itself */
+  pingMs: number;
+  downloadElapsedMs: number;
+  uploadElapsedMs: number;
+  /** Loaded latency measured by the speed test itself, when it reports one */
+  ooklaDownloadLatencyMs?: number;
+  ooklaUploadLatencyMs?: number;
+}
+
+export interface LatencyUnderLoad {
+  idleLatencyMs: number;
+  downloadLatencyMs: number | null;
+  uploadLatencyMs: number | null;
+  bufferbloatGrade: BufferbloatGrade | null;
+}
+
+/**
+ * Ping a target back to back until stopped
+ *
+ * Runs alongside a speed test, so that the latency of other traffic is seen
+ * while the link is saturated. Probes are sent one at a time, at most one
+ * every intervalMs.
+ */
+export function startLatencySampler(target: string, intervalMs: number = SAMPLE_INTERVAL_MS): LatencySampler {
+  const samples: LatencySample[] = [];
+  let isStopped = false;
+
+  const run = async () => {
+    while (!isStopped) {
+      const at = Date.now();
+      let latencyMs: number | null = null;
+      try {
+        const { stdout } = await safePing(target, { timeoutMs: SAMPLE_TIMEOUT_MS });
+        latencyMs = parsePingOutput(stdout).latencyMs;
+      } catch {
+        // Lost reply or unreachable target
+      }
+      samples.push({ at, latencyMs });
+
+      const wait = intervalMs - (Date.now() - at);
+      if (wait > 0 && !isStopped) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+  };
+  const running = run();
+
+  return {
+    stop: async () => {
+      isStopped = true;
+      await running;
+      return samples;
+    },
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+/**
+ * Grade the worst latency increase under load
+ */
+export function gradeBufferbloat(
+  idleLatencyMs: number,
+  downloadLatencyMs: number | null,
+  uploadLatencyMs: number | null
+): BufferbloatGrade | null {
+  const loaded = [downloadLatencyMs, uploadLatencyMs].filter((latency): latency is number => latency !== null);
+  if (loaded.length === 0) return null;
+
+  const increase = Math.max(...loaded) - idleLatencyMs;
+  return GRADE_THRESHOLDS.find(([below]) => increase < below)?.[1] ?? 'F';
+}
+
+/**
+ * Split sampled latency into idle, download and upload phases
+ *
+ * The speed test runs its download and then its upload last, so the phases
+ * are counted back from when it finished using the elapsed times it reports.
+ * Samples before the download are idle. Each phase is the median of its
+ * replies, falling back to the speed test's own figures when the sampler got
+ * none - e.g. because the target does not answer ping.
+ */
+export function summarizeLatencyUnderLoad(
+  samples: LatencySample[],
+  finishedAt: number,
+  phases: SpeedTestPhases
+): LatencyUnderLoad {
+  const uploadStart = finishedAt - phases.uploadElapsedMs;
+  const downloadStart = uploadStart - phases.downloadElapsedMs;
+
+  const phaseMedian = (from: number, to: number) => median(
+    samples
+      .filter(sample => sample.at >= from && sample.at < to && sample.latencyMs !== null)
+      .map(sample => sample.latencyMs as number)
+  );
+
+  const idleLatencyMs = phaseMedian(-Infinity, downloadStart) ?? phases.pingMs;
+  const downloadLatencyMs = phaseMedian(downloadStart, uploadStart) ?? phases.ooklaDownloadLatencyMs ?? null;
+  const uploadLatencyMs = phaseMedian(uploadStart, Infinity) ?? phases.ooklaUploadLatencyMs ?? null;
+
+  return {
+    idleLatencyMs,
+    downloadLatencyMs,
+    uploadLatencyMs,
+    bufferbloatGrade: gradeBufferbloat(idleLatencyMs, downloadLatencyMs, uploadLatencyMs),
+  };
+}
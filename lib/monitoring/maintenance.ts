@@ -0,0 +1,162 @@
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+
+/**
+ * How a maintenance window repeats
+ * Matches the comment on MaintenanceWindow.recurrence in the Prisma schema
+ */
+export const MAINTENANCE_RECURRENCES = ['none', 'daily', 'weekly'] as const;
+export type MaintenanceRecurrence = typeof MAINTENANCE_RECURRENCES[number];
+
+const RECURRENCE_DAYS: Record<Exclude<MaintenanceRecurrence, 'none'>, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule fields of a maintenance window
+ */
+export interface MaintenanceSchedule {
+  startTime: Date;
+  durationMin: number;
+  recurrence: string;
+  repeatUntil: Date | null;
+}
+
+/**
+ * One occurrence of a maintenance window
+ */
+export interface MaintenanceOccurrence {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Maintenance window in progress, with what it covers
+ * groupTargetIds lists the members of a group-scoped window, so incidents of
+ * those targets are planned too
+ */
+export interface ActiveMaintenance extends MaintenanceOccurrence {
+  id: number;
+  description: string;
+  targetId: number | null;
+  groupId: number | null;
+  groupTargetIds: number[];
+}
+
+/**
+ * What an outage or incident belongs to - nothing for the connection as a whole
+ */
+export interface MaintenanceScope {
+  targetId?: number;
+  groupId?: number;
+}
+
+/**
+ * The nth occurrence of a schedule, counted from 0
+ * Steps by calendar days so a 4am window stays at 4am local time across
+ * daylight saving changes
+ */
+function nthOccurrence(schedule: MaintenanceSchedule, n: number, periodDays: number): MaintenanceOccurrence {
+  const start = new Date(schedule.startTime);
+  start.setDate(start.getDate() + n * periodDays);
+  return { start, end: new Date(start.getTime() + schedule.durationMin * 60000) };
+}
+
+/**
+ * Occurrences of a schedule that overlap the period from `from` to `to`
+ */
+export function getOccurrencesBetween(
+  schedule: MaintenanceSchedule,
+  from: Date,
+  to: Date
+): MaintenanceOccurrence[] {
+  const overlaps = (occurrence: MaintenanceOccurrence) =>
+    occurrence.start.getTime() < to.getTime() && occurrence.end.getTime() > from.getTime();
+
+  if (!(schedule.recurrence in RECURRENCE_DAYS)) {
+    const only = nthOccurrence(schedule, 0, 0);
+    return overlaps(only) ? [only] : [];
+  }
+
+  const periodDays = RECURRENCE_DAYS[schedule.recurrence as keyof typeof RECURRENCE_DAYS];
+  const periodMs = periodDays * DAY_MS;
+  const durationMs = schedule.durationMin * 60000;
+
+  // Start one period early - a daylight saving change can move an
+  // occurrence by an hour from where plain arithmetic puts it
+  const first = Math.max(
+    0,
+    Math.floor((from.getTime() - durationMs - schedule.startTime.getTime()) / periodMs) - 1
+  );
+
+  const occurrences: MaintenanceOccurrence[] = [];
+  for (let n = first; ; n++) {
+    const occurrence = nthOccurrence(schedule, n, periodDays);
+    if (occurrence.start.getTime() >= to.getTime()) break;
+    if (schedule.repeatUntil && occurrence.start.getTime() > schedule.repeatUntil.getTime()) break;
+    if (overlaps(occurrence)) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/**
+ * The occurrence of a schedule in progress at a time, or null
+ */
+export function getOccurrenceAt(schedule: MaintenanceSchedule, time: Date): MaintenanceOccurrence | null {
+  return getOccurrencesBetween(schedule, time, new Date(time.getTime() + 1))[0] ?? null;
+}
+
+/**
+ * The first window covering a scope
+ *
+ * Windows without a scope cover everything. A target window only covers that
+ * target, and a group window covers the group and its member targets
+ */
+export function findMaintenance(
+  windows: ActiveMaintenance[],
+  scope: MaintenanceScope = {}
+): ActiveMaintenance | null {
+  return windows.find(window =>
+    (window.targetId === null && window.groupId === null) ||
+    (scope.targetId !== undefined && (
+      window.targetId === scope.targetId || window.groupTargetIds.includes(scope.targetId)
+    )) ||
+    (scope.groupId !== undefined && window.groupId === scope.groupId)
+  ) ?? null;
+}
+
+/**
+ * Enabled maintenance windows in progress at a time
+ * Never throws - on a database error nothing counts as planned, so alerts
+ * still go out
+ */
+export async function getActiveMaintenance(time: Date): Promise<ActiveMaintenance[]> {
+  try {
+    const windows = await prisma.maintenanceWindow.findMany({
+      where: { isEnabled: true, startTime: { lte: time } },
+      include: { group: { select: { targets: { select: { id: true } } } } }
+    });
+
+    return windows.flatMap(window => {
+      const occurrence = getOccurrenceAt(window, time);
+      return occurrence ? [{
+        ...occurrence,
+        id: window.id,
+        description: window.description,
+        targetId: window.targetId,
+        groupId: window.groupId,
+        groupTargetIds: window.group?.targets.map(target => target.id) ?? []
+      }] : [];
+    });
+  } catch (error: unknown) {
+    await logger.warn('Failed to load maintenance windows', {
+      error: getErrorMessage(error)
+    });
+    return [];
+  }
+}
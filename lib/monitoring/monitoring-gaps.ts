@@ -0,0 +1,139 @@
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { getOutageDurations } from './outages';
+
+// MonitorHeartbeat holds a single row
+const HEARTBEAT_ID = 1;
+
+// Three missed heartbeats - shorter silences are a restart, not a gap
+const MIN_GAP_MS = 3 * 60 * 1000;
+
+/**
+ * Record that monitoring is running
+ * Never throws - a missed heartbeat at worst shows up as a short gap
+ */
+export async function recordHeartbeat(time: Date = new Date()): Promise<void> {
+  try {
+    await prisma.monitorHeartbeat.upsert({
+      where: { id: HEARTBEAT_ID },
+      create: { id: HEARTBEAT_ID, timestamp: time },
+      update: { timestamp: time }
+    });
+  } catch (error: unknown) {
+    await logger.warn('Failed to record monitoring heartbeat', {
+      error: getErrorMessage(error)
+    });
+  }
+}
+
+/**
+ * Close the outage left open when monitoring stopped
+ *
+ * The connection was last known to be down when monitoring stopped, so the
+ * outage ends there. Whatever happened during the gap is unknown - if the
+ * connection is still down, the next checks open a new outage. No restored
+ * email is sent, since nothing was seen to come back
+ */
+async function closeStaleOutage(lastSeen: Date): Promise<void> {
+  const activeOutage = await prisma.outage.findFirst({
+    where: { isResolved: false }
+  });
+
+  if (!activeOutage) {
+    return;
+  }
+
+  // The end is not bounded by checks, so it is taken as exact
+  const endTime = new Date(Math.max(lastSeen.getTime(), activeOutage.startTime.getTime()));
+  const durations = getOutageDurations({
+    startTime: activeOutage.startTime,
+    endTime,
+    startLastGoodAt: activeOutage.startLastGoodAt,
+    endLastBadAt: null
+  });
+  const { durationSec } = durations;
+
+  await prisma.outage.update({
+    where: { id: activeOutage.id },
+    data: {
+      endTime,
+      ...durations,
+      isResolved: true
+    }
+  });
+
+  await logger.logOutage('resolved', activeOutage.id.toString(), durationSec, {
+    startTime: activeOutage.startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    reason: 'monitoring_gap'
+  });
+}
+
+/**
+ * Record the time monitoring was not running, if any, before it starts again
+ *
+ * Monitoring was last seen at the later of the heartbeat and the newest
+ * check. A longer silence is stored as a monitoring gap, and an outage still
+ * open from before it is closed at its start, so the gap is not counted as
+ * downtime. Must run before the first check, which would otherwise resolve
+ * that outage across the gap
+ *
+ * Without a heartbeat - the first start of a version that writes one - the
+ * newest check is all there is, and checks can be a whole interval apart
+ *
+ * Never throws - monitoring starts either way
+ */
+export async function reconcileMonitoringGap(
+  checkIntervalSeconds: number,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const [heartbeat, lastCheck] = await Promise.all([
+      prisma.monitorHeartbeat.findUnique({ where: { id: HEARTBEAT_ID } }),
+      prisma.connectionCheck.findFirst({
+        orderBy: { timestamp: 'desc' },
+        select: { timestamp: true }
+      })
+    ]);
+
+    const lastSeenMs = Math.max(
+      heartbeat?.timestamp.getTime() ?? 0,
+      lastCheck?.timestamp.getTime() ?? 0
+    );
+
+    // Nothing was ever monitored
+    if (lastSeenMs === 0) {
+      return;
+    }
+
+    const minGapMs = heartbeat ? MIN_GAP_MS : Math.max(MIN_GAP_MS, 2 * checkIntervalSeconds * 1000);
+    if (now.getTime() - lastSeenMs < minGapMs) {
+      return;
+    }
+
+    const lastSeen = new Date(lastSeenMs);
+    const durationSec = Math.floor((now.getTime() - lastSeenMs) / 1000);
+
+    const gap = await prisma.monitoringGap.create({
+      data: {
+        startTime: lastSeen,
+        endTime: now,
+        durationSec
+      }
+    });
+
+    await logger.warn('Monitoring was not running - recorded a monitoring gap', {
+      monitoringGapId: gap.id,
+      startTime: lastSeen.toISOString(),
+      endTime: now.toISOString(),
+      durationSec
+    });
+
+    await closeStaleOutage(lastSeen);
+  } catch (error: unknown) {
+    await logger.warn('Failed to check for a monitoring gap', {
+      error: getErrorMessage(error)
+    });
+  }
+}
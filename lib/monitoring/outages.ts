@@ -0,0 +1,555 @@
+import { prisma } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import type { OutageDurationMode } from '@/lib/settings';
+import { Outage, OutageAuditEntry } from '@/types/dashboard';
+
+/**
+ * Audit entries returned by one request
+ */
+const MAX_AUDIT_ENTRIES = 200;
+
+/**
+ * Relations loaded with an outage for the API
+ */
+const OUTAGE_INCLUDE = {
+  tags: { orderBy: { id: 'asc' } },
+  _count: { select: { paths: true } }
+} as const;
+
+/**
+ * Outage column summed for each duration mode
+ */
+export const DURATION_FIELDS = {
+  recorded: 'durationSec',
+  conservative: 'conservativeDurationSec',
+  estimated: 'estimatedDurationSec'
+} as const satisfies Record<OutageDurationMode, string>;
+
+interface OutageRow {
+  id: number;
+  startTime: Date;
+  endTime: Date | null;
+  durationSec: number | null;
+  startLastGoodAt: Date | null;
+  endLastBadAt: Date | null;
+  conservativeDurationSec: number | null;
+  estimatedDurationSec: number | null;
+  isResolved: boolean;
+  checksCount: number;
+  emailSent: boolean;
+  classification: string | null;
+  rootCause: string | null;
+  notes: string | null;
+  ispTicket: string | null;
+  isExcluded: boolean;
+  isPlanned: boolean;
+  tags: Array<{ tag: string }>;
+}
+
+/**
+ * Fields changed by a manual edit - fields left out are kept
+ */
+export interface OutageChanges {
+  startTime?: Date;
+  endTime?: Date;
+  isExcluded?: boolean;
+  rootCause?: string | null;
+  notes?: string | null;
+  ispTicket?: string | null;
+  tags?: string[];
+}
+
+export type OutageEditResult =
+  | { success: true; outageIds: number[] }
+  | { success: false; status: 400 | 404 | 409; error: string };
+
+const notFound: OutageEditResult = { success: false, status: 404, error: 'Outage not found' };
+
+const inProgress = (action: string): OutageEditResult => ({
+  success: false,
+  status: 409,
+  error: `An outage still in progress cannot be ${action}`
+});
+
+function durationBetween(startTime: Date, endTime: Date): number {
+  return Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+}
+
+/**
+ * When an outage began and ended, as far as the checks tell
+ * It began after startLastGoodAt and by startTime, and ended after
+ * endLastBadAt and by endTime. A bound that is not known is taken to be the
+ * recorded time
+ */
+export interface OutageBounds {
+  startTime: Date;
+  endTime: Date;
+  startLastGoodAt: Date | null;
+  endLastBadAt: Date | null;
+}
+
+const midpoint = (earliest: Date | null, latest: Date) =>
+  new Date(Math.round(((earliest ?? latest).getTime() + latest.getTime()) / 2));
+
+/**
+ * The recorded, conservative and estimated durations of a resolved outage
+ * Conservative only counts the time the connection was certainly down, from
+ * the first to the last failed check; estimated runs between the midpoints of
+ * the start and end bounds
+ */
+export function getOutageDurations(bounds: OutageBounds) {
+  const lastBadAt = bounds.endLastBadAt ?? bounds.endTime;
+  return {
+    durationSec: durationBetween(bounds.startTime, bounds.endTime),
+    conservativeDurationSec: Math.max(durationBetween(bounds.startTime, lastBadAt), 0),
+    estimatedDurationSec: durationBetween(
+      midpoint(bounds.startLastGoodAt, bounds.startTime),
+      midpoint(bounds.endLastBadAt, bounds.endTime)
+    )
+  };
+}
+
+/**
+ * The values of an outage recorded in the audit trail
+ */
+function snapshot(outage: OutageRow) {
+  return {
+    startTime: outage.startTime.toISOString(),
+    endTime: outage.endTime?.toISOString() ?? null,
+    durationSec: outage.durationSec,
+    checksCount: outage.checksCount,
+    classification: outage.classification,
+    rootCause: outage.rootCause,
+    notes: outage.notes,
+    ispTicket: outage.ispTicket,
+    tags: outage.tags.map(tag => tag.tag),
+    isExcluded: outage.isExcluded
+  };
+}
+
+type OutageSnapshot = ReturnType<typeof snapshot>;
+
+function auditEntry(outageId: number, action: OutageAuditEntry['action'], userEmail: string | undefined, details: object) {
+  return {
+    outageId,
+    action,
+    userEmail: userEmail ?? null,
+    details: JSON.stringify(details)
+  };
+}
+
+/**
+ * Another outage overlapping a time range; open outages run on indefinitely
+ */
+function findOverlap(startTime: Date, endTime: Date | null, excludeIds: number[]) {
+  return prisma.outage.findFirst({
+    where: {
+      id: { notIn: excludeIds },
+      ...(endTime && { startTime: { lt: endTime } }),
+      OR: [
+        { endTime: null },
+        { endTime: { gt: startTime } }
+      ]
+    },
+    orderBy: { startTime: 'asc' }
+  });
+}
+
+export function toOutage(outage: OutageRow & { _count?: { paths: number } }): Outage {
+  return {
+    id: outage.id,
+    startTime: outage.startTime,
+    endTime: outage.endTime,
+    durationSec: outage.durationSec,
+    startLastGoodAt: outage.startLastGoodAt,
+    endLastBadAt: outage.endLastBadAt,
+    estimatedStartTime: midpoint(outage.startLastGoodAt, outage.startTime),
+    estimatedEndTime: outage.endTime && midpoint(outage.endLastBadAt, outage.endTime),
+    conservativeDurationSec: outage.conservativeDurationSec,
+    estimatedDurationSec: outage.estimatedDurationSec,
+    isResolved: outage.isResolved,
+    checksCount: outage.checksCount,
+    emailSent: outage.emailSent,
+    classification: outage.classification as Outage['classification'],
+    rootCause: outage.rootCause as Outage['rootCause'],
+    notes: outage.notes,
+    ispTicket: outage.ispTicket,
+    tags: outage.tags.map(tag => tag.tag),
+    isExcluded: outage.isExcluded,
+    isPlanned: outage.isPlanned,
+    pathCount: outage._count?.paths
+  };
+}
+
+/**
+ * Get an outage in its API shape, or null when it does not exist
+ */
+export async function loadOutage(id: number): Promise<Outage | null> {
+  const outage = await prisma.outage.findUnique({ where: { id }, include: OUTAGE_INCLUDE });
+  return outage ? toOutage(outage) : null;
+}
+
+/**
+ * Get the audit trail of one outage, or of all outages, newest first
+ */
+export async function getOutageAudit(outageId?: number): Promise<OutageAuditEntry[]> {
+  const entries = await prisma.outageAudit.findMany({
+    where: outageId !== undefined ? { outageId } : {},
+    orderBy: { timestamp: 'desc' },
+    take: MAX_AUDIT_ENTRIES
+  });
+
+  return entries.map(entry => ({
+    id: entry.id,
+    outageId: entry.outageId,
+    timestamp: entry.timestamp,
+    action: entry.action as OutageAuditEntry['action'],
+    userEmail: entry.userEmail,
+    details: JSON.parse(entry.details)
+  }));
+}
+
+/**
+ * Edit an outage's times, exclusion from statistics or annotations
+ *
+ * Times are checked against the other outages so edits cannot make two
+ * overlap, and an outage still in progress keeps its open end - the
+ * connectivity checker closes it. Only fields that actually change are
+ * written to the audit trail.
+ */
+export async function updateOutage(
+  id: number,
+  changes: OutageChanges,
+  userEmail?: string
+): Promise<OutageEditResult> {
+  const outage = await prisma.outage.findUnique({
+    where: { id },
+    include: { tags: { orderBy: { id: 'asc' } } }
+  });
+  if (!outage) {
+    return notFound;
+  }
+
+  if (changes.endTime && !outage.isResolved) {
+    return inProgress('given an end time');
+  }
+
+  const startTime = changes.startTime ?? outage.startTime;
+  const endTime = changes.endTime ?? outage.endTime;
+
+  if (changes.startTime || changes.endTime) {
+    if (endTime && endTime <= startTime) {
+      return { success: false, status: 400, error: 'End time must be after start time' };
+    }
+    if ((endTime ?? startTime) > new Date()) {
+      return { success: false, status: 400, error: 'Outage times cannot be in the future' };
+    }
+
+    const overlap = await findOverlap(startTime, endTime, [id]);
+    if (overlap) {
+      return { success: false, status: 409, error: `The outage would overlap outage #${overlap.id}` };
+    }
+  }
+
+  // Times entered by hand are taken as exact
+  const startLastGoodAt = startTime.getTime() === outage.startTime.getTime() ? outage.startLastGoodAt : null;
+  const endLastBadAt = endTime?.getTime() === outage.endTime?.getTime() ? outage.endLastBadAt : null;
+
+  const before = snapshot(outage);
+  const after: OutageSnapshot = {
+    ...before,
+    startTime: startTime.toISOString(),
+    endTime: endTime?.toISOString() ?? null,
+    durationSec: endTime ? durationBetween(startTime, endTime) : outage.durationSec,
+    rootCause: changes.rootCause !== undefined ? changes.rootCause : outage.rootCause,
+    notes: changes.notes !== undefined ? changes.notes : outage.notes,
+    ispTicket: changes.ispTicket !== undefined ? changes.ispTicket : outage.ispTicket,
+    tags: changes.tags ?? before.tags,
+    isExcluded: changes.isExcluded ?? outage.isExcluded
+  };
+
+  const changedFields = (Object.keys(after) as Array<keyof OutageSnapshot>)
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+  if (changedFields.length === 0) {
+    return { success: true, outageIds: [id] };
+  }
+
+  await prisma.$transaction([
+    prisma.outage.update({
+      where: { id },
+      data: {
+        startTime,
+        endTime,
+        startLastGoodAt,
+        endLastBadAt,
+        ...(endTime
+          ? getOutageDurations({ startTime, endTime, startLastGoodAt, endLastBadAt })
+          : { durationSec: after.durationSec }),
+        rootCause: after.rootCause,
+        notes: after.notes,
+        ispTicket: after.ispTicket,
+        isExcluded: after.isExcluded,
+        ...(changedFields.includes('tags') && {
+          tags: {
+            deleteMany: {},
+            create: after.tags.map(tag => ({ tag }))
+          }
+        })
+      }
+    }),
+    prisma.outageAudit.create({
+      data: auditEntry(id, 'updated', userEmail, {
+        changes: Object.fromEntries(changedFields.map(field => [field, { from: before[field], to: after[field] }]))
+      })
+    })
+  ]);
+
+  await logger.info(`Outage updated: #${id}`, {
+    fields: changedFields.join(','),
+    userEmail
+  });
+
+  return { success: true, outageIds: [id] };
+}
+
+/**
+ * Merge adjacent outages into the earliest one
+ *
+ * The merged outage runs from the first start to the last end, with the
+ * checks, network paths, tags and notes of all of them. Outages are adjacent
+ * when no other outage starts between them.
+ */
+export async function mergeOutages(ids: number[], userEmail?: string): Promise<OutageEditResult> {
+  const uniqueIds = [...new Set(ids)];
+  if (uniqueIds.length < 2) {
+    return { success: false, status: 400, error: 'Select at least two outages to merge' };
+  }
+
+  const outages = await prisma.outage.findMany({
+    where: { id: { in: uniqueIds } },
+    orderBy: { startTime: 'asc' },
+    include: { tags: { orderBy: { id: 'asc' } } }
+  });
+  if (outages.length !== uniqueIds.length) {
+    return notFound;
+  }
+  if (outages.some(outage => !outage.isResolved)) {
+    return inProgress('merged');
+  }
+
+  const first = outages[0]!;
+  const others = outages.slice(1);
+  const otherIds = others.map(outage => outage.id);
+  const last = outages.reduce((latest, outage) => outage.endTime! > latest.endTime! ? outage : latest);
+  const endTime = last.endTime!;
+
+  const between = await prisma.outage.findFirst({
+    where: {
+      id: { notIn: uniqueIds },
+      startTime: { gte: first.startTime, lte: endTime }
+    },
+    orderBy: { startTime: 'asc' }
+  });
+  if (between) {
+    return {
+      success: false,
+      status: 409,
+      error: `Only adjacent outages can be merged - outage #${between.id} lies between them`
+    };
+  }
+
+  const firstValue = (values: Array<string | null>) => values.find(value => value !== null) ?? null;
+  const notes = outages.map(outage => outage.notes).filter(note => note !== null);
+  const tickets = [...new Set(outages.map(outage => outage.ispTicket).filter(ticket => ticket !== null))];
+  const tags = [...new Set(outages.flatMap(outage => outage.tags.map(tag => tag.tag)))];
+
+  await prisma.$transaction([
+    prisma.outagePath.updateMany({
+      where: { outageId: { in: otherIds } },
+      data: { outageId: first.id }
+    }),
+    prisma.outage.update({
+      where: { id: first.id },
+      data: {
+        endTime,
+        endLastBadAt: last.endLastBadAt,
+        ...getOutageDurations({
+          startTime: first.startTime,
+          endTime,
+          startLastGoodAt: first.startLastGoodAt,
+          endLastBadAt: last.endLastBadAt
+        }),
+        checksCount: outages.reduce((sum, outage) => sum + outage.checksCount, 0),
+        emailSent: outages.some(outage => outage.emailSent),
+        classification: firstValue(outages.map(outage => outage.classification)),
+        rootCause: firstValue(outages.map(outage => outage.rootCause)),
+        notes: notes.length > 0 ? notes.join('\n\n') : null,
+        ispTicket: tickets.length > 0 ? tickets.join(', ') : null,
+        // Still a false positive only if every part was one
+        isExcluded: outages.every(outage => outage.isExcluded),
+        isPlanned: outages.every(outage => outage.isPlanned),
+        tags: {
+          deleteMany: {},
+          create: tags.map(tag => ({ tag }))
+        }
+      }
+    }),
+    prisma.outage.deleteMany({ where: { id: { in: otherIds } } }),
+    prisma.outageAudit.createMany({
+      data: [
+        auditEntry(first.id, 'merged', userEmail, {
+          mergedOutageIds: otherIds,
+          before: outages.map(snapshot)
+        }),
+        ...others.map(outage => auditEntry(outage.id, 'merged', userEmail, {
+          mergedInto: first.id,
+          before: snapshot(outage)
+        }))
+      ]
+    })
+  ]);
+
+  await logger.info(`Outages merged into #${first.id}`, {
+    mergedOutageIds: otherIds.join(','),
+    userEmail
+  });
+
+  return { success: true, outageIds: [first.id] };
+}
+
+/**
+ * Split an outage in two
+ *
+ * The first part ends at splitAt and the second starts at resumeAt - later
+ * when the connection was briefly back in between, otherwise the same time.
+ * Checks are shared out by duration, network paths by when they were
+ * captured, and both parts keep the annotations.
+ */
+export async function splitOutage(
+  id: number,
+  splitAt: Date,
+  resumeAt: Date = splitAt,
+  userEmail?: string
+): Promise<OutageEditResult> {
+  const outage = await prisma.outage.findUnique({
+    where: { id },
+    include: { tags: { orderBy: { id: 'asc' } } }
+  });
+  if (!outage) {
+    return notFound;
+  }
+  if (!outage.isResolved || !outage.endTime) {
+    return inProgress('split');
+  }
+
+  if (splitAt <= outage.startTime || resumeAt < splitAt || resumeAt >= outage.endTime) {
+    return {
+      success: false,
+      status: 400,
+      error: 'The split must fall within the outage, and the second part cannot start before the first ends'
+    };
+  }
+
+  // The split times are entered by hand, so taken as exact
+  const firstDurations = getOutageDurations({
+    startTime: outage.startTime,
+    endTime: splitAt,
+    startLastGoodAt: outage.startLastGoodAt,
+    endLastBadAt: null
+  });
+  const secondDurations = getOutageDurations({
+    startTime: resumeAt,
+    endTime: outage.endTime,
+    startLastGoodAt: null,
+    endLastBadAt: outage.endLastBadAt
+  });
+  const firstChecks = Math.round(
+    outage.checksCount * firstDurations.durationSec /
+    Math.max(firstDurations.durationSec + secondDurations.durationSec, 1)
+  );
+
+  const secondId = await prisma.$transaction(async tx => {
+    const second = await tx.outage.create({
+      data: {
+        startTime: resumeAt,
+        endTime: outage.endTime,
+        endLastBadAt: outage.endLastBadAt,
+        ...secondDurations,
+        isResolved: true,
+        checksCount: outage.checksCount - firstChecks,
+        emailSent: outage.emailSent,
+        classification: outage.classification,
+        rootCause: outage.rootCause,
+        notes: outage.notes,
+        ispTicket: outage.ispTicket,
+        isExcluded: outage.isExcluded,
+        isPlanned: outage.isPlanned,
+        tags: { create: outage.tags.map(tag => ({ tag: tag.tag })) }
+      }
+    });
+
+    await tx.outage.update({
+      where: { id },
+      data: {
+        endTime: splitAt,
+        endLastBadAt: null,
+        ...firstDurations,
+        checksCount: firstChecks
+      }
+    });
+
+    await tx.outagePath.updateMany({
+      where: { outageId: id, timestamp: { gte: resumeAt } },
+      data: { outageId: second.id }
+    });
+
+    await tx.outageAudit.createMany({
+      data: [
+        auditEntry(id, 'split', userEmail, {
+          splitAt: splitAt.toISOString(),
+          resumeAt: resumeAt.toISOString(),
+          newOutageId: second.id,
+          before: snapshot(outage)
+        }),
+        auditEntry(second.id, 'split', userEmail, { splitFrom: id })
+      ]
+    });
+
+    return second.id;
+  });
+
+  await logger.info(`Outage split: #${id}`, {
+    newOutageId: secondId,
+    userEmail
+  });
+
+  return { success: true, outageIds: [id, secondId] };
+}
+
+/**
+ * Delete an outage along with its network paths and tags
+ * Its values are kept in the audit trail
+ */
+export async function deleteOutage(id: number, userEmail?: string): Promise<OutageEditResult> {
+  const outage = await prisma.outage.findUnique({
+    where: { id },
+    include: { tags: { orderBy: { id: 'asc' } } }
+  });
+  if (!outage) {
+    return notFound;
+  }
+  if (!outage.isResolved) {
+    return inProgress('deleted');
+  }
+
+  await prisma.$transaction([
+    prisma.outage.delete({ where: { id } }),
+    prisma.outageAudit.create({
+      data: auditEntry(id, 'deleted', userEmail, { before: snapshot(outage) })
+    })
+  ]);
+
+  await logger.info(`Outage deleted: #${id}`, { userEmail });
+
+  return { success: true, outageIds: [] };
+}
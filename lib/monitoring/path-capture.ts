@@ -0,0 +1,106 @@
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { safeTraceroute } from '@/lib/utils/shell';
+import type { AddressFamily } from '@/lib/utils/target-validation';
+
+/**
+ * When during an outage a path was captured
+ * Matches the comment on OutagePath.phase in the Prisma schema
+ */
+export type PathPhase = 'start' | 'during' | 'recovery';
+
+/**
+ * A single hop of a captured path
+ * Address and round trip time are null when the hop did not answer
+ */
+export interface TracerouteHop {
+  hop: number;
+  address: string | null;
+  rttMs: number | null;
+}
+
+/**
+ * Parse the hop lines printed by traceroute -n -q 1
+ *
+ * Handles both the traceroute package and busybox output:
+ *
+ *   traceroute to 8.8.8.8 (8.8.8.8), 20 hops max, 60 byte packets
+ *    1  192.168.1.1  0.512 ms
+ *    2  *
+ *    3  100.64.0.1  9.871 ms !H
+ */
+export function parseTracerouteOutput(stdout: string): TracerouteHop[] {
+  const hops: TracerouteHop[] = [];
+
+  for (const line of stdout.split('\n')) {
+    const match = line.match(/^\s*(\d+)\s+(\S.*)$/);
+    if (!match?.[1] || !match[2]) continue;
+
+    const hop = parseInt(match[1], 10);
+    const rest = match[2].trim();
+
+    if (rest.startsWith('*')) {
+      hops.push({ hop, address: null, rttMs: null });
+      continue;
+    }
+
+    const rttMatch = rest.match(/([\d.]+)\s*ms/);
+    hops.push({
+      hop,
+      address: rest.split(/\s+/)[0] ?? null,
+      rttMs: rttMatch?.[1] ? parseFloat(rttMatch[1]) : null
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * Trace the path toward a host and store it on an outage
+ *
+ * A traceroute that cannot run is stored too, with the error and no hops, so
+ * the outage shows that a capture was attempted. Never throws.
+ */
+export async function captureOutagePath(
+  outageId: number,
+  phase: PathPhase,
+  host: string,
+  family: AddressFamily
+): Promise<void> {
+  let hops: TracerouteHop[] = [];
+  let error: string | null = null;
+
+  try {
+    const { stdout } = await safeTraceroute(host, { family });
+    hops = parseTracerouteOutput(stdout);
+  } catch (traceError: unknown) {
+    error = getErrorMessage(traceError);
+  }
+
+  try {
+    await prisma.outagePath.create({
+      data: {
+        outageId,
+        phase,
+        target: host,
+        hops: JSON.stringify(hops),
+        error
+      }
+    });
+
+    logger.debug('Outage path captured', {
+      outageId,
+      phase,
+      target: host,
+      hopCount: hops.length,
+      ...(error && { error })
+    });
+  } catch (saveError: unknown) {
+    await logger.warn('Failed to store outage path', {
+      outageId,
+      phase,
+      error: getErrorMessage(saveError)
+    });
+  }
+}
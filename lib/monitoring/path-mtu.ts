@@ -0,0 +1,167 @@
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { getPathMtuSettings } from '@/lib/settings';
+import { isValidIPv6, safePing } from '@/lib/utils/shell';
+import type { AddressFamily } from '@/lib/utils/target-validation';
+
+// Largest MTU searched - standard Ethernet. Jumbo frames rarely survive the WAN
+const MAX_MTU = 1500;
+// Smallest MTU every link must carry (RFC 791 / RFC 8200)
+const MIN_MTU: Record<AddressFamily, number> = { ipv4: 576, ipv6: 1280 };
+// IP plus ICMP header bytes on top of the ping payload
+const HEADER_BYTES: Record<AddressFamily, number> = { ipv4: 28, ipv6: 48 };
+const PROBE_TIMEOUT_MS = 2000;
+// A lost reply looks like a packet that was too big, so failures are retried
+const PROBE_ATTEMPTS = 2;
+
+/**
+ * Outcome of measuring the path MTU toward one target
+ */
+export interface PathMtuResult {
+  /** Largest packet that got through, null when even the smallest did not */
+  mtu: number | null;
+  error: string | null;
+}
+
+// Set while a measurement runs, so a slow one is not started twice
+let isMeasuring = false;
+
+/**
+ * Send one don't-fragment ping of a given total packet size
+ * Returns null when it was answered, otherwise why it failed
+ */
+async function probeSize(target: string, family: AddressFamily, mtu: number): Promise<string | null> {
+  let error = 'No reply';
+
+  for (let attempt = 1; attempt <= PROBE_ATTEMPTS; attempt++) {
+    try {
+      await safePing(target, {
+        family,
+        packetSize: mtu - HEADER_BYTES[family],
+        dontFragment: true,
+        timeoutMs: PROBE_TIMEOUT_MS
+      });
+      return null;
+    } catch (pingError: unknown) {
+      error = getErrorMessage(pingError);
+    }
+  }
+
+  return error;
+}
+
+/**
+ * Find the largest packet that reaches a target without fragmentation
+ *
+ * Binary search between the family's minimum MTU and 1500 bytes, about ten
+ * pings. Hostnames are measured over IPv4
+ */
+export async function discoverPathMtu(target: string): Promise<PathMtuResult> {
+  const family: AddressFamily = isValidIPv6(target) ? 'ipv6' : 'ipv4';
+
+  if (await probeSize(target, family, MAX_MTU) === null) {
+    return { mtu: MAX_MTU, error: null };
+  }
+
+  const minError = await probeSize(target, family, MIN_MTU[family]);
+  if (minError !== null) {
+    return { mtu: null, error: minError };
+  }
+
+  // low always passed, high always failed
+  let low = MIN_MTU[family];
+  let high = MAX_MTU;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (await probeSize(target, family, mid) === null) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return { mtu: low, error: null };
+}
+
+/**
+ * Measure and store the path MTU toward a target, raising an event when it
+ * drops below the alert threshold and when it recovers
+ */
+async function measureTarget(target: string, alertBelow: number | null): Promise<void> {
+  const previous = await prisma.pathMtuCheck.findFirst({
+    where: { target, mtu: { not: null } },
+    orderBy: { timestamp: 'desc' },
+    select: { mtu: true }
+  });
+
+  const { mtu, error } = await discoverPathMtu(target);
+
+  await prisma.pathMtuCheck.create({
+    data: { target, mtu, error }
+  });
+
+  if (mtu === null) {
+    // Usually the target or the line is down - outages are tracked elsewhere
+    logger.debug('Path MTU not measured', { target, error: error ?? undefined });
+    return;
+  }
+
+  const previousMtu = previous?.mtu ?? null;
+  if (previousMtu !== null && previousMtu !== mtu) {
+    await logger.info(`Path MTU changed: ${target}`, { target, mtu, previousMtu });
+  }
+
+  if (alertBelow === null) {
+    return;
+  }
+
+  const wasBelow = previousMtu !== null && previousMtu < alertBelow;
+  if (mtu < alertBelow && !wasBelow) {
+    await logger.warn(`Path MTU below ${alertBelow}: ${target}`, {
+      target,
+      mtu,
+      previousMtu,
+      alertBelow
+    });
+  } else if (mtu >= alertBelow && wasBelow) {
+    await logger.info(`Path MTU restored: ${target}`, { target, mtu, alertBelow });
+  }
+}
+
+/**
+ * Measure the path MTU toward each configured target once the interval has
+ * passed since the last measurement
+ * Never throws, so a failure here cannot break monitoring
+ */
+export async function checkPathMtu(): Promise<void> {
+  if (isMeasuring) {
+    return;
+  }
+
+  isMeasuring = true;
+  try {
+    const settings = await getPathMtuSettings();
+    if (!settings.enabled) {
+      return;
+    }
+
+    const latest = await prisma.pathMtuCheck.findFirst({
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true }
+    });
+    if (latest && Date.now() - latest.timestamp.getTime() < settings.intervalSeconds * 1000) {
+      return;
+    }
+
+    for (const target of settings.targets) {
+      await measureTarget(target, settings.alertBelow);
+    }
+  } catch (error: unknown) {
+    await logger.warn('Failed to check path MTU', {
+      error: getErrorMessage(error)
+    });
+  } finally {
+    isMeasuring = false;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Line quality figures parsed from ping output
+ */
+export interface PingStats {
+  /** Average round trip time, or the first reply's time when there is no summary */
+  latencyMs: number | null;
+  packetLossPct: number | null;
+  /** Round trip variation, null with fewer than two replies */
+  jitterMs: number | null;
+  minMs: number | null;
+  avgMs: number | null;
+  maxMs: number | null;
+}
+
+/**
+ * Parse the replies and summary printed by ping
+ *
+ * Handles both iputils and busybox output:
+ *
+ *   3 packets transmitted, 3 received, 0% packet loss, time 2003ms
+ *   rtt min/avg/max/mdev = 11.021/12.113/13.482/1.010 ms
+ *
+ *   3 packets transmitted, 3 packets received, 0% packet loss
+ *   round-trip min/avg/max = 11.021/12.113/13.482 ms
+ *
+ * Jitter is the mdev from the summary. Busybox does not print one, so there
+ * it is the mean difference between consecutive reply times instead.
+ */
+export function parsePingOutput(stdout: string): PingStats {
+  const replyTimes = [...stdout.matchAll(/time=(\d+\.?\d*)/g)].map(match => parseFloat(match[1] ?? ''));
+
+  const lossMatch = stdout.match(/(\d+\.?\d*)% packet loss/);
+  const packetLossPct = lossMatch?.[1] ? parseFloat(lossMatch[1]) : null;
+
+  const receivedMatch = stdout.match(/(\d+) (?:packets )?received/);
+  const received = receivedMatch?.[1] ? parseInt(receivedMatch[1], 10) : replyTimes.length;
+
+  const summaryMatch = stdout.match(/min\/avg\/max(?:\/mdev)? = ([\d.]+)\/([\d.]+)\/([\d.]+)(?:\/([\d.]+))?/);
+  const minMs = summaryMatch?.[1] ? parseFloat(summaryMatch[1]) : null;
+  const avgMs = summaryMatch?.[2] ? parseFloat(summaryMatch[2]) : null;
+  const maxMs = summaryMatch?.[3] ? parseFloat(summaryMatch[3]) : null;
+  const mdevMs = summaryMatch?.[4] ? parseFloat(summaryMatch[4]) : null;
+
+  let jitterMs: number | null = null;
+  if (received >= 2) {
+    jitterMs = mdevMs ?? meanConsecutiveDifference(replyTimes);
+  }
+
+  return {
+    latencyMs: avgMs ?? replyTimes[0] ?? null,
+    packetLossPct,
+    jitterMs,
+    minMs,
+    avgMs,
+    maxMs
+  };
+}
+
+/**
+ * Mean absolute difference between consecutive reply times
+ */
+function meanConsecutiveDifference(times: number[]): number | null {
+  if (times.length < 2) {
+    return null;
+  }
+
+  let total = 0;
+  for (let i = 1; i < times.length; i++) {
+    total += Math.abs((times[i] ?? 0) - (times[i - 1] ?? 0));
+  }
+
+  return Math.round((total / (times.length - 1)) * 1000) / 1000;
+}
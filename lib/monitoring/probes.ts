@@ -0,0 +1,239 @@
+import { Resolver } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net, { isIPv6 } from 'net';
+import type { AddressFamily, DnsRecordType } from '@/lib/utils/target-validation';
+
+// Same deadline as the ping probe (-W 5)
+const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+// Stop reading bodies after 1 MB - health endpoints are small
+const MAX_BODY_BYTES = 1024 * 1024;
+// Name resolved by dns targets when none is configured
+export const DEFAULT_DNS_QUERY_NAME = 'google.com';
+
+/**
+ * Describe a socket error
+ * Connection failures can surface as an AggregateError with an empty message,
+ * in which case the error code (e.g. ECONNREFUSED) is the useful part
+ */
+function describeError(error: NodeJS.ErrnoException): string {
+  return error.message || error.code || 'Request failed';
+}
+
+/**
+ * Map an address family to the numeric form used by node's socket options
+ * Undefined leaves the choice to DNS resolution
+ */
+function toIpVersion(family: AddressFamily | undefined): 4 | 6 | undefined {
+  if (!family) return undefined;
+  return family === 'ipv6' ? 6 : 4;
+}
+
+/**
+ * Outcome of a single probe against a monitoring target
+ */
+export interface ProbeResult {
+  isConnected: boolean;
+  latencyMs: number | null;
+  /** Line quality, only measured by ping */
+  packetLossPct?: number | null;
+  jitterMs?: number | null;
+  /** Status of an HTTP response that failed the check - something did answer */
+  httpStatus?: number;
+  error?: string;
+}
+
+export interface HttpProbeOptions {
+  method?: 'GET' | 'HEAD';
+  /** Exact status code to expect, any 2xx/3xx when not set */
+  expectedStatus?: number | null;
+  /** Substring the response body must contain (ignored for HEAD) */
+  bodyMatch?: string | null;
+  /** Resolve hostnames to this family only */
+  family?: AddressFamily;
+  /** Local address to send from, e.g. to go out over a particular WAN link */
+  localAddress?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Probe a URL with an HTTP(S) request
+ *
+ * Latency is measured until the response headers arrive. The probe never
+ * rejects: network errors, timeouts, unexpected status codes and missing
+ * body matches all resolve to a disconnected result with an error message.
+ */
+export function httpProbe(url: string, options: HttpProbeOptions = {}): Promise<ProbeResult> {
+  const method = options.method ?? 'GET';
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  const bodyMatch = method === 'GET' ? options.bodyMatch : null;
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    let settled = false;
+
+    const finish = (result: ProbeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(deadline);
+      resolve(result);
+    };
+
+    const fail = (error: string, httpStatus?: number) => finish({
+      isConnected: false,
+      latencyMs: null,
+      error,
+      ...(httpStatus !== undefined && { httpStatus })
+    });
+
+    const request = client.request(
+      url,
+      {
+        method,
+        family: toIpVersion(options.family),
+        localAddress: options.localAddress,
+        headers: { 'User-Agent': 'WanWatch' }
+      },
+      (response) => {
+        const latencyMs = Date.now() - startTime;
+        const status = response.statusCode ?? 0;
+        const statusOk = options.expectedStatus
+          ? status === options.expectedStatus
+          : status >= 200 && status < 400;
+
+        if (!statusOk) {
+          response.resume();
+          fail(`Unexpected HTTP status ${status}`, status);
+          return;
+        }
+
+        if (!bodyMatch) {
+          response.resume();
+          finish({ isConnected: true, latencyMs });
+          return;
+        }
+
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          body += chunk;
+          if (body.includes(bodyMatch)) {
+            finish({ isConnected: true, latencyMs });
+            request.destroy();
+          } else if (body.length > MAX_BODY_BYTES) {
+            fail('Response body did not contain the expected text', status);
+            request.destroy();
+          }
+        });
+        response.on('end', () => {
+          if (body.includes(bodyMatch)) {
+            finish({ isConnected: true, latencyMs });
+          } else {
+            fail('Response body did not contain the expected text', status);
+          }
+        });
+        response.on('error', (error) => fail(describeError(error)));
+      }
+    );
+
+    const deadline = setTimeout(() => {
+      fail(`Timed out after ${timeoutMs}ms`);
+      request.destroy();
+    }, timeoutMs);
+
+    request.on('error', (error) => fail(describeError(error)));
+    request.end();
+  });
+}
+
+export interface TcpProbeOptions {
+  /** Resolve hostnames to this family only */
+  family?: AddressFamily;
+  /** Local address to connect from */
+  localAddress?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Probe a TCP port by opening a connection to it
+ *
+ * The target counts as up when the handshake completes. Latency is the time
+ * taken to connect, and the socket is closed straight away.
+ */
+export function tcpProbe(host: string, port: number, options: TcpProbeOptions = {}): Promise<ProbeResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    const socket = net.connect({
+      host,
+      port,
+      family: toIpVersion(options.family),
+      localAddress: options.localAddress
+    });
+
+    const finish = (result: ProbeResult) => {
+      socket.destroy();
+      resolve(result);
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => finish({ isConnected: true, latencyMs: Date.now() - startTime }));
+    socket.once('timeout', () => finish({
+      isConnected: false,
+      latencyMs: null,
+      error: `Timed out after ${timeoutMs}ms`
+    }));
+    socket.once('error', (error) => finish({
+      isConnected: false,
+      latencyMs: null,
+      error: describeError(error)
+    }));
+  });
+}
+
+export interface DnsProbeOptions {
+  queryName?: string | null;
+  recordType?: DnsRecordType | null;
+  /** Local address to send the query from */
+  localAddress?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Probe a DNS resolver by sending it a query
+ *
+ * The query goes only to the given server (not the system resolvers), so a
+ * failure means that resolver could not answer. Latency is the resolution
+ * time. An empty answer (ENODATA) or NXDOMAIN also counts as a failure.
+ */
+export function dnsProbe(server: string, options: DnsProbeOptions = {}): Promise<ProbeResult> {
+  const queryName = options.queryName || DEFAULT_DNS_QUERY_NAME;
+  const recordType = options.recordType ?? 'A';
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+
+  const resolver = new Resolver({ timeout: timeoutMs, tries: 1 });
+  resolver.setServers([server]);
+  if (options.localAddress) {
+    // The resolver takes one local address per family and uses the one
+    // matching the server - the other is left as the wildcard
+    if (isIPv6(options.localAddress)) {
+      resolver.setLocalAddress('0.0.0.0', options.localAddress);
+    } else {
+      resolver.setLocalAddress(options.localAddress);
+    }
+  }
+
+  const startTime = Date.now();
+
+  // An empty answer rejects with ENODATA, so any resolved records count as up
+  return resolver.resolve(queryName, recordType).then(
+    () => ({ isConnected: true, latencyMs: Date.now() - startTime }),
+    (error: NodeJS.ErrnoException) => ({
+      isConnected: false,
+      latencyMs: null,
+      error: `DNS lookup failed: ${error.code ?? describeError(error)}`
+    })
+  );
+}
@@ -0,0 +1,225 @@
+import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import type { GeoData, NetworkInfo } from '@/types/dashboard';
+
+const FETCH_TIMEOUT = 5000; // 5 seconds
+
+/**
+ * Fields of a PublicIpChange that are compared between observations
+ */
+export const PUBLIC_IP_FIELDS = ['ipv4', 'ipv6', 'asn', 'isp'] as const;
+
+export type PublicIpField = (typeof PUBLIC_IP_FIELDS)[number];
+
+export type PublicIpSnapshot = Record<PublicIpField, string | null>;
+
+// ip-api.com response type
+interface IpApiResponse {
+  status: 'success' | 'fail';
+  message?: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  org?: string;
+  timezone?: string;
+  as?: string;
+}
+
+/**
+ * Geo details of an earlier lookup, to fall back on when ip-api.com fails
+ */
+function toGeoData(info: NetworkInfo): Partial<GeoData> {
+  return {
+    city: info.city,
+    region: info.region,
+    country_name: info.country,
+    org: info.isp,
+    timezone: info.timezone,
+    asn: info.asn
+  };
+}
+
+/**
+ * Fetch the public IPv4 and IPv6 addresses and geo/ISP details
+ *
+ * Lookups that fail come back as 'N/A' (addresses) or 'Unknown' (geo). When
+ * the geo lookup fails, the geo details of `previous` are kept instead
+ */
+export async function fetchNetworkInfo(previous: NetworkInfo | null = null): Promise<NetworkInfo> {
+  // Fetch IPv4 and IPv6 addresses separately, plus geo info
+  // Using ip-api.com for geolocation (better rate limits: 45 req/min vs ipapi.co's daily limits)
+  // Note: ip-api.com free tier only supports HTTP (HTTPS requires paid plan)
+  const [ipv4Response, ipv6Response, geoResponse] = await Promise.allSettled([
+    fetch('https://api.ipify.org?format=json', {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT)
+    }),
+    fetch('https://api6.ipify.org?format=json', {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT)
+    }),
+    fetch('http://ip-api.com/json/?fields=status,message,city,region,country,org,timezone,as', {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT)
+    })
+  ]);
+
+  let ipv4 = 'N/A';
+  let ipv6 = 'N/A';
+  let geoData: Partial<GeoData> = {};
+
+  // Get IPv4
+  if (ipv4Response.status === 'fulfilled' && ipv4Response.value.ok) {
+    const data = await ipv4Response.value.json();
+    ipv4 = data.ip || 'N/A';
+  }
+
+  // Get IPv6
+  if (ipv6Response.status === 'fulfilled' && ipv6Response.value.ok) {
+    const data = await ipv6Response.value.json();
+    ipv6 = data.ip || 'N/A';
+  }
+
+  // Get geo info from ip-api.com
+  if (geoResponse.status === 'fulfilled' && geoResponse.value.ok) {
+    const rawGeoData: IpApiResponse = await geoResponse.value.json();
+
+    // ip-api.com uses different field names, so normalize them
+    if (rawGeoData.status === 'success') {
+      geoData = {
+        city: rawGeoData.city,
+        region: rawGeoData.region, // This is the state code (e.g., "GA")
+        country_name: rawGeoData.country,
+        org: rawGeoData.org,
+        timezone: rawGeoData.timezone,
+        asn: rawGeoData.as
+      };
+      logger.debug('Geo data fetched successfully', {
+        city: geoData.city,
+        region: geoData.region,
+        country: geoData.country_name
+      });
+    } else {
+      await logger.warn('Geo API returned error', { error: rawGeoData.message });
+      if (previous) {
+        logger.debug('Using cached geo data due to API error');
+        geoData = toGeoData(previous);
+      }
+    }
+  } else {
+    if (geoResponse.status === 'rejected') {
+      await logger.error('Geo fetch rejected', {
+        error: getErrorMessage(geoResponse.reason)
+      });
+    } else {
+      const errorText = await geoResponse.value.text();
+      await logger.error('Geo fetch failed', {
+        status: geoResponse.value.status,
+        statusText: geoResponse.value.statusText,
+        response: errorText
+      });
+    }
+
+    if (previous) {
+      // If geo fetch fails but we have cache, use cached geo data
+      logger.debug('Geo fetch failed, using cached geo data');
+      geoData = toGeoData(previous);
+    }
+  }
+
+  logger.debug('Network info fetched', { ipv4, ipv6 });
+
+  return {
+    ipv4,
+    ipv6,
+    city: geoData.city || 'Unknown',
+    region: geoData.region || 'Unknown',
+    country: geoData.country_name || 'Unknown',
+    isp: geoData.org || 'Unknown',
+    timezone: geoData.timezone || 'Unknown',
+    asn: geoData.asn || 'Unknown'
+  };
+}
+
+/**
+ * The tracked fields of a network info lookup, null where the lookup failed
+ */
+export function toSnapshot(info: NetworkInfo): PublicIpSnapshot {
+  const known = (value: string) => (value === 'N/A' || value === 'Unknown' ? null : value);
+  return {
+    ipv4: known(info.ipv4),
+    ipv6: known(info.ipv6),
+    asn: known(info.asn),
+    isp: known(info.isp)
+  };
+}
+
+/**
+ * Store the public IP details when they differ from the last observation
+ *
+ * Fields the lookup could not get keep their last known value, so a failed
+ * lookup (e.g. during an outage) is not recorded as a change. Returns the
+ * fields that changed - empty for the first observation, null when nothing
+ * changed. Never throws, so a failure here cannot break monitoring
+ */
+export async function recordPublicIp(info: NetworkInfo): Promise<PublicIpField[] | null> {
+  const observed = toSnapshot(info);
+  if (PUBLIC_IP_FIELDS.every(field => observed[field] === null)) {
+    return null;
+  }
+
+  try {
+    const last = await prisma.publicIpChange.findFirst({
+      orderBy: { timestamp: 'desc' }
+    });
+
+    const current = Object.fromEntries(
+      PUBLIC_IP_FIELDS.map(field => [field, observed[field] ?? last?.[field] ?? null])
+    ) as PublicIpSnapshot;
+    const changedFields = last
+      ? PUBLIC_IP_FIELDS.filter(field => current[field] !== last[field])
+      : [];
+
+    if (last && changedFields.length === 0) {
+      return null;
+    }
+
+    const change = await prisma.publicIpChange.create({
+      data: { ...current, changedFields: changedFields.join(',') }
+    });
+
+    if (!last) {
+      await logger.info('Public IP recorded', { ...current });
+      return changedFields;
+    }
+
+    await logger.warn('Public IP changed', {
+      changedFields,
+      previous: Object.fromEntries(changedFields.map(field => [field, last[field]])),
+      current: Object.fromEntries(changedFields.map(field => [field, current[field]]))
+    });
+
+    if (env.NOTIFY_PUBLIC_IP_CHANGE === 'true') {
+      const { sendPublicIpChangeEmail } = await import('./email-notifier');
+      await sendPublicIpChangeEmail(last, change, changedFields);
+    }
+
+    return changedFields;
+  } catch (error: unknown) {
+    await logger.warn('Failed to record public IP', {
+      error: getErrorMessage(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Look up the public IP details and record any change
+ * Run on a schedule by the monitoring scheduler
+ */
+export async function checkPublicIp(): Promise<void> {
+  const info = await fetchNetworkInfo();
+  await recordPublicIp(info);
+}
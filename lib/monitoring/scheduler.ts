@@ -1,5 +1,11 @@
-import { ConnectivityChecker } from './connectivity-checker';
+import { ConnectivityChecker, ScheduledTarget } from './connectivity-checker';
 import { SpeedTester } from './speed-tester';
+import { checkPublicIp } from './public-ip';
+import { checkAgentHeartbeats } from './agents';
+import { checkPathMtu } from './path-mtu';
+import { LatencyAnomalyDetector } from './latency-anomaly';
+import { reconcileMonitoringGap, recordHeartbeat } from './monitoring-gaps';
+import { isAgentMode, reportAgentResult } from './agent-reporter';
 import { getErrorMessage } from '@/lib/utils';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
@@ -9,9 +15,23 @@ import { prisma } from '@/lib/db';
 // Timing constants
 const SPEED_TEST_STARTUP_DELAY_MS = 30000; // 30 seconds - allow connectivity check to complete first
 const RESTART_CLEANUP_DELAY_MS = 100; // 100ms - ensure cleanup before restart
+const AGENT_HEARTBEAT_INTERVAL_MS = 60000; // 1 minute - how often remote agents are checked for silence
+const PATH_MTU_TICK_MS = 60000; // 1 minute - how often the path MTU interval is checked for being due
+const LATENCY_ANOMALY_INTERVAL_MS = 60000; // 1 minute - how often new checks are compared against the baseline
+const HEARTBEAT_INTERVAL_MS = 60000; // 1 minute - how often monitoring records that it is running
 
 let connectivityTask: NodeJS.Timeout | null = null;
+// Kept across mode switches - it tracks the failure/success streaks that
+// confirm outages and recoveries
+let connectivityChecker: ConnectivityChecker | null = null;
 let speedTestTask: NodeJS.Timeout | null = null;
+let publicIpTask: NodeJS.Timeout | null = null;
+let agentHeartbeatTask: NodeJS.Timeout | null = null;
+let pathMtuTask: NodeJS.Timeout | null = null;
+let latencyAnomalyTask: NodeJS.Timeout | null = null;
+let heartbeatTask: NodeJS.Timeout | null = null;
+// Targets with their own check interval, by target id
+const targetTasks = new Map<number, { intervalSeconds: number; task: NodeJS.Timeout }>();
 let currentCheckInterval: number = 0;
 let currentOutageInterval: number = 0;
 let isOutageMode: boolean = false;
@@ -30,6 +50,9 @@ function createConnectivityCheckFunction(checker: ConnectivityChecker): () => Pr
         async () => {
           const res = await checker.checkConnection();
           await checker.handleConnectionStatus(res);
+          if (isAgentMode()) {
+            await reportAgentResult(res);
+          }
           return res;
         }
       );
@@ -40,6 +63,8 @@ function createConnectivityCheckFunction(checker: ConnectivityChecker): () => Pr
         mode: isOutageMode ? 'outage' : 'normal'
       });
 
+      await syncTargetSchedules(checker);
+
       // Adaptive monitoring: switch modes based on connection status
       if (!result.isConnected && !isOutageMode) {
         // Switch to outage mode (rapid checking)
@@ -55,6 +80,59 @@ function createConnectivityCheckFunction(checker: ConnectivityChecker): () => Pr
   };
 }
 
+/**
+ * Start, restart or stop the timers of targets with their own check interval
+ * Runs after every check cycle, so target changes apply once the checker
+ * reloads its targets
+ */
+async function syncTargetSchedules(checker: ConnectivityChecker): Promise<void> {
+  let scheduled: ScheduledTarget[];
+  try {
+    scheduled = await checker.getScheduledTargets();
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    await logger.error('Error scheduling target checks', { error: errorMessage });
+    return;
+  }
+
+  const scheduledIds = new Set(scheduled.map(target => target.id));
+  for (const [targetId, entry] of targetTasks) {
+    if (!scheduledIds.has(targetId)) {
+      clearInterval(entry.task);
+      targetTasks.delete(targetId);
+    }
+  }
+
+  for (const target of scheduled) {
+    const existing = targetTasks.get(target.id);
+    if (existing?.intervalSeconds === target.checkIntervalSeconds) {
+      continue;
+    }
+    if (existing) {
+      clearInterval(existing.task);
+    }
+
+    const runTargetCheck = async () => {
+      try {
+        await checker.checkTarget(target.id);
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
+        await logger.error('Error during target check', { target: target.target, error: errorMessage });
+      }
+    };
+
+    targetTasks.set(target.id, {
+      intervalSeconds: target.checkIntervalSeconds,
+      task: setInterval(runTargetCheck, target.checkIntervalSeconds * 1000)
+    });
+
+    logger.debug('Target scheduled on its own interval', {
+      target: target.target,
+      intervalSeconds: target.checkIntervalSeconds
+    });
+  }
+}
+
 export async function startMonitoring(): Promise<void> {
   if (connectivityTask) {
     logger.debug('Monitoring already running');
@@ -67,7 +145,16 @@ export async function startMonitoring(): Promise<void> {
   currentOutageInterval = intervals.outageCheckIntervalSeconds * 1000;
   isOutageMode = false;
 
+  // Before the first check, which would otherwise resolve an outage left
+  // open across the time monitoring was not running
+  await reconcileMonitoringGap(intervals.checkIntervalSeconds);
+  if (!heartbeatTask) {
+    recordHeartbeat();
+    heartbeatTask = setInterval(() => recordHeartbeat(), HEARTBEAT_INTERVAL_MS);
+  }
+
   const checker = new ConnectivityChecker();
+  connectivityChecker = checker;
 
   // Create connectivity check function
   const runCheck = createConnectivityCheckFunction(checker);
@@ -83,10 +170,69 @@ export async function startMonitoring(): Promise<void> {
     outageIntervalSeconds: intervals.outageCheckIntervalSeconds
   });
 
+  // A remote agent only probes and uploads its results - the central
+  // instance runs everything else for it
+  if (isAgentMode()) {
+    return;
+  }
+
   // Start speed test monitoring if enabled
   if (env.ENABLE_SPEED_TEST === 'true') {
     await startSpeedTestMonitoring();
   }
+
+  startPublicIpMonitoring();
+
+  // Flag remote agents whose results stop arriving
+  if (!agentHeartbeatTask) {
+    agentHeartbeatTask = setInterval(checkAgentHeartbeats, AGENT_HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Measures only once its own interval (a setting) has passed, so
+  // settings changes apply without a restart
+  if (!pathMtuTask) {
+    checkPathMtu();
+    pathMtuTask = setInterval(checkPathMtu, PATH_MTU_TICK_MS);
+  }
+
+  // Reads the checks written since its last run, whichever task wrote them
+  if (!latencyAnomalyTask) {
+    const detector = new LatencyAnomalyDetector();
+    latencyAnomalyTask = setInterval(() => detector.check(), LATENCY_ANOMALY_INTERVAL_MS);
+  }
+}
+
+/**
+ * Check the public IP on a schedule, so changes are recorded even while
+ * nobody has the dashboard open
+ */
+function startPublicIpMonitoring(): void {
+  if (publicIpTask) {
+    logger.debug('Public IP monitoring already running');
+    return;
+  }
+
+  // 0 turns scheduled checks off - the dashboard still records changes it sees
+  const intervalSeconds = parseInt(env.PUBLIC_IP_CHECK_INTERVAL_SECONDS);
+  if (!(intervalSeconds > 0)) {
+    return;
+  }
+
+  const runCheck = async () => {
+    logger.debug('Running public IP check...');
+    try {
+      await checkPublicIp();
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      await logger.error('Error during public IP check', { error: errorMessage });
+    }
+  };
+
+  // Run immediately, then every N seconds
+  runCheck();
+  publicIpTask = setInterval(runCheck, intervalSeconds * 1000);
+
+  logger.logLifecycle('public_ip_monitoring_started', { intervalSeconds });
 }
 
 async function startSpeedTestMonitoring(): Promise<void> {
@@ -207,8 +353,9 @@ function restartConnectivityMonitoring(): void {
   // Determine new interval based on mode
   const intervalMs = isOutageMode ? currentOutageInterval : currentCheckInterval;
 
-  // Get checker instance
-  const checker = new ConnectivityChecker();
+  // Reuse the checker so outage confirmation streaks carry over
+  const checker = connectivityChecker ?? new ConnectivityChecker();
+  connectivityChecker = checker;
 
   // Create connectivity check function
   const runCheck = createConnectivityCheckFunction(checker);
@@ -235,6 +382,37 @@ export function stopMonitoring(): void {
     speedTestTask = null;
     logger.logLifecycle('speedtest_monitoring_stopped');
   }
+
+  for (const entry of targetTasks.values()) {
+    clearInterval(entry.task);
+  }
+  targetTasks.clear();
+
+  if (publicIpTask) {
+    clearInterval(publicIpTask);
+    publicIpTask = null;
+    logger.logLifecycle('public_ip_monitoring_stopped');
+  }
+
+  if (agentHeartbeatTask) {
+    clearInterval(agentHeartbeatTask);
+    agentHeartbeatTask = null;
+  }
+
+  if (pathMtuTask) {
+    clearInterval(pathMtuTask);
+    pathMtuTask = null;
+  }
+
+  if (latencyAnomalyTask) {
+    clearInterval(latencyAnomalyTask);
+    latencyAnomalyTask = null;
+  }
+
+  if (heartbeatTask) {
+    clearInterval(heartbeatTask);
+    heartbeatTask = null;
+  }
 }
 
 /**
@@ -1,8 +1,10 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { prisma } from '@/lib/db';
+import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
 import { getErrorMessage } from '@/lib/utils';
+import { BufferbloatGrade, startLatencySampler, summarizeLatencyUnderLoad } from './latency-under-load';
 
 const execAsync = promisify(exec);
 
@@ -17,6 +19,21 @@ export interface SpeedTestResult {
   isp?: string;
   externalIp?: string;
   resultUrl?: string;
+  /** Latency measured by WanWatch's own probe alongside the test */
+  idleLatencyMs?: number;
+  downloadLatencyMs?: number;
+  uploadLatencyMs?: number;
+  /** Loaded latency reported by the Ookla CLI (interquartile mean) */
+  ooklaDownloadLatencyMs?: number;
+  ooklaUploadLatencyMs?: number;
+  bufferbloatGrade?: BufferbloatGrade;
+}
+
+interface OoklaLatency {
+  iqm: number;
+  low: number;
+  high: number;
+  jitter: number;
 }
 
 interface OoklaResult {
@@ -30,11 +47,13 @@ interface OoklaResult {
     bandwidth: number;
     bytes: number;
     elapsed: number;
+    latency?: OoklaLatency;
   };
   upload: {
     bandwidth: number;
     bytes: number;
     elapsed: number;
+    latency?: OoklaLatency;
   };
   isp: string;
   interface: {
@@ -63,11 +82,16 @@ export class SpeedTester {
     this.isRunning = true;
     logger.info('Starting speed test');
 
+    // Probe latency while the test saturates the link to measure bufferbloat
+    const sampler = startLatencySampler(env.SPEED_TEST_LATENCY_TARGET);
+
     try {
       // Run Ookla speedtest CLI with JSON output, 60 second timeout
       const { stdout } = await execAsync('speedtest --accept-license --accept-gdpr --format=json', {
         timeout: 60000,
       });
+      const finishedAt = Date.now();
+      const samples = await sampler.stop();
 
       // Extract JSON from stdout (may have license text before JSON)
       // Find the line that starts with { and contains "type":"result"
@@ -80,6 +104,16 @@ export class SpeedTester {
 
       const result: OoklaResult = JSON.parse(jsonLine);
 
+      const ooklaDownloadLatencyMs = result.download.latency?.iqm;
+      const ooklaUploadLatencyMs = result.upload.latency?.iqm;
+      const latency = summarizeLatencyUnderLoad(samples, finishedAt, {
+        pingMs: result.ping.latency,
+        downloadElapsedMs: result.download.elapsed,
+        uploadElapsedMs: result.upload.elapsed,
+        ooklaDownloadLatencyMs,
+        ooklaUploadLatencyMs,
+      });
+
       const speedTestResult: SpeedTestResult = {
         downloadMbps: this.bytesToMbps(result.download.bandwidth),
         uploadMbps: this.bytesToMbps(result.upload.bandwidth),
@@ -91,6 +125,12 @@ export class SpeedTester {
         isp: result.isp,
         externalIp: result.interface?.externalIp,
         resultUrl: result.result?.url,
+        idleLatencyMs: latency.idleLatencyMs,
+        downloadLatencyMs: latency.downloadLatencyMs ?? undefined,
+        uploadLatencyMs: latency.uploadLatencyMs ?? undefined,
+        ooklaDownloadLatencyMs,
+        ooklaUploadLatencyMs,
+        bufferbloatGrade: latency.bufferbloatGrade ?? undefined,
       };
 
       await this.saveSpeedTestResult(speedTestResult);
@@ -99,6 +139,7 @@ export class SpeedTester {
         download: speedTestResult.downloadMbps.toFixed(2),
         upload: speedTestResult.uploadMbps.toFixed(2),
         ping: speedTestResult.pingMs.toFixed(2),
+        bufferbloatGrade: speedTestResult.bufferbloatGrade,
       });
 
       return speedTestResult;
@@ -109,6 +150,7 @@ export class SpeedTester {
       });
       return null;
     } finally {
+      await sampler.stop();
       this.isRunning = false;
     }
   }
@@ -127,6 +169,12 @@ export class SpeedTester {
           isp: result.isp,
           externalIp: result.externalIp,
           resultUrl: result.resultUrl,
+          idleLatencyMs: result.idleLatencyMs,
+          downloadLatencyMs: result.downloadLatencyMs,
+          uploadLatencyMs: result.uploadLatencyMs,
+          ooklaDownloadLatencyMs: result.ooklaDownloadLatencyMs,
+          ooklaUploadLatencyMs: result.ooklaUploadLatencyMs,
+          bufferbloatGrade: result.bufferbloatGrade,
         },
       });
 
@@ -163,6 +211,12 @@ export class SpeedTester {
         isp: latest.isp ?? undefined,
         externalIp: latest.externalIp ?? undefined,
         resultUrl: latest.resultUrl ?? undefined,
+        idleLatencyMs: latest.idleLatencyMs ?? undefined,
+        downloadLatencyMs: latest.downloadLatencyMs ?? undefined,
+        uploadLatencyMs: latest.uploadLatencyMs ?? undefined,
+        ooklaDownloadLatencyMs: latest.ooklaDownloadLatencyMs ?? undefined,
+        ooklaUploadLatencyMs: latest.ooklaUploadLatencyMs ?? undefined,
+        bufferbloatGrade: (latest.bufferbloatGrade as BufferbloatGrade | null) ?? undefined,
       };
     } catch (error) {
       await logger.error('Failed to get latest speed test', {
@@ -190,6 +244,12 @@ export class SpeedTester {
         isp: r.isp ?? undefined,
         externalIp: r.externalIp ?? undefined,
         resultUrl: r.resultUrl ?? undefined,
+        idleLatencyMs: r.idleLatencyMs ?? undefined,
+        downloadLatencyMs: r.downloadLatencyMs ?? undefined,
+        uploadLatencyMs: r.uploadLatencyMs ?? undefined,
+        ooklaDownloadLatencyMs: r.ooklaDownloadLatencyMs ?? undefined,
+        ooklaUploadLatencyMs: r.ooklaUploadLatencyMs ?? undefined,
+        bufferbloatGrade: (r.bufferbloatGrade as BufferbloatGrade | null) ?? undefined,
       }));
     } catch (error) {
       await logger.error('Failed to get speed test history', {
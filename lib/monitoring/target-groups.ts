@@ -0,0 +1,156 @@
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { ActiveMaintenance, findMaintenance, getActiveMaintenance } from './maintenance';
+import type { TargetOutcome } from './target-incidents';
+
+/**
+ * How a group's targets combine into the group verdict
+ * Matches the comment on TargetGroup.rule in the Prisma schema
+ *
+ * - any: up while at least one target answers
+ * - all: up only while every target answers
+ * - quorum: up while at least `quorum` targets answer
+ */
+export const GROUP_RULES = ['any', 'all', 'quorum'] as const;
+export type GroupRule = typeof GROUP_RULES[number];
+
+/**
+ * Decide whether a group is up from its members' outcomes
+ *
+ * Check cycles probe every member, but a target's own scheduled probe is
+ * judged with whichever members have a result so far. Members without one
+ * could go either way, so the verdict is only given when it holds whatever
+ * they would have returned. Returns null when it cannot be decided
+ */
+export function evaluateGroup(
+  rule: GroupRule,
+  quorum: number | null,
+  memberCount: number,
+  targetsUp: number,
+  targetsDown: number
+): boolean | null {
+  const unknown = memberCount - targetsUp - targetsDown;
+  const needed = rule === 'all'
+    ? memberCount
+    : rule === 'quorum'
+    ? Math.min(quorum ?? 1, memberCount)
+    : 1;
+
+  if (targetsUp >= needed) {
+    return true;
+  }
+  if (targetsUp + unknown < needed) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * Record each group's verdict for the cycle, and open or resolve its incident
+ *
+ * Groups without enabled targets, or whose verdict cannot be decided from the
+ * outcomes given, are skipped. Never throws, so a failure here cannot break
+ * the check cycle.
+ */
+export async function recordGroupVerdicts(outcomes: TargetOutcome[], timestamp: Date): Promise<void> {
+  if (outcomes.length === 0) {
+    return;
+  }
+
+  try {
+    const groups = await prisma.targetGroup.findMany({
+      include: {
+        targets: { where: { isEnabled: true }, select: { id: true } },
+        incidents: { where: { isResolved: false }, orderBy: { startTime: 'desc' }, take: 1 }
+      }
+    });
+    const outcomeByTarget = new Map(outcomes.map(outcome => [outcome.targetId, outcome]));
+    // Only loaded once an incident starts
+    let activeMaintenance: ActiveMaintenance[] | undefined;
+
+    for (const group of groups) {
+      if (group.targets.length === 0) continue;
+
+      const memberOutcomes = group.targets
+        .map(target => outcomeByTarget.get(target.id))
+        .filter((outcome): outcome is TargetOutcome => outcome !== undefined);
+      const targetsUp = memberOutcomes.filter(outcome => outcome.isConnected).length;
+      const targetsDown = memberOutcomes.length - targetsUp;
+
+      const isUp = evaluateGroup(group.rule as GroupRule, group.quorum, group.targets.length, targetsUp, targetsDown);
+      if (isUp === null) continue;
+
+      await prisma.groupCheck.create({
+        data: { groupId: group.id, timestamp, isUp, targetsUp, targetsDown }
+      });
+
+      const [activeIncident] = group.incidents;
+      if (!isUp && !activeIncident) {
+        // Planned incidents are recorded without notifications
+        activeMaintenance ??= await getActiveMaintenance(timestamp);
+        const maintenance = findMaintenance(activeMaintenance, { groupId: group.id });
+        const newIncident = await prisma.groupIncident.create({
+          data: { groupId: group.id, startTime: timestamp, ...(maintenance && { isPlanned: true }) }
+        });
+
+        await logger.warn(`Target group down: ${group.name}`, {
+          groupId: group.id,
+          incidentId: newIncident.id,
+          rule: group.rule,
+          targetsUp,
+          targetsDown,
+          ...(maintenance && { maintenance: maintenance.description })
+        });
+
+        if (group.notify && !maintenance) {
+          const { sendGroupStatusEmail } = await import('./email-notifier');
+          const sent = await sendGroupStatusEmail('down', group.name, {
+            startTime: timestamp,
+            endTime: null,
+            durationSec: null
+          }, group.notifyEmail);
+
+          if (sent) {
+            await prisma.groupIncident.update({
+              where: { id: newIncident.id },
+              data: { emailSent: true }
+            });
+          }
+        }
+      } else if (isUp && activeIncident) {
+        const durationSec = Math.floor(
+          (timestamp.getTime() - activeIncident.startTime.getTime()) / 1000
+        );
+
+        await prisma.groupIncident.update({
+          where: { id: activeIncident.id },
+          data: {
+            endTime: timestamp,
+            durationSec,
+            isResolved: true
+          }
+        });
+
+        await logger.info(`Target group restored: ${group.name}`, {
+          groupId: group.id,
+          incidentId: activeIncident.id,
+          durationSec
+        });
+
+        if (group.notify && !activeIncident.isPlanned) {
+          const { sendGroupStatusEmail } = await import('./email-notifier');
+          await sendGroupStatusEmail('restored', group.name, {
+            startTime: activeIncident.startTime,
+            endTime: timestamp,
+            durationSec
+          }, group.notifyEmail);
+        }
+      }
+    }
+  } catch (error: unknown) {
+    await logger.warn('Failed to record target group verdicts', {
+      error: getErrorMessage(error)
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { ActiveMaintenance, findMaintenance, getActiveMaintenance } from './maintenance';
+
+/**
+ * Result of probing one monitoring target in a cycle
+ */
+export interface TargetOutcome {
+  targetId: number;
+  target: string;
+  isConnected: boolean;
+  error?: string;
+}
+
+/**
+ * Incident fields needed to work out availability
+ */
+export interface IncidentRange {
+  startTime: Date;
+  endTime: Date | null;
+}
+
+/**
+ * Percentage of a window a target was available, from its incidents
+ * Open incidents run to the end of the window. Returns null for an empty window
+ */
+export function calculateAvailability(
+  incidents: IncidentRange[],
+  windowStart: Date,
+  windowEnd: Date
+): number | null {
+  const windowMs = windowEnd.getTime() - windowStart.getTime();
+  if (windowMs <= 0) {
+    return null;
+  }
+
+  const downtimeMs = incidents.reduce((sum, incident) => {
+    const start = Math.max(incident.startTime.getTime(), windowStart.getTime());
+    const end = Math.min(incident.endTime?.getTime() ?? windowEnd.getTime(), windowEnd.getTime());
+    return sum + Math.max(0, end - start);
+  }, 0);
+
+  return Math.round((1 - downtimeMs / windowMs) * 10000) / 100;
+}
+
+/**
+ * Open, extend or resolve per-target incidents from one cycle's results
+ *
+ * Targets without an outcome (e.g. a scheduled target whose result was
+ * reused) are left as they were. Never throws, so a failure here cannot
+ * break the check cycle.
+ */
+export async function recordTargetOutcomes(outcomes: TargetOutcome[], timestamp: Date): Promise<void> {
+  if (outcomes.length === 0) {
+    return;
+  }
+
+  try {
+    const openIncidents = await prisma.targetIncident.findMany({
+      where: {
+        isResolved: false,
+        targetId: { in: outcomes.map(outcome => outcome.targetId) }
+      }
+    });
+    const openByTarget = new Map(openIncidents.map(incident => [incident.targetId, incident]));
+    // Only loaded once an incident starts
+    let activeMaintenance: ActiveMaintenance[] | undefined;
+
+    for (const outcome of outcomes) {
+      const incident = openByTarget.get(outcome.targetId);
+
+      if (!outcome.isConnected && !incident) {
+        activeMaintenance ??= await getActiveMaintenance(timestamp);
+        const maintenance = findMaintenance(activeMaintenance, { targetId: outcome.targetId });
+        const newIncident = await prisma.targetIncident.create({
+          data: {
+            targetId: outcome.targetId,
+            startTime: timestamp,
+            lastError: outcome.error ?? null,
+            ...(maintenance && { isPlanned: true })
+          }
+        });
+
+        await logger.warn(`Target incident started: ${outcome.target}`, {
+          target: outcome.target,
+          incidentId: newIncident.id,
+          ...(outcome.error && { error: outcome.error }),
+          ...(maintenance && { maintenance: maintenance.description })
+        });
+      } else if (!outcome.isConnected && incident) {
+        await prisma.targetIncident.update({
+          where: { id: incident.id },
+          data: {
+            checksCount: { increment: 1 },
+            ...(outcome.error && { lastError: outcome.error })
+          }
+        });
+      } else if (outcome.isConnected && incident) {
+        const durationSec = Math.floor(
+          (timestamp.getTime() - incident.startTime.getTime()) / 1000
+        );
+
+        await prisma.targetIncident.update({
+          where: { id: incident.id },
+          data: {
+            endTime: timestamp,
+            durationSec,
+            isResolved: true
+          }
+        });
+
+        await logger.info(`Target incident resolved: ${outcome.target}`, {
+          target: outcome.target,
+          incidentId: incident.id,
+          durationSec
+        });
+      }
+    }
+  } catch (error: unknown) {
+    await logger.warn('Failed to record target incidents', {
+      error: getErrorMessage(error)
+    });
+  }
+}
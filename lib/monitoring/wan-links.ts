@@ -0,0 +1,149 @@
+import { networkInterfaces } from 'os';
+import { prisma } from '@/lib/db';
+import { getErrorMessage } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { isValidIPv6 } from '@/lib/utils/shell';
+import type { AddressFamily } from '@/lib/utils/target-validation';
+
+/**
+ * WAN link fields needed to bind its probes
+ */
+export interface WanLinkBinding {
+  interface: string | null;
+  sourceAddress: string | null;
+}
+
+/**
+ * How a probe is sent over a WAN link
+ */
+export interface ProbeBinding {
+  /** Passed to ping -I - the interface when set, otherwise the local address */
+  pingInterface: string;
+  /** Local address sockets are bound to */
+  localAddress: string;
+}
+
+/**
+ * Result of checking one WAN link in a cycle
+ */
+export interface WanLinkResult {
+  wanLinkId: number;
+  name: string;
+  isConnected: boolean;
+  latencyMs: number | null;
+  target: string;
+}
+
+/**
+ * First usable address of an interface for the given family
+ * Loopback and link-local IPv6 addresses cannot reach the internet, so they
+ * are skipped. Returns null when the interface is missing (e.g. a modem that
+ * was unplugged) or has no such address
+ */
+export function getInterfaceAddress(name: string, family: AddressFamily): string | null {
+  const nodeFamily = family === 'ipv6' ? 'IPv6' : 'IPv4';
+  const address = (networkInterfaces()[name] ?? []).find(info =>
+    info.family === nodeFamily && !info.internal && !info.address.toLowerCase().startsWith('fe80:')
+  );
+  return address?.address ?? null;
+}
+
+/**
+ * Work out how to send a probe of the given family over a WAN link
+ *
+ * The source address is used when it is of that family, otherwise the
+ * interface's own address. Returns null when the link has no address of the
+ * family, so targets of that family cannot be probed over it
+ */
+export function getProbeBinding(link: WanLinkBinding, family: AddressFamily): ProbeBinding | null {
+  const sourceFamily: AddressFamily | null = link.sourceAddress
+    ? isValidIPv6(link.sourceAddress) ? 'ipv6' : 'ipv4'
+    : null;
+
+  const localAddress = link.sourceAddress && sourceFamily === family
+    ? link.sourceAddress
+    : link.interface
+    ? getInterfaceAddress(link.interface, family)
+    : null;
+
+  if (!localAddress) {
+    return null;
+  }
+
+  return { pingInterface: link.interface ?? localAddress, localAddress };
+}
+
+/**
+ * Record each WAN link's check, and open, extend or resolve its outage
+ *
+ * A link outage opens on the first failed cycle and closes on the first
+ * successful one. Never throws, so a failure here cannot break the check cycle.
+ */
+export async function recordWanLinkResults(results: WanLinkResult[], timestamp: Date): Promise<void> {
+  if (results.length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.wanLinkCheck.createMany({
+      data: results.map(result => ({
+        wanLinkId: result.wanLinkId,
+        timestamp,
+        isConnected: result.isConnected,
+        latencyMs: result.latencyMs,
+        target: result.target
+      }))
+    });
+
+    const openOutages = await prisma.wanLinkOutage.findMany({
+      where: {
+        isResolved: false,
+        wanLinkId: { in: results.map(result => result.wanLinkId) }
+      }
+    });
+    const openByLink = new Map(openOutages.map(outage => [outage.wanLinkId, outage]));
+
+    for (const result of results) {
+      const outage = openByLink.get(result.wanLinkId);
+
+      if (!result.isConnected && !outage) {
+        const newOutage = await prisma.wanLinkOutage.create({
+          data: { wanLinkId: result.wanLinkId, startTime: timestamp }
+        });
+
+        await logger.warn(`WAN link down: ${result.name}`, {
+          wanLinkId: result.wanLinkId,
+          outageId: newOutage.id
+        });
+      } else if (!result.isConnected && outage) {
+        await prisma.wanLinkOutage.update({
+          where: { id: outage.id },
+          data: { checksCount: { increment: 1 } }
+        });
+      } else if (result.isConnected && outage) {
+        const durationSec = Math.floor(
+          (timestamp.getTime() - outage.startTime.getTime()) / 1000
+        );
+
+        await prisma.wanLinkOutage.update({
+          where: { id: outage.id },
+          data: {
+            endTime: timestamp,
+            durationSec,
+            isResolved: true
+          }
+        });
+
+        await logger.info(`WAN link restored: ${result.name}`, {
+          wanLinkId: result.wanLinkId,
+          outageId: outage.id,
+          durationSec
+        });
+      }
+    }
+  } catch (error: unknown) {
+    await logger.warn('Failed to record WAN link results', {
+      error: getErrorMessage(error)
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import { prisma } from '@/lib/db';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
+import { isValidCidr, isValidIPv4, isValidIPv6 } from '@/lib/utils/shell';
+import { isUrlTargetType, validateTarget } from '@/lib/utils/target-validation';
 
 // Settings table uses single-row pattern with fixed ID
 const SETTINGS_ID = 1;
@@ -10,6 +12,158 @@ export interface MonitoringIntervals {
   outageCheckIntervalSeconds: number;
 }
 
+export interface ProbeSettings {
+  probeAllTargets: boolean;
+  probeConcurrency: number;
+  probeTimeoutMs: number;
+  /** LAN gateway to probe, null to use the detected default gateway */
+  gatewayTarget: string | null;
+}
+
+export interface OutageThresholds {
+  /** Consecutive failed cycles before an outage is opened */
+  failureThreshold: number;
+  /** Consecutive successful cycles before an outage is resolved */
+  recoveryThreshold: number;
+  /** Failed targets that make a cycle count as failed, null when all must fail */
+  minFailedTargets: number | null;
+}
+
+export interface DegradationSettings {
+  /** Average latency above which the connection counts as degraded, null to ignore latency */
+  latencyThresholdMs: number | null;
+  /** Average packet loss above which the connection counts as degraded, null to ignore loss */
+  packetLossThresholdPct: number | null;
+  /** Connected cycles the averages are taken over */
+  windowChecks: number;
+  /** Send an email when a degraded period starts and ends */
+  notify: boolean;
+}
+
+/**
+ * A hostname that must resolve inside one of its expected address ranges
+ */
+export interface DnsInterceptionCheck {
+  hostname: string;
+  /** CIDR ranges, e.g. 8.8.8.0/24. Addresses of a family with no range are not checked */
+  ranges: string[];
+}
+
+export interface InterceptionSettings {
+  enabled: boolean;
+  /** Connectivity-check URL fetched each cycle */
+  checkUrl: string;
+  expectedStatus: number;
+  /** Text the response body must contain, null to check the status only */
+  bodyMatch: string | null;
+  dnsChecks: DnsInterceptionCheck[];
+}
+
+/**
+ * Defaults match the original behaviour: stop at the first target that
+ * answers, with the same 5 second deadline as ping -W 5
+ */
+export const DEFAULT_PROBE_SETTINGS: ProbeSettings = {
+  probeAllTargets: false,
+  probeConcurrency: 4,
+  probeTimeoutMs: 5000,
+  gatewayTarget: null
+};
+
+/**
+ * Defaults match the original behaviour: an outage opens on the first cycle
+ * where every target fails and resolves on the first success
+ */
+export const DEFAULT_OUTAGE_THRESHOLDS: OutageThresholds = {
+  failureThreshold: 1,
+  recoveryThreshold: 1,
+  minFailedTargets: null
+};
+
+/**
+ * How outage durations are counted in the statistics
+ * Matches the comment on Settings.outageDurationMode in the Prisma schema
+ */
+export const OUTAGE_DURATION_MODES = ['recorded', 'conservative', 'estimated'] as const;
+export type OutageDurationMode = typeof OUTAGE_DURATION_MODES[number];
+
+/**
+ * Default matches the original behaviour: from the first failed check to the
+ * first successful one
+ */
+export const DEFAULT_OUTAGE_DURATION_MODE: OutageDurationMode = 'recorded';
+
+export interface PathMtuSettings {
+  enabled: boolean;
+  /** Hosts to measure the path MTU toward */
+  targets: string[];
+  intervalSeconds: number;
+  /** MTU below which an event is raised, null to only record it */
+  alertBelow: number | null;
+}
+
+export interface LatencyAnomalySettings {
+  enabled: boolean;
+  /** Standard deviations above the hourly baseline that count as an anomaly */
+  zScoreThreshold: number;
+  /** Checks per target the rolling average is taken over */
+  windowChecks: number;
+  /** Days of check history the baseline is learned from */
+  baselineDays: number;
+  /** Send an email when an anomaly starts and ends */
+  notify: boolean;
+}
+
+/**
+ * Defaults match the original behaviour: no thresholds, so the connection is
+ * never reported as degraded
+ */
+export const DEFAULT_DEGRADATION_SETTINGS: DegradationSettings = {
+  latencyThresholdMs: null,
+  packetLossThresholdPct: null,
+  windowChecks: 5,
+  notify: false
+};
+
+/**
+ * Defaults match the original behaviour: interception is not checked. The
+ * URL is the 204 endpoint Android uses to detect captive portals, and the
+ * hostnames belong to public resolvers with long-lived address ranges
+ */
+export const DEFAULT_INTERCEPTION_SETTINGS: InterceptionSettings = {
+  enabled: false,
+  checkUrl: 'http://connectivitycheck.gstatic.com/generate_204',
+  expectedStatus: 204,
+  bodyMatch: null,
+  dnsChecks: [
+    { hostname: 'dns.google', ranges: ['8.8.8.0/24', '8.8.4.0/24', '2001:4860:4860::/48'] },
+    { hostname: 'one.one.one.one', ranges: ['1.1.1.1/32', '1.0.0.1/32', '2606:4700:4700::/48'] }
+  ]
+};
+
+/**
+ * Defaults match the original behaviour: path MTU is not measured. Hourly is
+ * enough to catch a changed line setup without adding noticeable traffic
+ */
+export const DEFAULT_PATH_MTU_SETTINGS: PathMtuSettings = {
+  enabled: false,
+  targets: ['1.1.1.1'],
+  intervalSeconds: 3600,
+  alertBelow: null
+};
+
+/**
+ * Defaults match the original behaviour: anomalies are not detected. Two
+ * weeks gives each hour of the day enough checks on weekdays and weekends
+ */
+export const DEFAULT_LATENCY_ANOMALY_SETTINGS: LatencyAnomalySettings = {
+  enabled: false,
+  zScoreThreshold: 3,
+  windowChecks: 3,
+  baselineDays: 14,
+  notify: false
+};
+
 /**
  * Get monitoring intervals from database or fallback to environment variables
  * Hybrid approach: Database settings override env vars when present
@@ -104,9 +258,499 @@ export function getDefaultIntervals(): MonitoringIntervals {
 }
 
 /**
- * Reset intervals to defaults (delete database settings)
+ * Reset intervals to defaults
+ * Only the interval columns are reset, so other settings on the row survive
  */
 export async function resetToDefaultIntervals(): Promise<void> {
-  await prisma.settings.deleteMany({});
+  await prisma.settings.updateMany({
+    where: { id: SETTINGS_ID },
+    data: getDefaultIntervals()
+  });
   await logger.info('Reset monitoring intervals to defaults');
 }
+
+/**
+ * Get the probe strategy from database or fallback to defaults
+ */
+export async function getProbeSettings(): Promise<ProbeSettings> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: {
+        probeAllTargets: true,
+        probeConcurrency: true,
+        probeTimeoutMs: true,
+        gatewayTarget: true
+      }
+    });
+
+    return settings ?? DEFAULT_PROBE_SETTINGS;
+  } catch (error) {
+    logger.warn('Failed to load probe settings from database, using defaults', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_PROBE_SETTINGS;
+  }
+}
+
+/**
+ * Update the probe strategy in database
+ */
+export async function updateProbeSettings(probeSettings: ProbeSettings): Promise<void> {
+  // Validation
+  if (probeSettings.probeConcurrency < 1 || probeSettings.probeConcurrency > 20) {
+    throw new Error('probeConcurrency must be between 1 and 20');
+  }
+
+  if (probeSettings.probeTimeoutMs < 1000 || probeSettings.probeTimeoutMs > 30000) {
+    throw new Error('probeTimeoutMs must be between 1000 and 30000');
+  }
+
+  if (probeSettings.gatewayTarget !== null &&
+      !isValidIPv4(probeSettings.gatewayTarget) && !isValidIPv6(probeSettings.gatewayTarget)) {
+    throw new Error('gatewayTarget must be an IP address');
+  }
+
+  // A new row also needs the intervals, which would otherwise take the
+  // schema defaults instead of the environment variables
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...probeSettings
+    },
+    update: probeSettings
+  });
+
+  await logger.info('Updated probe settings', { ...probeSettings });
+}
+
+/**
+ * Get the outage confirmation thresholds from database or fallback to defaults
+ */
+export async function getOutageThresholds(): Promise<OutageThresholds> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: {
+        outageFailureThreshold: true,
+        outageRecoveryThreshold: true,
+        outageMinFailedTargets: true
+      }
+    });
+
+    if (!settings) {
+      return DEFAULT_OUTAGE_THRESHOLDS;
+    }
+
+    return {
+      failureThreshold: settings.outageFailureThreshold,
+      recoveryThreshold: settings.outageRecoveryThreshold,
+      minFailedTargets: settings.outageMinFailedTargets
+    };
+  } catch (error) {
+    logger.warn('Failed to load outage thresholds from database, using defaults', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_OUTAGE_THRESHOLDS;
+  }
+}
+
+/**
+ * Update the outage confirmation thresholds in database
+ */
+export async function updateOutageThresholds(thresholds: OutageThresholds): Promise<void> {
+  // Validation
+  if (thresholds.failureThreshold < 1 || thresholds.failureThreshold > 20) {
+    throw new Error('failureThreshold must be between 1 and 20');
+  }
+
+  if (thresholds.recoveryThreshold < 1 || thresholds.recoveryThreshold > 20) {
+    throw new Error('recoveryThreshold must be between 1 and 20');
+  }
+
+  if (thresholds.minFailedTargets !== null && thresholds.minFailedTargets < 1) {
+    throw new Error('minFailedTargets must be at least 1');
+  }
+
+  const data = {
+    outageFailureThreshold: thresholds.failureThreshold,
+    outageRecoveryThreshold: thresholds.recoveryThreshold,
+    outageMinFailedTargets: thresholds.minFailedTargets
+  };
+
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...data
+    },
+    update: data
+  });
+
+  await logger.info('Updated outage thresholds', { ...thresholds });
+}
+
+/**
+ * Get how outage durations are counted in the statistics, or the default
+ */
+export async function getOutageDurationMode(): Promise<OutageDurationMode> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: { outageDurationMode: true }
+    });
+
+    const mode = settings?.outageDurationMode as OutageDurationMode | undefined;
+    return mode && OUTAGE_DURATION_MODES.includes(mode) ? mode : DEFAULT_OUTAGE_DURATION_MODE;
+  } catch (error) {
+    logger.warn('Failed to load outage duration mode from database, using default', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_OUTAGE_DURATION_MODE;
+  }
+}
+
+/**
+ * Update how outage durations are counted in the statistics
+ */
+export async function updateOutageDurationMode(durationMode: OutageDurationMode): Promise<void> {
+  // Validation
+  if (!OUTAGE_DURATION_MODES.includes(durationMode)) {
+    throw new Error(`durationMode must be one of: ${OUTAGE_DURATION_MODES.join(', ')}`);
+  }
+
+  const data = { outageDurationMode: durationMode };
+
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...data
+    },
+    update: data
+  });
+
+  await logger.info('Updated outage duration mode', { durationMode });
+}
+
+/**
+ * Get the degraded connection settings from database or fallback to defaults
+ */
+export async function getDegradationSettings(): Promise<DegradationSettings> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: {
+        degradedLatencyMs: true,
+        degradedPacketLossPct: true,
+        degradedWindowChecks: true,
+        notifyDegraded: true
+      }
+    });
+
+    if (!settings) {
+      return DEFAULT_DEGRADATION_SETTINGS;
+    }
+
+    return {
+      latencyThresholdMs: settings.degradedLatencyMs,
+      packetLossThresholdPct: settings.degradedPacketLossPct,
+      windowChecks: settings.degradedWindowChecks,
+      notify: settings.notifyDegraded
+    };
+  } catch (error) {
+    logger.warn('Failed to load degradation settings from database, using defaults', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_DEGRADATION_SETTINGS;
+  }
+}
+
+/**
+ * Update the degraded connection settings in database
+ */
+export async function updateDegradationSettings(degradation: DegradationSettings): Promise<void> {
+  // Validation
+  if (degradation.latencyThresholdMs !== null &&
+      (degradation.latencyThresholdMs < 1 || degradation.latencyThresholdMs > 60000)) {
+    throw new Error('latencyThresholdMs must be between 1 and 60000');
+  }
+
+  if (degradation.packetLossThresholdPct !== null &&
+      (degradation.packetLossThresholdPct <= 0 || degradation.packetLossThresholdPct >= 100)) {
+    throw new Error('packetLossThresholdPct must be between 0 and 100');
+  }
+
+  if (degradation.windowChecks < 1 || degradation.windowChecks > 60) {
+    throw new Error('windowChecks must be between 1 and 60');
+  }
+
+  const data = {
+    degradedLatencyMs: degradation.latencyThresholdMs,
+    degradedPacketLossPct: degradation.packetLossThresholdPct,
+    degradedWindowChecks: degradation.windowChecks,
+    notifyDegraded: degradation.notify
+  };
+
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...data
+    },
+    update: data
+  });
+
+  await logger.info('Updated degradation settings', { ...degradation });
+}
+
+/**
+ * Get the interception detection settings from database or fallback to defaults
+ */
+export async function getInterceptionSettings(): Promise<InterceptionSettings> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: {
+        interceptionCheckEnabled: true,
+        interceptionCheckUrl: true,
+        interceptionExpectedStatus: true,
+        interceptionBodyMatch: true,
+        interceptionDnsChecks: true
+      }
+    });
+
+    if (!settings) {
+      return DEFAULT_INTERCEPTION_SETTINGS;
+    }
+
+    return {
+      enabled: settings.interceptionCheckEnabled,
+      checkUrl: settings.interceptionCheckUrl,
+      expectedStatus: settings.interceptionExpectedStatus,
+      bodyMatch: settings.interceptionBodyMatch,
+      dnsChecks: settings.interceptionDnsChecks === null
+        ? DEFAULT_INTERCEPTION_SETTINGS.dnsChecks
+        : JSON.parse(settings.interceptionDnsChecks) as DnsInterceptionCheck[]
+    };
+  } catch (error) {
+    logger.warn('Failed to load interception settings from database, using defaults', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_INTERCEPTION_SETTINGS;
+  }
+}
+
+/**
+ * Update the interception detection settings in database
+ */
+export async function updateInterceptionSettings(interception: InterceptionSettings): Promise<void> {
+  // Validation
+  const urlCheck = validateTarget(interception.checkUrl);
+  if (!urlCheck.valid || !isUrlTargetType(urlCheck.suggestedType)) {
+    throw new Error('checkUrl must be an http:// or https:// URL');
+  }
+
+  if (interception.expectedStatus < 100 || interception.expectedStatus > 599) {
+    throw new Error('expectedStatus must be between 100 and 599');
+  }
+
+  if (interception.dnsChecks.length > 10) {
+    throw new Error('dnsChecks must have at most 10 hostnames');
+  }
+
+  for (const check of interception.dnsChecks) {
+    const hostCheck = validateTarget(check.hostname);
+    if (!hostCheck.valid || hostCheck.suggestedType !== 'domain') {
+      throw new Error(`Invalid hostname: ${check.hostname}`);
+    }
+
+    if (check.ranges.length === 0 || !check.ranges.every(isValidCidr)) {
+      throw new Error(`${check.hostname} needs at least one address range in CIDR notation`);
+    }
+  }
+
+  const data = {
+    interceptionCheckEnabled: interception.enabled,
+    interceptionCheckUrl: interception.checkUrl,
+    interceptionExpectedStatus: interception.expectedStatus,
+    interceptionBodyMatch: interception.bodyMatch,
+    interceptionDnsChecks: JSON.stringify(interception.dnsChecks)
+  };
+
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...data
+    },
+    update: data
+  });
+
+  await logger.info('Updated interception settings', { ...interception });
+}
+
+/**
+ * Get the path MTU discovery settings from database or fallback to defaults
+ */
+export async function getPathMtuSettings(): Promise<PathMtuSettings> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: {
+        pathMtuEnabled: true,
+        pathMtuTargets: true,
+        pathMtuIntervalSeconds: true,
+        pathMtuAlertBelow: true
+      }
+    });
+
+    if (!settings) {
+      return DEFAULT_PATH_MTU_SETTINGS;
+    }
+
+    return {
+      enabled: settings.pathMtuEnabled,
+      targets: settings.pathMtuTargets === null
+        ? DEFAULT_PATH_MTU_SETTINGS.targets
+        : JSON.parse(settings.pathMtuTargets) as string[],
+      intervalSeconds: settings.pathMtuIntervalSeconds,
+      alertBelow: settings.pathMtuAlertBelow
+    };
+  } catch (error) {
+    logger.warn('Failed to load path MTU settings from database, using defaults', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_PATH_MTU_SETTINGS;
+  }
+}
+
+/**
+ * Update the path MTU discovery settings in database
+ */
+export async function updatePathMtuSettings(pathMtu: PathMtuSettings): Promise<void> {
+  // Validation
+  if (pathMtu.targets.length === 0 || pathMtu.targets.length > 5) {
+    throw new Error('targets must have between 1 and 5 hosts');
+  }
+
+  for (const target of pathMtu.targets) {
+    const check = validateTarget(target);
+    if (!check.valid || (check.suggestedType !== 'ip' && check.suggestedType !== 'domain')) {
+      throw new Error(`Invalid target: ${target}`);
+    }
+  }
+
+  if (pathMtu.intervalSeconds < 300 || pathMtu.intervalSeconds > 86400) {
+    throw new Error('intervalSeconds must be between 300 and 86400');
+  }
+
+  if (pathMtu.alertBelow !== null && (pathMtu.alertBelow < 576 || pathMtu.alertBelow > 9000)) {
+    throw new Error('alertBelow must be between 576 and 9000');
+  }
+
+  const data = {
+    pathMtuEnabled: pathMtu.enabled,
+    pathMtuTargets: JSON.stringify(pathMtu.targets),
+    pathMtuIntervalSeconds: pathMtu.intervalSeconds,
+    pathMtuAlertBelow: pathMtu.alertBelow
+  };
+
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...data
+    },
+    update: data
+  });
+
+  await logger.info('Updated path MTU settings', { ...pathMtu });
+}
+
+/**
+ * Get the latency anomaly detection settings from database or fallback to defaults
+ */
+export async function getLatencyAnomalySettings(): Promise<LatencyAnomalySettings> {
+  try {
+    const settings = await prisma.settings.findUnique({
+      where: { id: SETTINGS_ID },
+      select: {
+        anomalyEnabled: true,
+        anomalyZScore: true,
+        anomalyWindowChecks: true,
+        anomalyBaselineDays: true,
+        notifyAnomaly: true
+      }
+    });
+
+    if (!settings) {
+      return DEFAULT_LATENCY_ANOMALY_SETTINGS;
+    }
+
+    return {
+      enabled: settings.anomalyEnabled,
+      zScoreThreshold: settings.anomalyZScore,
+      windowChecks: settings.anomalyWindowChecks,
+      baselineDays: settings.anomalyBaselineDays,
+      notify: settings.notifyAnomaly
+    };
+  } catch (error) {
+    logger.warn('Failed to load latency anomaly settings from database, using defaults', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return DEFAULT_LATENCY_ANOMALY_SETTINGS;
+  }
+}
+
+/**
+ * Update the latency anomaly detection settings in database
+ */
+export async function updateLatencyAnomalySettings(anomaly: LatencyAnomalySettings): Promise<void> {
+  // Validation
+  if (anomaly.zScoreThreshold < 1 || anomaly.zScoreThreshold > 10) {
+    throw new Error('zScoreThreshold must be between 1 and 10');
+  }
+
+  if (anomaly.windowChecks < 1 || anomaly.windowChecks > 60) {
+    throw new Error('windowChecks must be between 1 and 60');
+  }
+
+  if (anomaly.baselineDays < 3 || anomaly.baselineDays > 90) {
+    throw new Error('baselineDays must be between 3 and 90');
+  }
+
+  const data = {
+    anomalyEnabled: anomaly.enabled,
+    anomalyZScore: anomaly.zScoreThreshold,
+    anomalyWindowChecks: anomaly.windowChecks,
+    anomalyBaselineDays: anomaly.baselineDays,
+    notifyAnomaly: anomaly.notify
+  };
+
+  await prisma.settings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      id: SETTINGS_ID,
+      ...getDefaultIntervals(),
+      ...data
+    },
+    update: data
+  });
+
+  await logger.info('Updated latency anomaly settings', { ...anomaly });
+}
@@ -0,0 +1,28 @@
+/**
+ * Root causes a user can record on an outage
+ * Matches the comment on Outage.rootCause in the Prisma schema
+ */
+export const OUTAGE_ROOT_CAUSES = ['isp', 'power', 'local_equipment', 'planned', 'unknown'] as const;
+
+export type OutageRootCause = (typeof OUTAGE_ROOT_CAUSES)[number];
+
+/**
+ * Most tags one outage can carry
+ */
+export const MAX_OUTAGE_TAGS = 10;
+
+/**
+ * Tags are short lowercase words, e.g. "fibre-cut" or "storm"
+ */
+export const OUTAGE_TAG_REGEX = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/**
+ * Trim, lowercase and de-duplicate tags, keeping their order
+ * Spaces inside a tag become dashes, so "Fibre cut" is stored as "fibre-cut"
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(tag => tag.length > 0);
+  return [...new Set(normalized)];
+}
@@ -1,10 +1,13 @@
 import { spawn } from 'child_process';
+import { isIPv6 } from 'net';
+import type { AddressFamily } from '@/lib/utils/target-validation';
 
 /**
  * Strict validation regex for ping targets
  * Allows:
  * - IPv4 addresses: 0-255.0-255.0-255.0-255
  * - Hostnames: alphanumeric with hyphens and dots (RFC 1123)
+ * IPv6 literals are checked separately by isValidIPv6
  */
 const SAFE_TARGET_REGEX = /^[a-zA-Z0-9][a-zA-Z0-9.-]*[a-zA-Z0-9]$|^[0-9]{1,3}(\.[0-9]{1,3}){3}$/;
 
@@ -21,7 +24,21 @@ export function isSafeTarget(target: string): boolean {
   if (!target || target.length > MAX_TARGET_LENGTH) {
     return false;
   }
-  return SAFE_TARGET_REGEX.test(target);
+  return SAFE_TARGET_REGEX.test(target) || isValidIPv6(target);
+}
+
+/**
+ * Network interface names, e.g. eth1 or wwan0
+ * Linux caps them at 15 characters; a leading letter or digit keeps a name
+ * from being read as a command-line option
+ */
+const INTERFACE_NAME_REGEX = /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,14}$/;
+
+/**
+ * Validate that a string is a network interface name
+ */
+export function isValidInterfaceName(name: string): boolean {
+  return INTERFACE_NAME_REGEX.test(name);
 }
 
 /**
@@ -39,6 +56,50 @@ export function isValidIPv4(ip: string): boolean {
   });
 }
 
+/**
+ * Validate that a string is an IPv6 address
+ * Zone IDs (fe80::1%eth0) are rejected - link-local addresses say nothing
+ * about the WAN, and the % suffix is free-form text
+ */
+export function isValidIPv6(ip: string): boolean {
+  return !ip.includes('%') && isIPv6(ip);
+}
+
+/**
+ * Validate an address range in CIDR notation, e.g. 8.8.8.0/24 or 2001:4860::/32
+ */
+export function isValidCidr(cidr: string): boolean {
+  const [address, prefix, ...rest] = cidr.split('/');
+  if (!address || prefix === undefined || rest.length > 0 || !/^\d{1,3}$/.test(prefix)) {
+    return false;
+  }
+
+  const bits = parseInt(prefix, 10);
+  if (isValidIPv4(address)) return bits <= 32;
+  if (isValidIPv6(address)) return bits <= 128;
+  return false;
+}
+
+/**
+ * Options for safePing
+ */
+export interface PingOptions {
+  /** Force the address family (ping -4 / ping -6), e.g. for dual-stack hostnames */
+  family?: AddressFamily;
+  /** How long to wait for each reply, rounded up to whole seconds (default 5s) */
+  timeoutMs?: number;
+  /** Packets to send (default 1) */
+  count?: number;
+  /** Gap between packets, ping's own default (1s) when not set */
+  intervalMs?: number;
+  /** Interface name or local address to send from (ping -I), e.g. for a backup WAN link */
+  sourceInterface?: string;
+  /** ICMP payload size in bytes (ping -s), ping's own default (56) when not set */
+  packetSize?: number;
+  /** Forbid fragmentation (ping -M do), so packets larger than the path MTU fail */
+  dontFragment?: boolean;
+}
+
 /**
  * Safely execute ping command without shell injection risk
  *
@@ -46,19 +107,41 @@ export function isValidIPv4(ip: string): boolean {
  * to prevent command injection attacks.
  *
  * @param target - IP address or hostname to ping
+ * @param options - Optional address family, timeout, packet count/interval/size, source interface and don't-fragment flag
  * @returns Promise resolving to { stdout } on success
- * @throws Error if target is invalid or ping fails
+ * @throws Error if target or source interface is invalid or ping fails (no reply to any packet)
  */
-export async function safePing(target: string): Promise<{ stdout: string }> {
+export async function safePing(target: string, options: PingOptions = {}): Promise<{ stdout: string }> {
   // Validate target contains only safe characters
   if (!isSafeTarget(target)) {
     throw new Error(`Invalid ping target: ${target}`);
   }
 
+  const { sourceInterface } = options;
+  if (sourceInterface !== undefined && !isValidInterfaceName(sourceInterface) &&
+      !isValidIPv4(sourceInterface) && !isValidIPv6(sourceInterface)) {
+    throw new Error(`Invalid ping source interface: ${sourceInterface}`);
+  }
+
   return new Promise((resolve, reject) => {
     // Use spawn with array args to avoid shell interpretation
     // This prevents command injection even if validation were bypassed
-    const proc = spawn('ping', ['-c', '1', '-W', '5', target]);
+    const familyArgs = options.family ? [options.family === 'ipv6' ? '-6' : '-4'] : [];
+    const timeoutSeconds = options.timeoutMs ? Math.max(1, Math.ceil(options.timeoutMs / 1000)) : 5;
+    const intervalArgs = options.intervalMs ? ['-i', String(options.intervalMs / 1000)] : [];
+    const sourceArgs = sourceInterface ? ['-I', sourceInterface] : [];
+    const sizeArgs = options.packetSize !== undefined ? ['-s', String(Math.floor(options.packetSize))] : [];
+    const fragmentArgs = options.dontFragment ? ['-M', 'do'] : [];
+    const proc = spawn('ping', [
+      ...familyArgs,
+      ...sourceArgs,
+      '-c', String(options.count ?? 1),
+      ...intervalArgs,
+      ...sizeArgs,
+      ...fragmentArgs,
+      '-W', String(timeoutSeconds),
+      target
+    ]);
 
     let stdout = '';
     let stderr = '';
@@ -84,3 +167,84 @@ export async function safePing(target: string): Promise<{ stdout: string }> {
     });
   });
 }
+
+/**
+ * Options for safeTraceroute
+ */
+export interface TracerouteOptions {
+  /** Force the address family (traceroute -4 / traceroute -6) */
+  family?: AddressFamily;
+  /** Give up after this many hops (default 20) */
+  maxHops?: number;
+  /** How long to wait for each hop, rounded up to whole seconds (default 2s) */
+  hopTimeoutMs?: number;
+}
+
+/**
+ * Hard limit on a whole traceroute run
+ * Hops that stop answering each cost the full hop timeout, so a run toward
+ * an unreachable host can otherwise take minutes
+ */
+const TRACEROUTE_DEADLINE_MS = 60000;
+
+/**
+ * Safely execute traceroute without shell injection risk
+ *
+ * Sends one probe per hop with numeric output (no reverse DNS, which may be
+ * down along with the link). When the run hits the deadline, the hops printed
+ * so far are still returned.
+ *
+ * @param target - IP address or hostname to trace
+ * @param options - Optional address family, hop limit and per-hop timeout
+ * @returns Promise resolving to { stdout } with one line per hop
+ * @throws Error if target is invalid or traceroute could not run
+ */
+export async function safeTraceroute(target: string, options: TracerouteOptions = {}): Promise<{ stdout: string }> {
+  if (!isSafeTarget(target)) {
+    throw new Error(`Invalid traceroute target: ${target}`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const familyArgs = options.family ? [options.family === 'ipv6' ? '-6' : '-4'] : [];
+    const hopTimeoutSeconds = options.hopTimeoutMs ? Math.max(1, Math.ceil(options.hopTimeoutMs / 1000)) : 2;
+    const proc = spawn('traceroute', [
+      ...familyArgs,
+      '-n',
+      '-q', '1',
+      '-w', String(hopTimeoutSeconds),
+      '-m', String(options.maxHops ?? 20),
+      target
+    ]);
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const deadline = setTimeout(() => {
+      timedOut = true;
+      proc.kill();
+    }, TRACEROUTE_DEADLINE_MS);
+
+    proc.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    proc.on('error', (err) => {
+      clearTimeout(deadline);
+      reject(new Error(`Failed to spawn traceroute process: ${err.message}`));
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(deadline);
+      if (code === 0 || timedOut) {
+        resolve({ stdout });
+      } else {
+        reject(new Error(`Traceroute failed with code ${code}: ${stderr || 'unknown error'}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,214 @@
+import { isValidIPv4, isValidIPv6 } from '@/lib/utils/shell';
+
+/**
+ * Supported monitoring target types
+ * Matches the comment on MonitoringTarget.type in the Prisma schema
+ */
+export const TARGET_TYPES = ['dns', 'domain', 'ip', 'http', 'https', 'tcp'] as const;
+
+export type TargetType = (typeof TARGET_TYPES)[number];
+
+/**
+ * Record types a dns target can query
+ */
+export const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'NS', 'TXT'] as const;
+
+export type DnsRecordType = (typeof DNS_RECORD_TYPES)[number];
+
+/**
+ * IP versions a target can be monitored over
+ * Connectivity is tracked separately for each family
+ */
+export const ADDRESS_FAMILIES = ['ipv4', 'ipv6'] as const;
+
+export type AddressFamily = (typeof ADDRESS_FAMILIES)[number];
+
+/**
+ * Hostname validation per RFC 1123 (labels of up to 63 characters)
+ */
+const DOMAIN_REGEX = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+
+/**
+ * Targets starting with a scheme (e.g. https://) are treated as URLs
+ */
+const URL_SCHEME_REGEX = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//;
+
+export type TargetValidationResult =
+  | { valid: true; suggestedType: TargetType }
+  | { valid: false; error: string };
+
+/**
+ * Whether a target type is probed with an HTTP request instead of ping
+ */
+export function isUrlTargetType(type: string): type is 'http' | 'https' {
+  return type === 'http' || type === 'https';
+}
+
+/**
+ * Split a tcp target of the form host:port (or [ipv6]:port)
+ * Returns null when the target has no valid port
+ */
+export function parseHostPort(target: string): { host: string; port: number } | null {
+  const match = target.match(/^\[([^\]]+)\]:(\d{1,5})$/) ?? target.match(/^([^:]+):(\d{1,5})$/);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+
+  const port = parseInt(match[2], 10);
+  if (port < 1 || port > 65535) {
+    return null;
+  }
+
+  return { host: match[1], port };
+}
+
+/**
+ * Validate a hostname or IP address
+ */
+function validateHost(host: string): TargetValidationResult {
+  // Detect malformed IP addresses (all digits and dots but wrong format)
+  const looksLikeMalformedIP = /^[\d.]+$/.test(host) && !isValidIPv4(host);
+
+  if (looksLikeMalformedIP) {
+    return {
+      valid: false,
+      error: 'Invalid IP address format. Must have exactly 4 octets (0-255) separated by dots.',
+    };
+  }
+
+  if (isValidIPv4(host) || isValidIPv6(host)) {
+    return { valid: true, suggestedType: 'ip' };
+  }
+
+  if (DOMAIN_REGEX.test(host)) {
+    return { valid: true, suggestedType: 'domain' };
+  }
+
+  return {
+    valid: false,
+    error: 'Invalid target format. Must be a valid IP address, domain name or URL.',
+  };
+}
+
+/**
+ * Validate an http:// or https:// URL target
+ */
+function validateUrl(target: string): TargetValidationResult {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return { valid: false, error: 'Invalid URL format.' };
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { valid: false, error: 'URL targets must use http:// or https://.' };
+  }
+
+  if (url.username || url.password) {
+    return { valid: false, error: 'URL targets must not contain credentials.' };
+  }
+
+  // IPv6 hosts come back in brackets ([2001:db8::1])
+  const hostResult = validateHost(url.hostname.replace(/^\[(.*)\]$/, '$1'));
+  if (!hostResult.valid) {
+    return hostResult;
+  }
+
+  return { valid: true, suggestedType: url.protocol === 'https:' ? 'https' : 'http' };
+}
+
+/**
+ * Validate a host:port target
+ */
+function validateHostPort(target: string): TargetValidationResult {
+  const hostPort = parseHostPort(target);
+  if (!hostPort) {
+    return { valid: false, error: 'TCP targets must be host:port (or [ipv6]:port) with a port between 1 and 65535.' };
+  }
+
+  const hostResult = validateHost(hostPort.host);
+  if (!hostResult.valid) {
+    return hostResult;
+  }
+
+  return { valid: true, suggestedType: 'tcp' };
+}
+
+/**
+ * Validate the format of a monitoring target
+ *
+ * Accepts IPv4/IPv6 addresses, hostnames, host:port pairs and http(s) URLs. When a
+ * type is given, the target must also be compatible with it: URL types need a
+ * URL with the matching scheme, tcp needs host:port, dns needs the resolver's
+ * IP address, and every other type needs a bare host.
+ */
+export function validateTarget(target: string, type?: TargetType): TargetValidationResult {
+  const isUrl = URL_SCHEME_REGEX.test(target);
+  const isHostPort = !isUrl && (type === 'tcp' || /^\[.+\]:\d+$|^[^:]+:\d+$/.test(target));
+  const result = isUrl
+    ? validateUrl(target)
+    : isHostPort
+    ? validateHostPort(target)
+    : validateHost(target);
+
+  if (!result.valid || !type) {
+    return result;
+  }
+
+  if (isUrlTargetType(type)) {
+    if (result.suggestedType !== type) {
+      return {
+        valid: false,
+        error: `Targets of type ${type.toUpperCase()} must be a ${type}:// URL.`,
+      };
+    }
+  } else if (isUrl) {
+    return {
+      valid: false,
+      error: 'URL targets must use the HTTP or HTTPS type.',
+    };
+  } else if (isHostPort && type !== 'tcp') {
+    return {
+      valid: false,
+      error: 'host:port targets must use the TCP type.',
+    };
+  } else if (type === 'dns' && result.suggestedType !== 'ip') {
+    return {
+      valid: false,
+      error: 'DNS targets must be the IP address of the resolver to query.',
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Host part of a target: the hostname of a URL, the host of host:port,
+ * or the target itself. IPv6 hosts are returned without brackets
+ * Returns null for a URL that cannot be parsed
+ */
+export function getTargetHost(target: string): string | null {
+  if (URL_SCHEME_REGEX.test(target)) {
+    try {
+      return new URL(target).hostname.replace(/^\[(.*)\]$/, '$1');
+    } catch {
+      return null;
+    }
+  }
+
+  return parseHostPort(target)?.host ?? target;
+}
+
+/**
+ * Address family implied by a target that is (or points at) an IP literal
+ * Returns null for hostnames, which can be monitored over either family
+ */
+export function getTargetAddressFamily(target: string): AddressFamily | null {
+  const host = getTargetHost(target);
+  if (!host) return null;
+
+  if (isValidIPv4(host)) return 'ipv4';
+  if (isValidIPv6(host)) return 'ipv6';
+  return null;
+}
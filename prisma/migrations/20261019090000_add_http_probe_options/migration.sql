@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "MonitoringTarget" ADD COLUMN "httpMethod" TEXT;
+ALTER TABLE "MonitoringTarget" ADD COLUMN "expectedStatus" INTEGER;
+ALTER TABLE "MonitoringTarget" ADD COLUMN "bodyMatch" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "MonitoringTarget" ADD COLUMN "dnsQueryName" TEXT;
+ALTER TABLE "MonitoringTarget" ADD COLUMN "dnsRecordType" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ConnectionCheck" ADD COLUMN "addressFamily" TEXT NOT NULL DEFAULT 'ipv4';
+
+-- AlterTable
+ALTER TABLE "MonitoringTarget" ADD COLUMN "addressFamily" TEXT NOT NULL DEFAULT 'ipv4';
+
+-- CreateIndex
+CREATE INDEX "ConnectionCheck_addressFamily_timestamp_idx" ON "ConnectionCheck"("addressFamily", "timestamp");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "probeAllTargets" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Settings" ADD COLUMN "probeConcurrency" INTEGER NOT NULL DEFAULT 4;
+ALTER TABLE "Settings" ADD COLUMN "probeTimeoutMs" INTEGER NOT NULL DEFAULT 5000;
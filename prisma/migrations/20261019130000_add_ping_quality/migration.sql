@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ConnectionCheck" ADD COLUMN "jitterMs" REAL;
+ALTER TABLE "ConnectionCheck" ADD COLUMN "packetLossPct" REAL;
+
+-- AlterTable
+ALTER TABLE "MonitoringTarget" ADD COLUMN "pingCount" INTEGER;
+ALTER TABLE "MonitoringTarget" ADD COLUMN "pingIntervalMs" INTEGER;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "OutagePath" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "outageId" INTEGER NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "phase" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "hops" TEXT NOT NULL,
+    "error" TEXT,
+    CONSTRAINT "OutagePath_outageId_fkey" FOREIGN KEY ("outageId") REFERENCES "Outage" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OutagePath_outageId_timestamp_idx" ON "OutagePath"("outageId", "timestamp");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Outage" ADD COLUMN "classification" TEXT;
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "gatewayTarget" TEXT;
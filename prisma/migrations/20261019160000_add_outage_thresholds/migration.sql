@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "outageFailureThreshold" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Settings" ADD COLUMN "outageRecoveryThreshold" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Settings" ADD COLUMN "outageMinFailedTargets" INTEGER;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "DegradedPeriod" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "durationSec" INTEGER,
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT NOT NULL,
+    "peakLatencyMs" REAL,
+    "peakPacketLossPct" REAL,
+    "emailSent" BOOLEAN NOT NULL DEFAULT false
+);
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "degradedLatencyMs" INTEGER;
+ALTER TABLE "Settings" ADD COLUMN "degradedPacketLossPct" REAL;
+ALTER TABLE "Settings" ADD COLUMN "degradedWindowChecks" INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE "Settings" ADD COLUMN "notifyDegraded" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "DegradedPeriod_isResolved_startTime_idx" ON "DegradedPeriod"("isResolved", "startTime");
+
+-- CreateIndex
+CREATE INDEX "DegradedPeriod_startTime_idx" ON "DegradedPeriod"("startTime");
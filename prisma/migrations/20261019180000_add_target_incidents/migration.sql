@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TargetIncident" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "targetId" INTEGER NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "durationSec" INTEGER,
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "checksCount" INTEGER NOT NULL DEFAULT 1,
+    "lastError" TEXT,
+    CONSTRAINT "TargetIncident_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "MonitoringTarget" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TargetIncident_targetId_startTime_idx" ON "TargetIncident"("targetId", "startTime");
+
+-- CreateIndex
+CREATE INDEX "TargetIncident_isResolved_idx" ON "TargetIncident"("isResolved");
@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "TargetGroup" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "rule" TEXT NOT NULL DEFAULT 'any',
+    "quorum" INTEGER,
+    "notify" BOOLEAN NOT NULL DEFAULT true,
+    "notifyEmail" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "GroupCheck" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "groupId" INTEGER NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isUp" BOOLEAN NOT NULL,
+    "targetsUp" INTEGER NOT NULL,
+    "targetsDown" INTEGER NOT NULL,
+    CONSTRAINT "GroupCheck_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "TargetGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "GroupIncident" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "groupId" INTEGER NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "durationSec" INTEGER,
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "emailSent" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "GroupIncident_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "TargetGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_MonitoringTarget" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "target" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "addressFamily" TEXT NOT NULL DEFAULT 'ipv4',
+    "httpMethod" TEXT,
+    "expectedStatus" INTEGER,
+    "bodyMatch" TEXT,
+    "pingCount" INTEGER,
+    "pingIntervalMs" INTEGER,
+    "dnsQueryName" TEXT,
+    "dnsRecordType" TEXT,
+    "groupId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "MonitoringTarget_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "TargetGroup" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_MonitoringTarget" ("id", "target", "displayName", "type", "isEnabled", "priority", "addressFamily", "httpMethod", "expectedStatus", "bodyMatch", "pingCount", "pingIntervalMs", "dnsQueryName", "dnsRecordType", "createdAt", "updatedAt") SELECT "id", "target", "displayName", "type", "isEnabled", "priority", "addressFamily", "httpMethod", "expectedStatus", "bodyMatch", "pingCount", "pingIntervalMs", "dnsQueryName", "dnsRecordType", "createdAt", "updatedAt" FROM "MonitoringTarget";
+DROP TABLE "MonitoringTarget";
+ALTER TABLE "new_MonitoringTarget" RENAME TO "MonitoringTarget";
+CREATE UNIQUE INDEX "MonitoringTarget_target_key" ON "MonitoringTarget"("target");
+CREATE INDEX "MonitoringTarget_isEnabled_idx" ON "MonitoringTarget"("isEnabled");
+CREATE INDEX "MonitoringTarget_priority_idx" ON "MonitoringTarget"("priority");
+CREATE INDEX "MonitoringTarget_isEnabled_priority_idx" ON "MonitoringTarget"("isEnabled", "priority");
+CREATE INDEX "MonitoringTarget_groupId_idx" ON "MonitoringTarget"("groupId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TargetGroup_name_key" ON "TargetGroup"("name");
+
+-- CreateIndex
+CREATE INDEX "GroupCheck_groupId_timestamp_idx" ON "GroupCheck"("groupId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "GroupCheck_timestamp_idx" ON "GroupCheck"("timestamp");
+
+-- CreateIndex
+CREATE INDEX "GroupIncident_groupId_startTime_idx" ON "GroupIncident"("groupId", "startTime");
+
+-- CreateIndex
+CREATE INDEX "GroupIncident_isResolved_idx" ON "GroupIncident"("isResolved");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "WanLink" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "interface" TEXT,
+    "sourceAddress" TEXT,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "WanLinkCheck" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "wanLinkId" INTEGER NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isConnected" BOOLEAN NOT NULL,
+    "latencyMs" INTEGER,
+    "target" TEXT NOT NULL,
+    CONSTRAINT "WanLinkCheck_wanLinkId_fkey" FOREIGN KEY ("wanLinkId") REFERENCES "WanLink" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "WanLinkOutage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "wanLinkId" INTEGER NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "durationSec" INTEGER,
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "checksCount" INTEGER NOT NULL DEFAULT 1,
+    CONSTRAINT "WanLinkOutage_wanLinkId_fkey" FOREIGN KEY ("wanLinkId") REFERENCES "WanLink" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WanLink_name_key" ON "WanLink"("name");
+
+-- CreateIndex
+CREATE INDEX "WanLinkCheck_wanLinkId_timestamp_idx" ON "WanLinkCheck"("wanLinkId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "WanLinkCheck_timestamp_idx" ON "WanLinkCheck"("timestamp");
+
+-- CreateIndex
+CREATE INDEX "WanLinkOutage_wanLinkId_startTime_idx" ON "WanLinkOutage"("wanLinkId", "startTime");
+
+-- CreateIndex
+CREATE INDEX "WanLinkOutage_isResolved_idx" ON "WanLinkOutage"("isResolved");
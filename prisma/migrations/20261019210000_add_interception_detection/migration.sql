@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "interceptionCheckEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Settings" ADD COLUMN "interceptionCheckUrl" TEXT NOT NULL DEFAULT 'http://connectivitycheck.gstatic.com/generate_204';
+ALTER TABLE "Settings" ADD COLUMN "interceptionExpectedStatus" INTEGER NOT NULL DEFAULT 204;
+ALTER TABLE "Settings" ADD COLUMN "interceptionBodyMatch" TEXT;
+ALTER TABLE "Settings" ADD COLUMN "interceptionDnsChecks" TEXT;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "PublicIpChange" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ipv4" TEXT,
+    "ipv6" TEXT,
+    "asn" TEXT,
+    "isp" TEXT,
+    "changedFields" TEXT NOT NULL DEFAULT ''
+);
+
+-- CreateIndex
+CREATE INDEX "PublicIpChange_timestamp_idx" ON "PublicIpChange"("timestamp");
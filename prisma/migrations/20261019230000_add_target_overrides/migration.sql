@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "MonitoringTarget" ADD COLUMN "checkIntervalSeconds" INTEGER;
+ALTER TABLE "MonitoringTarget" ADD COLUMN "timeoutMs" INTEGER;
+ALTER TABLE "MonitoringTarget" ADD COLUMN "retries" INTEGER;
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "Agent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastSeenAt" DATETIME,
+    "lastResultAt" DATETIME,
+    "isStale" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "AgentCheck" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "agentId" INTEGER NOT NULL,
+    "timestamp" DATETIME NOT NULL,
+    "isConnected" BOOLEAN NOT NULL,
+    "latencyMs" INTEGER,
+    "packetLossPct" REAL,
+    "target" TEXT NOT NULL,
+    CONSTRAINT "AgentCheck_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AgentOutage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "agentId" INTEGER NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "durationSec" INTEGER,
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "checksCount" INTEGER NOT NULL DEFAULT 1,
+    CONSTRAINT "AgentOutage_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AgentOutbox" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "timestamp" DATETIME NOT NULL,
+    "isConnected" BOOLEAN NOT NULL,
+    "latencyMs" INTEGER,
+    "packetLossPct" REAL,
+    "target" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Agent_name_key" ON "Agent"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Agent_tokenHash_key" ON "Agent"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "AgentCheck_agentId_timestamp_idx" ON "AgentCheck"("agentId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "AgentCheck_timestamp_idx" ON "AgentCheck"("timestamp");
+
+-- CreateIndex
+CREATE INDEX "AgentOutage_agentId_startTime_idx" ON "AgentOutage"("agentId", "startTime");
+
+-- CreateIndex
+CREATE INDEX "AgentOutage_isResolved_idx" ON "AgentOutage"("isResolved");
+
+-- CreateIndex
+CREATE INDEX "AgentOutbox_timestamp_idx" ON "AgentOutbox"("timestamp");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PathMtuCheck" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "target" TEXT NOT NULL,
+    "mtu" INTEGER,
+    "error" TEXT
+);
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "pathMtuEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Settings" ADD COLUMN "pathMtuTargets" TEXT;
+ALTER TABLE "Settings" ADD COLUMN "pathMtuIntervalSeconds" INTEGER NOT NULL DEFAULT 3600;
+ALTER TABLE "Settings" ADD COLUMN "pathMtuAlertBelow" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "PathMtuCheck_target_timestamp_idx" ON "PathMtuCheck"("target", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "PathMtuCheck_timestamp_idx" ON "PathMtuCheck"("timestamp");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "SpeedTest" ADD COLUMN "idleLatencyMs" REAL;
+ALTER TABLE "SpeedTest" ADD COLUMN "downloadLatencyMs" REAL;
+ALTER TABLE "SpeedTest" ADD COLUMN "uploadLatencyMs" REAL;
+ALTER TABLE "SpeedTest" ADD COLUMN "ooklaDownloadLatencyMs" REAL;
+ALTER TABLE "SpeedTest" ADD COLUMN "ooklaUploadLatencyMs" REAL;
+ALTER TABLE "SpeedTest" ADD COLUMN "bufferbloatGrade" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "LatencyAnomaly" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "target" TEXT NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "durationSec" INTEGER,
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "baselineMs" REAL NOT NULL,
+    "baselineStdDev" REAL NOT NULL,
+    "peakLatencyMs" REAL NOT NULL,
+    "peakZScore" REAL NOT NULL,
+    "emailSent" BOOLEAN NOT NULL DEFAULT false
+);
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "anomalyEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Settings" ADD COLUMN "anomalyZScore" REAL NOT NULL DEFAULT 3;
+ALTER TABLE "Settings" ADD COLUMN "anomalyWindowChecks" INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE "Settings" ADD COLUMN "anomalyBaselineDays" INTEGER NOT NULL DEFAULT 14;
+ALTER TABLE "Settings" ADD COLUMN "notifyAnomaly" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "LatencyAnomaly_target_isResolved_idx" ON "LatencyAnomaly"("target", "isResolved");
+
+-- CreateIndex
+CREATE INDEX "LatencyAnomaly_startTime_idx" ON "LatencyAnomaly"("startTime");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Outage" ADD COLUMN "rootCause" TEXT;
+ALTER TABLE "Outage" ADD COLUMN "notes" TEXT;
+ALTER TABLE "Outage" ADD COLUMN "ispTicket" TEXT;
+
+-- CreateTable
+CREATE TABLE "OutageTag" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "outageId" INTEGER NOT NULL,
+    "tag" TEXT NOT NULL,
+    CONSTRAINT "OutageTag_outageId_fkey" FOREIGN KEY ("outageId") REFERENCES "Outage" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Outage_rootCause_idx" ON "Outage"("rootCause");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutageTag_outageId_tag_key" ON "OutageTag"("outageId", "tag");
+
+-- CreateIndex
+CREATE INDEX "OutageTag_tag_idx" ON "OutageTag"("tag");
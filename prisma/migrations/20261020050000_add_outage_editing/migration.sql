@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Outage" ADD COLUMN "isExcluded" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "OutageAudit" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "outageId" INTEGER NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "action" TEXT NOT NULL,
+    "userEmail" TEXT,
+    "details" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "OutageAudit_outageId_timestamp_idx" ON "OutageAudit"("outageId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "OutageAudit_timestamp_idx" ON "OutageAudit"("timestamp");
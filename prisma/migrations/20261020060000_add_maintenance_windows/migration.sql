@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Outage" ADD COLUMN "isPlanned" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "GroupIncident" ADD COLUMN "isPlanned" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TargetIncident" ADD COLUMN "isPlanned" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "MaintenanceWindow" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "description" TEXT NOT NULL,
+    "startTime" DATETIME NOT NULL,
+    "durationMin" INTEGER NOT NULL,
+    "recurrence" TEXT NOT NULL DEFAULT 'none',
+    "repeatUntil" DATETIME,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "targetId" INTEGER,
+    "groupId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "MaintenanceWindow_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "MonitoringTarget" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "MaintenanceWindow_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "TargetGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenanceWindow_isEnabled_idx" ON "MaintenanceWindow"("isEnabled");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "MonitorHeartbeat" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "timestamp" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "MonitoringGap" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME NOT NULL,
+    "durationSec" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "MonitoringGap_startTime_idx" ON "MonitoringGap"("startTime");
+
+-- CreateIndex
+CREATE INDEX "MonitoringGap_endTime_idx" ON "MonitoringGap"("endTime");
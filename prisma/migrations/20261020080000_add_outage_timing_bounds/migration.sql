@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Outage" ADD COLUMN "startLastGoodAt" DATETIME;
+ALTER TABLE "Outage" ADD COLUMN "endLastBadAt" DATETIME;
+ALTER TABLE "Outage" ADD COLUMN "conservativeDurationSec" INTEGER;
+ALTER TABLE "Outage" ADD COLUMN "estimatedDurationSec" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "outageDurationMode" TEXT NOT NULL DEFAULT 'recorded';
+
+-- Existing outages have no known bounds, so their recorded times are exact
+UPDATE "Outage" SET "conservativeDurationSec" = "durationSec", "estimatedDurationSec" = "durationSec";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ConnectionCheck" ADD COLUMN "targetId" INTEGER;
+
+-- Target names are unique, so existing checks can be matched to their target
+UPDATE "ConnectionCheck" SET "targetId" = (
+  SELECT "id" FROM "MonitoringTarget" WHERE "MonitoringTarget"."target" = "ConnectionCheck"."target"
+);
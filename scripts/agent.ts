@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+
+// Run WanWatch as a headless probe agent: monitoring without the web UI,
+// with results pushed to the central instance set in AGENT_CENTRAL_URL
+import 'dotenv/config';
+import { startMonitoring, stopMonitoring } from '../lib/monitoring/scheduler';
+import { isAgentMode } from '../lib/monitoring/agent-reporter';
+import { env } from '../lib/env';
+
+async function main() {
+  if (!isAgentMode()) {
+    console.error('Error: AGENT_CENTRAL_URL and AGENT_TOKEN must both be set');
+    process.exit(1);
+  }
+
+  await startMonitoring();
+  console.log(`✅ Agent running, reporting to ${env.AGENT_CENTRAL_URL}`);
+
+  const shutdown = () => {
+    stopMonitoring();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Agent failed to start:', error);
+  process.exit(1);
+});
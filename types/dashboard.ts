@@ -12,7 +12,10 @@ export interface ConnectionCheck {
   timestamp: Date | string;
   isConnected: boolean;
   latencyMs: number | null;
+  packetLossPct: number | null;
+  jitterMs: number | null;
   target: string;
+  addressFamily: 'ipv4' | 'ipv6';
 }
 
 /**
@@ -21,12 +24,262 @@ export interface ConnectionCheck {
  */
 export interface Outage {
   id: number;
+  /** First failed check */
   startTime: Date | string;
+  /** First successful check, null while in progress */
   endTime: Date | string | null;
   durationSec: number | null;
+  /** Last successful check before the outage, null when not known */
+  startLastGoodAt: Date | string | null;
+  /** Last failed check, null when not known or still in progress */
+  endLastBadAt: Date | string | null;
+  /** Midpoints of the start and end bounds - the recorded times when a bound is not known */
+  estimatedStartTime: Date | string;
+  estimatedEndTime: Date | string | null;
+  /** Time between the first and last failed checks */
+  conservativeDurationSec: number | null;
+  /** Time between the estimated start and end */
+  estimatedDurationSec: number | null;
   isResolved: boolean;
   checksCount: number;
   emailSent: boolean;
+  /**
+   * local when the LAN gateway was unreachable, upstream when only the internet
+   * was, intercepted when a captive portal or DNS hijack answered instead
+   */
+  classification: 'local' | 'upstream' | 'intercepted' | null;
+  /** Root cause recorded by a user, null until someone sets it */
+  rootCause: 'isp' | 'power' | 'local_equipment' | 'planned' | 'unknown' | null;
+  notes: string | null;
+  ispTicket: string | null;
+  tags: string[];
+  /** Marked by a user as a false positive - left out of outage statistics */
+  isExcluded: boolean;
+  /** Started during a maintenance window - no notifications, left out of outage statistics */
+  isPlanned: boolean;
+  /** Number of captured network paths, included in outage history */
+  pathCount?: number;
+}
+
+/**
+ * Resolved outages and downtime for one root cause
+ * Outages nobody has annotated are counted under a null root cause
+ */
+export interface OutageCauseSummary {
+  rootCause: Outage['rootCause'];
+  count: number;
+  totalDowntimeSec: number;
+}
+
+/**
+ * Outages matching a filter, with totals per root cause
+ * Returned by the /api/outages endpoint
+ */
+export interface OutageList {
+  outages: Outage[];
+  causes: OutageCauseSummary[];
+}
+
+/**
+ * A single hop of a captured network path
+ * Address and round trip time are null when the hop did not answer
+ */
+export interface OutagePathHop {
+  hop: number;
+  address: string | null;
+  rttMs: number | null;
+}
+
+/**
+ * Network path traced toward the primary target during an outage
+ * Matches the OutagePath model in Prisma schema, with hops parsed
+ */
+export interface OutagePath {
+  id: number;
+  timestamp: Date | string;
+  phase: 'start' | 'during' | 'recovery';
+  target: string;
+  hops: OutagePathHop[];
+  error: string | null;
+}
+
+/**
+ * An outage with the network paths captured while it lasted
+ * Returned by the /api/outages/[id] endpoint
+ */
+export interface OutageDetail extends Outage {
+  paths: OutagePath[];
+  auditTrail: OutageAuditEntry[];
+}
+
+/**
+ * A manual change to an outage
+ * Matches the OutageAudit model in Prisma schema, with details parsed
+ */
+export interface OutageAuditEntry {
+  id: number;
+  outageId: number;
+  timestamp: Date | string;
+  action: 'updated' | 'merged' | 'split' | 'deleted';
+  userEmail: string | null;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Represents a degraded period - the connection was up but slow or lossy
+ * Matches the DegradedPeriod model in Prisma schema
+ */
+export interface DegradedPeriod {
+  id: number;
+  startTime: Date | string;
+  endTime: Date | string | null;
+  durationSec: number | null;
+  isResolved: boolean;
+  reason: 'latency' | 'packet_loss' | 'latency_and_packet_loss';
+  /** Worst rolling-window averages seen while the period lasted */
+  peakLatencyMs: number | null;
+  peakPacketLossPct: number | null;
+  emailSent: boolean;
+}
+
+/**
+ * Represents a latency anomaly - a target's latency was far above its
+ * normal latency for that hour of day
+ * Matches the LatencyAnomaly model in Prisma schema
+ */
+export interface LatencyAnomaly {
+  id: number;
+  target: string;
+  startTime: Date | string;
+  endTime: Date | string | null;
+  durationSec: number | null;
+  isResolved: boolean;
+  /** Learned mean and standard deviation for the hour the anomaly started */
+  baselineMs: number;
+  baselineStdDev: number;
+  /** Worst rolling-window average seen while the anomaly lasted */
+  peakLatencyMs: number;
+  peakZScore: number;
+  emailSent: boolean;
+}
+
+/**
+ * A period when a single monitoring target failed its checks
+ * Matches the TargetIncident model in Prisma schema
+ */
+export interface TargetIncident {
+  id: number;
+  startTime: Date | string;
+  endTime: Date | string | null;
+  durationSec: number | null;
+  isResolved: boolean;
+  checksCount: number;
+  lastError: string | null;
+}
+
+/**
+ * Average latency of a target over one hour
+ * Null when the target recorded no successful checks in that hour
+ */
+export interface TargetLatencyPoint {
+  timestamp: Date | string;
+  avgLatencyMs: number | null;
+  checks: number;
+}
+
+/**
+ * Availability history of a single monitoring target
+ * Returned by the /api/settings/targets/[id] endpoint
+ */
+export interface TargetDetail {
+  target: {
+    id: number;
+    target: string;
+    displayName: string;
+    type: string;
+    isEnabled: boolean;
+    addressFamily: 'ipv4' | 'ipv6';
+  };
+  /** Percentage of the window without an incident, null before the target existed */
+  availability24h: number | null;
+  availability7d: number | null;
+  latencyTrend: TargetLatencyPoint[];
+  incidents: TargetIncident[];
+}
+
+/**
+ * Current state of a target group
+ * Included in the /api/stats response
+ */
+export interface GroupStatus {
+  id: number;
+  name: string;
+  rule: 'any' | 'all' | 'quorum';
+  quorum: number | null;
+  targetCount: number;
+  /** Verdict of the latest decided check, null before the group was first checked */
+  isUp: boolean | null;
+  lastCheckedAt: Date | string | null;
+  /** Start of the open group incident, if the group is down */
+  downSince: Date | string | null;
+}
+
+/**
+ * Current state of a WAN link
+ * Included in the /api/stats response
+ */
+export interface WanLinkStatus {
+  id: number;
+  name: string;
+  /** Result of the latest check, null before the link was first checked */
+  isUp: boolean | null;
+  latencyMs: number | null;
+  lastCheckedAt: Date | string | null;
+  /** Start of the open link outage, if the link is down */
+  downSince: Date | string | null;
+  /** Percentage of checks in the last 24 hours that got an answer, null without checks */
+  uptime24h: number | null;
+}
+
+/**
+ * Current state of a remote probe agent
+ */
+export interface AgentStatus {
+  id: number;
+  name: string;
+  /** Result of the latest reported check, null before the agent first reported */
+  isUp: boolean | null;
+  latencyMs: number | null;
+  lastResultAt: Date | string | null;
+  /** Last time the agent uploaded results */
+  lastSeenAt: Date | string | null;
+  /** Whether the agent's results stopped arriving */
+  isStale: boolean;
+  /** Start of the open agent outage, if the site is down */
+  downSince: Date | string | null;
+  /** Percentage of reported checks in the last 24 hours that connected, null without checks */
+  uptime24h: number | null;
+}
+
+/**
+ * Latest path MTU measured toward a target
+ */
+export interface PathMtuStatus {
+  target: string;
+  /** Largest packet that got through unfragmented, null when the target did not answer */
+  mtu: number | null;
+  timestamp: Date | string;
+}
+
+/**
+ * Maintenance window in progress
+ */
+export interface MaintenanceStatus {
+  id: number;
+  description: string;
+  /** Target or group the window is limited to, null for the whole connection */
+  scope: string | null;
+  endTime: Date | string;
 }
 
 /**
@@ -39,6 +292,15 @@ export interface LatestSpeedTest {
   timestamp: Date | string;
 }
 
+/**
+ * Uptime percentage for each address family
+ * Null when no checks were recorded for that family in the window
+ */
+export interface FamilyUptime {
+  ipv4: number | null;
+  ipv6: number | null;
+}
+
 /**
  * Dashboard statistics aggregated from the database
  * Returned by the /api/stats endpoint
@@ -46,11 +308,26 @@ export interface LatestSpeedTest {
 export interface Stats {
   totalOutages: number;
   activeOutage: Outage | null;
+  activeDegradedPeriod: DegradedPeriod | null;
+  activeLatencyAnomalies: LatencyAnomaly[];
+  /**
+   * Which outage durations the totals use - recorded from the first failed
+   * to the first successful check, conservative or estimated
+   */
+  durationMode: 'recorded' | 'conservative' | 'estimated';
   totalDowntimeSec: number;
   avgOutageDurationSec: number;
   recentChecks: ConnectionCheck[];
   outageHistory: Outage[];
   latestSpeedTest: LatestSpeedTest | null;
+  uptime24h: FamilyUptime;
+  /** Seconds in the uptime window when monitoring was not running */
+  unmonitoredSec24h: number;
+  groups: GroupStatus[];
+  wanLinks: WanLinkStatus[];
+  agents: AgentStatus[];
+  pathMtu: PathMtuStatus[];
+  activeMaintenance: MaintenanceStatus[];
 }
 
 /**
@@ -68,6 +345,42 @@ export interface NetworkInfo {
   asn: string;
 }
 
+/**
+ * One recorded public IP observation
+ * Returned by the /api/network-info/history endpoint, newest first
+ */
+export interface PublicIpChange {
+  id: number;
+  timestamp: Date | string;
+  ipv4: string | null;
+  ipv6: string | null;
+  asn: string | null;
+  isp: string | null;
+  /** Fields that differ from the previous observation, empty for the first one */
+  changedFields: Array<'ipv4' | 'ipv6' | 'asn' | 'isp'>;
+}
+
+/**
+ * A public IP change marked on the timeline chart
+ * Returned by the /api/stats/chart-data endpoint
+ */
+export interface IpChangeMarker {
+  timestamp: Date | string;
+  changedFields: PublicIpChange['changedFields'];
+}
+
+/**
+ * A latency anomaly drawn on the timeline chart
+ * Anomalies still open have no end time
+ * Returned by the /api/stats/chart-data endpoint
+ */
+export interface LatencyAnomalyMarker {
+  target: string;
+  startTime: Date | string;
+  endTime: Date | string | null;
+  peakZScore: number;
+}
+
 /**
  * Chart data point for the timeline visualization
  * Used in the connection status timeline chart
@@ -75,9 +388,45 @@ export interface NetworkInfo {
 export interface ChartDataPoint {
   timestamp: Date | string;
   isConnected: boolean;
+  /** Average over the point's ping checks, null when none measured it */
+  packetLossPct?: number | null;
+  jitterMs?: number | null;
+  /** Whether the point falls within a degraded period */
+  isDegraded?: boolean;
+  /** Set when monitoring was not running - the connection state is unknown */
+  isUnmonitored?: boolean;
   bucket?: number;
 }
 
+/**
+ * Timeline of one target group's verdicts
+ * Returned by the /api/stats/chart-data endpoint alongside the overall timeline
+ */
+export interface GroupChartSeries {
+  groupId: number;
+  name: string;
+  chartData: ChartDataPoint[];
+}
+
+/**
+ * Timeline of one WAN link's checks
+ * Returned by the /api/stats/chart-data endpoint alongside the overall timeline
+ */
+export interface WanLinkChartSeries {
+  wanLinkId: number;
+  name: string;
+  chartData: ChartDataPoint[];
+}
+
+/**
+ * Connectivity chart data reported by one remote agent
+ */
+export interface AgentChartSeries {
+  agentId: number;
+  name: string;
+  chartData: ChartDataPoint[];
+}
+
 /**
  * Time period options for filtering dashboard data
  */